@@ -13,6 +13,19 @@ require('dotenv').config();
 const PDFContextSearchService = require('./services/searchService'); // Your enhanced search service
 const EnhancedUniversityProcessor = require('./services/pdfProcessor'); // Your enhanced PDF processor
 const ComparisonService = require('./services/comparisonService');
+const YearComparisonService = require('./services/yearComparisonService');
+const RecommendationService = require('./services/recommendationService');
+const FundingService = require('./services/fundingService');
+const APSCalculator = require('./services/apsCalculator');
+const ProgrammeService = require('./services/programmeService');
+const DeadlineService = require('./services/deadlineService');
+const EligibilityService = require('./services/eligibilityService');
+const UniversityRegistry = require('./services/universityRegistry');
+const ConversationService = require('./services/conversationService');
+const ProspectusRegistry = require('./services/prospectusRegistry');
+const AdminGuard = require('./services/adminGuard');
+const JobQueue = require('./services/jobQueue');
+const EventStream = require('./services/eventStream');
 
 // Initialize Express app
 const app = express();
@@ -33,10 +46,53 @@ app.use(express.urlencoded({ extended: true }));
 let searchService;
 let pdfProcessor;
 let comparisonService;
+let yearComparisonService;
+let programmeService;
+let deadlineService;
+let eligibilityService;
+let universityRegistry;
+let recommendationService;
+let conversationService;
+let prospectusRegistry;
+let jobQueue;
 
+try {
+    programmeService = new ProgrammeService();
+    console.log('✅ ProgrammeService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize ProgrammeService:', error.message);
+    programmeService = null;
+}
+
+try {
+    deadlineService = new DeadlineService(programmeService || undefined);
+    console.log('✅ DeadlineService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize DeadlineService:', error.message);
+    deadlineService = null;
+}
+
+try {
+    eligibilityService = new EligibilityService(programmeService || undefined);
+    console.log('✅ EligibilityService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize EligibilityService:', error.message);
+    eligibilityService = null;
+}
+
+try {
+    universityRegistry = new UniversityRegistry(programmeService || undefined);
+    console.log('✅ UniversityRegistry initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize UniversityRegistry:', error.message);
+    universityRegistry = null;
+}
+
+// Answers need a configured model; without one the search service is left out and
+// only the AI routes are unavailable. The offline fake only runs when LLM_PROVIDER=fake
 try {
     console.log('🔧 Initializing PDF-Context SearchService...');
-    searchService = new PDFContextSearchService();
+    searchService = new PDFContextSearchService(universityRegistry || undefined);
     console.log('✅ PDF-Context SearchService initialized');
 } catch (error) {
     console.error('❌ Failed to initialize PDF-Context SearchService:', error.message);
@@ -45,7 +101,14 @@ try {
 
 try {
     console.log('🔧 Initializing Enhanced PDF Processor...');
-    pdfProcessor = new EnhancedUniversityProcessor();
+    if (!searchService) {
+        throw new Error('the PDF-Context SearchService it writes to is not available');
+    }
+    pdfProcessor = new EnhancedUniversityProcessor({
+        programmeService: programmeService || undefined,
+        universityRegistry: universityRegistry || undefined,
+        searchService
+    });
     console.log('✅ Enhanced PDF Processor initialized');
 } catch (error) {
     console.error('❌ Failed to initialize Enhanced PDF Processor:', error.message);
@@ -53,27 +116,119 @@ try {
 }
 
 try {
-    comparisonService = new ComparisonService();
+    comparisonService = new ComparisonService(universityRegistry || undefined);
     console.log('✅ ComparisonService initialized');
 } catch (error) {
     console.error('❌ Failed to initialize ComparisonService:', error.message);
     comparisonService = null;
 }
 
-// Auto-initialize PDFs function
-async function initializePDFs() {
+try {
+    yearComparisonService = new YearComparisonService(programmeService || undefined, universityRegistry || undefined);
+    console.log('✅ YearComparisonService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize YearComparisonService:', error.message);
+    yearComparisonService = null;
+}
+
+try {
+    recommendationService = new RecommendationService(programmeService || undefined, universityRegistry || undefined);
+    console.log('✅ RecommendationService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize RecommendationService:', error.message);
+    recommendationService = null;
+}
+
+try {
+    conversationService = new ConversationService({
+        summarize: searchService
+            ? (previousSummary, messages) => searchService.summarizeConversation(previousSummary, messages)
+            : null
+    });
+    console.log('✅ ConversationService initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize ConversationService:', error.message);
+    conversationService = null;
+}
+
+try {
+    prospectusRegistry = new ProspectusRegistry();
+    console.log('✅ ProspectusRegistry initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize ProspectusRegistry:', error.message);
+    prospectusRegistry = null;
+}
+
+try {
+    jobQueue = new JobQueue();
+    if (pdfProcessor && searchService) {
+        // One job at a time, so processing and uploads never write the indexes together
+        jobQueue.register('pdf-upload', pdfProcessor.getUploadJobHandler(searchService));
+        jobQueue.register('pdf-processing', {
+            stages: [{ name: 'process', run: async () => ({ result: await processRegisteredPDFs() }) }]
+        });
+    }
+    console.log('✅ JobQueue initialized');
+} catch (error) {
+    console.error('❌ Failed to initialize JobQueue:', error.message);
+    jobQueue = null;
+}
+
+// APS calculation has no external dependencies, so it is always available
+const apsCalculator = new APSCalculator();
+
+// Background PDF processing, reported by /health
+const pdfProcessing = { status: 'idle', startedAt: null, finishedAt: null, result: null, error: null };
+
+/**
+ * Process the registered documents that changed since the last run. Runs as a
+ * 'pdf-processing' job, so it never overlaps an upload. The processor writes into
+ * the server's own search service and registry; only deadlines are read from disk again.
+ */
+async function processRegisteredPDFs() {
+    console.log('🚀 Starting enhanced PDF processing with full AI capabilities...');
+    Object.assign(pdfProcessing, { status: 'running', startedAt: new Date().toISOString(), finishedAt: null, error: null });
+
     try {
-        if (pdfProcessor && pdfProcessor.processAllPDFs) {
-            console.log('🚀 Starting enhanced PDF processing with full AI capabilities...');
-            const result = await pdfProcessor.processAllPDFs();
-            console.log(`✅ Processed ${result.structuredCount} universities and ${result.aiDocCount} AI-enhanced document chunks`);
-            
+        const result = await pdfProcessor.processAllPDFs();
+        const summary = {
+            processed: result.processed,
+            unchanged: result.unchanged,
+            removed: result.removed,
+            skipped: result.skipped
+        };
+        Object.assign(pdfProcessing, { status: 'done', finishedAt: new Date().toISOString(), result: summary });
+        console.log(`✅ Processed ${result.processed.length} documents (${result.structuredCount} universities, ${result.aiDocCount} AI-enhanced document chunks), ${result.unchanged.length} unchanged`);
+        if (result.skipped.length > 0) {
+            console.log(`⚠️ Skipped ${result.skipped.length} registered documents: ${result.skipped.map(entry => entry.file).join(', ')}`);
+        }
+
+        // Nothing on disk changed, so the loaded data is still current
+        if (result.processed.length > 0 || result.removed.length > 0) {
+            if (deadlineService) {
+                await deadlineService.loadDeadlines();
+            }
+
             // Test the enhanced AI search functionality
             console.log('🧪 Testing Enhanced AI Search...');
             await pdfProcessor.testAISearch('What are the admission requirements for computer science programs?');
         }
+
+        return summary;
     } catch (error) {
-        console.error('❌ Failed to process PDFs on startup:', error.message);
+        Object.assign(pdfProcessing, { status: 'failed', finishedAt: new Date().toISOString(), error: error.message });
+        console.error('❌ Failed to process PDFs:', error.message);
+        throw error;
+    }
+}
+
+// Queue startup processing, unless a run interrupted by the last restart is already queued
+async function queuePDFProcessing() {
+    await jobQueue.ready;
+    const pending = jobQueue.list(Infinity)
+        .some(job => job.type === 'pdf-processing' && (job.status === 'queued' || job.status === 'running'));
+    if (!pending) {
+        await jobQueue.enqueue('pdf-processing', {}, { reason: 'startup' });
     }
 }
 
@@ -86,29 +241,74 @@ app.get('/health', (req, res) => {
         services: {
             searchService: !!searchService,
             pdfProcessor: !!pdfProcessor,
-            comparisonService: !!comparisonService
-        }
+            comparisonService: !!comparisonService,
+            yearComparisonService: !!yearComparisonService,
+            programmeService: !!programmeService,
+            deadlineService: !!deadlineService,
+            eligibilityService: !!eligibilityService,
+            universityRegistry: !!universityRegistry,
+            recommendationService: !!recommendationService,
+            conversationService: !!conversationService,
+            prospectusRegistry: !!prospectusRegistry,
+            jobQueue: !!jobQueue
+        },
+        pdfProcessing
     });
 });
 
+// Shared by /api/ask and /api/ask/stream - returns the problem, or null if the question is fine
+function validateQuestion(question) {
+    if (!question || typeof question !== 'string' || question.trim().length === 0) {
+        return 'Question is required and must be a non-empty string';
+    }
+    if (question.length > 1000) {
+        return 'Question is too long. Please keep it under 1000 characters.';
+    }
+    return null;
+}
+
+function buildAskMetadata(aiResult) {
+    return {
+        // The question as it was searched, after follow-ups are made standalone
+        retrievalQuery: aiResult.retrievalQuery || null,
+        documentsSearched: aiResult.documentsSearched || 0,
+        relevantDocuments: aiResult.relevantDocuments || 0,
+        searchSuccess: aiResult.success || false,
+        // Why each source was chosen: keyword and semantic ranks, fused score
+        retrieval: aiResult.retrieval || null
+    };
+}
+
+/**
+ * The conversation a question belongs to. A missing or expired sessionId starts
+ * a new conversation; null when conversations are unavailable.
+ */
+function resolveConversation(sessionId) {
+    if (!conversationService) return null;
+    const session = conversationService.getOrCreate(sessionId);
+    return { sessionId: session.id, context: conversationService.getContext(session.id) };
+}
+
+async function recordConversationTurn(conversation, question, aiResult) {
+    if (!conversation || !aiResult.success) return;
+    try {
+        await conversationService.addTurn(conversation.sessionId, question, aiResult.answer, aiResult.sources || []);
+    } catch (error) {
+        console.error('❌ Failed to record conversation turn:', error.message);
+    }
+}
+
 // Enhanced AI Ask endpoint
 app.post('/api/ask', async (req, res) => {
     try {
-        const { question } = req.body;
+        const { question, sessionId } = req.body;
         
         // Validate input
-        if (!question || typeof question !== 'string' || question.trim().length === 0) {
+        const validationError = validateQuestion(question);
+        if (validationError) {
             return res.status(400).json({
                 success: false,
-                error: 'Question is required and must be a non-empty string'
-            });
-        }
-        
-        // Check if question is too long
-        if (question.length > 1000) {
-            return res.status(400).json({
-                success: false,
-                error: 'Question is too long. Please keep it under 1000 characters.'
+                error: validationError
             });
         }
         
@@ -116,41 +316,37 @@ app.post('/api/ask', async (req, res) => {
         
         // Check if search service is available
         if (!searchService) {
-            console.log('SearchService unavailable, providing fallback response');
-            return res.json({
-                success: true,
-                data: {
-                    answer: `I understand you're asking about "${question.substring(0, 100)}${question.length > 100 ? '...' : ''}". Currently, our AI search service is initializing. For the most accurate information about South African universities, I recommend checking official university websites or contacting their admissions offices directly.`,
-                    sources: [{
-                        fileName: 'Fallback Response',
-                        universityName: 'General Information',
-                        relevantContent: 'Please check official university websites for current information.'
-                    }],
-                    searchType: 'fallback'
-                }
+            return res.status(503).json({
+                success: false,
+                error: 'AI search service is not available'
             });
         }
         
+        const conversation = resolveConversation(sessionId);
+
         // Perform enhanced AI search with timeout
-        const searchPromise = searchService.searchWithAI(question.trim(), { top: 5 });
+        const searchPromise = searchService.searchWithAI(question.trim(), {
+            top: 5,
+            conversation: conversation && conversation.context
+        });
         const timeoutPromise = new Promise((_, reject) => 
             setTimeout(() => reject(new Error('Request timeout')), 15000)
         );
         
         const aiResult = await Promise.race([searchPromise, timeoutPromise]);
+        await recordConversationTurn(conversation, question.trim(), aiResult);
         
         // Enhanced response format with additional metadata
         const response = {
             success: true,
             data: {
+                sessionId: conversation ? conversation.sessionId : null,
                 answer: aiResult.answer || 'I apologize, but I could not generate a response at this time.',
                 sources: aiResult.sources || [],
+                // Which claims in the answer the sources back up
+                grounding: aiResult.grounding || null,
                 searchType: aiResult.searchType || 'unknown',
-                metadata: {
-                    documentsSearched: aiResult.documentsSearched || 0,
-                    relevantDocuments: aiResult.relevantDocuments || 0,
-                    searchSuccess: aiResult.success || false
-                }
+                metadata: buildAskMetadata(aiResult)
             }
         };
         
@@ -184,6 +380,121 @@ app.post('/api/ask', async (req, res) => {
     }
 });
 
+/**
+ * Streaming AI Ask endpoint (Server-Sent Events)
+ * Events: `token` {text} as the answer is generated, then `done` with the
+ * sources and metadata, or `error`. Closing the connection aborts generation.
+ * GET takes ?question=..., POST takes { question } in the body.
+ */
+async function handleAskStream(req, res) {
+    const { question, sessionId } = req.method === 'GET' ? req.query : req.body;
+
+    const validationError = validateQuestion(question);
+    if (validationError) {
+        return res.status(400).json({
+            success: false,
+            error: validationError
+        });
+    }
+
+    if (!searchService) {
+        return res.status(503).json({
+            success: false,
+            error: 'AI search service is not available'
+        });
+    }
+
+    const stream = new EventStream(res);
+
+    try {
+        console.log('AI question received (stream):', question);
+
+        const conversation = resolveConversation(sessionId);
+        const aiResult = await searchService.streamWithAI(question.trim(), {
+            top: 5,
+            conversation: conversation && conversation.context,
+            signal: stream.signal,
+            onToken: text => stream.send('token', { text })
+        });
+        await recordConversationTurn(conversation, question.trim(), aiResult);
+
+        stream.send('done', {
+            sessionId: conversation ? conversation.sessionId : null,
+            answer: aiResult.answer,
+            sources: aiResult.sources || [],
+            grounding: aiResult.grounding || null,
+            searchType: aiResult.searchType || 'unknown',
+            metadata: buildAskMetadata(aiResult)
+        });
+    } catch (error) {
+        if (stream.aborted) return;
+
+        console.error('Error in /api/ask/stream route:', error);
+        stream.send('error', {
+            error: 'An error occurred while processing your question.',
+            details: process.env.NODE_ENV === 'development' ? error.message : undefined
+        });
+    }
+
+    stream.end();
+}
+
+app.get('/api/ask/stream', handleAskStream);
+app.post('/api/ask/stream', handleAskStream);
+
+// Conversation sessions for multi-turn AI questions
+app.post('/api/conversations', (req, res) => {
+    if (!conversationService) {
+        return res.status(503).json({ success: false, error: 'Conversation service not available' });
+    }
+
+    const session = conversationService.create();
+    res.status(201).json({ success: true, data: { sessionId: session.id, createdAt: session.createdAt } });
+});
+
+app.get('/api/conversations/:id', (req, res) => {
+    if (!conversationService) {
+        return res.status(503).json({ success: false, error: 'Conversation service not available' });
+    }
+
+    const session = conversationService.get(req.params.id);
+    if (!session) {
+        return res.status(404).json({ success: false, error: 'Conversation not found or expired' });
+    }
+
+    res.json({
+        success: true,
+        data: {
+            sessionId: session.id,
+            summary: session.summary,
+            summarizedMessages: session.summarizedMessages,
+            messages: session.messages,
+            createdAt: session.createdAt,
+            updatedAt: session.updatedAt
+        }
+    });
+});
+
+app.delete('/api/conversations/:id', (req, res) => {
+    if (!conversationService) {
+        return res.status(503).json({ success: false, error: 'Conversation service not available' });
+    }
+
+    if (!conversationService.delete(req.params.id)) {
+        return res.status(404).json({ success: false, error: 'Conversation not found or expired' });
+    }
+    res.json({ success: true, message: 'Conversation deleted' });
+});
+
+// Universities list every language they teach in, "Dual Medium" means both
+function matchesLanguageMedium(languages, medium) {
+    if (!Array.isArray(languages)) return false;
+    if (medium === 'Dual Medium') {
+        return languages.includes('English') && languages.includes('Afrikaans');
+    }
+    return languages.includes(medium);
+}
+
 // Enhanced Search endpoint with AI capabilities
 app.post('/api/search', async (req, res) => {
     try {
@@ -201,19 +512,9 @@ app.post('/api/search', async (req, res) => {
         console.log('Enhanced search request:', { query, filters, pagination: { page, limit }, useAI });
         
         if (!searchService) {
-            console.log('SearchService unavailable, returning empty results');
-            return res.json({
-                success: true,
-                data: [],
-                pagination: {
-                    page: page,
-                    limit: limit,
-                    total: 0,
-                    totalPages: 0,
-                    hasNext: false,
-                    hasPrev: false
-                },
-                message: 'Search service is currently initializing. Please try again in a moment.'
+            return res.status(503).json({
+                success: false,
+                error: 'Search service is not available'
             });
         }
         
@@ -226,30 +527,8 @@ app.post('/api/search', async (req, res) => {
                 console.log('Using enhanced AI-powered search...');
                 const aiSearchResult = await searchService.searchWithAI(query, { top: limit + skip });
                 
-                // Transform AI results to API format
-                searchResults = aiSearchResult.sources.map((source, index) => ({
-                    id: source.fileName || `ai_${Date.now()}_${index}`,
-                    universityName: source.universityName || 'Unknown University',
-                    fileName: source.fileName,
-                    location: 'South Africa',
-                    province: 'Various',
-                    universityType: 'Traditional',
-                    apsScoreRequired: 30,
-                    tuitionFeesAnnual: 50000,
-                    content: source.relevantContent,
-                    summary: source.relevantContent.substring(0, 200) + '...',
-                    establishmentYear: 2000,
-                    studentPopulation: 25000,
-                    applicationDeadline: "30 September",
-                    nsfasAccredited: true,
-                    accommodationAvailable: true,
-                    bursariesAvailable: true,
-                    bachelorPassRequired: false,
-                    languageMedium: "English",
-                    // Enhanced metadata
-                    searchScore: source.relevanceScore || 1,
-                    documentType: 'pdf-context'
-                }));
+                // Join the matched documents back to their structured university records
+                searchResults = await searchService.toUniversityResults(aiSearchResult.sources);
                 
                 aiResponse = aiSearchResult.answer;
                 
@@ -265,12 +544,13 @@ app.post('/api/search', async (req, res) => {
         // Apply enhanced filtering
         if (Object.keys(filters).length > 0) {
             searchResults = searchResults.filter(university => {
-                if (filters.minAPS && university.apsScoreRequired < filters.minAPS) return false;
-                if (filters.maxAPS && university.apsScoreRequired > filters.maxAPS) return false;
+                // Values the prospectus did not state are null, and never satisfy a filter on them
+                if (filters.minAPS && !(university.apsScoreRequired >= filters.minAPS)) return false;
+                if (filters.maxAPS && !(university.apsScoreRequired <= filters.maxAPS)) return false;
                 if (filters.province && university.province !== filters.province) return false;
                 if (filters.universityType && university.universityType !== filters.universityType) return false;
-                if (filters.maxTuitionFees && university.tuitionFeesAnnual > filters.maxTuitionFees) return false;
-                if (filters.languageMedium && university.languageMedium !== filters.languageMedium) return false;
+                if (filters.maxTuitionFees && !(university.tuitionFeesAnnual <= filters.maxTuitionFees)) return false;
+                if (filters.languageMedium && !matchesLanguageMedium(university.languageMedium, filters.languageMedium)) return false;
                 if (filters.nsfasAccredited === true && !university.nsfasAccredited) return false;
                 if (filters.accommodationAvailable === true && !university.accommodationAvailable) return false;
                 if (filters.bachelorPassRequired === true && !university.bachelorPassRequired) return false;
@@ -296,18 +576,20 @@ app.post('/api/search', async (req, res) => {
                     bVal = (b.universityName || '').toLowerCase();
                     break;
                 case 'apsScoreRequired':
-                    aVal = a.apsScoreRequired || 0;
-                    bVal = b.apsScoreRequired || 0;
-                    break;
                 case 'tuitionFeesAnnual':
-                    aVal = a.tuitionFeesAnnual || 0;
-                    bVal = b.tuitionFeesAnnual || 0;
+                case 'establishmentYear':
+                    aVal = a[sortBy];
+                    bVal = b[sortBy];
                     break;
                 default:
                     aVal = a.universityName || '';
                     bVal = b.universityName || '';
             }
             
+            // Unknown values go last whichever way the list is sorted
+            if (aVal === null || aVal === undefined) return bVal === null || bVal === undefined ? 0 : 1;
+            if (bVal === null || bVal === undefined) return -1;
+            
             if (sortOrder === 'desc') {
                 return aVal > bVal ? -1 : aVal < bVal ? 1 : 0;
             } else {
@@ -373,41 +655,26 @@ app.post('/api/upload-pdf', upload.single('file'), async (req, res) => {
             });
         }
 
-        if (!pdfProcessor) {
+        if (!pdfProcessor || !searchService || !jobQueue) {
             return res.status(503).json({
                 success: false,
                 error: 'Enhanced PDF processing service is currently unavailable'
             });
         }
 
-        console.log(`Processing uploaded PDF: ${req.file.originalname}`);
+        // Parsing a large prospectus takes minutes, so it runs as a job the client polls
+        const job = await jobQueue.enqueue('pdf-upload', {
+            filePath: path.resolve(req.file.path),
+            fileName: req.file.originalname
+        }, {
+            fileName: req.file.originalname,
+            fileSize: req.file.size
+        });
+        console.log(`Queued uploaded PDF: ${req.file.originalname} (job ${job.id})`);
 
-        // Process PDF with enhanced processor
-        const extractedText = await pdfProcessor.processPDF(req.file.path);
-        
-        // Add to enhanced search service
-        if (searchService) {
-            const result = await searchService.addPDFDocument(req.file.originalname, extractedText);
-            console.log(`Added PDF to search index: ${result.fileName} (${result.wordCount} words)`);
-        }
-        
-        // Clean up uploaded file
-        try {
-            const fs = require('fs').promises;
-            await fs.unlink(req.file.path);
-        } catch (cleanupError) {
-            console.log(`Warning: Could not clean up temporary file: ${cleanupError.message}`);
-        }
-        
-        res.json({
+        res.status(202).json({
             success: true,
-            data: {
-                fileName: req.file.originalname,
-                fileSize: req.file.size,
-                extractedLength: extractedText.length,
-                message: 'PDF uploaded and processed with enhanced AI capabilities',
-                processingType: 'enhanced-ai'
-            }
+            data: job
         });
     } catch (error) {
         console.error('Enhanced PDF upload error:', error);
@@ -418,29 +685,67 @@ app.post('/api/upload-pdf', upload.single('file'), async (req, res) => {
     }
 });
 
+// Background jobs, e.g. an uploaded PDF being processed
+app.get('/api/jobs', (req, res) => {
+    if (!jobQueue) {
+        return res.status(503).json({
+            success: false,
+            error: 'Job queue is currently unavailable'
+        });
+    }
+
+    const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 20));
+    res.json({
+        success: true,
+        data: jobQueue.list(limit)
+    });
+});
+
+app.get('/api/jobs/:id', (req, res) => {
+    if (!jobQueue) {
+        return res.status(503).json({
+            success: false,
+            error: 'Job queue is currently unavailable'
+        });
+    }
+
+    const job = jobQueue.get(req.params.id);
+    if (!job) {
+        return res.status(404).json({
+            success: false,
+            error: 'Job not found'
+        });
+    }
+
+    res.json({
+        success: true,
+        data: job
+    });
+});
+
 // All other endpoints remain the same but with enhanced error messages
 app.get('/api/universities', async (req, res) => {
     try {
-        if (!searchService) {
+        if (!universityRegistry) {
             return res.status(503).json({
                 success: false,
-                error: 'Enhanced search service is currently unavailable'
+                error: 'University registry is currently unavailable'
             });
         }
         
-        const { page = 1, limit = 50 } = req.query;
-        const universities = await searchService.search('*', {}, parseInt(limit));
+        const page = Math.max(1, parseInt(req.query.page) || 1);
+        const limit = Math.min(100, Math.max(1, parseInt(req.query.limit) || 50));
+        const universities = await universityRegistry.list();
         
         res.json({
             success: true,
-            data: universities,
+            data: universities.slice((page - 1) * limit, page * limit),
             pagination: {
-                page: parseInt(page),
-                limit: parseInt(limit),
+                page: page,
+                limit: limit,
                 total: universities.length,
-                totalPages: Math.ceil(universities.length / parseInt(limit))
-            },
-            searchType: 'enhanced-ai'
+                totalPages: Math.ceil(universities.length / limit)
+            }
         });
     } catch (error) {
         console.error('Get all universities error:', error);
@@ -453,15 +758,14 @@ app.get('/api/universities', async (req, res) => {
 
 app.get('/api/universities/:id', async (req, res) => {
     try {
-        if (!searchService) {
+        if (!universityRegistry) {
             return res.status(503).json({
                 success: false,
-                error: 'Enhanced search service is currently unavailable'
+                error: 'University registry is currently unavailable'
             });
         }
         
-        const universities = await searchService.search('*', {}, 100);
-        const university = universities.find(u => u.id === req.params.id);
+        const university = await universityRegistry.getById(req.params.id);
         
         if (!university) {
             return res.status(404).json({
@@ -472,8 +776,7 @@ app.get('/api/universities/:id', async (req, res) => {
         
         res.json({
             success: true,
-            data: university,
-            searchType: 'enhanced-ai'
+            data: university
         });
     } catch (error) {
         console.error('Get university error:', error);
@@ -484,6 +787,179 @@ app.get('/api/universities/:id', async (req, res) => {
     }
 });
 
+app.get('/api/universities/:id/programmes', async (req, res) => {
+    try {
+        if (!programmeService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Programme service is currently unavailable'
+            });
+        }
+
+        // Resolve through the registry so older timestamped ids still work
+        const university = universityRegistry ? await universityRegistry.getById(req.params.id) : null;
+        // ?year= for an earlier intake year, the current one otherwise
+        const academicYear = req.query.year ? parseInt(req.query.year) : undefined;
+        const programmes = await programmeService.getByUniversity(university ? university.id : req.params.id, academicYear);
+
+        if (programmes.length === 0) {
+            return res.status(404).json({
+                success: false,
+                error: 'No programmes found for this university'
+            });
+        }
+
+        res.json({
+            success: true,
+            data: programmes
+        });
+    } catch (error) {
+        console.error('Get programmes error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+// Year-over-year changes, e.g. ?from=2025&to=2026 - the two latest years when left out
+app.get('/api/universities/:id/changes', async (req, res) => {
+    try {
+        if (!yearComparisonService || !universityRegistry) {
+            return res.status(503).json({
+                success: false,
+                error: 'Year comparison service is currently unavailable'
+            });
+        }
+
+        const university = await universityRegistry.getById(req.params.id);
+        if (!university) {
+            return res.status(404).json({
+                success: false,
+                error: 'University not found'
+            });
+        }
+
+        const years = university.availableYears;
+        const from = req.query.from !== undefined ? parseInt(req.query.from) : years[1];
+        const to = req.query.to !== undefined ? parseInt(req.query.to) : years[0];
+
+        if (Number.isNaN(from) || Number.isNaN(to)) {
+            return res.status(400).json({
+                success: false,
+                error: 'from and to must be intake years, e.g. ?from=2025&to=2026'
+            });
+        }
+        if (from === undefined || to === undefined || !years.includes(from) || !years.includes(to)) {
+            return res.status(404).json({
+                success: false,
+                error: `No prospectus data to compare for those years. Years on record: ${years.join(', ') || 'none'}`,
+                availableYears: years
+            });
+        }
+        if (from >= to) {
+            return res.status(400).json({
+                success: false,
+                error: 'from must be an earlier year than to'
+            });
+        }
+
+        const changes = await yearComparisonService.compare(university.id, from, to);
+
+        res.json({
+            success: true,
+            data: changes
+        });
+    } catch (error) {
+        console.error('Year comparison error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+app.get('/api/programmes', async (req, res) => {
+    try {
+        if (!programmeService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Programme service is currently unavailable'
+            });
+        }
+
+        const { query = '', faculty, university, maxAPS } = req.query;
+        const programmes = await programmeService.search(query, {
+            faculty,
+            universityId: university,
+            maxAPS: maxAPS ? parseInt(maxAPS) : undefined
+        });
+
+        res.json({
+            success: true,
+            data: programmes,
+            total: programmes.length
+        });
+    } catch (error) {
+        console.error('Programme search error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+// Closing dates, e.g. ?university=university-of-pretoria&programme=...&from=2025-05-01&to=2025-07-31&type=residence
+app.get('/api/deadlines', async (req, res) => {
+    try {
+        if (!deadlineService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Deadline service is currently unavailable'
+            });
+        }
+
+        const { university, programme, type, from, to, year } = req.query;
+
+        const invalidDate = [from, to].find(date => date !== undefined && !(/^\d{4}-\d{2}-\d{2}$/.test(date) && !Number.isNaN(Date.parse(date))));
+        if (invalidDate !== undefined) {
+            return res.status(400).json({
+                success: false,
+                error: `Invalid date "${invalidDate}" - use YYYY-MM-DD`
+            });
+        }
+        if (type !== undefined && !DeadlineService.isType(type)) {
+            return res.status(400).json({
+                success: false,
+                error: 'type must be one of application, residence, bursary or document_submission'
+            });
+        }
+
+        // Resolve through the registry so older timestamped ids still work
+        const resolved = university && universityRegistry ? await universityRegistry.getById(university) : null;
+        const deadlines = await deadlineService.search({
+            universityId: resolved ? resolved.id : university,
+            programmeId: programme,
+            type,
+            from,
+            to,
+            academicYear: year ? parseInt(year) : undefined
+        });
+
+        res.json({
+            success: true,
+            data: deadlines,
+            total: deadlines.length
+        });
+    } catch (error) {
+        console.error('Deadline search error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
 app.post('/api/compare', async (req, res) => {
     try {
         const { universityIds } = req.body;
@@ -519,16 +995,214 @@ app.post('/api/compare', async (req, res) => {
     }
 });
 
+app.post('/api/recommend', async (req, res) => {
+    try {
+        const profile = req.body || {};
+
+        if (!profile.apsScore && (!Array.isArray(profile.subjects) || profile.subjects.length === 0)) {
+            return res.status(400).json({
+                success: false,
+                error: 'An APS score or NSC subject marks are required for recommendations'
+            });
+        }
+
+        const profileErrors = [
+            ...RecommendationService.validateWeights(profile.scoreWeights),
+            ...FundingService.validateProfile(profile)
+        ];
+        if (profileErrors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: profileErrors[0],
+                details: profileErrors
+            });
+        }
+
+        if (!recommendationService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Recommendation service is currently unavailable'
+            });
+        }
+
+        const result = await recommendationService.recommend(profile);
+
+        res.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('Recommendation error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+// What-if: { profile, subjects } with projected marks, against the profile's current ones
+app.post('/api/recommend/simulate', async (req, res) => {
+    try {
+        const { profile, subjects } = req.body || {};
+
+        if (!profile || (!profile.apsScore && (!Array.isArray(profile.subjects) || profile.subjects.length === 0))) {
+            return res.status(400).json({
+                success: false,
+                error: 'A profile with an APS score or NSC subject marks is required'
+            });
+        }
+
+        const profileErrors = [
+            ...RecommendationService.validateWeights(profile.scoreWeights),
+            ...FundingService.validateProfile(profile)
+        ];
+        if (profileErrors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: profileErrors[0],
+                details: profileErrors
+            });
+        }
+
+        const errors = apsCalculator.validateSubjects(subjects, profile.examBoard || 'NSC');
+        if (errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: errors[0],
+                details: errors
+            });
+        }
+
+        if (!recommendationService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Recommendation service is currently unavailable'
+            });
+        }
+
+        const result = await recommendationService.simulate(profile, subjects);
+
+        res.json({
+            success: true,
+            data: result
+        });
+    } catch (error) {
+        console.error('Simulation error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+// One programme with { subjects, programmeId }, or every programme matching
+// { subjects, query, university, faculty } as in /api/programmes
+app.post('/api/eligibility', async (req, res) => {
+    try {
+        const { subjects, programmeId, query = '', university, faculty, examBoard = 'NSC' } = req.body || {};
+
+        const errors = apsCalculator.validateSubjects(subjects, examBoard);
+        if (errors.length > 0) {
+            return res.status(400).json({
+                success: false,
+                error: errors[0],
+                details: errors
+            });
+        }
+
+        if (!eligibilityService) {
+            return res.status(503).json({
+                success: false,
+                error: 'Eligibility service is currently unavailable'
+            });
+        }
+
+        if (programmeId) {
+            const result = await eligibilityService.checkById(subjects, programmeId);
+            if (!result) {
+                return res.status(404).json({
+                    success: false,
+                    error: 'Programme not found'
+                });
+            }
+
+            return res.json({
+                success: true,
+                data: result
+            });
+        }
+
+        const results = await eligibilityService.checkAll(subjects, query, { universityId: university, faculty });
+
+        res.json({
+            success: true,
+            data: results,
+            total: results.length,
+            eligibleCount: results.filter(result => result.eligible).length
+        });
+    } catch (error) {
+        console.error('Eligibility check error:', error);
+        res.status(500).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
+app.post('/api/aps', (req, res) => {
+    try {
+        const { subjects, university, weights } = req.body || {};
+
+        if (!Array.isArray(subjects) || subjects.length === 0) {
+            return res.status(400).json({
+                success: false,
+                error: 'Matric subject marks are required'
+            });
+        }
+
+        const scheme = req.body.scheme || (university ? apsCalculator.getSchemeForUniversity(university) : 'standard');
+
+        res.json({
+            success: true,
+            data: apsCalculator.calculate(subjects, { scheme, weights })
+        });
+    } catch (error) {
+        res.status(400).json({
+            success: false,
+            error: error.message
+        });
+    }
+});
+
 app.post('/api/profile', async (req, res) => {
     try {
-        const profile = req.body;
-        
-        if (!profile.gpa || profile.gpa < 0 || profile.gpa > 4.0) {
+        // GPA/SAT/ACT from the old US-style profile are dropped on save
+        const { gpa, sat, act, ...input } = req.body || {};
+        const examBoard = input.examBoard || 'NSC';
+
+        const errors = [
+            ...apsCalculator.validateSubjects(input.subjects, examBoard),
+            ...RecommendationService.validateWeights(input.scoreWeights),
+            ...FundingService.validateProfile(input)
+        ];
+        if (errors.length > 0) {
             return res.status(400).json({
                 success: false,
-                error: 'Valid GPA (0.0-4.0) is required'
+                error: errors[0],
+                details: errors
             });
         }
+
+        // The APS is always derived from the marks rather than trusted from the client
+        const subjects = apsCalculator.normalizeSubjects(input.subjects);
+        const variants = apsCalculator.calculateAll(subjects);
+        const profile = {
+            ...input,
+            examBoard,
+            subjects,
+            apsScore: variants.standard.score,
+            apsVariants: Object.values(variants).map(({ scheme, label, score, maxScore }) => ({ scheme, label, score, maxScore }))
+        };
         
         const fs = require('fs').promises;
         const dataDir = path.join(__dirname, '../data');
@@ -686,6 +1360,95 @@ app.post('/api/initialize', async (req, res) => {
     }
 });
 
+// Admin routes change what gets processed, so they need ADMIN_API_KEY in an
+// x-admin-key header: 401 without one, 403 with the wrong one. Without a key
+// configured they are closed, unless ADMIN_INSECURE_DEV=true opens them for
+// local development.
+const adminGuard = new AdminGuard();
+
+function requireAdmin(req, res, next) {
+    const refusal = adminGuard.check(req.get('x-admin-key'));
+    if (refusal) {
+        return res.status(refusal.status).json(refusal.body);
+    }
+    if (!prospectusRegistry) {
+        return res.status(503).json({ success: false, error: 'Prospectus registry is currently unavailable' });
+    }
+    next();
+}
+
+// Prospectus registry: the universities and source documents processing reads
+app.get('/api/admin/prospectuses', requireAdmin, async (req, res) => {
+    try {
+        const universities = await prospectusRegistry.list();
+        res.json({ success: true, data: universities });
+    } catch (error) {
+        console.error('List prospectuses error:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.get('/api/admin/prospectuses/:id', requireAdmin, async (req, res) => {
+    try {
+        const university = await prospectusRegistry.getById(req.params.id);
+        if (!university) {
+            return res.status(404).json({ success: false, error: 'University not found in the prospectus registry' });
+        }
+        res.json({ success: true, data: university });
+    } catch (error) {
+        console.error('Get prospectus error:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.post('/api/admin/prospectuses', requireAdmin, async (req, res) => {
+    try {
+        const errors = prospectusRegistry.validate(req.body);
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, error: errors.join('; ') });
+        }
+
+        const university = await prospectusRegistry.create(req.body);
+        if (!university) {
+            return res.status(409).json({ success: false, error: `${req.body.universityName} is already in the prospectus registry` });
+        }
+        res.status(201).json({ success: true, data: university });
+    } catch (error) {
+        console.error('Create prospectus error:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.put('/api/admin/prospectuses/:id', requireAdmin, async (req, res) => {
+    try {
+        const errors = prospectusRegistry.validate(req.body, true);
+        if (errors.length > 0) {
+            return res.status(400).json({ success: false, error: errors.join('; ') });
+        }
+
+        const university = await prospectusRegistry.update(req.params.id, req.body);
+        if (!university) {
+            return res.status(404).json({ success: false, error: 'University not found in the prospectus registry' });
+        }
+        res.json({ success: true, data: university });
+    } catch (error) {
+        console.error('Update prospectus error:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
+app.delete('/api/admin/prospectuses/:id', requireAdmin, async (req, res) => {
+    try {
+        if (!(await prospectusRegistry.remove(req.params.id))) {
+            return res.status(404).json({ success: false, error: 'University not found in the prospectus registry' });
+        }
+        res.json({ success: true, message: 'University removed from the prospectus registry' });
+    } catch (error) {
+        console.error('Delete prospectus error:', error);
+        res.status(500).json({ success: false, error: error.message });
+    }
+});
+
 // Error handling middleware
 app.use((error, req, res, next) => {
     console.error('Unhandled error:', error);
@@ -702,30 +1465,63 @@ app.listen(PORT, async () => {
     console.log(`📍 Running on http://localhost:${PORT}`);
     console.log('📝 Available endpoints:');
     console.log('   POST /api/ask - Enhanced AI-powered questions');
+    console.log('   GET|POST /api/ask/stream - AI answers streamed over Server-Sent Events');
+    console.log('   POST /api/conversations - Start a multi-turn AI conversation');
+    console.log('   GET|DELETE /api/conversations/:id - Conversation history');
     console.log('   POST /api/search - Enhanced AI search');
     console.log('   GET  /api/universities - Get all universities');
     console.log('   GET  /api/universities/:id - Get specific university');
+    console.log('   GET  /api/universities/:id/programmes?year= - Programmes and admission requirements');
+    console.log('   GET  /api/universities/:id/changes?from=&to= - What changed between two intake years');
+    console.log('   GET  /api/programmes?query= - Search programmes across universities');
+    console.log('   GET  /api/deadlines?university=&programme=&from=&to= - Application, residence, bursary and document closing dates');
     console.log('   POST /api/compare - Compare universities');
-    console.log('   POST /api/upload-pdf - Upload & process PDFs with AI');
+    console.log('   POST /api/recommend - Personalised university recommendations');
+    console.log('   POST /api/recommend/simulate - Recommendations for projected matric marks, with what changes');
+    console.log('   POST /api/eligibility - Whether matric results meet a programme\'s requirements, and why not');
+    console.log('   POST /api/upload-pdf - Upload a PDF, processed in the background as a job');
+    console.log('   GET  /api/jobs/:id - Progress of a background job');
+    console.log('   POST /api/aps - Calculate an APS from matric subject marks');
     console.log('   POST /api/profile - Save student profile');
     console.log('   GET  /api/profile - Get student profile');
     console.log('   GET  /health - Health check');
     console.log('   GET  /api/pdfs - PDF management');
+    console.log('   GET|POST /api/admin/prospectuses - Universities and source documents to process');
+    console.log('   GET|PUT|DELETE /api/admin/prospectuses/:id - One university in the prospectus registry');
     
     console.log('\n🔧 Enhanced Service Status:');
     console.log('   PDF-Context SearchService:', searchService ? '✅ Ready' : '❌ Failed');
     console.log('   Enhanced PDFProcessor:', pdfProcessor ? '✅ Ready' : '❌ Failed');
     console.log('   ComparisonService:', comparisonService ? '✅ Ready' : '❌ Failed');
+    console.log('   YearComparisonService:', yearComparisonService ? '✅ Ready' : '❌ Failed');
+    console.log('   ProgrammeService:', programmeService ? '✅ Ready' : '❌ Failed');
+    console.log('   DeadlineService:', deadlineService ? '✅ Ready' : '❌ Failed');
+    console.log('   EligibilityService:', eligibilityService ? '✅ Ready' : '❌ Failed');
+    console.log('   UniversityRegistry:', universityRegistry ? '✅ Ready' : '❌ Failed');
+    console.log('   RecommendationService:', recommendationService ? '✅ Ready' : '❌ Failed');
+    console.log('   ConversationService:', conversationService ? '✅ Ready' : '❌ Failed');
+    console.log('   ProspectusRegistry:', prospectusRegistry ? '✅ Ready' : '❌ Failed');
+    console.log('   JobQueue:', jobQueue ? '✅ Ready' : '❌ Failed');
+
+    if (!process.env.ADMIN_API_KEY) {
+        console.log(process.env.ADMIN_INSECURE_DEV === 'true'
+            ? '\n⚠️  ADMIN_INSECURE_DEV is set: admin routes are open without a key'
+            : '\n🔒 Admin routes are disabled until ADMIN_API_KEY is set');
+    }
     
     if (!searchService) {
         console.log('\n⚠️  Enhanced SearchService failed to initialize. Check your environment variables:');
-        console.log('   AZURE_OPENAI_ENDPOINT');
-        console.log('   AZURE_OPENAI_API_KEY');
-        console.log('   AZURE_OPENAI_DEPLOYMENT_NAME');
-        console.log('   The server will run with fallback responses.');
-    } else {
-        // Auto-process PDFs after server starts
+        console.log('   LLM_PROVIDER (azure, openai-compatible or fake)');
+        console.log('   AZURE_OPENAI_ENDPOINT, AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT_NAME for azure');
+        console.log('   LLM_BASE_URL, LLM_MODEL for openai-compatible');
+        console.log('   AI questions, search and PDF uploads return 503 until an LLM is configured.');
+    } else if (pdfProcessor && jobQueue) {
+        // Process changed PDFs in the background - requests are served from the stored data meanwhile
         console.log('\n🤖 Initializing Enhanced AI Processing...');
-        await initializePDFs();
+        try {
+            await queuePDFProcessing();
+        } catch (error) {
+            console.error('❌ Failed to queue PDF processing:', error.message);
+        }
     }
 });
\ No newline at end of file
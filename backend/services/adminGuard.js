@@ -0,0 +1,40 @@
+/**
+ * Admin Guard
+ * Who may use the admin routes: callers sending ADMIN_API_KEY in an x-admin-key
+ * header, or anyone when ADMIN_INSECURE_DEV=true and no key is set
+ */
+//adminGuard.js
+class AdminGuard {
+    constructor(env = process.env) {
+        this.env = env;
+    }
+
+    /**
+     * @param {string|undefined} providedKey - the request's x-admin-key header
+     * @returns {Object|null} the status and body to refuse the request with, null when it may go ahead
+     */
+    check(providedKey) {
+        const adminKey = this.env.ADMIN_API_KEY;
+        if (!adminKey) {
+            if (this.env.ADMIN_INSECURE_DEV === 'true') return null;
+            return {
+                status: 503,
+                body: {
+                    success: false,
+                    error: 'Admin routes are disabled',
+                    details: 'Set ADMIN_API_KEY, or ADMIN_INSECURE_DEV=true for local development'
+                }
+            };
+        }
+
+        if (!providedKey) {
+            return { status: 401, body: { success: false, error: 'Admin key required' } };
+        }
+        if (providedKey !== adminKey) {
+            return { status: 403, body: { success: false, error: 'Admin key is not valid' } };
+        }
+        return null;
+    }
+}
+
+module.exports = AdminGuard;
@@ -0,0 +1,19 @@
+const AdminGuard = require('./adminGuard');
+
+test('without the x-admin-key header a request is unauthorised, and with the wrong key forbidden', () => {
+    const guard = new AdminGuard({ ADMIN_API_KEY: 'registry-key' });
+
+    expect(guard.check(undefined)).toEqual({ status: 401, body: { success: false, error: 'Admin key required' } });
+    expect(guard.check('')).toMatchObject({ status: 401 });
+    expect(guard.check('another-key')).toEqual({ status: 403, body: { success: false, error: 'Admin key is not valid' } });
+    expect(guard.check('registry-key')).toBeNull();
+});
+
+test('with no key configured the admin routes are closed unless insecure development is switched on', () => {
+    expect(new AdminGuard({}).check('anything')).toMatchObject({ status: 503, body: { error: 'Admin routes are disabled' } });
+    expect(new AdminGuard({ ADMIN_INSECURE_DEV: '1' }).check(undefined)).toMatchObject({ status: 503 });
+    expect(new AdminGuard({ ADMIN_INSECURE_DEV: 'true' }).check(undefined)).toBeNull();
+
+    // A configured key still applies when the development switch is left on
+    expect(new AdminGuard({ ADMIN_API_KEY: 'registry-key', ADMIN_INSECURE_DEV: 'true' }).check(undefined)).toMatchObject({ status: 401 });
+});
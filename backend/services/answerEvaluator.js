@@ -0,0 +1,325 @@
+/**
+ * Answer Evaluator
+ * Runs a golden set of prospectus questions through the retrieval and answer
+ * pipeline and scores it: recall@k of the expected source pages, how many of
+ * the answer's citations point at them, and exact or fuzzy answer matches.
+ * Reports are plain JSON in a fixed order, so two runs can be diffed.
+ */
+//answerEvaluator.js
+const fs = require('fs').promises;
+const path = require('path');
+const KeywordIndex = require('./keywordIndex');
+
+const DEFAULT_DATASET_PATH = path.join(__dirname, '../evaluation/golden_qa.v1.json');
+const DEFAULT_REPORT_PATH = path.join(__dirname, '../evaluation/reports/latest.json');
+
+// Cut-offs recall is reported at - the largest is how many passages are retrieved
+const DEFAULT_RECALL_AT = [1, 3, 5];
+
+// Share of an expected answer's terms the answer must contain to match loosely
+const DEFAULT_FUZZY_THRESHOLD = 0.8;
+
+// Per-question fields compared against a baseline report
+const TRACKED_FIELDS = ['firstRelevantRank', 'citedCorrectly', 'exactMatch', 'fuzzyMatch'];
+
+class AnswerEvaluator {
+    /**
+     * @param {Object} searchService - the PDFContextSearchService under test
+     * @param {Object} options - recallAt (cut-offs) and fuzzyThreshold
+     */
+    constructor(searchService, options = {}) {
+        this.searchService = searchService;
+        this.recallAt = [...(options.recallAt || DEFAULT_RECALL_AT)].sort((a, b) => a - b);
+        this.fuzzyThreshold = options.fuzzyThreshold || DEFAULT_FUZZY_THRESHOLD;
+        this.tokenizer = new KeywordIndex();
+    }
+
+    async loadDataset(filePath = DEFAULT_DATASET_PATH) {
+        const dataset = JSON.parse(await fs.readFile(filePath, 'utf8'));
+
+        if (!dataset.name || !dataset.version || !Array.isArray(dataset.questions)) {
+            throw new Error(`${filePath} is not an evaluation dataset: name, version and questions are required`);
+        }
+
+        const ids = new Set();
+        dataset.questions.forEach((item, index) => {
+            if (!item.id || !item.question || !Array.isArray(item.answers) || !Array.isArray(item.sources)) {
+                throw new Error(`Question ${index + 1} in ${filePath} needs an id, question, answers and sources`);
+            }
+            if (ids.has(item.id)) {
+                throw new Error(`Duplicate question id "${item.id}" in ${filePath}`);
+            }
+            ids.add(item.id);
+        });
+
+        return { documents: [], ...dataset };
+    }
+
+    /**
+     * Index the dataset's prospectuses in memory when the store has no
+     * page-numbered chunks for them yet, so sources can be matched by page.
+     * Nothing is written to disk.
+     * @param {Object} processor - EnhancedUniversityProcessor that reads the PDFs
+     */
+    async prepare(dataset, processor) {
+        await this.searchService.ready;
+
+        for (const document of dataset.documents) {
+            const firstChunk = this.searchService.pdfDocuments.get(`${document.file}_chunk_0`);
+            if (firstChunk && firstChunk.pageStart) continue;
+
+            const chunks = await processor.processForAISearch(path.join(processor.dataDir, document.file), document);
+            if (chunks.length === 0) {
+                throw new Error(`Could not read ${document.file} - is it in the data folder?`);
+            }
+
+            for (const chunk of chunks) {
+                chunk.contentVector = await this.searchService.generateEmbeddings(chunk.content);
+                await this.searchService.uploadDocument(chunk);
+            }
+            console.log(`📚 Indexed ${chunks.length} chunks of ${document.file} for evaluation`);
+        }
+    }
+
+    async run(dataset) {
+        const top = this.recallAt[this.recallAt.length - 1];
+        const results = [];
+
+        for (const item of dataset.questions) {
+            console.log(`🧪 ${item.id}`);
+            results.push(await this.evaluateQuestion(item, top));
+        }
+
+        return {
+            dataset: { name: dataset.name, version: dataset.version },
+            pipeline: {
+                llm: this.searchService.llm.name,
+                embeddings: this.searchService.embeddingProvider.name,
+                retrieval: this.searchService.hybridRetriever.getConfig(),
+                passages: top,
+                fuzzyThreshold: this.fuzzyThreshold
+            },
+            metrics: this.summarize(results),
+            results
+        };
+    }
+
+    async evaluateQuestion(item, top) {
+        const response = await this.searchService.searchWithAI(item.question, { top });
+        const answer = response.answer || '';
+        // Only an answered search has numbered, page-aware sources
+        const sources = response.searchType === 'pdf-context' ? response.sources : [];
+
+        const retrieved = sources.map((source, index) => ({
+            rank: index + 1,
+            fileName: source.fileName,
+            page: source.page || null,
+            pageEnd: source.pageEnd || null,
+            relevant: this.isExpectedSource(source, item.sources)
+        }));
+        const firstRelevant = retrieved.find(passage => passage.relevant);
+
+        const cited = [...new Set(Array.from(answer.matchAll(/\[(\d+)\]/g), match => parseInt(match[1], 10)))];
+        const citedCorrectly = cited.filter(id => retrieved[id - 1] && retrieved[id - 1].relevant);
+
+        const exactMatch = item.answers.some(expected => this.containsPhrase(answer, expected));
+        const fuzzyScore = Math.max(...item.answers.map(expected => this.termRecall(answer, expected)));
+
+        return {
+            id: item.id,
+            question: item.question,
+            searchType: response.searchType,
+            retrievalQuery: response.retrievalQuery || null,
+            retrieved,
+            firstRelevantRank: firstRelevant ? firstRelevant.rank : null,
+            cited,
+            citedCorrectly,
+            exactMatch,
+            fuzzyScore: this.round(fuzzyScore),
+            fuzzyMatch: exactMatch || fuzzyScore >= this.fuzzyThreshold,
+            answer
+        };
+    }
+
+    /**
+     * A passage is expected when it comes from a listed file and its page
+     * range covers one of the listed pages
+     */
+    isExpectedSource(source, expectedSources) {
+        if (!source.page) return false;
+        const pageEnd = source.pageEnd || source.page;
+
+        return expectedSources.some(expected => expected.file === source.fileName
+            && expected.pages.some(page => page >= source.page && page <= pageEnd));
+    }
+
+    /**
+     * recall@k is the share of questions with an expected page among the first
+     * k passages. Citation accuracy is over all citations in all answers.
+     */
+    summarize(results) {
+        const count = results.length;
+        const share = matches => count > 0 ? this.round(matches / count) : 0;
+
+        const recallAt = {};
+        this.recallAt.forEach(k => {
+            recallAt[k] = share(results.filter(result => result.firstRelevantRank && result.firstRelevantRank <= k).length);
+        });
+
+        const citations = results.reduce((sum, result) => sum + result.cited.length, 0);
+        const correctCitations = results.reduce((sum, result) => sum + result.citedCorrectly.length, 0);
+
+        return {
+            questions: count,
+            recallAt,
+            meanReciprocalRank: share(results.reduce((sum, result) => sum + (result.firstRelevantRank ? 1 / result.firstRelevantRank : 0), 0)),
+            citationAccuracy: citations > 0 ? this.round(correctCitations / citations) : null,
+            answersWithCitations: share(results.filter(result => result.cited.length > 0).length),
+            exactMatch: share(results.filter(result => result.exactMatch).length),
+            fuzzyMatch: share(results.filter(result => result.fuzzyMatch).length),
+            meanFuzzyScore: share(results.reduce((sum, result) => sum + result.fuzzyScore, 0)),
+            failedSearches: results.filter(result => result.searchType !== 'pdf-context').length
+        };
+    }
+
+    /**
+     * Metric changes and per-question outcome changes against an earlier report
+     */
+    compare(report, baseline) {
+        const before = this.flattenMetrics(baseline.metrics);
+        const after = this.flattenMetrics(report.metrics);
+        const metrics = {};
+        Object.keys({ ...before, ...after }).forEach(name => {
+            const change = typeof before[name] === 'number' && typeof after[name] === 'number'
+                ? this.round(after[name] - before[name])
+                : null;
+            metrics[name] = { before: before[name] ?? null, after: after[name] ?? null, change };
+        });
+
+        const previous = new Map(baseline.results.map(result => [result.id, result]));
+        const current = new Set(report.results.map(result => result.id));
+        const questions = [];
+        report.results.forEach(result => {
+            const earlier = previous.get(result.id);
+            if (!earlier) return;
+
+            const changes = {};
+            TRACKED_FIELDS.forEach(field => {
+                if (JSON.stringify(earlier[field]) !== JSON.stringify(result[field])) {
+                    changes[field] = { before: earlier[field], after: result[field] };
+                }
+            });
+            if (Object.keys(changes).length > 0) questions.push({ id: result.id, changes });
+        });
+
+        return {
+            metrics,
+            questions,
+            added: report.results.filter(result => !previous.has(result.id)).map(result => result.id),
+            removed: baseline.results.filter(result => !current.has(result.id)).map(result => result.id)
+        };
+    }
+
+    // One level, with recallAt spelled out as recall@1, recall@3...
+    flattenMetrics({ recallAt = {}, ...rest }) {
+        const flat = {};
+        Object.entries(recallAt).forEach(([k, value]) => { flat[`recall@${k}`] = value; });
+        return { ...flat, ...rest };
+    }
+
+    async saveReport(report, filePath = DEFAULT_REPORT_PATH) {
+        await fs.mkdir(path.dirname(filePath), { recursive: true });
+        await fs.writeFile(filePath, `${JSON.stringify(report, null, 2)}\n`);
+    }
+
+    /**
+     * Lower-case, drop accents and punctuation, and join digit groups so
+     * "R45 000" and "R45,000" both read "r45000"
+     */
+    normalize(text) {
+        return (text || '')
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/(\d)[ ,](?=\d{3}(?!\d))/g, '$1')
+            .replace(/(?<!\d)\.|\.(?!\d)/g, ' ')
+            .replace(/[^a-z0-9%.]+/g, ' ')
+            .trim();
+    }
+
+    containsPhrase(answer, expected) {
+        const phrase = this.normalize(expected);
+        return phrase.length > 0 && ` ${this.normalize(answer)} `.includes(` ${phrase} `);
+    }
+
+    // Share of the expected answer's terms that appear in the answer
+    termRecall(answer, expected) {
+        const expectedTerms = new Set(this.tokenizer.tokenize(this.normalize(expected)));
+        if (expectedTerms.size === 0) return 0;
+
+        const answerTerms = new Set(this.tokenizer.tokenize(this.normalize(answer)));
+        return [...expectedTerms].filter(term => answerTerms.has(term)).length / expectedTerms.size;
+    }
+
+    round(value) {
+        return Math.round(value * 1e4) / 1e4;
+    }
+}
+
+/**
+ * --dataset <file>, --out <file> and --baseline <report to compare with>
+ */
+function parseArgs(argv) {
+    const args = {};
+    for (let i = 0; i < argv.length; i++) {
+        const match = argv[i].match(/^--(dataset|out|baseline)(?:=(.*))?$/);
+        if (!match) {
+            throw new Error(`Unknown argument ${argv[i]} - use --dataset, --out or --baseline`);
+        }
+        args[match[1]] = match[2] !== undefined ? match[2] : argv[++i];
+    }
+    return args;
+}
+
+// Run the golden set if called directly
+if (require.main === module) {
+    (async () => {
+        const args = parseArgs(process.argv.slice(2));
+        const EnhancedUniversityProcessor = require('./pdfProcessor');
+        const processor = new EnhancedUniversityProcessor();
+        const evaluator = new AnswerEvaluator(processor.searchService);
+
+        const dataset = await evaluator.loadDataset(args.dataset ? path.resolve(args.dataset) : undefined);
+        console.log(`📋 Evaluating ${dataset.name} v${dataset.version} (${dataset.questions.length} questions)`);
+
+        await evaluator.prepare(dataset, processor);
+        const report = await evaluator.run(dataset);
+
+        const outPath = args.out ? path.resolve(args.out) : DEFAULT_REPORT_PATH;
+        await evaluator.saveReport(report, outPath);
+
+        console.log('\n📊 Evaluation results:');
+        console.log('='.repeat(60));
+        console.table(evaluator.flattenMetrics(report.metrics));
+
+        if (args.baseline) {
+            const baseline = JSON.parse(await fs.readFile(path.resolve(args.baseline), 'utf8'));
+            const comparison = evaluator.compare(report, baseline);
+            console.log(`\n🔁 Compared with ${args.baseline}:`);
+            console.table(comparison.metrics);
+            comparison.questions.forEach(({ id, changes }) => {
+                console.log(`   ${id}: ${Object.entries(changes).map(([field, { before, after }]) => `${field} ${JSON.stringify(before)} → ${JSON.stringify(after)}`).join(', ')}`);
+            });
+            if (comparison.added.length > 0) console.log(`   ➕ New questions: ${comparison.added.join(', ')}`);
+            if (comparison.removed.length > 0) console.log(`   ➖ Removed questions: ${comparison.removed.join(', ')}`);
+        }
+
+        console.log(`\n💾 Report saved to: ${outPath}`);
+        process.exit(0);
+    })().catch(error => {
+        console.error('❌ Evaluation failed:', error);
+        process.exit(1);
+    });
+}
+
+module.exports = AnswerEvaluator;
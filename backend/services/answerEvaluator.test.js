@@ -0,0 +1,149 @@
+process.env.LLM_PROVIDER = 'fake';
+process.env.EMBEDDING_PROVIDER = 'local';
+
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const AnswerEvaluator = require('./answerEvaluator');
+const PDFContextSearchService = require('./searchService');
+
+const SUN = 'stellies Prospectus.pdf';
+const UP = 'up-prospectus.pdf';
+
+// Page-numbered chunks as the PDF processor hands them over, worded as the prospectuses are
+const chunks = [
+    {
+        fileName: SUN, universityName: 'Stellenbosch University', chunkIndex: 0, pageStart: 2, pageEnd: 2,
+        content: 'AgriSciences programmes. BAgric in Agribusiness Management requires an aggregate of at least 60% (excluding Life Orientation) with Mathematics 50%.'
+    },
+    {
+        fileName: SUN, universityName: 'Stellenbosch University', chunkIndex: 1, pageStart: 3, pageEnd: 4,
+        content: 'Forestry and Wood Sciences. The Wood and Wood Products Sciences field of study in BScFor requires Mathematics 70% and Physical Sciences 50%.'
+    },
+    {
+        fileName: UP, universityName: 'University of Pretoria', chunkIndex: 0, pageStart: 13, pageEnd: 13,
+        content: 'Faculty of Theology and Religion. The Bachelor of Theology (BTh) requires an APS of 24 with English Home Language or English First Additional Language at level 4.'
+    }
+].map(chunk => ({ ...chunk, id: `${chunk.fileName}-${chunk.chunkIndex}`, totalChunks: 2, summary: '', keyPhrases: [], extractedEntities: {}, uploadDate: '2026-01-01' }));
+
+const dataset = {
+    name: 'prospectus-facts-test',
+    version: 1,
+    documents: [],
+    questions: [
+        {
+            id: 'sun-agribusiness-aggregate',
+            question: 'What aggregate do I need for BAgric in Agribusiness Management at Stellenbosch?',
+            answers: ['aggregate of at least 60%'],
+            sources: [{ file: SUN, pages: [2] }]
+        },
+        {
+            id: 'sun-wood-products-maths',
+            question: 'What Mathematics mark does the Wood and Wood Products Sciences field of study in BScFor need?',
+            answers: ['Mathematics 70%'],
+            sources: [{ file: SUN, pages: [4] }]
+        },
+        {
+            id: 'up-theology-aps',
+            question: 'What is the minimum APS for the Bachelor of Theology at the University of Pretoria?',
+            answers: ['an APS of 25'],
+            sources: [{ file: UP, pages: [13] }]
+        }
+    ]
+};
+
+let evaluator;
+let dir;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(PDFContextSearchService.prototype, 'loadExistingPDFs').mockResolvedValue();
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'evaluation-'));
+
+    const searchService = new PDFContextSearchService({});
+    await searchService.ready;
+    for (const chunk of chunks) {
+        await searchService.uploadDocument({ ...chunk, contentVector: await searchService.generateEmbeddings(chunk.content) });
+    }
+    evaluator = new AnswerEvaluator(searchService, { recallAt: [1, 3] });
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('the fake provider\'s cited answers are scored against the expected pages and answers', async () => {
+    const report = await evaluator.run(dataset);
+
+    expect(report.pipeline).toMatchObject({ llm: 'fake', embeddings: 'hashing-512', passages: 3 });
+    expect(report.results.map(({ id, firstRelevantRank, exactMatch }) => ({ id, firstRelevantRank, exactMatch }))).toEqual([
+        { id: 'sun-agribusiness-aggregate', firstRelevantRank: 1, exactMatch: true },
+        { id: 'sun-wood-products-maths', firstRelevantRank: 1, exactMatch: true },
+        // The prospectus says 24, so only the fuzzy match on "APS" holds
+        { id: 'up-theology-aps', firstRelevantRank: 1, exactMatch: false }
+    ]);
+
+    // The fake cites every passage it quotes, and only the expected page of each question is relevant
+    const [agribusiness] = report.results;
+    expect(agribusiness.cited).toEqual([1, 2, 3]);
+    expect(agribusiness.citedCorrectly).toEqual([1]);
+    expect(agribusiness.retrieved[0]).toEqual({ rank: 1, fileName: SUN, page: 2, pageEnd: 2, relevant: true });
+
+    expect(report.metrics).toMatchObject({
+        questions: 3,
+        recallAt: { 1: 1, 3: 1 },
+        meanReciprocalRank: 1,
+        citationAccuracy: 0.3333,
+        answersWithCitations: 1,
+        exactMatch: 0.6667,
+        failedSearches: 0
+    });
+});
+
+test('a page range counts when it covers an expected page', () => {
+    const expected = [{ file: SUN, pages: [4] }];
+
+    expect(evaluator.isExpectedSource({ fileName: SUN, page: 3, pageEnd: 4 }, expected)).toBe(true);
+    expect(evaluator.isExpectedSource({ fileName: SUN, page: 2, pageEnd: 2 }, expected)).toBe(false);
+    expect(evaluator.isExpectedSource({ fileName: UP, page: 4 }, expected)).toBe(false);
+    expect(evaluator.isExpectedSource({ fileName: SUN, page: null }, expected)).toBe(false);
+});
+
+test('answers match however the amounts are written', () => {
+    expect(evaluator.containsPhrase('Tuition is R45,000 a year.', 'R45 000')).toBe(true);
+    expect(evaluator.containsPhrase('An APS of 240 is needed', 'APS of 24')).toBe(false);
+    expect(evaluator.termRecall('Mathematics at 70% is required', 'Mathematics 70% and Physical Sciences')).toBe(0.5);
+});
+
+test('a rerun is compared with the baseline question by question', async () => {
+    const baseline = await evaluator.run(dataset);
+    const rerun = await evaluator.run({
+        ...dataset,
+        questions: [
+            { ...dataset.questions[0], answers: ['an aggregate of 65%'] },
+            dataset.questions[1],
+            { id: 'up-new', question: 'Which faculty offers the BTh?', answers: ['Theology'], sources: [{ file: UP, pages: [13] }] }
+        ]
+    });
+
+    const comparison = evaluator.compare(rerun, baseline);
+
+    expect(comparison.questions).toEqual([{
+        id: 'sun-agribusiness-aggregate',
+        changes: { exactMatch: { before: true, after: false }, fuzzyMatch: { before: true, after: false } }
+    }]);
+    expect(comparison.added).toEqual(['up-new']);
+    expect(comparison.removed).toEqual(['up-theology-aps']);
+    expect(comparison.metrics['recall@1']).toEqual({ before: 1, after: 1, change: 0 });
+});
+
+test('a dataset without ids, answers or sources is refused', async () => {
+    const file = path.join(dir, 'dataset.json');
+
+    await fs.writeFile(file, JSON.stringify({ name: 'broken', version: 1, questions: [{ id: 'a', question: 'Why?' }] }));
+    await expect(evaluator.loadDataset(file)).rejects.toThrow('Question 1 in');
+
+    await fs.writeFile(file, JSON.stringify({ ...dataset, questions: [dataset.questions[0], dataset.questions[0]] }));
+    await expect(evaluator.loadDataset(file)).rejects.toThrow('Duplicate question id "sun-agribusiness-aggregate"');
+});
@@ -0,0 +1,265 @@
+/**
+ * APS Calculator
+ * Works out Admission Point Scores from NSC / IEB subject marks, including the
+ * university-specific variants (Wits' 8-point scale and UCT's Faculty Points Score)
+ */
+//apsCalculator.js
+
+const EXAM_BOARDS = ['NSC', 'IEB'];
+
+const LIFE_ORIENTATION = 'Life Orientation';
+const MATHEMATICS_SUBJECTS = ['Mathematics', 'Mathematical Literacy', 'Technical Mathematics'];
+
+// Standard NSC achievement scale, shared by the IEB (lower bound % -> level)
+const ACHIEVEMENT_LEVELS = [
+    { min: 80, level: 7 },
+    { min: 70, level: 6 },
+    { min: 60, level: 5 },
+    { min: 50, level: 4 },
+    { min: 40, level: 3 },
+    { min: 30, level: 2 },
+    { min: 0, level: 1 }
+];
+
+// Wits rates subjects on an 8-point scale and Life Orientation on its own 4-point scale
+const WITS_POINTS = [
+    { min: 90, points: 8 },
+    { min: 80, points: 7 },
+    { min: 70, points: 6 },
+    { min: 60, points: 5 },
+    { min: 50, points: 4 },
+    { min: 40, points: 3 },
+    { min: 0, points: 0 }
+];
+
+// Wits adds two points to English and Mathematics from 60%
+const WITS_BONUS = { minPercentage: 60, points: 2 };
+
+const WITS_LO_POINTS = [
+    { min: 90, points: 4 },
+    { min: 80, points: 3 },
+    { min: 70, points: 2 },
+    { min: 60, points: 1 },
+    { min: 0, points: 0 }
+];
+
+const SCHEMES = {
+    standard: {
+        label: 'Standard APS',
+        description: 'Best six subjects on the 1-7 achievement scale, excluding Life Orientation'
+    },
+    wits: {
+        label: 'Wits APS',
+        description: 'Best six subjects on the Wits 8-point scale, with 2 more for English and Mathematics from 60%, plus Life Orientation on a 4-point scale'
+    },
+    uct_fps: {
+        label: 'UCT Faculty Points Score',
+        description: 'Sum of the percentages of English and the best five other subjects, excluding Life Orientation; results below 40% score nothing'
+    }
+};
+
+// Universities that publish their admission requirements on their own scale
+const UNIVERSITY_SCHEMES = {
+    'University of the Witwatersrand': 'wits',
+    'University of Cape Town': 'uct_fps'
+};
+
+const SUBJECTS_COUNTED = 6;
+
+// UCT gives a result below 40% no score, and always counts English
+const UCT_MINIMUM_PERCENTAGE = 40;
+
+class APSCalculator {
+    /**
+     * Calculate an APS for the given subjects
+     * @param {Array<{name: string, percentage: number}>} subjects
+     * @param {Object} options - scheme ('standard' | 'wits' | 'uct_fps') and optional
+     *                           per-subject weights, e.g. { Mathematics: 2 } for UCT faculties
+     *                           that double-weight key subjects
+     */
+    calculate(subjects, options = {}) {
+        const scheme = options.scheme || 'standard';
+        if (!SCHEMES[scheme]) {
+            throw new Error(`Unknown APS scheme: ${scheme}`);
+        }
+
+        const normalized = this.normalizeSubjects(subjects);
+        const weights = options.weights || {};
+
+        const rated = normalized.map(subject => {
+            const isLO = this.isLifeOrientation(subject.name);
+            const weight = weights[subject.name] || 1;
+            return {
+                ...subject,
+                points: this.getPoints(subject, scheme, isLO) * weight,
+                maxPoints: this.getMaxPoints(scheme, isLO) * weight,
+                isLifeOrientation: isLO
+            };
+        });
+
+        const ranked = rated
+            .filter(subject => !subject.isLifeOrientation)
+            .sort((a, b) => b.points - a.points);
+        const english = scheme === 'uct_fps' ? ranked.filter(subject => this.isEnglish(subject.name)).slice(0, 1) : [];
+        const counted = new Set([...english, ...ranked.filter(subject => !english.includes(subject))].slice(0, SUBJECTS_COUNTED));
+
+        // Wits adds Life Orientation on top of the best six
+        if (scheme === 'wits') {
+            rated.filter(subject => subject.isLifeOrientation).forEach(subject => counted.add(subject));
+        }
+
+        const breakdown = rated.map(subject => ({
+            name: subject.name,
+            percentage: subject.percentage,
+            level: subject.level,
+            points: subject.points,
+            counted: counted.has(subject)
+        }));
+
+        const countedSubjects = [...counted];
+        const maxScore = scheme === 'wits'
+            ? SUBJECTS_COUNTED * WITS_POINTS[0].points + 2 * WITS_BONUS.points + WITS_LO_POINTS[0].points
+            : this.getMaxScore(countedSubjects, scheme);
+
+        return {
+            scheme,
+            label: SCHEMES[scheme].label,
+            score: countedSubjects.reduce((sum, subject) => sum + subject.points, 0),
+            maxScore,
+            breakdown
+        };
+    }
+
+    /**
+     * Every supported scheme for the subjects, keyed by scheme id
+     */
+    calculateAll(subjects) {
+        return Object.keys(SCHEMES).reduce((results, scheme) => {
+            results[scheme] = this.calculate(subjects, { scheme });
+            return results;
+        }, {});
+    }
+
+    getSchemeForUniversity(universityName) {
+        return UNIVERSITY_SCHEMES[universityName] || 'standard';
+    }
+
+    getAchievementLevel(percentage) {
+        return ACHIEVEMENT_LEVELS.find(band => percentage >= band.min).level;
+    }
+
+    // The lowest percentage that reaches an achievement level, e.g. 60 for level 5
+    getLevelMinimum(level) {
+        const band = ACHIEVEMENT_LEVELS.find(candidate => candidate.level === level);
+        return band ? band.min : null;
+    }
+
+    getPoints(subject, scheme, isLO) {
+        if (scheme === 'uct_fps') {
+            return isLO || subject.percentage < UCT_MINIMUM_PERCENTAGE ? 0 : Math.round(subject.percentage);
+        }
+        if (scheme === 'wits') {
+            if (isLO) return WITS_LO_POINTS.find(band => subject.percentage >= band.min).points;
+
+            const bonus = (this.isEnglish(subject.name) || subject.name === 'Mathematics') && subject.percentage >= WITS_BONUS.minPercentage
+                ? WITS_BONUS.points
+                : 0;
+            return WITS_POINTS.find(band => subject.percentage >= band.min).points + bonus;
+        }
+        return isLO ? 0 : subject.level;
+    }
+
+    getMaxPoints(scheme, isLO) {
+        if (scheme === 'uct_fps') return isLO ? 0 : 100;
+        if (scheme === 'wits') return isLO ? WITS_LO_POINTS[0].points : WITS_POINTS[0].points;
+        return isLO ? 0 : ACHIEVEMENT_LEVELS[0].level;
+    }
+
+    getMaxScore(countedSubjects, scheme) {
+        // Weighted subjects raise the ceiling, so size it from what was counted
+        const counted = countedSubjects.reduce((sum, subject) => sum + subject.maxPoints, 0);
+        const missing = Math.max(0, SUBJECTS_COUNTED - countedSubjects.length);
+        return counted + missing * this.getMaxPoints(scheme, false);
+    }
+
+    /**
+     * Trim names, coerce percentages and fill in the achievement level for each subject
+     */
+    normalizeSubjects(subjects) {
+        return (subjects || [])
+            .filter(subject => subject && typeof subject.name === 'string' && subject.name.trim())
+            .map(subject => {
+                const percentage = Math.max(0, Math.min(100, Number(subject.percentage) || 0));
+                return {
+                    name: subject.name.trim(),
+                    percentage,
+                    level: this.getAchievementLevel(percentage)
+                };
+            });
+    }
+
+    /**
+     * Check a set of matric results before it is saved
+     * @returns {string[]} validation errors, empty when the results are usable
+     */
+    validateSubjects(subjects, examBoard) {
+        const errors = [];
+
+        if (!EXAM_BOARDS.includes(examBoard)) {
+            errors.push(`Exam board must be one of ${EXAM_BOARDS.join(', ')}`);
+        }
+
+        if (!Array.isArray(subjects) || subjects.length === 0) {
+            errors.push('Matric subject marks are required');
+            return errors;
+        }
+
+        const names = new Set();
+        subjects.forEach((subject, index) => {
+            const name = subject && typeof subject.name === 'string' ? subject.name.trim() : '';
+            if (!name) {
+                errors.push(`Subject ${index + 1} needs a name`);
+                return;
+            }
+
+            if (names.has(name.toLowerCase())) {
+                errors.push(`${name} is listed more than once`);
+            }
+            names.add(name.toLowerCase());
+
+            const percentage = Number(subject.percentage);
+            if (subject.percentage === '' || subject.percentage === null || isNaN(percentage) || percentage < 0 || percentage > 100) {
+                errors.push(`${name} must have a mark between 0 and 100%`);
+            }
+        });
+
+        const apsSubjects = subjects.filter(subject => subject && subject.name && !this.isLifeOrientation(subject.name));
+        if (apsSubjects.length < SUBJECTS_COUNTED) {
+            errors.push(`At least ${SUBJECTS_COUNTED} subjects besides Life Orientation are needed to calculate an APS`);
+        }
+
+        const mathsSubjects = subjects.filter(subject => subject && MATHEMATICS_SUBJECTS.includes((subject.name || '').trim()));
+        if (mathsSubjects.length === 0) {
+            errors.push('Mathematics, Mathematical Literacy or Technical Mathematics is required');
+        } else if (mathsSubjects.length > 1) {
+            errors.push('Only one of Mathematics, Mathematical Literacy or Technical Mathematics can be taken');
+        }
+
+        return errors;
+    }
+
+    // English Home Language or First Additional Language
+    isEnglish(name) {
+        return /^English\b/i.test((name || '').trim());
+    }
+
+    isLifeOrientation(name) {
+        return (name || '').trim().toLowerCase() === LIFE_ORIENTATION.toLowerCase();
+    }
+
+    getSchemes() {
+        return Object.entries(SCHEMES).map(([id, scheme]) => ({ id, ...scheme }));
+    }
+}
+
+module.exports = APSCalculator;
@@ -0,0 +1,129 @@
+const APSCalculator = require('./apsCalculator');
+
+const calculator = new APSCalculator();
+const marks = entries => Object.entries(entries).map(([name, percentage]) => ({ name, percentage }));
+
+test('the UKZN prospectus example adds the six ratings besides Life Orientation', () => {
+    // 2025 UKZN prospectus: ratings 5, 6, (4), 5, 6, 6, 7 give an APS of 35
+    const result = calculator.calculate(marks({
+        'English Home Language': 65,
+        'isiZulu First Additional Language': 72,
+        'Life Orientation': 55,
+        Mathematics: 68,
+        Accounting: 75,
+        'Business Studies': 70,
+        'Computer Applications Technology': 83
+    }));
+
+    expect(result.score).toBe(35);
+    expect(result.breakdown.find(subject => subject.name === 'Life Orientation')).toMatchObject({ level: 4, points: 0, counted: false });
+});
+
+test('the UP scale tops out at 42 and rates marks on the NSC 1 to 7 levels', () => {
+    // 2026 UP prospectus: "The highest APS that can be achieved is 42"
+    const top = calculator.calculate(marks({ English: 100, Afrikaans: 95, Mathematics: 90, 'Physical Sciences': 85, Geography: 80, History: 80, 'Life Orientation': 100 }));
+    expect(top).toMatchObject({ score: 42, maxScore: 42 });
+
+    expect([100, 80, 79, 70, 69, 60, 50, 40, 30, 29, 0].map(percentage => calculator.getAchievementLevel(percentage)))
+        .toEqual([7, 7, 6, 6, 5, 5, 4, 3, 2, 1, 1]);
+    expect(calculator.getLevelMinimum(5)).toBe(60);
+});
+
+test('the Wits APS uses the 8-point scale, 2 more for English and Mathematics from 60%, and Life Orientation', () => {
+    // 2026 Wits guide: English 75% is 6 + 2, Mathematics 65% is 5 + 2, Life Orientation 72% is 2
+    const result = calculator.calculate(marks({
+        'English Home Language': 75,
+        'Afrikaans First Additional Language': 82,
+        Mathematics: 65,
+        'Physical Sciences': 58,
+        'Life Sciences': 91,
+        Geography: 45,
+        'Life Orientation': 72
+    }), { scheme: 'wits' });
+
+    expect(result.breakdown.map(({ name, points }) => [name, points])).toEqual([
+        ['English Home Language', 8],
+        ['Afrikaans First Additional Language', 7],
+        ['Mathematics', 7],
+        ['Physical Sciences', 4],
+        ['Life Sciences', 8],
+        ['Geography', 3],
+        ['Life Orientation', 2]
+    ]);
+    expect(result).toMatchObject({ score: 39, maxScore: 56 });
+});
+
+test('Mathematical Literacy and marks below 60% get no Wits bonus, and 30-39% scores nothing', () => {
+    const result = calculator.calculate(marks({
+        'English First Additional Language': 59,
+        'Mathematical Literacy': 85,
+        Tourism: 35
+    }), { scheme: 'wits' });
+
+    expect(result.breakdown.map(subject => subject.points)).toEqual([4, 7, 0]);
+});
+
+test('the UCT FPS adds English and the five best other percentages, without Life Orientation', () => {
+    // 2026 UCT prospectus: "add English and the five best other subjects percentages, excluding Life Orientation"
+    const result = calculator.calculate(marks({
+        'English First Additional Language': 55,
+        Mathematics: 80,
+        'Physical Sciences': 78,
+        'Life Sciences': 75,
+        Geography: 70,
+        'Afrikaans Home Language': 68,
+        Accounting: 66,
+        'Life Orientation': 90
+    }), { scheme: 'uct_fps' });
+
+    expect(result.score).toBe(55 + 80 + 78 + 75 + 70 + 68);
+    expect(result.maxScore).toBe(600);
+    expect(result.breakdown.filter(subject => !subject.counted).map(subject => subject.name)).toEqual(['Accounting', 'Life Orientation']);
+});
+
+test('a UCT result below 40% does not attract a score', () => {
+    const result = calculator.calculate(marks({ English: 72, Mathematics: 39, History: 40 }), { scheme: 'uct_fps' });
+
+    expect(result.breakdown.map(subject => subject.points)).toEqual([72, 0, 40]);
+});
+
+test('subject weights multiply a subject\'s points and raise the maximum with them', () => {
+    const subjects = marks({ English: 70, Mathematics: 80, 'Physical Sciences': 60, Geography: 65, History: 55, Afrikaans: 75 });
+    const result = calculator.calculate(subjects, { scheme: 'uct_fps', weights: { Mathematics: 2 } });
+
+    expect(result.breakdown.find(subject => subject.name === 'Mathematics').points).toBe(160);
+    expect(result.score).toBe(70 + 160 + 60 + 65 + 55 + 75);
+    expect(result.maxScore).toBe(700);
+});
+
+test('every scheme is worked out at once, and a university gets its own', () => {
+    const subjects = marks({ English: 75, Mathematics: 65, Afrikaans: 60, 'Physical Sciences': 60, 'Life Sciences': 55, Geography: 50, 'Life Orientation': 80 });
+
+    expect(Object.keys(calculator.calculateAll(subjects))).toEqual(['standard', 'wits', 'uct_fps']);
+    expect(calculator.getSchemeForUniversity('University of the Witwatersrand')).toBe('wits');
+    expect(calculator.getSchemeForUniversity('University of Cape Town')).toBe('uct_fps');
+    expect(calculator.getSchemeForUniversity('University of Pretoria')).toBe('standard');
+    expect(() => calculator.calculate(subjects, { scheme: 'ukzn' })).toThrow('Unknown APS scheme: ukzn');
+});
+
+test('matric results need an exam board, six subjects besides Life Orientation and one Mathematics', () => {
+    const valid = marks({ English: 70, Afrikaans: 60, Mathematics: 65, 'Physical Sciences': 60, Geography: 55, History: 50, 'Life Orientation': 80 });
+
+    expect(calculator.validateSubjects(valid, 'NSC')).toEqual([]);
+    expect(calculator.validateSubjects(valid, 'IEB')).toEqual([]);
+    expect(calculator.validateSubjects([], 'Cambridge')).toEqual([
+        'Exam board must be one of NSC, IEB',
+        'Matric subject marks are required'
+    ]);
+    expect(calculator.validateSubjects([
+        ...marks({ English: 70, english: 65, 'Mathematical Literacy': 101, Mathematics: '' }),
+        { name: ' ', percentage: 50 }
+    ], 'NSC')).toEqual([
+        'english is listed more than once',
+        'Mathematical Literacy must have a mark between 0 and 100%',
+        'Mathematics must have a mark between 0 and 100%',
+        'Subject 5 needs a name',
+        'At least 6 subjects besides Life Orientation are needed to calculate an APS',
+        'Only one of Mathematics, Mathematical Literacy or Technical Mathematics can be taken'
+    ]);
+});
@@ -3,11 +3,11 @@
  * Handles side-by-side comparisons
  */
 
-const SearchService = require('./searchService');
+const UniversityRegistry = require('./universityRegistry');
 
 class ComparisonService {
-    constructor() {
-        this.searchService = new SearchService();
+    constructor(universityRegistry = new UniversityRegistry()) {
+        this.universityRegistry = universityRegistry;
     }
     
     async compare(universityIds) {
@@ -20,7 +20,7 @@ class ComparisonService {
                 universityIds.map(async (id, index) => {
                     try {
                         console.log(`Fetching university ${index + 1}:`, id);
-                        const result = await this.searchService.getById(id);
+                        const result = await this.universityRegistry.getById(id);
                         console.log(`Result for ${id}:`, result ? 'Found' : 'Not found');
                         return result;
                     } catch (error) {
@@ -196,8 +196,8 @@ class ComparisonService {
         const earliest = universities
             .filter(u => u.deadline)
             .reduce((prev, current) => 
-                new Date(current.deadline) < new Date(prev.deadline) ? current : prev
-            );
+                !prev || new Date(current.deadline) < new Date(prev.deadline) ? current : prev
+            , null);
         if (earliest) {
             highlights.push({
                 type: 'warning',
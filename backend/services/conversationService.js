@@ -0,0 +1,181 @@
+/**
+ * Conversation Service
+ * Multi-turn sessions for the AI assistant: a rolling message history that is
+ * folded into a running summary once it grows past a token budget
+ */
+//conversationService.js
+const crypto = require('crypto');
+
+// Rough token count - close enough for budgeting without a tokenizer
+const CHARS_PER_TOKEN = 4;
+
+// History (summary plus messages) kept per session before older turns are summarised
+const DEFAULT_TOKEN_BUDGET = 1500;
+
+// Latest messages that always stay verbatim - two question/answer turns
+const KEEP_RECENT_MESSAGES = 4;
+
+// Idle sessions are dropped after two hours, oldest first past the cap
+const SESSION_TTL_MS = 2 * 60 * 60 * 1000;
+const MAX_SESSIONS = 500;
+
+class ConversationService {
+    /**
+     * @param {Object} options - summarize(previousSummary, messages), which resolves
+     *   to a new summary, and tokenBudget. Without a summariser older turns are
+     *   condensed to the questions that were asked.
+     */
+    constructor(options = {}) {
+        this.summarize = options.summarize || null;
+        this.tokenBudget = options.tokenBudget
+            || parseInt(process.env.CONVERSATION_TOKEN_BUDGET)
+            || DEFAULT_TOKEN_BUDGET;
+        this.sessions = new Map();
+    }
+
+    create() {
+        this.evictStale();
+
+        const now = new Date().toISOString();
+        const session = {
+            id: crypto.randomUUID(),
+            summary: '',
+            messages: [],
+            summarizedMessages: 0,
+            createdAt: now,
+            updatedAt: now
+        };
+
+        this.sessions.set(session.id, session);
+        return session;
+    }
+
+    get(id) {
+        const session = id ? this.sessions.get(id) : null;
+        if (!session) return null;
+
+        if (Date.now() - Date.parse(session.updatedAt) > SESSION_TTL_MS) {
+            this.sessions.delete(id);
+            return null;
+        }
+        return session;
+    }
+
+    /**
+     * The session for an id, or a new one when the id is missing or has expired
+     */
+    getOrCreate(id) {
+        return this.get(id) || this.create();
+    }
+
+    delete(id) {
+        return this.sessions.delete(id);
+    }
+
+    /**
+     * What the assistant needs to answer a follow-up: the summary of older turns
+     * and the recent messages, as chat-completion style { role, content }
+     */
+    getContext(id) {
+        const session = this.get(id);
+        if (!session) return { summary: '', messages: [] };
+
+        return {
+            summary: session.summary,
+            messages: session.messages.map(({ role, content }) => ({ role, content }))
+        };
+    }
+
+    /**
+     * Record a question and its answer, summarising older turns if the history
+     * is now over budget
+     */
+    async addTurn(id, question, answer, sources = []) {
+        const session = this.get(id);
+        if (!session) {
+            throw new Error(`Conversation ${id} not found`);
+        }
+
+        const now = new Date().toISOString();
+        session.messages.push(
+            { role: 'user', content: question, createdAt: now },
+            {
+                role: 'assistant',
+                content: answer,
+                sources: sources.map(source => ({
+                    id: source.id,
+                    fileName: source.fileName,
+                    universityName: source.universityName,
+                    page: source.page || null
+                })),
+                createdAt: now
+            }
+        );
+        session.updatedAt = now;
+
+        await this.compact(session);
+        return session;
+    }
+
+    async compact(session) {
+        if (this.countTokens(session) <= this.tokenBudget || session.messages.length <= KEEP_RECENT_MESSAGES) {
+            return;
+        }
+
+        const older = session.messages.slice(0, -KEEP_RECENT_MESSAGES);
+        const recent = session.messages.slice(-KEEP_RECENT_MESSAGES);
+
+        let summary = null;
+        if (this.summarize) {
+            try {
+                summary = await this.summarize(session.summary, older.map(({ role, content }) => ({ role, content })));
+            } catch (error) {
+                console.error('❌ Failed to summarise conversation, keeping the questions only:', error.message);
+            }
+        }
+
+        session.summary = summary || this.condense(session.summary, older);
+        session.messages = recent;
+        session.summarizedMessages += older.length;
+        console.log(`🧠 Summarised ${older.length} messages of conversation ${session.id}`);
+    }
+
+    /**
+     * Summary used when no model is available: the questions asked so far,
+     * trimmed to half the budget from the oldest end
+     */
+    condense(previousSummary, messages) {
+        const questions = messages
+            .filter(message => message.role === 'user')
+            .map(message => `- ${message.content}`);
+        if (questions.length === 0) return previousSummary;
+
+        const lines = previousSummary
+            ? `${previousSummary}\n${questions.join('\n')}`
+            : `Earlier questions:\n${questions.join('\n')}`;
+
+        const maxChars = Math.floor(this.tokenBudget / 2) * CHARS_PER_TOKEN;
+        return lines.length > maxChars ? lines.slice(lines.length - maxChars) : lines;
+    }
+
+    countTokens(session) {
+        const chars = session.messages.reduce((sum, message) => sum + message.content.length, session.summary.length);
+        return Math.ceil(chars / CHARS_PER_TOKEN);
+    }
+
+    evictStale() {
+        const now = Date.now();
+        for (const [id, session] of this.sessions) {
+            if (now - Date.parse(session.updatedAt) > SESSION_TTL_MS) {
+                this.sessions.delete(id);
+            }
+        }
+
+        // Map keeps insertion order, so the first entries are the oldest sessions
+        while (this.sessions.size >= MAX_SESSIONS) {
+            this.sessions.delete(this.sessions.keys().next().value);
+        }
+    }
+}
+
+module.exports = ConversationService;
@@ -0,0 +1,83 @@
+const ConversationService = require('./conversationService');
+
+// An answer of about n tokens
+const answerOf = tokens => 'x'.repeat(tokens * 4);
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test('keeps every turn verbatim while the history is within budget', async () => {
+    const conversations = new ConversationService({ tokenBudget: 1000 });
+    const { id } = conversations.create();
+    await conversations.addTurn(id, 'What APS does UCT engineering need?', 'An APS of 42 [1]', [{ id: 1, fileName: 'uct.pdf', page: 12 }]);
+
+    expect(conversations.getContext(id)).toEqual({
+        summary: '',
+        messages: [
+            { role: 'user', content: 'What APS does UCT engineering need?' },
+            { role: 'assistant', content: 'An APS of 42 [1]' }
+        ]
+    });
+    expect(conversations.get(id).messages[1].sources).toEqual([{ id: 1, fileName: 'uct.pdf', universityName: undefined, page: 12 }]);
+});
+
+test('over budget, older turns are summarised and the last two turns kept', async () => {
+    const summarize = jest.fn().mockResolvedValue('Asked about UCT and Wits engineering.');
+    const conversations = new ConversationService({ tokenBudget: 200, summarize });
+    const { id } = conversations.create();
+
+    for (const university of ['UCT', 'Wits', 'UP']) {
+        await conversations.addTurn(id, `What about ${university}?`, answerOf(80));
+    }
+
+    expect(summarize).toHaveBeenCalledWith('', [
+        { role: 'user', content: 'What about UCT?' },
+        { role: 'assistant', content: answerOf(80) }
+    ]);
+    const context = conversations.getContext(id);
+    expect(context.summary).toBe('Asked about UCT and Wits engineering.');
+    expect(context.messages.map(message => message.content)).toEqual(['What about Wits?', answerOf(80), 'What about UP?', answerOf(80)]);
+    expect(conversations.get(id).summarizedMessages).toBe(2);
+});
+
+test('the previous summary is handed to the next summarisation', async () => {
+    const summarize = jest.fn()
+        .mockResolvedValueOnce('First summary.')
+        .mockResolvedValueOnce('Second summary.');
+    const conversations = new ConversationService({ tokenBudget: 200, summarize });
+    const { id } = conversations.create();
+
+    for (let turn = 1; turn <= 4; turn++) {
+        await conversations.addTurn(id, `Question ${turn}`, answerOf(80));
+    }
+
+    expect(summarize).toHaveBeenLastCalledWith('First summary.', expect.any(Array));
+    expect(conversations.getContext(id).summary).toBe('Second summary.');
+});
+
+test('without a working summariser the questions asked are kept', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const conversations = new ConversationService({ tokenBudget: 200, summarize: () => Promise.reject(new Error('offline')) });
+    const { id } = conversations.create();
+
+    for (const university of ['UCT', 'Wits', 'UP']) {
+        await conversations.addTurn(id, `What about ${university}?`, answerOf(80));
+    }
+
+    expect(conversations.getContext(id).summary).toBe('Earlier questions:\n- What about UCT?');
+});
+
+test('an unknown or expired session is not found', async () => {
+    const conversations = new ConversationService();
+    const session = conversations.create();
+    session.updatedAt = new Date(Date.now() - 3 * 60 * 60 * 1000).toISOString();
+
+    expect(conversations.get(session.id)).toBeNull();
+    expect(conversations.getOrCreate(session.id).id).not.toBe(session.id);
+    await expect(conversations.addTurn('missing', 'Hello?', 'Hi')).rejects.toThrow('Conversation missing not found');
+});
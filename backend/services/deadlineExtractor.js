@@ -0,0 +1,184 @@
+/**
+ * Deadline Extractor
+ * Reads closing dates out of a prospectus, sentence by sentence: what closes
+ * (applications, residence, bursaries or document submission), for whom (a
+ * faculty, named programmes, international applicants or everyone) and when,
+ * as an ISO date
+ */
+//deadlineExtractor.js
+const ProgrammeExtractor = require('./programmeExtractor');
+const UniversityRegistry = require('./universityRegistry');
+
+const MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July',
+    'August', 'September', 'October', 'November', 'December'];
+
+// "30 June", "30 June 2025" - only when introduced as a cut-off, never "after 1 April"
+const DATE = new RegExp(`\\b(?:on|by|is|before|than|:)\\s+(\\d{1,2})\\s+(${MONTHS.join('|')})(?:\\s+(\\d{4}))?\\b`, 'gi');
+
+// A sentence states a deadline when it says something closes or is due
+const DEADLINE_CUE = /\b(close[sd]?|closing dates?|deadline|due|submit(?:ted)?|submission|no later than)\b/i;
+
+// Checked in order - a residence application is a residence deadline, not an application one
+const TYPE_CUES = [
+    ['residence', /\b(residences?|accommodation|housing)\b/i],
+    ['bursary', /\b(bursar(?:y|ies)|scholarships?|NSFAS|financial aid|funding|loans?)\b/i],
+    ['document_submission', /\b(documents?|portfolios?|transcripts?|certificates?|final results|supporting)\b/i],
+    ['application', /./]
+];
+
+// Undated deadlines fall in the application cycle: the year before the intake,
+// except early-year ones (e.g. final results in January), which are in the intake year
+const LAST_INTAKE_YEAR_MONTH = 3;
+
+// "Faculty of Engineering, Built Environment and Information Technology"
+const FACULTY_NAME = /\bFaculty of ((?:[A-Z][\w-]*|and|&)(?:,?\s+(?:[A-Z][\w-]*|and|&))*)/;
+
+// Programme names shorter than this are too generic to look for in a sentence
+const MIN_PROGRAMME_NAME = 6;
+
+const MAX_DESCRIPTION = 300;
+
+class DeadlineExtractor {
+    constructor(programmeExtractor = new ProgrammeExtractor()) {
+        this.programmeExtractor = programmeExtractor;
+    }
+
+    /**
+     * @param {string[]} pages - text of each page, in order
+     * @param {Object} mapping - the PDF mapping (university, file, academicYear, ...)
+     * @param {Array} programmes - the programmes extracted from the same document,
+     *   which a deadline can name
+     * @returns {Array} one entry per distinct deadline, in document order
+     */
+    extract(pages, mapping, programmes = []) {
+        const universityId = UniversityRegistry.toSlug(mapping.university);
+        const deadlines = new Map();
+        let faculty = null;
+
+        pages.forEach((pageText, pageIndex) => {
+            const lines = pageText.split('\n').map(line => line.replace(/\s+/g, ' ').trim()).filter(Boolean);
+            faculty = this.programmeExtractor.detectFaculty(lines) || this.getPageFaculty(programmes, pageIndex + 1) || faculty;
+
+            this.splitSentences(lines.join(' ')).forEach(sentence => {
+                if (!DEADLINE_CUE.test(sentence)) return;
+                const type = TYPE_CUES.find(([, cue]) => cue.test(sentence))[0];
+
+                for (const match of sentence.matchAll(DATE)) {
+                    const date = this.toISODate(match, mapping.academicYear);
+                    if (!date) continue;
+
+                    const scope = this.getScope(sentence, faculty, programmes);
+                    const deadline = {
+                        id: [universityId, mapping.academicYear, type, scope.applicantGroup, scope.faculty, ...scope.programmeIds, date]
+                            .filter(Boolean)
+                            .map(part => UniversityRegistry.toSlug(String(part)))
+                            .join('-'),
+                        universityId,
+                        universityName: mapping.university,
+                        academicYear: mapping.academicYear || null,
+                        type,
+                        date,
+                        scope,
+                        description: sentence.length > MAX_DESCRIPTION ? `${sentence.slice(0, MAX_DESCRIPTION)}...` : sentence,
+                        source: {
+                            fileName: mapping.file,
+                            page: pageIndex + 1
+                        }
+                    };
+
+                    // The same deadline is often repeated - the first mention is kept
+                    if (!deadlines.has(deadline.id)) deadlines.set(deadline.id, deadline);
+                }
+            });
+        });
+
+        return Array.from(deadlines.values());
+    }
+
+    /**
+     * A university's general application closing date - the one not limited to a
+     * faculty, programme or group of applicants - or the latest one when every one is
+     */
+    static getApplicationDeadline(deadlines) {
+        const applications = deadlines.filter(deadline => deadline.type === 'application');
+        const general = applications.filter(deadline => DeadlineExtractor.isGeneral(deadline));
+        const candidates = (general.length > 0 ? general : applications).map(deadline => deadline.date).sort();
+        return candidates.length > 0 ? candidates[candidates.length - 1] : null;
+    }
+
+    static isGeneral(deadline) {
+        return !deadline.scope.faculty && deadline.scope.programmeIds.length === 0 && !deadline.scope.applicantGroup;
+    }
+
+    /**
+     * Who a deadline applies to: a faculty the sentence names, or the page's for
+     * "this faculty", and any programme it names. "All the other faculties" is everyone.
+     */
+    getScope(sentence, pageFaculty, programmes) {
+        const named = sentence.match(FACULTY_NAME);
+        let faculty = null;
+        if (named) {
+            faculty = named[1].replace(/[\s,]+(and|&)$/, '');
+        } else if (/\bthis faculty\b/i.test(sentence)) {
+            faculty = pageFaculty;
+        }
+
+        // Faculty names and web addresses repeat programme names ("Faculty of Veterinary Science")
+        const text = sentence.replace(new RegExp(FACULTY_NAME, 'g'), ' ').replace(/\bwww\.\S+/gi, ' ').toLowerCase();
+        const programmeIds = programmes
+            .filter(programme => {
+                const name = this.getProgrammeName(programme.qualification).toLowerCase();
+                return name.length >= MIN_PROGRAMME_NAME && new RegExp(`\\b${this.escape(name)}\\b`).test(text);
+            })
+            .map(programme => programme.id);
+
+        return {
+            faculty,
+            programmeIds,
+            applicantGroup: /\b(international|foreign) (applicants?|students?|candidates?)\b/i.test(sentence) ? 'international' : null
+        };
+    }
+
+    escape(text) {
+        return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    // What a sentence would call a programme: "Bachelor of Arts in Information Design" -> "Information Design"
+    getProgrammeName(qualification) {
+        return qualification
+            .replace(/\[.*?\]|\(.*?\)/g, '')
+            .replace(/^.*?\b(in|specialising in)\s+/i, '')
+            .replace(/^(Bachelor|Diploma|Higher Certificate|Advanced Diploma) of\s+/i, '')
+            .trim();
+    }
+
+    // The faculty of the programmes listed on a page, when the page has no faculty heading
+    getPageFaculty(programmes, page) {
+        const programme = programmes.find(candidate => candidate.source && candidate.source.page === page && candidate.faculty);
+        return programme ? programme.faculty : null;
+    }
+
+    toISODate(match, academicYear) {
+        const day = parseInt(match[1]);
+        const month = MONTHS.findIndex(name => name.toLowerCase() === match[2].toLowerCase()) + 1;
+        if (day < 1 || day > 31) return null;
+
+        let year = match[3] ? parseInt(match[3]) : null;
+        if (!year && academicYear) {
+            year = month <= LAST_INTAKE_YEAR_MONTH ? academicYear : academicYear - 1;
+        }
+        if (!year) return null;
+
+        return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+    }
+
+    splitSentences(text) {
+        return text
+            // A sentence can start with a bullet glyph rather than a capital
+            .split(/(?<=[.!?])\s+(?=[^a-z\s])|•/)
+            .map(sentence => sentence.trim())
+            .filter(Boolean);
+    }
+}
+
+module.exports = DeadlineExtractor;
@@ -0,0 +1,109 @@
+const DeadlineExtractor = require('./deadlineExtractor');
+
+const mapping = {
+    file: 'up-prospectus.pdf',
+    university: 'University of Pretoria',
+    academicYear: 2026
+};
+
+const programmes = [
+    {
+        id: 'university-of-pretoria-mbchb',
+        universityId: 'university-of-pretoria',
+        faculty: 'Health Sciences',
+        qualification: 'Bachelor of Medicine and Bachelor of Surgery [MBChB]',
+        source: { page: 2 }
+    },
+    {
+        id: 'university-of-pretoria-ba-information-design',
+        universityId: 'university-of-pretoria',
+        faculty: 'Humanities',
+        qualification: 'Bachelor of Arts in Information Design',
+        source: { page: 3 }
+    }
+];
+
+const extractor = new DeadlineExtractor();
+
+test('the date in the text is parsed, not a fixed one', () => {
+    const [deadline] = extractor.extract(['Applications close on 30 June 2025.'], mapping);
+
+    expect(deadline).toMatchObject({
+        id: 'university-of-pretoria-2026-application-2025-06-30',
+        universityId: 'university-of-pretoria',
+        academicYear: 2026,
+        type: 'application',
+        date: '2025-06-30',
+        scope: { faculty: null, programmeIds: [], applicantGroup: null },
+        source: { fileName: 'up-prospectus.pdf', page: 1 }
+    });
+});
+
+test('a date without a year falls in the application cycle before the intake', () => {
+    const deadlines = extractor.extract([
+        'Applications close on 31 July. Final results must be submitted by 15 January.'
+    ], mapping);
+
+    expect(deadlines.map(deadline => [deadline.type, deadline.date])).toEqual([
+        ['application', '2025-07-31'],
+        ['document_submission', '2026-01-15']
+    ]);
+});
+
+test('residence and bursary closing dates get their own type', () => {
+    const deadlines = extractor.extract([
+        'Residence applications close on 30 September. NSFAS applications close on 31 January.'
+    ], mapping);
+
+    expect(deadlines.map(deadline => [deadline.type, deadline.date])).toEqual([
+        ['residence', '2025-09-30'],
+        ['bursary', '2026-01-31']
+    ]);
+});
+
+test('a date is only read when the sentence says something closes', () => {
+    expect(extractor.extract(['Orientation starts on 2 February. Classes begin after 10 February.'], mapping)).toEqual([]);
+    expect(extractor.extract(['Late applications are accepted after 1 April.'], mapping)).toEqual([]);
+});
+
+test('deadlines are scoped to a named faculty, programme or international applicants', () => {
+    const deadlines = extractor.extract([
+        'The Faculty of Veterinary Science closes on 31 May.',
+        'Applications for Information Design close on 31 August.',
+        'Applications from international applicants close on 31 August.'
+    ], mapping, programmes);
+
+    expect(deadlines.map(deadline => deadline.scope)).toEqual([
+        { faculty: 'Veterinary Science', programmeIds: [], applicantGroup: null },
+        { faculty: null, programmeIds: ['university-of-pretoria-ba-information-design'], applicantGroup: null },
+        { faculty: null, programmeIds: [], applicantGroup: 'international' }
+    ]);
+});
+
+test('"this faculty" is the faculty of the programmes on the page', () => {
+    const [deadline] = extractor.extract(['', 'Applications to this faculty close on 31 May.'], mapping, programmes);
+
+    expect(deadline.scope.faculty).toBe('Health Sciences');
+    expect(deadline.source.page).toBe(2);
+});
+
+test('a deadline repeated later in the prospectus is kept once, from its first page', () => {
+    const deadlines = extractor.extract([
+        'Applications close on 30 June.',
+        'Remember: applications close on 30 June.'
+    ], mapping);
+
+    expect(deadlines).toHaveLength(1);
+    expect(deadlines[0].source.page).toBe(1);
+});
+
+test('the application deadline is the general one, or the latest when every one is scoped', () => {
+    const deadlines = extractor.extract([
+        'The Faculty of Veterinary Science closes on 31 May. Applications close on 30 June. Applications from international applicants close on 31 August.'
+    ], mapping);
+
+    expect(DeadlineExtractor.getApplicationDeadline(deadlines)).toBe('2025-06-30');
+    expect(DeadlineExtractor.getApplicationDeadline(deadlines.filter(deadline => !DeadlineExtractor.isGeneral(deadline))))
+        .toBe('2025-08-31');
+    expect(DeadlineExtractor.getApplicationDeadline([])).toBeNull();
+});
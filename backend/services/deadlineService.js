@@ -0,0 +1,120 @@
+/**
+ * Deadline Service
+ * Serves the closing dates extracted from the prospectuses: applications,
+ * residence, bursaries and document submission, each scoped to everyone, a
+ * faculty, named programmes or international applicants
+ */
+//deadlineService.js
+const fs = require('fs').promises;
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+
+const DEADLINE_TYPES = ['application', 'residence', 'bursary', 'document_submission'];
+
+class DeadlineService {
+    constructor(programmeService = new ProgrammeService()) {
+        this.programmeService = programmeService;
+        this.processedDir = path.join(__dirname, '../processed');
+        this.deadlines = []; // current year of each university
+        this.allDeadlines = []; // every year
+        this.lastLoaded = null;
+    }
+
+    static isType(type) {
+        return DEADLINE_TYPES.includes(type);
+    }
+
+    async loadDeadlines() {
+        try {
+            const deadlinesPath = path.join(this.processedDir, 'deadlines.json');
+            const data = await fs.readFile(deadlinesPath, 'utf8');
+            this.allDeadlines = JSON.parse(data);
+            this.deadlines = this.selectCurrent(this.allDeadlines);
+            this.lastLoaded = new Date().toISOString();
+            console.log(`📅 Loaded ${this.deadlines.length} current deadlines (${this.allDeadlines.length} across all years)`);
+        } catch (error) {
+            console.error('❌ Failed to load deadline data:', error.message);
+            this.deadlines = [];
+            this.allDeadlines = [];
+        }
+
+        return this.deadlines;
+    }
+
+    async ensureLoaded() {
+        if (!this.lastLoaded) {
+            await this.loadDeadlines();
+        }
+    }
+
+    // Each university's deadlines from its latest prospectus year
+    selectCurrent(deadlines) {
+        const latest = new Map();
+        deadlines.forEach(deadline => {
+            const years = [latest.get(deadline.universityId), deadline.academicYear].filter(year => year !== undefined);
+            latest.set(deadline.universityId, ProgrammeService.sortYears(years)[0]);
+        });
+        return deadlines.filter(deadline => deadline.academicYear === latest.get(deadline.universityId));
+    }
+
+    /**
+     * @param {Object} filters - universityId, programmeId (deadlines that apply to
+     *   that programme), type, from and to (ISO dates, inclusive) and academicYear
+     *   (an earlier intake year; the current one when left out)
+     * @returns {Promise<Array>} soonest first
+     */
+    async search(filters = {}) {
+        await this.ensureLoaded();
+        const { universityId, programmeId, type, from, to, academicYear } = filters;
+
+        let results = academicYear === undefined
+            ? this.deadlines
+            : this.allDeadlines.filter(deadline => deadline.academicYear === academicYear);
+
+        if (universityId) {
+            results = results.filter(deadline => deadline.universityId === universityId);
+        }
+        if (type) {
+            results = results.filter(deadline => deadline.type === type);
+        }
+        if (programmeId) {
+            const programme = await this.programmeService.getById(programmeId);
+            results = programme ? this.forProgramme(results, programme) : [];
+        }
+        if (from) {
+            results = results.filter(deadline => deadline.date >= from);
+        }
+        if (to) {
+            results = results.filter(deadline => deadline.date <= to);
+        }
+
+        return [...results].sort((a, b) => a.date.localeCompare(b.date));
+    }
+
+    /**
+     * The deadlines a programme's applicants have to meet: those naming it, its
+     * faculty's and the university's general ones. A narrower deadline of a type
+     * replaces the broader ones - a faculty that closes on 31 May is not also open until 30 June
+     */
+    forProgramme(deadlines, programme) {
+        const matching = deadlines.filter(deadline => deadline.universityId === programme.universityId
+            && !deadline.scope.applicantGroup
+            && (deadline.scope.programmeIds.length > 0
+                ? deadline.scope.programmeIds.includes(programme.id)
+                : !deadline.scope.faculty || deadline.scope.faculty === programme.faculty));
+
+        const narrowest = new Map(); // type -> the narrowest scope it has
+        matching.forEach(deadline => {
+            narrowest.set(deadline.type, Math.max(narrowest.get(deadline.type) || 0, this.getScopeLevel(deadline)));
+        });
+        return matching.filter(deadline => this.getScopeLevel(deadline) === narrowest.get(deadline.type));
+    }
+
+    // 0 for everyone, 1 for a faculty, 2 for named programmes
+    getScopeLevel(deadline) {
+        if (deadline.scope.programmeIds.length > 0) return 2;
+        return deadline.scope.faculty ? 1 : 0;
+    }
+}
+
+module.exports = DeadlineService;
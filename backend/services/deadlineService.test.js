@@ -0,0 +1,99 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const DeadlineService = require('./deadlineService');
+const ProgrammeService = require('./programmeService');
+
+const deadline = (academicYear, type, date, scope = {}) => ({
+    id: `university-of-pretoria-${academicYear}-${type}-${date}`,
+    universityId: 'university-of-pretoria',
+    academicYear,
+    type,
+    date,
+    scope: { faculty: null, programmeIds: [], applicantGroup: null, ...scope }
+});
+
+const mbchb = {
+    id: 'university-of-pretoria-mbchb',
+    universityId: 'university-of-pretoria',
+    academicYear: 2026,
+    faculty: 'Health Sciences',
+    qualification: 'MBChB',
+    requiredSubjects: []
+};
+
+const bcom = {
+    id: 'university-of-pretoria-bcom',
+    universityId: 'university-of-pretoria',
+    academicYear: 2026,
+    faculty: 'Economic and Management Sciences',
+    qualification: 'BCom',
+    requiredSubjects: []
+};
+
+let dir;
+let service;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'deadlines-'));
+
+    await fs.writeFile(path.join(dir, 'programmes.json'), JSON.stringify([mbchb, bcom]));
+    await fs.writeFile(path.join(dir, 'deadlines.json'), JSON.stringify([
+        deadline(2025, 'application', '2024-06-30'),
+        deadline(2026, 'application', '2025-06-30'),
+        deadline(2026, 'application', '2025-05-31', { faculty: 'Health Sciences' }),
+        deadline(2026, 'application', '2025-08-31', { applicantGroup: 'international' }),
+        deadline(2026, 'residence', '2025-09-30'),
+        deadline(2026, 'bursary', '2026-01-31')
+    ]));
+
+    const programmeService = new ProgrammeService();
+    programmeService.processedDir = dir;
+    service = new DeadlineService(programmeService);
+    service.processedDir = dir;
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('the latest edition is served, soonest first', async () => {
+    const deadlines = await service.search();
+
+    expect(deadlines.map(entry => entry.date)).toEqual(['2025-05-31', '2025-06-30', '2025-08-31', '2025-09-30', '2026-01-31']);
+    expect(deadlines.every(entry => entry.academicYear === 2026)).toBe(true);
+});
+
+test('an earlier edition can be asked for by its intake year', async () => {
+    const deadlines = await service.search({ academicYear: 2025 });
+
+    expect(deadlines.map(entry => entry.date)).toEqual(['2024-06-30']);
+});
+
+test('filters by type and an inclusive date window', async () => {
+    expect((await service.search({ type: 'residence' })).map(entry => entry.date)).toEqual(['2025-09-30']);
+    expect((await service.search({ from: '2025-06-30', to: '2025-09-30' })).map(entry => entry.date))
+        .toEqual(['2025-06-30', '2025-08-31', '2025-09-30']);
+});
+
+test('a faculty closing date replaces the general one for its programmes', async () => {
+    const medicine = await service.search({ programmeId: mbchb.id });
+    const commerce = await service.search({ programmeId: bcom.id });
+
+    expect(medicine.map(entry => [entry.type, entry.date])).toEqual([
+        ['application', '2025-05-31'],
+        ['residence', '2025-09-30'],
+        ['bursary', '2026-01-31']
+    ]);
+    expect(commerce.map(entry => [entry.type, entry.date])).toEqual([
+        ['application', '2025-06-30'],
+        ['residence', '2025-09-30'],
+        ['bursary', '2026-01-31']
+    ]);
+});
+
+test('an unknown programme has no deadlines', async () => {
+    expect(await service.search({ programmeId: 'university-of-pretoria-nothing' })).toEqual([]);
+});
@@ -0,0 +1,236 @@
+/**
+ * Eligibility Service
+ * Checks a student's matric results against one programme's admission rules -
+ * minimum APS or aggregate and each subject minimum - and explains every rule
+ * that fails, e.g. "Mathematics level 5 needed but level 4 achieved"
+ */
+//eligibilityService.js
+const APSCalculator = require('./apsCalculator');
+const ProgrammeService = require('./programmeService');
+
+const MATHEMATICS_SUBJECTS = ['Mathematics', 'Mathematical Literacy', 'Technical Mathematics'];
+
+// Generic language requirements, met by any language taken at that level
+const LANGUAGE_LEVELS = ['Home Language', 'First Additional Language'];
+
+// Subjects counted in an aggregate, like the APS: the best six besides Life Orientation
+const AGGREGATE_SUBJECTS = 6;
+
+class EligibilityService {
+    constructor(programmeService = new ProgrammeService(), apsCalculator = new APSCalculator()) {
+        this.programmeService = programmeService;
+        this.apsCalculator = apsCalculator;
+    }
+
+    /**
+     * @param {Array<{name: string, percentage: number}>} subjects - matric results
+     * @param {Object} programme - a programme record from the ProgrammeService
+     * @returns {Object} eligible, the student's APS and aggregate beside the
+     *   programme's minimums, and a failure per rule that is not met
+     */
+    check(subjects, programme) {
+        const results = this.apsCalculator.normalizeSubjects(subjects);
+        const failures = [];
+
+        const scheme = programme.apsScheme || 'standard';
+        const apsScore = this.apsCalculator.calculate(results, { scheme }).score;
+        if (typeof programme.minimumAPS === 'number' && apsScore < programme.minimumAPS) {
+            const shortBy = programme.minimumAPS - apsScore;
+            failures.push({
+                rule: 'aps',
+                required: programme.minimumAPS,
+                achieved: apsScore,
+                shortBy,
+                unit: 'aps',
+                message: `APS short by ${shortBy} (${programme.minimumAPS} needed, ${apsScore} achieved)`
+            });
+        }
+
+        const aggregate = this.getAggregate(results);
+        if (typeof programme.minimumAggregate === 'number' && aggregate < programme.minimumAggregate) {
+            const shortBy = Math.round((programme.minimumAggregate - aggregate) * 10) / 10;
+            failures.push({
+                rule: 'aggregate',
+                required: programme.minimumAggregate,
+                achieved: aggregate,
+                shortBy,
+                unit: 'percentage',
+                message: `Average short by ${shortBy}% (${programme.minimumAggregate}% needed, ${aggregate}% achieved)`
+            });
+        }
+
+        (programme.requiredSubjects || []).forEach(requirement => {
+            const failure = this.checkSubject(results, requirement);
+            if (failure) failures.push(failure);
+        });
+
+        return {
+            programmeId: programme.id,
+            qualification: programme.qualification,
+            universityId: programme.universityId,
+            universityName: programme.universityName,
+            faculty: programme.faculty,
+            eligible: failures.length === 0,
+            apsScheme: scheme,
+            apsScore,
+            minimumAPS: programme.minimumAPS,
+            aggregate,
+            minimumAggregate: programme.minimumAggregate,
+            failures
+        };
+    }
+
+    async checkById(subjects, programmeId) {
+        const programme = await this.programmeService.getById(programmeId);
+        return programme ? this.check(subjects, programme) : null;
+    }
+
+    /**
+     * Check every programme matching a programme search
+     * @param {string} query - as for ProgrammeService.search, '' for every programme
+     * @param {Object} filters - faculty and universityId
+     */
+    async checkAll(subjects, query = '', filters = {}) {
+        const programmes = await this.programmeService.search(query, filters);
+        return programmes.map(programme => this.check(subjects, programme));
+    }
+
+    /**
+     * One subject requirement, met by any of its alternatives
+     * @returns {Object|null} why it is not met, null when it is
+     */
+    checkSubject(results, requirement) {
+        // A subject listed at two levels (for different streams) is met at the lower one
+        const lowest = new Map();
+        [requirement, ...(requirement.alternatives || [])].forEach(option => {
+            const known = lowest.get(option.subject);
+            if (!known || this.getThreshold(option) < this.getThreshold(known)) lowest.set(option.subject, option);
+        });
+        const options = Array.from(lowest.values());
+        const attempts = options
+            .map(option => ({ option, taken: results.find(subject => this.isSubjectMatch(option.subject, subject.name)) }))
+            .filter(attempt => attempt.taken);
+
+        if (attempts.some(({ option, taken }) => taken.percentage >= this.getThreshold(option))) return null;
+
+        const needed = options.map(option => this.describeOption(option)).join(' or ');
+        const asked = lowest.get(requirement.subject);
+        const requiredPercentage = this.getThreshold(asked);
+
+        // The closest miss when the student took one of the options
+        if (attempts.length > 0) {
+            const { option, taken } = attempts
+                .sort((a, b) => (this.getThreshold(a.option) - a.taken.percentage) - (this.getThreshold(b.option) - b.taken.percentage))[0];
+            const unit = this.getUnit(option);
+            const achieved = unit === 'percentage' ? taken.percentage : taken.level;
+            const shown = unit === 'percentage' ? `${achieved}%` : `level ${achieved}`;
+            return {
+                rule: 'subject_level',
+                subject: option.subject,
+                taken: taken.name,
+                required: this.getRequired(option),
+                achieved,
+                shortBy: Math.round((this.getRequired(option) - achieved) * 10) / 10,
+                unit,
+                requiredPercentage: this.getThreshold(option),
+                achievedPercentage: taken.percentage,
+                message: `${this.describeOption(option)} needed but ${shown} achieved`
+            };
+        }
+
+        // A subject taken instead of the one asked for, e.g. Mathematical Literacy for Mathematics
+        const substitute = this.findSubstitute(results, options);
+        if (substitute) {
+            return {
+                rule: 'subject_not_accepted',
+                subject: requirement.subject,
+                taken: substitute.name,
+                required: this.getRequired(asked),
+                achieved: null,
+                shortBy: null,
+                unit: this.getUnit(asked),
+                requiredPercentage,
+                message: `${substitute.name} not accepted - ${needed} needed`
+            };
+        }
+
+        return {
+            rule: 'subject_missing',
+            subject: requirement.subject,
+            taken: null,
+            required: this.getRequired(asked),
+            achieved: null,
+            shortBy: null,
+            unit: this.getUnit(asked),
+            requiredPercentage,
+            message: options.length > 1 ? `${needed} missing` : `${requirement.subject} missing`
+        };
+    }
+
+    // The mark an option asks for: its percentage when the prospectus gives one, else its level's lowest mark
+    getThreshold(option) {
+        return option.minimumPercentage ?? this.apsCalculator.getLevelMinimum(option.minimumLevel);
+    }
+
+    // Requirements are compared in the unit the prospectus gives: a percentage when it has one, else a level
+    getUnit(option) {
+        return option.minimumPercentage ? 'percentage' : 'level';
+    }
+
+    getRequired(option) {
+        return option.minimumPercentage || option.minimumLevel;
+    }
+
+    describeOption(option) {
+        return option.minimumPercentage
+            ? `${option.subject} ${option.minimumPercentage}%`
+            : `${option.subject} level ${option.minimumLevel}`;
+    }
+
+    /**
+     * Whether a subject the student took satisfies a subject named in a requirement:
+     * "English" is met by English Home or First Additional Language, and "Home Language"
+     * by any home language
+     */
+    isSubjectMatch(required, taken) {
+        const requiredName = required.toLowerCase();
+        const takenName = taken.toLowerCase();
+        if (takenName === requiredName) return true;
+
+        if (LANGUAGE_LEVELS.some(level => level.toLowerCase() === requiredName)) {
+            return takenName.endsWith(` ${requiredName}`);
+        }
+        return takenName.startsWith(`${requiredName} `) && LANGUAGE_LEVELS.some(level => takenName.endsWith(level.toLowerCase()));
+    }
+
+    // The student's other mathematics subject, or the same language at another level
+    findSubstitute(results, options) {
+        const names = options.map(option => option.subject);
+
+        if (names.some(name => MATHEMATICS_SUBJECTS.includes(name))) {
+            return results.find(subject => MATHEMATICS_SUBJECTS.includes(subject.name) && !names.includes(subject.name)) || null;
+        }
+
+        const languages = names
+            .map(name => LANGUAGE_LEVELS.reduce((language, level) => language.replace(new RegExp(`\\s*${level}$`, 'i'), ''), name))
+            .filter(Boolean)
+            .map(language => language.toLowerCase());
+        return results.find(subject => languages.some(language => subject.name.toLowerCase().startsWith(`${language} `))) || null;
+    }
+
+    /**
+     * Average percentage of the best six subjects besides Life Orientation, to one decimal
+     */
+    getAggregate(results) {
+        const marks = results
+            .filter(subject => !this.apsCalculator.isLifeOrientation(subject.name))
+            .map(subject => subject.percentage)
+            .sort((a, b) => b - a)
+            .slice(0, AGGREGATE_SUBJECTS);
+        if (marks.length === 0) return 0;
+
+        return Math.round((marks.reduce((sum, mark) => sum + mark, 0) / marks.length) * 10) / 10;
+    }
+}
+
+module.exports = EligibilityService;
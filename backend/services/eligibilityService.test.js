@@ -0,0 +1,137 @@
+const EligibilityService = require('./eligibilityService');
+
+// APS 28 on the standard scheme, an average of 60%
+const subjects = [
+    { name: 'English Home Language', percentage: 65 },
+    { name: 'Afrikaans First Additional Language', percentage: 55 },
+    { name: 'Mathematics', percentage: 58 },
+    { name: 'Physical Sciences', percentage: 62 },
+    { name: 'Life Sciences', percentage: 70 },
+    { name: 'Geography', percentage: 50 },
+    { name: 'Life Orientation', percentage: 80 }
+];
+
+const programme = overrides => ({
+    id: 'university-of-pretoria-bsc-chemistry',
+    universityId: 'university-of-pretoria',
+    universityName: 'University of Pretoria',
+    faculty: 'Natural and Agricultural Sciences',
+    qualification: 'BSc Chemistry',
+    minimumAPS: null,
+    requiredSubjects: [],
+    ...overrides
+});
+
+const service = new EligibilityService();
+
+test('a student meeting every rule is eligible', () => {
+    const result = service.check(subjects, programme({
+        minimumAPS: 28,
+        requiredSubjects: [
+            { subject: 'English', minimumLevel: 5 },
+            { subject: 'Mathematics', minimumLevel: 4 }
+        ]
+    }));
+
+    expect(result.eligible).toBe(true);
+    expect(result.apsScore).toBe(28);
+    expect(result.aggregate).toBe(60);
+    expect(result.failures).toEqual([]);
+});
+
+test('an APS below the minimum says by how much', () => {
+    const [failure] = service.check(subjects, programme({ minimumAPS: 31 })).failures;
+
+    expect(failure).toMatchObject({ rule: 'aps', required: 31, achieved: 28, shortBy: 3, unit: 'aps' });
+    expect(failure.message).toBe('APS short by 3 (31 needed, 28 achieved)');
+});
+
+test('an average below the minimum aggregate is short in percentage points', () => {
+    const [failure] = service.check(subjects, programme({ minimumAggregate: 65 })).failures;
+
+    expect(failure).toMatchObject({ rule: 'aggregate', required: 65, achieved: 60, shortBy: 5, unit: 'percentage' });
+});
+
+test('a subject level requirement is short in levels', () => {
+    const [failure] = service.check(subjects, programme({
+        requiredSubjects: [{ subject: 'Mathematics', minimumLevel: 5 }]
+    })).failures;
+
+    expect(failure).toMatchObject({
+        rule: 'subject_level',
+        subject: 'Mathematics',
+        taken: 'Mathematics',
+        required: 5,
+        achieved: 4,
+        shortBy: 1,
+        unit: 'level',
+        requiredPercentage: 60,
+        achievedPercentage: 58
+    });
+    expect(failure.message).toBe('Mathematics level 5 needed but level 4 achieved');
+});
+
+test('a subject percentage requirement is short in percentage points, not levels', () => {
+    const [failure] = service.check(subjects, programme({
+        requiredSubjects: [{ subject: 'Mathematics', minimumLevel: 4, minimumPercentage: 60 }]
+    })).failures;
+
+    expect(failure).toMatchObject({
+        rule: 'subject_level',
+        required: 60,
+        achieved: 58,
+        shortBy: 2,
+        unit: 'percentage'
+    });
+    expect(failure.message).toBe('Mathematics 60% needed but 58% achieved');
+});
+
+test('a missing subject and a substitute that is not accepted are told apart', () => {
+    const withoutScience = subjects.filter(subject => subject.name !== 'Physical Sciences');
+    const mathsLiteracy = subjects.map(subject => (subject.name === 'Mathematics' ? { ...subject, name: 'Mathematical Literacy' } : subject));
+    const requirements = programme({
+        requiredSubjects: [
+            { subject: 'Mathematics', minimumLevel: 5, minimumPercentage: 60 },
+            { subject: 'Physical Sciences', minimumLevel: 5 }
+        ]
+    });
+
+    expect(service.check(withoutScience, requirements).failures[1]).toMatchObject({
+        rule: 'subject_missing',
+        subject: 'Physical Sciences',
+        required: 5,
+        unit: 'level',
+        message: 'Physical Sciences missing'
+    });
+    expect(service.check(mathsLiteracy, requirements).failures[0]).toMatchObject({
+        rule: 'subject_not_accepted',
+        taken: 'Mathematical Literacy',
+        required: 60,
+        unit: 'percentage',
+        message: 'Mathematical Literacy not accepted - Mathematics 60% needed'
+    });
+});
+
+test('any alternative meets a requirement, and the closest miss is reported', () => {
+    const english = { subject: 'English', minimumLevel: 6, alternatives: [{ subject: 'Afrikaans', minimumLevel: 4 }] };
+    const science = { subject: 'Physical Sciences', minimumLevel: 6, alternatives: [{ subject: 'Life Sciences', minimumLevel: 7 }] };
+
+    expect(service.check(subjects, programme({ requiredSubjects: [english] })).eligible).toBe(true);
+    expect(service.check(subjects, programme({ requiredSubjects: [science] })).failures[0]).toMatchObject({
+        subject: 'Physical Sciences',
+        required: 6,
+        achieved: 5,
+        shortBy: 1
+    });
+});
+
+test('a generic language requirement is met by any language at that level', () => {
+    const result = service.check(subjects, programme({
+        requiredSubjects: [
+            { subject: 'Home Language', minimumLevel: 5 },
+            { subject: 'First Additional Language', minimumLevel: 5 }
+        ]
+    }));
+
+    expect(result.failures.map(failure => failure.subject)).toEqual(['First Additional Language']);
+});
@@ -0,0 +1,140 @@
+/**
+ * Embedding Providers
+ * Turn text into vectors for semantic retrieval. Every provider exposes
+ * `name`, `dimensions` and `embed(texts)`, which resolves to one vector per text.
+ */
+//embeddingProviders.js
+const { OpenAI } = require('openai');
+const KeywordIndex = require('./keywordIndex');
+
+// Embedding models take a bounded input - a whole prospectus is cut to its opening
+const MAX_EMBEDDING_CHARS = 8000;
+
+// Admissions shorthand used interchangeably with the full name in prospectuses
+const ACRONYMS = {
+    aps: 'admission point score',
+    nbt: 'national benchmark test',
+    nsc: 'national senior certificate',
+    ieb: 'independent examination board',
+    nsfas: 'national student financial aid scheme',
+    fal: 'first additional language',
+    hl: 'home language',
+    rpl: 'recognition prior learning',
+    saqa: 'south african qualification authority',
+    ecp: 'extended curriculum programme'
+};
+
+/**
+ * Azure OpenAI embeddings deployment (e.g. text-embedding-3-small)
+ */
+class AzureOpenAIEmbeddingProvider {
+    constructor() {
+        const deployment = process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+        if (!process.env.AZURE_OPENAI_ENDPOINT || !process.env.AZURE_OPENAI_API_KEY || !deployment) {
+            throw new Error('Missing environment variables for Azure OpenAI embeddings');
+        }
+
+        this.client = new OpenAI({
+            apiKey: process.env.AZURE_OPENAI_API_KEY,
+            baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${deployment}`,
+            defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-02-01' },
+            defaultHeaders: {
+                'api-key': process.env.AZURE_OPENAI_API_KEY,
+            },
+        });
+
+        this.deployment = deployment;
+        this.name = `azure-${deployment}`;
+        this.dimensions = parseInt(process.env.AZURE_OPENAI_EMBEDDING_DIMENSIONS) || 1536;
+    }
+
+    async embed(texts) {
+        const response = await this.client.embeddings.create({
+            model: this.deployment,
+            input: texts.map(text => (text || '').substring(0, MAX_EMBEDDING_CHARS))
+        });
+
+        return response.data
+            .sort((a, b) => a.index - b.index)
+            .map(item => item.embedding);
+    }
+}
+
+/**
+ * Deterministic offline embeddings: words and character trigrams hashed into a
+ * fixed number of buckets. No network and the same vector every run, so it suits
+ * local development and tests. It only matches shared vocabulary, which is why
+ * acronyms are expanded to their full names first.
+ */
+class HashingEmbeddingProvider {
+    constructor(dimensions = 512) {
+        this.dimensions = dimensions;
+        this.name = `hashing-${dimensions}`;
+        this.tokenizer = new KeywordIndex();
+    }
+
+    async embed(texts) {
+        return texts.map(text => this.vectorize(text));
+    }
+
+    vectorize(text) {
+        const vector = new Array(this.dimensions).fill(0);
+        const tokens = this.tokenizer.tokenize(this.expandAcronyms((text || '').substring(0, MAX_EMBEDDING_CHARS)));
+
+        tokens.forEach(token => {
+            this.addFeature(vector, token, 1);
+
+            // Trigrams let related word forms ("engineer", "engineering") overlap
+            const padded = `#${token}#`;
+            for (let i = 0; i + 3 <= padded.length; i++) {
+                this.addFeature(vector, padded.substring(i, i + 3), 0.25);
+            }
+        });
+
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+
+    expandAcronyms(text) {
+        return text.replace(/\b[A-Za-z]{2,5}\b/g, word => {
+            const expansion = ACRONYMS[word.toLowerCase()];
+            return expansion ? `${word} ${expansion}` : word;
+        });
+    }
+
+    // Signed feature hashing - the sign bit keeps collisions from only ever adding up
+    addFeature(vector, feature, weight) {
+        const hash = this.hash(feature);
+        const sign = hash & 0x80000000 ? -1 : 1;
+        vector[hash % this.dimensions] += sign * weight;
+    }
+
+    // 32-bit FNV-1a
+    hash(text) {
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < text.length; i++) {
+            hash ^= text.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return hash >>> 0;
+    }
+}
+
+/**
+ * Pick the provider from EMBEDDING_PROVIDER ('azure' or 'local'). Without a
+ * setting, Azure is used when an embeddings deployment is configured.
+ */
+function createEmbeddingProvider() {
+    const configured = (process.env.EMBEDDING_PROVIDER || '').toLowerCase();
+    const useAzure = configured
+        ? configured === 'azure'
+        : !!process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT;
+
+    return useAzure ? new AzureOpenAIEmbeddingProvider() : new HashingEmbeddingProvider();
+}
+
+module.exports = {
+    AzureOpenAIEmbeddingProvider,
+    HashingEmbeddingProvider,
+    createEmbeddingProvider
+};
@@ -0,0 +1,56 @@
+const { AzureOpenAIEmbeddingProvider, HashingEmbeddingProvider, createEmbeddingProvider } = require('./embeddingProviders');
+
+const EMBEDDING_VARIABLES = ['EMBEDDING_PROVIDER', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_EMBEDDING_DEPLOYMENT'];
+const environment = { ...process.env };
+
+const provider = new HashingEmbeddingProvider();
+const cosine = (a, b) => a.reduce((sum, value, i) => sum + value * b[i], 0);
+
+beforeEach(() => {
+    EMBEDDING_VARIABLES.forEach(variable => delete process.env[variable]);
+});
+
+afterAll(() => {
+    process.env = environment;
+});
+
+test('hashed embeddings are unit length and the same every run', async () => {
+    const [first, second] = await provider.embed(['BSc Engineering admission requirements', 'BSc Engineering admission requirements']);
+
+    expect(first).toHaveLength(512);
+    expect(cosine(first, first)).toBeCloseTo(1, 10);
+    expect(second).toEqual(first);
+    expect(new HashingEmbeddingProvider(64).vectorize('Engineering')).toHaveLength(64);
+});
+
+test('related word forms are closer than unrelated text', () => {
+    const engineering = provider.vectorize('engineering faculty');
+
+    expect(cosine(engineering, provider.vectorize('engineer'))).toBeGreaterThan(cosine(engineering, provider.vectorize('residence fees')));
+});
+
+test('acronyms match their full names', () => {
+    expect(provider.expandAcronyms('Minimum APS and NBT')).toBe('Minimum APS admission point score and NBT national benchmark test');
+    expect(cosine(provider.vectorize('NSFAS'), provider.vectorize('national student financial aid scheme')))
+        .toBeGreaterThan(cosine(provider.vectorize('NSFAS'), provider.vectorize('residence application')));
+});
+
+test('empty text embeds to a zero vector rather than dividing by zero', () => {
+    expect(provider.vectorize('').every(value => value === 0)).toBe(true);
+});
+
+test('Azure is only used when asked for or when an embeddings deployment is configured', () => {
+    expect(createEmbeddingProvider()).toBeInstanceOf(HashingEmbeddingProvider);
+
+    process.env.EMBEDDING_PROVIDER = 'local';
+    process.env.AZURE_OPENAI_EMBEDDING_DEPLOYMENT = 'text-embedding-3-small';
+    expect(createEmbeddingProvider()).toBeInstanceOf(HashingEmbeddingProvider);
+
+    process.env.EMBEDDING_PROVIDER = 'azure';
+    expect(() => createEmbeddingProvider()).toThrow('Missing environment variables for Azure OpenAI embeddings');
+
+    delete process.env.EMBEDDING_PROVIDER;
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    process.env.AZURE_OPENAI_API_KEY = 'key';
+    expect(createEmbeddingProvider()).toBeInstanceOf(AzureOpenAIEmbeddingProvider);
+});
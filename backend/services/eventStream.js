@@ -0,0 +1,56 @@
+/**
+ * Event Stream
+ * Server-Sent Events over an Express response: one `event:` and `data:` frame per
+ * event, and an abort signal that fires when the client goes away before the end
+ */
+//eventStream.js
+
+class EventStream {
+    constructor(res) {
+        this.res = res;
+        this.controller = new AbortController();
+
+        res.set({
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            'Connection': 'keep-alive',
+            'X-Accel-Buffering': 'no'
+        });
+        res.flushHeaders();
+
+        // The client went away - stop paying for tokens nobody will read
+        res.on('close', () => {
+            if (!res.writableEnded) {
+                console.log('🛑 Event stream closed by client, aborting');
+                this.controller.abort();
+            }
+        });
+    }
+
+    get signal() {
+        return this.controller.signal;
+    }
+
+    get aborted() {
+        return this.controller.signal.aborted;
+    }
+
+    /**
+     * @param {string} event - event name, e.g. 'token'
+     * @param {Object} data - sent as one line of JSON, so it cannot break the frame
+     */
+    send(event, data) {
+        if (this.aborted) return;
+        this.res.write(EventStream.format(event, data));
+    }
+
+    static format(event, data) {
+        return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+    }
+
+    end() {
+        if (!this.aborted) this.res.end();
+    }
+}
+
+module.exports = EventStream;
@@ -0,0 +1,79 @@
+const { EventEmitter } = require('events');
+const EventStream = require('./eventStream');
+
+// Just enough of an Express response to stream to
+const createResponse = () => {
+    const res = new EventEmitter();
+    res.headers = {};
+    res.body = '';
+    res.writableEnded = false;
+    res.set = headers => Object.assign(res.headers, headers);
+    res.flushHeaders = jest.fn();
+    res.write = chunk => { res.body += chunk; };
+    res.end = () => { res.writableEnded = true; };
+    return res;
+};
+
+// The frames written so far, as { event, data }
+const parseFrames = body => body.split('\n\n').filter(Boolean).map(frame => {
+    const [, event] = frame.match(/^event: (.*)$/m);
+    const [, data] = frame.match(/^data: (.*)$/m);
+    return { event, data: JSON.parse(data) };
+});
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test('opens the response as an uncached event stream', () => {
+    const res = createResponse();
+    new EventStream(res);
+
+    expect(res.headers['Content-Type']).toBe('text/event-stream');
+    expect(res.headers['Cache-Control']).toBe('no-cache');
+    expect(res.flushHeaders).toHaveBeenCalled();
+});
+
+test('writes one event and data frame per event, ended by a blank line', () => {
+    expect(EventStream.format('token', { text: 'Hi' })).toBe('event: token\ndata: {"text":"Hi"}\n\n');
+});
+
+test('data with line breaks stays on one data line', () => {
+    const res = createResponse();
+    const stream = new EventStream(res);
+    stream.send('token', { text: 'first line\n\nsecond line' });
+    stream.send('done', { answer: 'first line\n\nsecond line' });
+
+    expect(parseFrames(res.body)).toEqual([
+        { event: 'token', data: { text: 'first line\n\nsecond line' } },
+        { event: 'done', data: { answer: 'first line\n\nsecond line' } }
+    ]);
+});
+
+test('the client closing the connection aborts the stream and stops writing', () => {
+    const res = createResponse();
+    const stream = new EventStream(res);
+    stream.send('token', { text: 'one' });
+
+    res.emit('close');
+    stream.send('token', { text: 'two' });
+    stream.end();
+
+    expect(stream.signal.aborted).toBe(true);
+    expect(parseFrames(res.body)).toEqual([{ event: 'token', data: { text: 'one' } }]);
+    expect(res.writableEnded).toBe(false);
+});
+
+test('closing after the stream ended is not an abort', () => {
+    const res = createResponse();
+    const stream = new EventStream(res);
+    stream.send('done', {});
+    stream.end();
+    res.emit('close');
+
+    expect(stream.aborted).toBe(false);
+});
@@ -0,0 +1,194 @@
+/**
+ * Funding Service
+ * Estimates NSFAS eligibility from the student's household income band, SASSA
+ * grant and disability status, and what a year at a university costs after the
+ * funding they can expect. The NSFAS thresholds and allowances are kept per
+ * academic year in data/funding.json, with the residence fees and living costs
+ * the prospectuses publish
+ */
+//fundingService.js
+const fs = require('fs').promises;
+const path = require('path');
+
+// Combined annual household income, in rand. The bands line up with the NSFAS
+// thresholds so an estimate is only uncertain when a later version moves them
+const HOUSEHOLD_INCOME_BANDS = [
+    { id: 'up-to-350000', label: 'R350 000 or less', min: 0, max: 350000 },
+    { id: '350001-600000', label: 'R350 001 to R600 000', min: 350001, max: 600000 },
+    { id: 'over-600000', label: 'More than R600 000', min: 600001, max: null }
+];
+
+const EMPTY_RULES = { nsfas: [], residenceFees: [], livingCosts: { months: 0, monthly: {}, rentMonthly: 0 } };
+
+class FundingService {
+    constructor(storePath = path.join(__dirname, '../data/funding.json')) {
+        this.storePath = storePath;
+        this.rules = EMPTY_RULES;
+        this.lastLoaded = null;
+    }
+
+    /**
+     * @returns {string[]} one message per problem with the profile's funding fields
+     */
+    static validateProfile(profile) {
+        const { householdIncomeBand, sassaGrant, disability } = profile || {};
+        const errors = [];
+
+        if (householdIncomeBand !== undefined && householdIncomeBand !== null && householdIncomeBand !== ''
+            && !HOUSEHOLD_INCOME_BANDS.some(band => band.id === householdIncomeBand)) {
+            errors.push(`Unknown household income band "${householdIncomeBand}"; expected one of ${HOUSEHOLD_INCOME_BANDS.map(band => band.id).join(', ')}`);
+        }
+        if (sassaGrant !== undefined && typeof sassaGrant !== 'boolean') {
+            errors.push('SASSA grant status must be true or false');
+        }
+        if (disability !== undefined && typeof disability !== 'boolean') {
+            errors.push('Disability status must be true or false');
+        }
+        return errors;
+    }
+
+    async loadRules() {
+        try {
+            const data = await fs.readFile(this.storePath, 'utf8');
+            this.rules = { ...EMPTY_RULES, ...JSON.parse(data) };
+            this.lastLoaded = new Date().toISOString();
+            console.log(`💰 Loaded ${this.rules.nsfas.length} NSFAS rule versions and ${this.rules.residenceFees.length} residence fees`);
+        } catch (error) {
+            console.error('❌ Failed to load funding rules:', error.message);
+            this.rules = EMPTY_RULES;
+        }
+
+        return this.rules;
+    }
+
+    async ensureLoaded() {
+        if (!this.lastLoaded) {
+            await this.loadRules();
+        }
+    }
+
+    /**
+     * The NSFAS rules for an academic year: the latest version published for it
+     * or before it, or the latest there is when no year is given
+     */
+    getNSFASRules(academicYear) {
+        const versions = [...this.rules.nsfas].sort((a, b) => b.academicYear - a.academicYear);
+        if (!academicYear) return versions[0] || null;
+        return versions.find(version => version.academicYear <= academicYear) || versions[versions.length - 1] || null;
+    }
+
+    /**
+     * Whether the student's household meets the NSFAS financial criteria. Call
+     * ensureLoaded() first, as the RecommendationService does once per request
+     * @returns {Object} status - likely, possible (the income band straddles the
+     *   threshold), unlikely or unknown (no income band) - with the reason and rules version
+     */
+    estimateNSFAS(profile, academicYear) {
+        const rules = this.getNSFASRules(academicYear);
+        if (!rules) {
+            return { status: 'unknown', reason: 'NSFAS thresholds are not available', version: null, incomeThreshold: null };
+        }
+
+        const disability = profile.disability === true;
+        const incomeThreshold = disability ? rules.disabilityHouseholdIncomeMax : rules.householdIncomeMax;
+        const estimate = (status, reason) => ({ status, reason, version: rules.version, incomeThreshold });
+        const threshold = this.formatRand(incomeThreshold);
+
+        if (profile.sassaGrant === true && rules.sassaGrantQualifies) {
+            return estimate('likely', 'SASSA grant recipients meet the NSFAS financial criteria');
+        }
+
+        const band = HOUSEHOLD_INCOME_BANDS.find(b => b.id === profile.householdIncomeBand);
+        if (!band) {
+            return estimate('unknown', 'Add your household income band to estimate NSFAS eligibility');
+        }
+
+        const limit = disability ? `${threshold} for students with a disability` : threshold;
+        if (band.max !== null && band.max <= incomeThreshold) {
+            return estimate('likely', `Your household income (${band.label}) is within the NSFAS limit of ${limit}`);
+        }
+        if (band.min > incomeThreshold) {
+            return estimate('unlikely', `Your household income (${band.label}) is above the NSFAS limit of ${limit}`);
+        }
+        return estimate('possible', `The NSFAS limit of ${limit} falls within your household income band (${band.label})`);
+    }
+
+    /**
+     * A year at the university: tuition, residence and living costs, less the NSFAS
+     * funding the student can expect when they are likely to qualify. NSFAS funds
+     * students at every public university, which the prospectus registry records
+     * @param {Object} uni - structured university record
+     * @param {number|null} tuition - annual tuition, null when the prospectus does not publish it
+     * @param {Object} nsfas - the student's estimateNSFAS() result
+     * @param {number} [academicYear] - the intake year, for that year's NSFAS allowances
+     * @returns {Object} costs, expectedFunding, netCost, and complete - false when the net
+     *   cost leaves out unpublished tuition the student would have to pay
+     */
+    estimate(uni, tuition, nsfas, academicYear) {
+        const costs = {
+            tuition: {
+                amount: tuition,
+                estimated: false,
+                detail: tuition ? 'Published in the prospectus' : 'Not published in the prospectus'
+            },
+            residence: this.estimateResidence(uni.id),
+            living: this.estimateLiving()
+        };
+        costs.total = [costs.tuition, costs.residence, costs.living].reduce((sum, cost) => sum + (cost.amount || 0), 0);
+
+        const rules = this.getNSFASRules(academicYear);
+        const funded = !!rules && nsfas.status === 'likely' && uni.publicUniversity === true;
+        const expectedFunding = funded
+            ? {
+                source: 'NSFAS',
+                version: rules.version,
+                tuition: rules.coversTuition ? tuition : 0, // null: in full, whatever it is
+                accommodation: Math.min(costs.residence.amount, rules.allowances.accommodationCap),
+                livingAllowance: rules.allowances.livingAllowance,
+                learningMaterials: rules.allowances.learningMaterials
+            }
+            : null;
+        const fundingTotal = expectedFunding
+            ? (expectedFunding.tuition || 0) + expectedFunding.accommodation + expectedFunding.livingAllowance + expectedFunding.learningMaterials
+            : 0;
+        if (expectedFunding) expectedFunding.total = fundingTotal;
+
+        return {
+            costs,
+            expectedFunding,
+            netCost: Math.max(0, costs.total - fundingTotal),
+            complete: tuition !== null || (funded && rules.coversTuition)
+        };
+    }
+
+    // The prospectus' residence fee when it publishes one, else a year of average student rent
+    estimateResidence(universityId) {
+        const fee = this.rules.residenceFees.find(entry => entry.universityId === universityId);
+        if (fee) {
+            return { amount: fee.annual, estimated: false, detail: `${fee.description} (${fee.academicYear})` };
+        }
+
+        const { rentMonthly, months } = this.rules.livingCosts;
+        return {
+            amount: rentMonthly * months,
+            estimated: true,
+            detail: `Not published; ${months} months of average student rent at ${this.formatRand(rentMonthly)} a month`
+        };
+    }
+
+    estimateLiving() {
+        const { monthly, months } = this.rules.livingCosts;
+        const perMonth = Object.values(monthly).reduce((sum, amount) => sum + amount, 0);
+        return {
+            amount: perMonth * months,
+            estimated: true,
+            detail: `${months} months of food, transport and mobile at ${this.formatRand(perMonth)} a month`
+        };
+    }
+
+    formatRand(amount) {
+        return `R${amount.toLocaleString('en-ZA')}`;
+    }
+}
+
+module.exports = FundingService;
@@ -0,0 +1,168 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const FundingService = require('./fundingService');
+
+const nsfasVersion = (academicYear, livingAllowance) => ({
+    version: String(academicYear),
+    academicYear,
+    householdIncomeMax: 350000,
+    disabilityHouseholdIncomeMax: 600000,
+    sassaGrantQualifies: true,
+    allowances: { accommodationCap: 50000, livingAllowance, learningMaterials: 5460 },
+    coversTuition: true
+});
+
+const rules = {
+    nsfas: [nsfasVersion(2024, 16500), nsfasVersion(2026, 18000)],
+    residenceFees: [{ universityId: 'university-of-cape-town', academicYear: 2025, annual: 84690, description: 'Single room' }],
+    livingCosts: { months: 10, monthly: { food: 4200, transport: 1500, mobile: 600 }, rentMonthly: 6400 }
+};
+
+const likely = { status: 'likely' };
+const publicUniversity = { id: 'university-of-cape-town', publicUniversity: true };
+
+let dir;
+let service;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'funding-'));
+    const storePath = path.join(dir, 'funding.json');
+    await fs.writeFile(storePath, JSON.stringify(rules));
+
+    service = new FundingService(storePath);
+    await service.ensureLoaded();
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('profile funding fields are checked', () => {
+    expect(FundingService.validateProfile({ householdIncomeBand: 'up-to-350000', sassaGrant: true, disability: false })).toEqual([]);
+    expect(FundingService.validateProfile({ householdIncomeBand: 'rich' })[0]).toMatch(/^Unknown household income band "rich"/);
+    expect(FundingService.validateProfile({ sassaGrant: 'yes', disability: 1 })).toEqual([
+        'SASSA grant status must be true or false',
+        'Disability status must be true or false'
+    ]);
+});
+
+test('NSFAS eligibility follows the income band, SASSA grant and disability', () => {
+    expect(service.estimateNSFAS({ householdIncomeBand: 'up-to-350000' }).status).toBe('likely');
+    expect(service.estimateNSFAS({ householdIncomeBand: 'over-600000' }).status).toBe('unlikely');
+    expect(service.estimateNSFAS({ householdIncomeBand: 'over-600000', sassaGrant: true }).status).toBe('likely');
+    expect(service.estimateNSFAS({ householdIncomeBand: '350001-600000' }).status).toBe('unlikely');
+    expect(service.estimateNSFAS({ householdIncomeBand: '350001-600000', disability: true })).toMatchObject({
+        status: 'likely',
+        incomeThreshold: 600000
+    });
+    expect(service.estimateNSFAS({}).status).toBe('unknown');
+});
+
+test('the NSFAS rules are those published for the academic year, or the latest before it', () => {
+    expect(service.getNSFASRules().version).toBe('2026');
+    expect(service.getNSFASRules(2026).version).toBe('2026');
+    expect(service.getNSFASRules(2025).version).toBe('2024');
+    expect(service.getNSFASRules(2020).version).toBe('2024');
+});
+
+test('a likely NSFAS student at a public university has its funding taken off the cost', () => {
+    const estimate = service.estimate(publicUniversity, 60000, likely, 2026);
+
+    expect(estimate.costs.tuition.amount).toBe(60000);
+    expect(estimate.costs.residence).toMatchObject({ amount: 84690, estimated: false });
+    expect(estimate.costs.living.amount).toBe(63000);
+    expect(estimate.expectedFunding).toMatchObject({
+        version: '2026',
+        tuition: 60000,
+        accommodation: 50000,
+        livingAllowance: 18000,
+        learningMaterials: 5460,
+        total: 133460
+    });
+    expect(estimate.netCost).toBe(60000 + 84690 + 63000 - 133460);
+    expect(estimate.complete).toBe(true);
+});
+
+test('the allowances come from the intake year the university is recommended for', () => {
+    expect(service.estimate(publicUniversity, 60000, likely, 2025).expectedFunding).toMatchObject({ version: '2024', livingAllowance: 16500 });
+    expect(service.estimate(publicUniversity, 60000, likely, 2026).expectedFunding).toMatchObject({ version: '2026', livingAllowance: 18000 });
+});
+
+test('NSFAS is only expected at public universities, whatever the prospectus text mentions', () => {
+    expect(service.estimate({ id: 'private-college', publicUniversity: false, nsfasAccredited: true }, 60000, likely, 2026).expectedFunding).toBeNull();
+    expect(service.estimate({ id: 'unregistered', nsfasAccredited: true }, 60000, likely, 2026).expectedFunding).toBeNull();
+    expect(service.estimate({ id: 'university-of-pretoria', publicUniversity: true, nsfasAccredited: null }, 60000, likely, 2026).expectedFunding)
+        .not.toBeNull();
+});
+
+test('no NSFAS funding is expected unless the student is likely to qualify', () => {
+    const estimate = service.estimate(publicUniversity, 60000, { status: 'possible' }, 2026);
+
+    expect(estimate.expectedFunding).toBeNull();
+    expect(estimate.netCost).toBe(60000 + 84690 + 63000);
+});
+
+test('living costs leave out study material, which the NSFAS learning allowance covers', () => {
+    const { living } = service.estimate(publicUniversity, null, { status: 'unknown' }, 2026).costs;
+
+    expect(living).toEqual({
+        amount: 63000,
+        estimated: true,
+        detail: '10 months of food, transport and mobile at R6 300 a month'.replace(' ', (6300).toLocaleString('en-ZA').charAt(1))
+    });
+});
+
+test('residence without a published fee is estimated from average student rent', () => {
+    const { residence } = service.estimate({ id: 'university-of-pretoria', publicUniversity: true }, null, { status: 'unknown' }, 2026).costs;
+
+    expect(residence).toMatchObject({ amount: 64000, estimated: true });
+});
+
+test('unpublished tuition leaves the net cost incomplete unless NSFAS covers it', () => {
+    expect(service.estimate(publicUniversity, null, { status: 'unknown' }, 2026).complete).toBe(false);
+
+    const funded = service.estimate(publicUniversity, null, likely, 2026);
+    expect(funded.complete).toBe(true);
+    expect(funded.expectedFunding.tuition).toBeNull();
+});
+
+describe('with the published funding rules and structured university records', () => {
+    const universities = require('../processed/universities_structured.json');
+    const record = name => universities.find(uni => uni.universityName === name);
+
+    let published;
+
+    beforeEach(async () => {
+        published = new FundingService();
+        await published.ensureLoaded();
+    });
+
+    test('UFS counts its residence fee once, as residence, with its tuition unpublished', () => {
+        const ufs = record('University of the Free State');
+        const estimate = published.estimate(ufs, ufs.tuitionFeesAnnual ?? null, { status: 'unknown' }, ufs.academicYear);
+
+        expect(estimate.costs.tuition.amount).toBeNull();
+        expect(estimate.costs.residence).toMatchObject({ amount: 54675, estimated: false });
+        expect(estimate.costs.total).toBe(54675 + estimate.costs.living.amount);
+        expect(estimate.complete).toBe(false);
+    });
+
+    test('NSFAS covers UKZN tuition, its residence up to the cap and the allowances for a likely student', () => {
+        const ukzn = record('University of KwaZulu-Natal');
+        const estimate = published.estimate(ukzn, ukzn.tuitionFeesAnnual, { status: 'likely' }, ukzn.academicYear);
+        const rules = published.getNSFASRules(ukzn.academicYear);
+
+        expect(ukzn.publicUniversity).toBe(true);
+        expect(estimate.costs.tuition.amount).toBe(34000);
+        expect(estimate.costs.residence).toMatchObject({ amount: 38690, estimated: false });
+        expect(estimate.expectedFunding).toMatchObject({
+            tuition: 34000,
+            accommodation: Math.min(38690, rules.allowances.accommodationCap)
+        });
+        expect(estimate.netCost).toBe(Math.max(0, estimate.costs.total - estimate.expectedFunding.total));
+        expect(estimate.complete).toBe(true);
+    });
+});
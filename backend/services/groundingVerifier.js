@@ -0,0 +1,351 @@
+/**
+ * Grounding Verifier
+ * Checks a generated answer against the passages it was written from: every
+ * number and date in each claim must be what the passages give for the same
+ * thing, a different figure for it marks a contradiction, and every subject
+ * requirement must appear in the passages
+ */
+//groundingVerifier.js
+const KeywordIndex = require('./keywordIndex');
+const ProgrammeExtractor = require('./programmeExtractor');
+
+const MONTHS = [
+    'january', 'february', 'march', 'april', 'may', 'june',
+    'july', 'august', 'september', 'october', 'november', 'december'
+];
+
+// Money ("R55 000"), grouped thousands, percentages, plain numbers and words
+const TOKEN_PATTERN = /(?<![A-Za-z])R\s?\d{1,3}(?:[ ,]\d{3})+(?:\.\d+)?|(?<![A-Za-z])R\s?\d+(?:\.\d+)?|(?<!\d)\d{1,3}(?:[ ,]\d{3})+(?!\d)|\d+(?:\.\d+)?\s?%|\d+(?:\.\d+)?|[A-Za-z]+/g;
+
+// How many words before a figure say what it is ("APS of 40", "Mathematics 60%")
+const LABEL_WINDOW = 3;
+
+// How far from a label a passage's figure can be and still be about the same thing
+const MATCH_WINDOW = 4;
+
+// How far from a label the programme or other name it belongs to can be ("MBChB: minimum APS 40")
+const SUBJECT_WINDOW = 8;
+
+// Share of a figure-free claim's terms a passage must contain to support it
+const MIN_TERM_OVERLAP = 0.5;
+
+// Claims shorter than this many terms ("Here is what I found:") are not checked
+const MIN_CLAIM_TERMS = 3;
+
+class GroundingVerifier {
+    constructor() {
+        this.tokenizer = new KeywordIndex();
+    }
+
+    /**
+     * @param {string} answer - the generated answer, citing passages as [n]
+     * @param {Array<{id: number, content: string}>} passages - what it was written from
+     * @returns {Object} claims with a status each (supported, unsupported or
+     *   contradicted), their offsets in the answer and the figures checked,
+     *   plus a count per status
+     */
+    verify(answer, passages) {
+        const scanned = passages.map(passage => this.scanPassage(passage));
+        const claims = this.splitClaims(answer || '')
+            .map(claim => this.verifyClaim(claim, scanned))
+            .filter(Boolean);
+
+        const count = status => claims.filter(claim => claim.status === status).length;
+        return {
+            claims,
+            summary: {
+                total: claims.length,
+                supported: count('supported'),
+                unsupported: count('unsupported'),
+                contradicted: count('contradicted')
+            }
+        };
+    }
+
+    /**
+     * Sentences and list items, with their character range in the answer and
+     * the passages they cite. A citation after the full stop stays with its sentence.
+     */
+    splitClaims(answer) {
+        const claims = [];
+        const addClaim = (start, end) => {
+            const text = answer.slice(start, end);
+            const trimmedStart = start + (text.length - text.trimStart().length);
+            const trimmed = text.trim();
+            if (trimmed) claims.push({ text: trimmed, start: trimmedStart, end: trimmedStart + trimmed.length });
+        };
+
+        for (const line of answer.matchAll(/[^\n]+/g)) {
+            const boundary = /[.!?](?:\s*\[\d+\])*(?=\s+["'(\[]?[A-Z0-9])/g;
+            let start = 0;
+            let match;
+            while ((match = boundary.exec(line[0])) !== null) {
+                const end = match.index + match[0].length;
+                addClaim(line.index + start, line.index + end);
+                start = end;
+            }
+            addClaim(line.index + start, line.index + line[0].length);
+        }
+
+        return claims.map(claim => ({
+            ...claim,
+            citations: Array.from(claim.text.matchAll(/\[(\d+)\]/g), match => parseInt(match[1], 10))
+        }));
+    }
+
+    verifyClaim(claim, passages) {
+        // Bullets and citation markers are not part of what is claimed
+        const statement = claim.text
+            .replace(/\[\d+\]/g, ' ')
+            .replace(/^\s*(?:[-*•]|\d+[.)])\s+/, '');
+
+        if (this.tokenizer.tokenize(statement).length < MIN_CLAIM_TERMS || /:\s*$/.test(statement)) {
+            return null;
+        }
+
+        const tokens = this.scan(statement);
+        const cited = passages.filter(passage => claim.citations.includes(passage.id));
+        // Cited passages are checked first, then the rest of what was retrieved
+        const pool = [...cited, ...passages.filter(passage => !claim.citations.includes(passage.id))];
+        const names = this.namesIn(tokens);
+
+        const facts = [
+            ...tokens
+                .map((token, index) => ({ token, index }))
+                .filter(({ token }) => token.type !== 'word')
+                .map(({ token, index }) => {
+                    const label = this.labelFor(tokens, index);
+                    const subjects = names.filter(name => !label || name !== label.term);
+                    return this.checkFigure(token, label, subjects, pool, cited);
+                }),
+            ...ProgrammeExtractor.findSubjects(statement).map(subject => this.checkSubject(subject, pool))
+        ];
+
+        let status;
+        let reason;
+        if (facts.length > 0) {
+            status = facts.some(fact => fact.status === 'contradicted')
+                ? 'contradicted'
+                : facts.some(fact => fact.status === 'unsupported') ? 'unsupported' : 'supported';
+            reason = status === 'supported'
+                ? 'Every figure and requirement appears in the documents'
+                : facts.filter(fact => fact.status === status).map(fact => fact.reason).join('; ');
+        } else {
+            const overlap = this.bestOverlap(statement, pool);
+            status = overlap.score >= MIN_TERM_OVERLAP ? 'supported' : 'unsupported';
+            reason = status === 'supported'
+                ? 'The wording matches the documents'
+                : 'Little of this appears in the documents';
+            if (overlap.source) facts.push({ text: null, status, source: overlap.source });
+        }
+
+        return {
+            text: claim.text,
+            start: claim.start,
+            end: claim.end,
+            citations: claim.citations,
+            status,
+            reason,
+            facts
+        };
+    }
+
+    /**
+     * A figure has to be what the passages give for the same thing: its label
+     * ("APS", "tuition", "close") next to the names the claim mentions, so
+     * "MBChB ... APS of 35" is checked against MBChB's APS, not any 35 nearby.
+     * The label with a different figure is a contradiction. When no passage
+     * labels the figure, it has to appear in a cited passage.
+     * @param {Object} label - { term, word } the figure is about, or null
+     * @param {string[]} subjects - terms of the names in the claim, e.g. ['mbchb']
+     * @param {Array} cited - the passages the claim cites
+     */
+    checkFigure(token, label, subjects, pool, cited) {
+        const key = this.valueKey(token);
+        const mention = label ? this.findMention(label.term, subjects, token.type, pool) : null;
+
+        if (mention) {
+            if (mention.figures.some(figure => this.valueKey(figure) === key)) {
+                return { text: token.raw, type: token.type, status: 'supported', source: mention.source };
+            }
+            return {
+                text: token.raw,
+                type: token.type,
+                status: 'contradicted',
+                expected: mention.figures[0].raw,
+                source: mention.source,
+                reason: `the documents give ${label.word} as ${mention.figures[0].raw}, not ${token.raw}`
+            };
+        }
+
+        const found = (cited.length > 0 ? cited : pool).find(passage => passage.values.has(key));
+        if (found) {
+            return { text: token.raw, type: token.type, status: 'supported', source: found.id };
+        }
+
+        return {
+            text: token.raw,
+            type: token.type,
+            status: 'unsupported',
+            reason: `${token.raw} does not appear in the ${cited.length > 0 ? 'cited passages' : 'documents'}`
+        };
+    }
+
+    /**
+     * The figures a passage gives for a label: the mention nearest the claim's
+     * names in the first passage that has one near them, otherwise every mention
+     * in the first passage with the label at all
+     * @returns {Object|null} { source, figures }
+     */
+    findMention(term, subjects, type, pool) {
+        let unnamed = null;
+
+        for (const passage of pool) {
+            const mentions = this.figuresNear(passage, term, type);
+            if (mentions.length === 0) continue;
+
+            const best = mentions
+                .map(mention => ({ ...mention, score: this.subjectScore(passage, mention.index, subjects) }))
+                .reduce((a, b) => (b.score > a.score ? b : a));
+            if (best.score > 0) return { source: passage.id, figures: best.figures };
+
+            if (!unnamed) unnamed = { source: passage.id, figures: mentions.flatMap(mention => mention.figures) };
+        }
+
+        return unnamed;
+    }
+
+    /**
+     * How closely the claim's names surround a label in a passage: each name
+     * within the window counts, more the nearer it is
+     */
+    subjectScore(passage, index, subjects) {
+        return subjects.reduce((score, subject) => {
+            let distance = Infinity;
+            passage.tokenTerms.forEach((term, i) => {
+                if (term === subject) distance = Math.min(distance, Math.abs(i - index));
+            });
+            return distance <= SUBJECT_WINDOW ? score + (SUBJECT_WINDOW + 1 - distance) / (SUBJECT_WINDOW + 1) : score;
+        }, 0);
+    }
+
+    /**
+     * Terms of the capitalised words in a claim - programme, university and
+     * subject names such as "MBChB" or "BCom" - other than months
+     */
+    namesIn(tokens) {
+        const names = tokens
+            .filter(token => token.type === 'word' && /[A-Z]/.test(token.raw))
+            .map(token => this.tokenizer.tokenize(token.value)[0])
+            .filter(term => term && !MONTHS.includes(term));
+        return [...new Set(names)];
+    }
+
+    checkSubject(subject, pool) {
+        const found = pool.find(passage => passage.content.includes(subject));
+        return found
+            ? { text: subject, type: 'requirement', status: 'supported', source: found.id }
+            : { text: subject, type: 'requirement', status: 'unsupported', reason: `${subject} is not mentioned in the documents` };
+    }
+
+    /**
+     * The word a figure is about: the nearest meaningful word just before it
+     */
+    labelFor(tokens, index) {
+        for (let i = index - 1; i >= Math.max(0, index - LABEL_WINDOW); i--) {
+            const token = tokens[i];
+            if (token.type !== 'word') break;
+            const [term] = this.tokenizer.tokenize(token.value);
+            if (term && !MONTHS.includes(term)) return { term, word: token.raw };
+        }
+        return null;
+    }
+
+    /**
+     * Each mention of the label term in a passage, with the figures of a
+     * comparable type within a few words after it
+     * @returns {Array<{index: number, figures: Array}>}
+     */
+    figuresNear(passage, term, type) {
+        const comparable = type === 'money' || type === 'date' ? [type] : ['number', 'percent'];
+        const mentions = [];
+
+        passage.tokenTerms.forEach((tokenTerm, index) => {
+            if (tokenTerm !== term) return;
+            const figures = passage.tokens.slice(index + 1, index + 1 + MATCH_WINDOW)
+                .filter(next => comparable.includes(next.type));
+            if (figures.length > 0) mentions.push({ index, figures });
+        });
+
+        return mentions;
+    }
+
+    bestOverlap(statement, pool) {
+        const terms = new Set(this.tokenizer.tokenize(statement));
+        let best = { score: 0, source: null };
+
+        pool.forEach(passage => {
+            const matched = [...terms].filter(term => passage.terms.has(term)).length;
+            const score = terms.size > 0 ? matched / terms.size : 0;
+            if (score > best.score) best = { score, source: passage.id };
+        });
+
+        return best;
+    }
+
+    scanPassage(passage) {
+        const tokens = this.scan(passage.content);
+        return {
+            id: passage.id,
+            content: passage.content,
+            tokens,
+            tokenTerms: tokens.map(token => (token.type === 'word' ? this.tokenizer.tokenize(token.value)[0] || null : null)),
+            values: new Set(tokens.filter(token => token.type !== 'word').map(token => this.valueKey(token))),
+            terms: new Set(this.tokenizer.tokenize(passage.content))
+        };
+    }
+
+    /**
+     * Words and typed figures, with "30 September" read as one date
+     */
+    scan(text) {
+        const tokens = Array.from(text.matchAll(TOKEN_PATTERN), ([raw]) => {
+            if (/^[A-Za-z]+$/.test(raw)) return { type: 'word', value: raw.toLowerCase(), raw };
+            if (raw.startsWith('R')) return { type: 'money', value: this.toNumber(raw), raw };
+            if (raw.endsWith('%')) return { type: 'percent', value: this.toNumber(raw), raw };
+            return { type: 'number', value: this.toNumber(raw), raw };
+        });
+
+        const merged = [];
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i];
+            const next = tokens[i + 1];
+            const isDay = candidate => candidate && candidate.type === 'number' && Number.isInteger(candidate.value)
+                && candidate.value >= 1 && candidate.value <= 31;
+            const isMonth = candidate => candidate && candidate.type === 'word' && MONTHS.includes(candidate.value);
+
+            if (isDay(token) && isMonth(next)) {
+                merged.push({ type: 'date', value: `${token.value} ${next.value}`, raw: `${token.raw} ${next.raw}` });
+                i++;
+            } else if (isMonth(token) && isDay(next)) {
+                merged.push({ type: 'date', value: `${next.value} ${token.value}`, raw: `${token.raw} ${next.raw}` });
+                i++;
+            } else {
+                merged.push(token);
+            }
+        }
+
+        return merged;
+    }
+
+    // Amounts and percentages match plain numbers of the same value
+    valueKey(token) {
+        return token.type === 'date' ? `date:${token.value}` : `number:${token.value}`;
+    }
+
+    toNumber(raw) {
+        return parseFloat(raw.replace(/^R\s?/, '').replace(/%$/, '').replace(/[ ,]/g, ''));
+    }
+}
+
+module.exports = GroundingVerifier;
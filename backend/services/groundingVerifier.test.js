@@ -0,0 +1,76 @@
+const GroundingVerifier = require('./groundingVerifier');
+
+const verifier = new GroundingVerifier();
+
+const passages = [
+    { id: 1, content: 'MBChB: minimum APS 40 with Mathematics and Physical Sciences at 70%. BCom APS 35 with Mathematics at 60%.' },
+    { id: 2, content: 'Tuition for BCom is R55 000 a year, while MBChB tuition is R72 000 a year.' },
+    { id: 3, content: 'Applications for MBChB close on 30 June. Residence applications close on 30 September.' }
+];
+
+const claimFor = (answer, sources = passages) => verifier.verify(answer, sources).claims[0];
+
+test('a figure given for another programme does not support the claim', () => {
+    const claim = claimFor('MBChB requires an APS of 35 [1].');
+
+    expect(claim.status).toBe('contradicted');
+    expect(claim.facts[0]).toMatchObject({ text: '35', status: 'contradicted', expected: '40', source: 1 });
+    expect(claim.reason).toBe('the documents give APS as 40, not 35');
+});
+
+test('the right figure for the programme is supported', () => {
+    expect(claimFor('MBChB requires an APS of 40 [1].').status).toBe('supported');
+    expect(claimFor('BCom requires an APS of 35 [1].').status).toBe('supported');
+});
+
+test('a fee for another programme is a contradiction', () => {
+    const claim = claimFor('BCom tuition is R72 000 a year [2].');
+
+    expect(claim.status).toBe('contradicted');
+    expect(claim.facts[0]).toMatchObject({ text: 'R72 000', expected: 'R55 000', source: 2 });
+    expect(claimFor('BCom tuition is R55 000 a year [2].').status).toBe('supported');
+});
+
+test('a closing date for another application is a contradiction', () => {
+    const claim = claimFor('Applications for MBChB close on 30 September [3].');
+
+    expect(claim.status).toBe('contradicted');
+    expect(claim.facts[0]).toMatchObject({ text: '30 September', expected: '30 June', source: 3 });
+    expect(claimFor('Residence applications close on 30 September [3].').status).toBe('supported');
+});
+
+test('the cited passage is checked before the others', () => {
+    const sources = [
+        { id: 1, content: 'Engineering: minimum APS 42.' },
+        { id: 2, content: 'Engineering: minimum APS 38.' }
+    ];
+
+    expect(claimFor('Engineering needs an APS of 38 [2].', sources).status).toBe('supported');
+    expect(claimFor('Engineering needs an APS of 38 [1].', sources)).toMatchObject({ status: 'contradicted' });
+});
+
+test('a figure no passage labels must appear in the cited passage', () => {
+    const sources = [
+        { id: 1, content: 'The campus is home to 30 000 students.' },
+        { id: 2, content: 'About 1 200 first-year places are offered.' }
+    ];
+
+    expect(claimFor('The university has about 30 000 people studying [1].', sources).status).toBe('supported');
+    expect(claimFor('The university has about 30 000 people studying [2].', sources)).toMatchObject({
+        status: 'unsupported',
+        reason: '30 000 does not appear in the cited passages'
+    });
+});
+
+test('subject requirements and figure-free claims are checked against the passages', () => {
+    expect(claimFor('BCom asks for Mathematics [1].').status).toBe('supported');
+    expect(claimFor('BCom asks for Accounting [1].').status).toBe('unsupported');
+    expect(claimFor('Residence applications close after MBChB applications [3].').status).toBe('supported');
+});
+
+test('answers are split into claims with their citations and a summary', () => {
+    const result = verifier.verify('MBChB requires an APS of 40 [1]. BCom tuition is R72 000 a year [2].\n- Here is more:', passages);
+
+    expect(result.claims.map(claim => claim.citations)).toEqual([[1], [2]]);
+    expect(result.summary).toEqual({ total: 2, supported: 1, unsupported: 0, contradicted: 1 });
+});
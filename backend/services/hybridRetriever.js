@@ -0,0 +1,168 @@
+/**
+ * Hybrid Retriever
+ * Fuses the keyword (BM25) and semantic (vector) rankings with weighted
+ * reciprocal-rank fusion, optionally re-ranking the top of the fused list
+ */
+//hybridRetriever.js
+const KeywordIndex = require('./keywordIndex');
+
+// RRF damping constant - 60 is the value from the original RRF paper
+const DEFAULT_RRF_K = 60;
+
+// How many candidates each ranker contributes before fusion
+const DEFAULT_CANDIDATES = 20;
+
+/**
+ * Scores a query and passage together, the way a cross-encoder would, using
+ * how many query terms the passage covers and how tightly they cluster
+ */
+class TermProximityReranker {
+    constructor(windowSize = 30) {
+        this.windowSize = windowSize;
+        this.tokenizer = new KeywordIndex();
+        this.name = 'term-proximity';
+    }
+
+    /**
+     * @returns {number} 0 (unrelated) to 1 (every query term within one window)
+     */
+    score(query, passage) {
+        const queryTerms = new Set(this.tokenizer.tokenize(query));
+        if (queryTerms.size === 0) return 0;
+
+        const tokens = this.tokenizer.tokenize(passage);
+        const found = new Set(tokens.filter(token => queryTerms.has(token)));
+        const coverage = found.size / queryTerms.size;
+
+        // Most distinct query terms seen inside any window of the passage
+        let bestWindow = 0;
+        for (let start = 0; start < tokens.length; start += Math.ceil(this.windowSize / 2)) {
+            const window = new Set(tokens.slice(start, start + this.windowSize).filter(token => queryTerms.has(token)));
+            bestWindow = Math.max(bestWindow, window.size);
+        }
+        const proximity = bestWindow / queryTerms.size;
+
+        return 0.6 * coverage + 0.4 * proximity;
+    }
+}
+
+class HybridRetriever {
+    /**
+     * @param {Object} sources - keywordIndex, vectorStore, embeddingProvider and
+     *   getDocument(id), which returns the stored document for re-ranking
+     * @param {Object} options - semanticWeight (0 = keyword only, 1 = semantic only),
+     *   rrfK, candidates, reranker and rerankTop
+     */
+    constructor(sources, options = {}) {
+        this.keywordIndex = sources.keywordIndex;
+        this.vectorStore = sources.vectorStore;
+        this.embeddingProvider = sources.embeddingProvider;
+        this.getDocument = sources.getDocument;
+
+        const weight = parseFloat(options.semanticWeight ?? process.env.HYBRID_SEMANTIC_WEIGHT);
+        this.semanticWeight = weight >= 0 && weight <= 1 ? weight : 0.5;
+        this.rrfK = options.rrfK || DEFAULT_RRF_K;
+        this.candidates = options.candidates || DEFAULT_CANDIDATES;
+        this.reranker = options.reranker !== undefined
+            ? options.reranker
+            : process.env.HYBRID_RERANK === 'true' ? new TermProximityReranker() : null;
+        this.rerankTop = options.rerankTop || 10;
+    }
+
+    getConfig() {
+        return {
+            semanticWeight: this.semanticWeight,
+            rrfK: this.rrfK,
+            candidates: this.candidates,
+            reranker: this.reranker ? this.reranker.name : null
+        };
+    }
+
+    /**
+     * Best documents for a query, each with the breakdown of how it scored
+     * @returns {Array<{id: string, score: number, breakdown: Object}>}
+     */
+    async retrieve(query, limit = 5) {
+        const keywordHits = this.keywordIndex.search(query, this.candidates);
+        const semanticHits = await this.searchSemantic(query);
+
+        let results = this.fuse(keywordHits, semanticHits);
+
+        if (this.reranker && results.length > 0) {
+            results = this.rerank(query, results);
+        }
+
+        return results.slice(0, limit);
+    }
+
+    async searchSemantic(query) {
+        if (!this.vectorStore || this.vectorStore.size === 0 || this.semanticWeight === 0) {
+            return [];
+        }
+
+        try {
+            const [queryVector] = await this.embeddingProvider.embed([query]);
+            return this.vectorStore.search(queryVector, this.candidates);
+        } catch (error) {
+            // Keyword results still stand if the embedding service is unreachable
+            console.error('❌ Semantic retrieval failed, using keyword results only:', error.message);
+            return [];
+        }
+    }
+
+    /**
+     * Weighted reciprocal-rank fusion: each list adds weight / (k + rank)
+     */
+    fuse(keywordHits, semanticHits) {
+        const results = new Map();
+        const entry = id => {
+            if (!results.has(id)) {
+                results.set(id, { id, score: 0, breakdown: { keyword: null, semantic: null } });
+            }
+            return results.get(id);
+        };
+
+        keywordHits.forEach((hit, index) => {
+            const contribution = (1 - this.semanticWeight) / (this.rrfK + index + 1);
+            const result = entry(hit.id);
+            result.score += contribution;
+            result.breakdown.keyword = { rank: index + 1, score: this.round(hit.score), contribution: this.round(contribution) };
+        });
+
+        semanticHits.forEach((hit, index) => {
+            const contribution = this.semanticWeight / (this.rrfK + index + 1);
+            const result = entry(hit.id);
+            result.score += contribution;
+            result.breakdown.semantic = { rank: index + 1, score: this.round(hit.score), contribution: this.round(contribution) };
+        });
+
+        return Array.from(results.values())
+            .map(result => ({ ...result, score: this.round(result.score), breakdown: { ...result.breakdown, fused: this.round(result.score) } }))
+            .sort((a, b) => b.score - a.score);
+    }
+
+    /**
+     * Re-order the top of the fused list by the re-ranker, keeping fusion
+     * order to break ties and for everything below the cut
+     */
+    rerank(query, results) {
+        const top = results.slice(0, this.rerankTop).map((result, index) => {
+            const doc = this.getDocument(result.id);
+            const rerankScore = this.round(doc ? this.reranker.score(query, doc.content) : 0);
+            return {
+                ...result,
+                score: rerankScore,
+                breakdown: { ...result.breakdown, fusedRank: index + 1, rerank: rerankScore }
+            };
+        });
+
+        top.sort((a, b) => b.score - a.score || a.breakdown.fusedRank - b.breakdown.fusedRank);
+        return [...top, ...results.slice(this.rerankTop)];
+    }
+
+    round(value) {
+        return Math.round(value * 1e6) / 1e6;
+    }
+}
+
+module.exports = HybridRetriever;
@@ -0,0 +1,117 @@
+const { HashingEmbeddingProvider } = require('./embeddingProviders');
+const HybridRetriever = require('./hybridRetriever');
+const KeywordIndex = require('./keywordIndex');
+const VectorStore = require('./vectorStore');
+
+// Rankings the two retrievers return, best first
+const keywordHits = [{ id: 'a', score: 9 }, { id: 'b', score: 6 }, { id: 'c', score: 3 }];
+const semanticHits = [{ id: 'c', score: 0.9 }, { id: 'b', score: 0.8 }, { id: 'd', score: 0.7 }];
+
+const createRetriever = (options = {}, documents = {}) => new HybridRetriever({
+    keywordIndex: { search: () => keywordHits },
+    vectorStore: { size: semanticHits.length, search: () => semanticHits },
+    embeddingProvider: { embed: async texts => texts.map(() => [1]) },
+    getDocument: id => documents[id]
+}, { reranker: null, ...options });
+
+test('each list adds weight / (k + rank) to a document', () => {
+    const [top] = createRetriever({ semanticWeight: 0.5, rrfK: 60 }).fuse(keywordHits, semanticHits)
+        .filter(result => result.id === 'b');
+
+    expect(top.breakdown.keyword).toEqual({ rank: 2, score: 6, contribution: expect.closeTo(0.5 / 62, 6) });
+    expect(top.breakdown.semantic).toEqual({ rank: 2, score: 0.8, contribution: expect.closeTo(0.5 / 62, 6) });
+    expect(top.score).toBeCloseTo(1 / 62, 6);
+});
+
+test('a document both lists agree on outranks one only a single list ranks first', () => {
+    const results = createRetriever({ semanticWeight: 0.5 }).fuse(
+        [{ id: 'a', score: 9 }, { id: 'b', score: 6 }],
+        [{ id: 'c', score: 0.9 }, { id: 'b', score: 0.8 }]);
+
+    expect(results[0].id).toBe('b');
+});
+
+test('the semantic weight moves the ranking towards one retriever', () => {
+    const keyword = [{ id: 'a', score: 9 }, { id: 'b', score: 6 }];
+    const semantic = [{ id: 'c', score: 0.9 }, { id: 'd', score: 0.8 }];
+
+    const keywordLed = createRetriever({ semanticWeight: 0.2 }).fuse(keyword, semantic);
+    const semanticLed = createRetriever({ semanticWeight: 0.8 }).fuse(keyword, semantic);
+
+    expect(keywordLed.map(result => result.id)).toEqual(['a', 'b', 'c', 'd']);
+    expect(semanticLed.map(result => result.id)).toEqual(['c', 'd', 'a', 'b']);
+});
+
+test('weights of 0 and 1 leave only one retriever contributing', async () => {
+    const keywordOnly = await createRetriever({ semanticWeight: 0 }).retrieve('engineering', 5);
+    expect(keywordOnly.map(result => result.id)).toEqual(['a', 'b', 'c']);
+    expect(keywordOnly.every(result => result.breakdown.semantic === null)).toBe(true);
+
+    const semanticOnly = createRetriever({ semanticWeight: 1 }).fuse(keywordHits, semanticHits);
+    expect(semanticOnly.slice(0, 3).map(result => result.id)).toEqual(['c', 'b', 'd']);
+    expect(semanticOnly.find(result => result.id === 'a').score).toBe(0);
+});
+
+test('an out-of-range semantic weight falls back to an even split', () => {
+    expect(createRetriever({ semanticWeight: 1.5 }).semanticWeight).toBe(0.5);
+    expect(createRetriever({ semanticWeight: 'heavy' }).semanticWeight).toBe(0.5);
+});
+
+test('a failing embedding service leaves the keyword ranking', async () => {
+    const retriever = createRetriever({ semanticWeight: 0.5 });
+    retriever.embeddingProvider = { embed: async () => { throw new Error('unreachable'); } };
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    const results = await retriever.retrieve('engineering', 5);
+    expect(results.map(result => result.id)).toEqual(['a', 'b', 'c']);
+    console.error.mockRestore();
+});
+
+test('the re-ranker reorders the top of the fused list by term proximity', async () => {
+    const documents = {
+        a: { content: 'Residence applications close in September.' },
+        b: { content: 'Engineering admission requires Mathematics.' },
+        c: { content: 'Engineering faculty overview.' },
+        d: { content: 'Bursaries.' }
+    };
+    const retriever = createRetriever({ semanticWeight: 0.5, rerankTop: 4 }, documents);
+    retriever.reranker = { name: 'test', score: (query, passage) => (passage.includes('Mathematics') ? 1 : 0) };
+
+    const results = await retriever.retrieve('engineering mathematics', 4);
+    expect(results[0].id).toBe('b');
+    expect(results[0].breakdown.rerank).toBe(1);
+    expect(results[0].breakdown.fusedRank).toBeGreaterThan(0);
+});
+
+test('the keyword index and hashed vectors fuse into one ranking, agreed documents first', async () => {
+    const passages = {
+        engineering: 'BSc Engineering requires an APS of 35 with Mathematics and Physical Sciences at level 6.',
+        nbt: 'Engineering applicants write the national benchmark test before admission.',
+        residence: 'Residence applications close on 30 September.',
+        fees: 'Tuition fees for engineering programmes are published each year.'
+    };
+    const keywordIndex = new KeywordIndex();
+    const embeddingProvider = new HashingEmbeddingProvider();
+    const vectorStore = new VectorStore(null, embeddingProvider);
+    for (const [id, content] of Object.entries(passages)) {
+        keywordIndex.add(id, { content });
+        vectorStore.upsert(id, (await embeddingProvider.embed([content]))[0]);
+    }
+
+    const retriever = new HybridRetriever({ keywordIndex, vectorStore, embeddingProvider, getDocument: id => passages[id] }, { reranker: null, semanticWeight: 0.5 });
+    const results = await retriever.retrieve('engineering APS mathematics', 4);
+
+    // Each list adds 0.5 / (60 + rank), rounded to six places: ranks 2 and 3 either way tie, and a passage
+    // neither word nor meaning puts near the query only trails on the semantic side
+    const ranks = result => [result.breakdown.keyword && result.breakdown.keyword.rank, result.breakdown.semantic && result.breakdown.semantic.rank];
+    expect(results.map(result => [result.id, ...ranks(result)])).toEqual([
+        ['engineering', 1, 1],
+        ['fees', 2, 3],
+        ['nbt', 3, 2],
+        ['residence', null, 4]
+    ]);
+    expect(results[0].score).toBeCloseTo(1 / 61, 5);
+    expect(results[1].score).toBeCloseTo(0.5 / 62 + 0.5 / 63, 5);
+    expect(results[2].score).toBe(results[1].score);
+    expect(results[3].score).toBeCloseTo(0.5 / 64, 5);
+});
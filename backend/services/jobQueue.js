@@ -0,0 +1,262 @@
+/**
+ * Job Queue
+ * Long-running work (processing the registered prospectuses, or parsing and
+ * indexing an uploaded PDF) run in the background, one job at a time, as a list
+ * of named stages. A failed stage is retried with a backoff before the job fails,
+ * and jobs are kept in data/jobs.json so their status survives a restart.
+ */
+//jobQueue.js
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+
+// Tries per stage before the job fails, and the wait before the first retry (doubled each time)
+const DEFAULT_MAX_ATTEMPTS = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+// Finished jobs kept for status lookups, oldest dropped first
+const MAX_FINISHED_JOBS = 100;
+
+class JobQueue {
+    /**
+     * @param {Object} options - storePath, maxAttempts and retryDelayMs
+     */
+    constructor(options = {}) {
+        this.storePath = options.storePath || path.join(__dirname, '../data/jobs.json');
+        this.maxAttempts = options.maxAttempts || DEFAULT_MAX_ATTEMPTS;
+        this.retryDelayMs = options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+        this.handlers = new Map(); // job type -> { stages, onFinish }
+        this.jobs = new Map(); // id -> job, oldest first
+        this.isRunning = false;
+        this.ready = this.loadJobs();
+    }
+
+    /**
+     * @param {string} type - the job type, e.g. 'pdf-upload'
+     * @param {Object} handler - stages, a list of { name, run(context, reportProgress) }
+     *   where run resolves to an object merged into the context of later stages,
+     *   and onFinish(job, context), called once the job completes or fails
+     */
+    register(type, handler) {
+        this.handlers.set(type, handler);
+        // Jobs restored from disk wait until their type is known
+        this.ready.then(() => this.runNext());
+    }
+
+    /**
+     * Queue a job and return it straight away
+     * @param {Object} input - what the first stage starts from, never sent to clients
+     * @param {Object} details - public description of the job, e.g. the file name
+     */
+    async enqueue(type, input, details = {}) {
+        await this.ready;
+        if (!this.handlers.has(type)) {
+            throw new Error(`Unknown job type: ${type}`);
+        }
+
+        const now = new Date().toISOString();
+        const job = {
+            id: crypto.randomUUID(),
+            type,
+            status: 'queued',
+            stage: null,
+            progress: 0,
+            details,
+            input,
+            stages: this.handlers.get(type).stages.map(stage => this.createStage(stage.name)),
+            result: null,
+            error: null,
+            createdAt: now,
+            updatedAt: now,
+            finishedAt: null
+        };
+
+        this.jobs.set(job.id, job);
+        await this.save();
+        console.log(`📥 Queued ${type} job ${job.id}`);
+
+        this.runNext();
+        return this.describe(job);
+    }
+
+    get(id) {
+        const job = this.jobs.get(id);
+        return job ? this.describe(job) : null;
+    }
+
+    /**
+     * Most recent first
+     */
+    list(limit = 20) {
+        return Array.from(this.jobs.values()).reverse().slice(0, limit).map(job => this.describe(job));
+    }
+
+    // A job as clients see it - without its input, which holds server paths
+    describe(job) {
+        const { input, ...visible } = job;
+        return { ...visible, stages: job.stages.map(stage => ({ ...stage })) };
+    }
+
+    createStage(name) {
+        return { name, status: 'pending', attempts: 0, progress: 0, error: null, startedAt: null, finishedAt: null };
+    }
+
+    /**
+     * Start the oldest queued job unless one is already running
+     */
+    async runNext() {
+        if (this.isRunning) return;
+
+        const job = Array.from(this.jobs.values()).find(candidate => candidate.status === 'queued' && this.handlers.has(candidate.type));
+        if (!job) return;
+
+        this.isRunning = true;
+        try {
+            await this.runJob(job);
+        } catch (error) {
+            console.error(`❌ Job ${job.id} stopped unexpectedly:`, error.message);
+        } finally {
+            this.isRunning = false;
+        }
+
+        setImmediate(() => this.runNext());
+    }
+
+    async runJob(job) {
+        const handler = this.handlers.get(job.type);
+        const startedAt = Date.now();
+        // What earlier stages produced, kept in memory only
+        const context = { ...job.input };
+
+        job.status = 'running';
+        console.log(`⚙️ Running ${job.type} job ${job.id}`);
+
+        for (let i = 0; i < handler.stages.length; i++) {
+            const output = await this.runStage(job, i, handler.stages[i], context);
+            if (!output) break;
+            Object.assign(context, output.value);
+        }
+
+        if (job.status === 'running') {
+            job.status = 'completed';
+            job.progress = 100;
+            job.result = { ...(context.result || {}), processingTime: Date.now() - startedAt };
+            console.log(`✅ Job ${job.id} completed in ${job.result.processingTime}ms`);
+        }
+
+        job.stage = null;
+        job.finishedAt = new Date().toISOString();
+        this.touch(job);
+
+        if (handler.onFinish) {
+            try {
+                await handler.onFinish(this.describe(job), context);
+            } catch (error) {
+                console.warn(`⚠️ Cleanup after job ${job.id} failed: ${error.message}`);
+            }
+        }
+
+        this.pruneFinished();
+        await this.save();
+    }
+
+    /**
+     * Run one stage, retrying it until it succeeds or runs out of attempts
+     * @returns {{value: Object}|null} the stage's output, null when the job failed
+     */
+    async runStage(job, index, stage, context) {
+        const state = job.stages[index];
+        const total = job.stages.length;
+        job.stage = stage.name;
+
+        const reportProgress = (done, outOf) => {
+            state.progress = outOf > 0 ? Math.min(100, Math.round((done / outOf) * 100)) : 100;
+            job.progress = Math.round(((index + state.progress / 100) / total) * 100);
+            this.touch(job);
+        };
+
+        while (state.attempts < this.maxAttempts) {
+            state.attempts++;
+            state.status = 'running';
+            state.startedAt = state.startedAt || new Date().toISOString();
+            state.error = null;
+            reportProgress(0, 1);
+            await this.save();
+
+            try {
+                const value = await stage.run(context, reportProgress);
+                state.status = 'completed';
+                state.finishedAt = new Date().toISOString();
+                reportProgress(1, 1);
+                return { value: value || {} };
+            } catch (error) {
+                state.error = error.message;
+                console.warn(`⚠️ Job ${job.id} ${stage.name} failed (attempt ${state.attempts}/${this.maxAttempts}): ${error.message}`);
+
+                if (state.attempts < this.maxAttempts) {
+                    state.status = 'retrying';
+                    this.touch(job);
+                    await this.delay(this.retryDelayMs * 2 ** (state.attempts - 1));
+                }
+            }
+        }
+
+        state.status = 'failed';
+        state.finishedAt = new Date().toISOString();
+        job.status = 'failed';
+        job.error = `${stage.name} failed: ${state.error}`;
+        console.error(`❌ Job ${job.id} failed at ${stage.name}: ${state.error}`);
+        return null;
+    }
+
+    touch(job) {
+        job.updatedAt = new Date().toISOString();
+    }
+
+    pruneFinished() {
+        const finished = Array.from(this.jobs.values()).filter(job => job.status === 'completed' || job.status === 'failed');
+        finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_JOBS)).forEach(job => this.jobs.delete(job.id));
+    }
+
+    async loadJobs() {
+        try {
+            const data = JSON.parse(await fs.readFile(this.storePath, 'utf8'));
+            this.jobs = new Map(data.map(job => [job.id, job]));
+        } catch (error) {
+            if (error.code !== 'ENOENT') {
+                console.error('❌ Failed to load jobs:', error.message);
+            }
+            this.jobs = new Map();
+        }
+
+        // What a job's stages produced was lost with the process, so interrupted jobs start over
+        let restarted = 0;
+        this.jobs.forEach(job => {
+            if (job.status !== 'queued' && job.status !== 'running') return;
+            job.status = 'queued';
+            job.stage = null;
+            job.progress = 0;
+            job.stages = job.stages.map(stage => this.createStage(stage.name));
+            restarted++;
+        });
+
+        if (restarted > 0) {
+            console.log(`🔁 Requeued ${restarted} jobs interrupted by a restart`);
+        }
+    }
+
+    async save() {
+        try {
+            await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+            await fs.writeFile(this.storePath, JSON.stringify(Array.from(this.jobs.values()), null, 2));
+        } catch (error) {
+            console.error('❌ Failed to save jobs:', error.message);
+        }
+    }
+
+    delay(ms) {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+}
+
+module.exports = JobQueue;
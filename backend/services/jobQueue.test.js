@@ -0,0 +1,210 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const JobQueue = require('./jobQueue');
+
+let dir;
+let storePath;
+
+// Resolves once the job reaches completed or failed
+const waitForJob = async (queue, id) => {
+    for (let i = 0; i < 200; i++) {
+        const job = queue.get(id);
+        if (job && (job.status === 'completed' || job.status === 'failed')) return job;
+        await new Promise(resolve => setTimeout(resolve, 5));
+    }
+    throw new Error(`Job ${id} did not finish`);
+};
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'jobs-'));
+    storePath = path.join(dir, 'jobs.json');
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('stages run in order, each seeing what the earlier ones returned', async () => {
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    const seen = [];
+    queue.register('upload', {
+        stages: [
+            { name: 'parse', run: async context => { seen.push({ ...context }); return { text: 'parsed' }; } },
+            { name: 'chunk', run: async context => { seen.push({ ...context }); return { result: { chunks: 3 } }; } }
+        ]
+    });
+
+    const queued = await queue.enqueue('upload', { filePath: '/tmp/a.pdf' }, { fileName: 'a.pdf' });
+    const job = await waitForJob(queue, queued.id);
+
+    expect(seen).toEqual([{ filePath: '/tmp/a.pdf' }, { filePath: '/tmp/a.pdf', text: 'parsed' }]);
+    expect(job.status).toBe('completed');
+    expect(job.progress).toBe(100);
+    expect(job.result.chunks).toBe(3);
+    expect(job.stages.map(stage => stage.status)).toEqual(['completed', 'completed']);
+});
+
+test('clients never see the job input', async () => {
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    queue.register('upload', { stages: [{ name: 'parse', run: async () => ({}) }] });
+
+    const queued = await queue.enqueue('upload', { filePath: '/srv/uploads/a.pdf' }, { fileName: 'a.pdf' });
+
+    expect(queued.input).toBeUndefined();
+    expect(queued.details).toEqual({ fileName: 'a.pdf' });
+    expect(queue.list()[0].input).toBeUndefined();
+    expect((await waitForJob(queue, queued.id)).input).toBeUndefined();
+});
+
+test('a failed stage is retried with a doubling delay before it succeeds', async () => {
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    const delay = jest.spyOn(queue, 'delay');
+    let calls = 0;
+    queue.register('upload', {
+        stages: [{ name: 'embed', run: async () => { if (++calls < 3) throw new Error('rate limited'); return {}; } }]
+    });
+
+    const queued = await queue.enqueue('upload', {});
+    const job = await waitForJob(queue, queued.id);
+
+    expect(job.status).toBe('completed');
+    expect(job.stages[0].attempts).toBe(3);
+    expect(job.stages[0].error).toBeNull();
+    expect(delay.mock.calls.map(([ms]) => ms)).toEqual([0, 0]);
+
+    const slow = new JobQueue({ storePath: path.join(dir, 'slow.json'), retryDelayMs: 100 });
+    const slowDelay = jest.spyOn(slow, 'delay').mockResolvedValue();
+    calls = 0;
+    slow.register('upload', {
+        stages: [{ name: 'embed', run: async () => { if (++calls < 3) throw new Error('rate limited'); return {}; } }]
+    });
+    await waitForJob(slow, (await slow.enqueue('upload', {})).id);
+
+    expect(slowDelay.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+});
+
+test('a stage that keeps failing fails the job and skips the stages after it', async () => {
+    const queue = new JobQueue({ storePath, maxAttempts: 2, retryDelayMs: 0 });
+    const index = jest.fn();
+    queue.register('upload', {
+        stages: [
+            { name: 'parse', run: async () => { throw new Error('not a PDF'); } },
+            { name: 'index', run: index }
+        ]
+    });
+
+    const job = await waitForJob(queue, (await queue.enqueue('upload', {})).id);
+
+    expect(job.status).toBe('failed');
+    expect(job.error).toBe('parse failed: not a PDF');
+    expect(job.stages.map(stage => stage.status)).toEqual(['failed', 'pending']);
+    expect(job.stages[0].attempts).toBe(2);
+    expect(index).not.toHaveBeenCalled();
+});
+
+test('onFinish runs after the job completes or fails, and its errors do not stick to the job', async () => {
+    const queue = new JobQueue({ storePath, maxAttempts: 1, retryDelayMs: 0 });
+    const finished = [];
+    queue.register('upload', {
+        stages: [{ name: 'parse', run: async context => { if (context.broken) throw new Error('bad'); return {}; } }],
+        onFinish: async (job, context) => {
+            finished.push({ status: job.status, filePath: context.filePath });
+            throw new Error('could not delete the upload');
+        }
+    });
+
+    const ok = await waitForJob(queue, (await queue.enqueue('upload', { filePath: 'a.pdf' })).id);
+    const bad = await waitForJob(queue, (await queue.enqueue('upload', { filePath: 'b.pdf', broken: true })).id);
+
+    expect(finished).toEqual([{ status: 'completed', filePath: 'a.pdf' }, { status: 'failed', filePath: 'b.pdf' }]);
+    expect(ok.status).toBe('completed');
+    expect(bad.error).toBe('parse failed: bad');
+});
+
+test('jobs run one at a time, oldest first', async () => {
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    const events = [];
+    let running = 0;
+    queue.register('upload', {
+        stages: [{
+            name: 'parse',
+            run: async context => {
+                running++;
+                events.push({ start: context.name, running });
+                await new Promise(resolve => setTimeout(resolve, 10));
+                running--;
+                return {};
+            }
+        }]
+    });
+
+    const first = await queue.enqueue('upload', { name: 'first' });
+    const second = await queue.enqueue('upload', { name: 'second' });
+    await waitForJob(queue, first.id);
+    await waitForJob(queue, second.id);
+
+    expect(events).toEqual([{ start: 'first', running: 1 }, { start: 'second', running: 1 }]);
+});
+
+test('unknown job types are rejected', async () => {
+    const queue = new JobQueue({ storePath });
+
+    await expect(queue.enqueue('nope', {})).rejects.toThrow('Unknown job type: nope');
+});
+
+test('a job interrupted by a restart is requeued from its first stage and run again', async () => {
+    const interrupted = {
+        id: 'job-1',
+        type: 'upload',
+        status: 'running',
+        stage: 'chunk',
+        progress: 60,
+        details: {},
+        input: { filePath: 'a.pdf' },
+        stages: [
+            { name: 'parse', status: 'completed', attempts: 1, progress: 100, error: null, startedAt: 'x', finishedAt: 'y' },
+            { name: 'chunk', status: 'running', attempts: 1, progress: 20, error: null, startedAt: 'x', finishedAt: null }
+        ],
+        result: null,
+        error: null,
+        createdAt: 'x',
+        updatedAt: 'x',
+        finishedAt: null
+    };
+    await fs.writeFile(storePath, JSON.stringify([interrupted]));
+
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    await queue.ready;
+
+    const requeued = queue.get('job-1');
+    expect(requeued.status).toBe('queued');
+    expect(requeued.progress).toBe(0);
+    expect(requeued.stages.map(stage => [stage.status, stage.attempts])).toEqual([['pending', 0], ['pending', 0]]);
+
+    const parse = jest.fn(async () => ({}));
+    queue.register('upload', { stages: [{ name: 'parse', run: parse }, { name: 'chunk', run: async () => ({}) }] });
+    const job = await waitForJob(queue, 'job-1');
+
+    expect(job.status).toBe('completed');
+    expect(parse).toHaveBeenCalledWith(expect.objectContaining({ filePath: 'a.pdf' }), expect.any(Function));
+});
+
+test('jobs are saved with their status so a new queue can report them', async () => {
+    const queue = new JobQueue({ storePath, retryDelayMs: 0 });
+    queue.register('upload', { stages: [{ name: 'parse', run: async () => ({ result: { pages: 4 } }) }] });
+    const { id } = await queue.enqueue('upload', { filePath: 'a.pdf' }, { fileName: 'a.pdf' });
+    await waitForJob(queue, id);
+
+    const saved = JSON.parse(await fs.readFile(storePath, 'utf8'));
+    expect(saved).toHaveLength(1);
+    expect(saved[0]).toMatchObject({ id, status: 'completed', details: { fileName: 'a.pdf' } });
+
+    const restarted = new JobQueue({ storePath });
+    await restarted.ready;
+    expect(restarted.get(id)).toMatchObject({ status: 'completed', result: { pages: 4 } });
+});
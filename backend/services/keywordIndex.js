@@ -0,0 +1,220 @@
+/**
+ * Keyword Index
+ * In-process inverted index over the PDF documents, scored with BM25F
+ * (BM25 with per-field weights and length normalisation)
+ */
+//keywordIndex.js
+const fs = require('fs').promises;
+
+// Fields indexed for every document, and how much a match in each one counts
+const FIELD_BOOSTS = {
+    universityName: 3,
+    keyPhrases: 2,
+    sections: 1.5,
+    content: 1
+};
+
+// BM25 term-frequency saturation and length normalisation
+const K1 = 1.2;
+const B = 0.75;
+
+const STOP_WORDS = new Set([
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+    'before', 'being', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do', 'does', 'each',
+    'for', 'from', 'had', 'has', 'have', 'he', 'her', 'here', 'his', 'how', 'i', 'if', 'in', 'into',
+    'is', 'it', 'its', 'may', 'me', 'more', 'most', 'must', 'my', 'no', 'not', 'of', 'on', 'or',
+    'other', 'our', 'out', 'over', 'shall', 'she', 'should', 'so', 'some', 'such', 'than', 'that',
+    'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those', 'through', 'to',
+    'under', 'up', 'us', 'very', 'was', 'we', 'were', 'what', 'when', 'where', 'which', 'while',
+    'who', 'whom', 'why', 'will', 'with', 'would', 'you', 'your', 'tell', 'show', 'give', 'find',
+    'want', 'need', 'please', 'know'
+]);
+
+class KeywordIndex {
+    constructor(fieldBoosts = FIELD_BOOSTS) {
+        this.fieldBoosts = fieldBoosts;
+        this.postings = new Map(); // term -> Map(docId -> { field: termFrequency })
+        this.documents = new Map(); // docId -> { field: length in tokens }
+        this.documentTerms = new Map(); // docId -> its distinct terms, so removal only visits their postings
+        this.fieldTotals = {}; // field -> total tokens across documents, for average lengths
+        this.sourceHash = null; // content hash of the documents the index was built from
+    }
+
+    get size() {
+        return this.documents.size;
+    }
+
+    clear() {
+        this.postings = new Map();
+        this.documents = new Map();
+        this.documentTerms = new Map();
+        this.fieldTotals = {};
+        this.sourceHash = null;
+    }
+
+    /**
+     * Lower-case, strip accents and punctuation, drop stop-words and reduce
+     * plurals, e.g. "Admission Requirements (2026)" -> ["admission", "requirement", "2026"]
+     */
+    tokenize(text) {
+        return (text || '')
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+            .map(token => this.stem(token));
+    }
+
+    stem(token) {
+        if (token.length > 4 && token.endsWith('ies')) return token.slice(0, -3) + 'y';
+        if (token.length > 3 && token.endsWith('s') && !token.endsWith('ss') && !token.endsWith('us')) {
+            return token.slice(0, -1);
+        }
+        return token;
+    }
+
+    /**
+     * Index a document, replacing any earlier version with the same id
+     * @param {string} docId
+     * @param {Object} fields - text per field name in the boosts table
+     */
+    add(docId, fields) {
+        this.remove(docId);
+
+        const lengths = {};
+        const terms = new Set();
+        Object.keys(this.fieldBoosts).forEach(field => {
+            const tokens = this.tokenize(fields[field]);
+            lengths[field] = tokens.length;
+            this.fieldTotals[field] = (this.fieldTotals[field] || 0) + tokens.length;
+
+            tokens.forEach(term => {
+                terms.add(term);
+                if (!this.postings.has(term)) this.postings.set(term, new Map());
+                const frequencies = this.postings.get(term);
+                if (!frequencies.has(docId)) frequencies.set(docId, {});
+                const entry = frequencies.get(docId);
+                entry[field] = (entry[field] || 0) + 1;
+            });
+        });
+
+        this.documents.set(docId, lengths);
+        this.documentTerms.set(docId, Array.from(terms));
+    }
+
+    remove(docId) {
+        const lengths = this.documents.get(docId);
+        if (!lengths) return false;
+
+        Object.entries(lengths).forEach(([field, length]) => {
+            this.fieldTotals[field] -= length;
+        });
+
+        (this.documentTerms.get(docId) || []).forEach(term => {
+            const frequencies = this.postings.get(term);
+            if (frequencies && frequencies.delete(docId) && frequencies.size === 0) {
+                this.postings.delete(term);
+            }
+        });
+
+        this.documents.delete(docId);
+        this.documentTerms.delete(docId);
+        return true;
+    }
+
+    /**
+     * Rank documents for a free-text query
+     * @returns {Array<{id: string, score: number}>} best first
+     */
+    search(query, limit = 10) {
+        const terms = [...new Set(this.tokenize(query))];
+        const documentCount = this.documents.size;
+        if (terms.length === 0 || documentCount === 0) return [];
+
+        const averageLengths = {};
+        Object.keys(this.fieldBoosts).forEach(field => {
+            averageLengths[field] = (this.fieldTotals[field] || 0) / documentCount || 1;
+        });
+
+        const scores = new Map();
+
+        terms.forEach(term => {
+            const frequencies = this.postings.get(term);
+            if (!frequencies) return;
+
+            const idf = Math.log(1 + (documentCount - frequencies.size + 0.5) / (frequencies.size + 0.5));
+
+            for (const [docId, fieldFrequencies] of frequencies) {
+                const lengths = this.documents.get(docId);
+
+                // Weighted, length-normalised term frequency summed over fields
+                let weightedFrequency = 0;
+                Object.entries(fieldFrequencies).forEach(([field, frequency]) => {
+                    const normalisation = 1 - B + B * (lengths[field] / averageLengths[field]);
+                    weightedFrequency += (this.fieldBoosts[field] || 1) * frequency / normalisation;
+                });
+
+                const score = idf * weightedFrequency / (K1 + weightedFrequency);
+                scores.set(docId, (scores.get(docId) || 0) + score);
+            }
+        });
+
+        return Array.from(scores, ([id, score]) => ({ id, score }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    toJSON() {
+        return {
+            fieldBoosts: this.fieldBoosts,
+            sourceHash: this.sourceHash,
+            fieldTotals: this.fieldTotals,
+            documents: Object.fromEntries(this.documents),
+            postings: Object.fromEntries(
+                Array.from(this.postings, ([term, frequencies]) => [term, Object.fromEntries(frequencies)])
+            )
+        };
+    }
+
+    load(data) {
+        this.sourceHash = data.sourceHash || null;
+        this.fieldTotals = data.fieldTotals || {};
+        this.documents = new Map(Object.entries(data.documents || {}));
+        this.postings = new Map(
+            Object.entries(data.postings || {}).map(([term, frequencies]) => [term, new Map(Object.entries(frequencies))])
+        );
+
+        // The term lists are not saved; they follow from the postings
+        this.documentTerms = new Map(Array.from(this.documents.keys(), docId => [docId, []]));
+        for (const [term, frequencies] of this.postings) {
+            for (const docId of frequencies.keys()) {
+                this.documentTerms.get(docId).push(term);
+            }
+        }
+    }
+
+    async save(filePath) {
+        await fs.writeFile(filePath, JSON.stringify(this.toJSON()));
+    }
+
+    /**
+     * Read a saved index. Returns false when there is none, or when it was built
+     * with different field boosts or from other documents and has to be rebuilt
+     * @param {string} sourceHash - content hash of the documents the index should cover
+     */
+    async loadFrom(filePath, sourceHash) {
+        try {
+            const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
+            if (JSON.stringify(data.fieldBoosts) !== JSON.stringify(this.fieldBoosts) || data.sourceHash !== sourceHash) {
+                return false;
+            }
+            this.load(data);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+}
+
+module.exports = KeywordIndex;
@@ -0,0 +1,98 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const KeywordIndex = require('./keywordIndex');
+
+const buildIndex = () => {
+    const index = new KeywordIndex();
+    index.add('uct', {
+        universityName: 'University of Cape Town',
+        content: 'Engineering admission requires Mathematics and Physical Sciences.'
+    });
+    index.add('wits', {
+        universityName: 'University of the Witwatersrand',
+        content: 'Medicine applicants write the National Benchmark Test. Engineering is offered too.'
+    });
+    index.add('up', {
+        universityName: 'University of Pretoria',
+        keyPhrases: 'veterinary science',
+        content: 'Veterinary science is only offered at Onderstepoort.'
+    });
+    return index;
+};
+
+test('tokenizes without stop-words, accents or plurals', () => {
+    const index = new KeywordIndex();
+    expect(index.tokenize('What are the Admission Requirements (2026)?')).toEqual(['admission', 'requirement', '2026']);
+    expect(index.tokenize('Universités and faculties')).toEqual(['universite', 'faculty']);
+});
+
+test('ranks documents that contain the rarer query terms first', () => {
+    const results = buildIndex().search('engineering mathematics');
+    expect(results.map(result => result.id)).toEqual(['uct', 'wits']);
+    expect(results[0].score).toBeGreaterThan(results[1].score);
+});
+
+test('a match in a boosted field outweighs the same match in the content', () => {
+    const index = new KeywordIndex();
+    index.add('name', { universityName: 'Stellenbosch University', content: 'Admission requirements' });
+    index.add('content', { universityName: 'University of Pretoria', content: 'Stellenbosch admission requirements' });
+
+    expect(index.search('stellenbosch')[0].id).toBe('name');
+});
+
+test('longer fields dilute a term relative to the average length', () => {
+    const index = new KeywordIndex();
+    index.add('short', { content: 'bursary' });
+    index.add('long', { content: `bursary ${'residence '.repeat(50)}` });
+    index.add('other', { content: 'residence' });
+
+    const [first, second] = index.search('bursary');
+    expect(first.id).toBe('short');
+    expect(second.id).toBe('long');
+});
+
+test('removing a document drops it from results and its postings', () => {
+    const index = buildIndex();
+    expect(index.remove('up')).toBe(true);
+
+    expect(index.size).toBe(2);
+    expect(index.search('veterinary')).toEqual([]);
+    expect(index.postings.has('onderstepoort')).toBe(false);
+    expect(index.postings.get('university').has('up')).toBe(false);
+    expect(index.remove('up')).toBe(false);
+});
+
+test('re-adding a document replaces its earlier version', () => {
+    const index = buildIndex();
+    index.add('uct', { universityName: 'University of Cape Town', content: 'Law and Humanities' });
+
+    expect(index.search('engineering').map(result => result.id)).toEqual(['wits']);
+    expect(index.search('law').map(result => result.id)).toEqual(['uct']);
+    expect(index.fieldTotals.content).toBe(
+        Array.from(index.documents.values()).reduce((sum, lengths) => sum + lengths.content, 0));
+});
+
+test('a loaded index removes documents like the one it was saved from', () => {
+    const saved = buildIndex();
+    const index = new KeywordIndex();
+    index.load(JSON.parse(JSON.stringify(saved.toJSON())));
+
+    index.remove('wits');
+    expect(index.search('medicine')).toEqual([]);
+    expect(index.search('engineering').map(result => result.id)).toEqual(['uct']);
+});
+
+test('a saved index only loads for the documents it was built from', async () => {
+    const filePath = path.join(await fs.mkdtemp(path.join(os.tmpdir(), 'keyword-index-')), 'index.json');
+    const saved = buildIndex();
+    saved.sourceHash = 'hash-a';
+    await saved.save(filePath);
+
+    expect(await new KeywordIndex().loadFrom(filePath, 'hash-b')).toBe(false);
+    const index = new KeywordIndex();
+    expect(await index.loadFrom(filePath, 'hash-a')).toBe(true);
+    expect(index.size).toBe(3);
+
+    await fs.rm(path.dirname(filePath), { recursive: true });
+});
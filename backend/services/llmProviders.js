@@ -0,0 +1,192 @@
+/**
+ * LLM Providers
+ * Chat models that write answers, rewrite follow-ups and summarise conversations.
+ * Every provider exposes `name`, `complete(messages, options)`, which resolves to
+ * the reply text, and `stream(messages, options)`, an async iterable of text pieces.
+ * Options: maxTokens, temperature, signal (AbortSignal) and task
+ * ('answer', 'rewrite' or 'summarize'), which only the fake provider looks at.
+ */
+//llmProviders.js
+const { OpenAI } = require('openai');
+
+/**
+ * Any endpoint speaking the OpenAI chat-completions API
+ */
+class OpenAIChatProvider {
+    constructor(client, model, name) {
+        this.client = client;
+        this.model = model;
+        this.name = name;
+    }
+
+    async complete(messages, options = {}) {
+        const response = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            max_tokens: options.maxTokens || 800,
+            temperature: options.temperature ?? 0.3
+        }, { signal: options.signal });
+
+        return response.choices[0].message.content || '';
+    }
+
+    async *stream(messages, options = {}) {
+        const stream = await this.client.chat.completions.create({
+            model: this.model,
+            messages,
+            max_tokens: options.maxTokens || 800,
+            temperature: options.temperature ?? 0.3,
+            stream: true
+        }, { signal: options.signal });
+
+        for await (const chunk of stream) {
+            const token = chunk.choices[0]?.delta?.content;
+            if (token) yield token;
+        }
+    }
+}
+
+/**
+ * Azure OpenAI chat deployment
+ */
+class AzureOpenAIProvider extends OpenAIChatProvider {
+    constructor() {
+        const required = ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT_NAME'];
+        const missing = required.filter(env => !process.env[env]);
+        if (missing.length > 0) {
+            throw new Error(`Missing environment variables: ${missing.join(', ')}`);
+        }
+
+        const deployment = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
+        const client = new OpenAI({
+            apiKey: process.env.AZURE_OPENAI_API_KEY,
+            baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${deployment}`,
+            defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-02-01' },
+            defaultHeaders: {
+                'api-key': process.env.AZURE_OPENAI_API_KEY,
+            },
+        });
+
+        super(client, deployment, `azure-${deployment}`);
+    }
+}
+
+/**
+ * Local or self-hosted OpenAI-compatible server, e.g. Ollama
+ * (LLM_BASE_URL=http://localhost:11434/v1) or llama.cpp's llama-server
+ */
+class OpenAICompatibleProvider extends OpenAIChatProvider {
+    constructor() {
+        const baseURL = process.env.LLM_BASE_URL;
+        const model = process.env.LLM_MODEL;
+        if (!baseURL || !model) {
+            throw new Error('Missing environment variables: LLM_BASE_URL and LLM_MODEL are required for an OpenAI-compatible LLM');
+        }
+
+        // Local servers accept any key, but the client insists on one
+        const client = new OpenAI({ apiKey: process.env.LLM_API_KEY || 'not-needed', baseURL });
+        super(client, model, `openai-compatible-${model}`);
+    }
+}
+
+/**
+ * Deterministic offline stand-in: answers by quoting the start of each numbered
+ * passage it was given, with its citation. No network and the same reply every
+ * run, so the full ask and search flows work in development and CI.
+ */
+class FakeLLMProvider {
+    constructor() {
+        this.name = 'fake';
+    }
+
+    async complete(messages, options = {}) {
+        const prompt = [...messages].reverse().find(message => message.role === 'user')?.content || '';
+
+        switch (options.task) {
+            case 'rewrite':
+                return this.echoFollowUp(prompt);
+            case 'summarize':
+                return this.echoQuestions(prompt);
+            default:
+                return this.echoPassages(prompt);
+        }
+    }
+
+    async *stream(messages, options = {}) {
+        const reply = await this.complete(messages, options);
+
+        // Word by word, like a real model
+        for (const piece of reply.match(/\S+\s*|\s+/g) || []) {
+            if (options.signal && options.signal.aborted) {
+                const error = new Error('Request was aborted.');
+                error.name = 'AbortError';
+                throw error;
+            }
+            yield piece;
+        }
+    }
+
+    echoPassages(prompt) {
+        const passages = Array.from(prompt.matchAll(/^\s*\[(\d+)\] ([^\n]+)\n([^\n]*)/gm));
+        if (passages.length === 0) {
+            return 'This information is not available in the provided documents.';
+        }
+
+        const lines = passages.map(([, number, heading, content]) => {
+            // Chunks often open mid-sentence, so quote the first full-length sentence
+            const sentences = content.trim().split(/(?<=[.!?])\s+/);
+            const sentence = (sentences.slice(1).find(text => text.length >= 40) || sentences[0]).substring(0, 200);
+            return `- ${heading.trim()}: ${sentence} [${number}]`;
+        });
+
+        return `Offline answer (fake LLM provider) quoting the retrieved documents:\n\n${lines.join('\n')}`;
+    }
+
+    // The previous question plus the follow-up, so the follow-up's subject is searched
+    echoFollowUp(prompt) {
+        const latest = (prompt.match(/Latest question: ([^\n]*)$/) || [])[1] || prompt;
+        const questions = Array.from(prompt.matchAll(/^Student: ([^\n]*)/gm), match => match[1]);
+        return questions.length > 0 ? `${questions[questions.length - 1]} ${latest}` : latest;
+    }
+
+    echoQuestions(prompt) {
+        const previous = (prompt.match(/Summary so far:\n([\s\S]*?)\n\n/) || [])[1];
+        const questions = Array.from(prompt.matchAll(/^Student: ([^\n]*)/gm), match => match[1]);
+        return [previous, questions.length ? `The student asked: ${questions.join('; ')}` : '']
+            .filter(Boolean)
+            .join('\n');
+    }
+}
+
+/**
+ * Pick the provider from LLM_PROVIDER ('azure', 'openai-compatible' or 'fake').
+ * Without a setting, Azure is used when its variables are present, then an
+ * OpenAI-compatible server when LLM_BASE_URL is set. The fake is only ever used
+ * when asked for, so a missing configuration fails instead of answering offline.
+ */
+function createLLMProvider() {
+    const configured = (process.env.LLM_PROVIDER || '').toLowerCase();
+
+    if (configured === 'azure') return new AzureOpenAIProvider();
+    if (configured === 'openai-compatible') return new OpenAICompatibleProvider();
+    if (configured === 'fake') return new FakeLLMProvider();
+    if (configured) {
+        throw new Error(`Unknown LLM_PROVIDER "${process.env.LLM_PROVIDER}" - use azure, openai-compatible or fake`);
+    }
+
+    if (process.env.AZURE_OPENAI_ENDPOINT && process.env.AZURE_OPENAI_API_KEY && process.env.AZURE_OPENAI_DEPLOYMENT_NAME) {
+        return new AzureOpenAIProvider();
+    }
+    if (process.env.LLM_BASE_URL) {
+        return new OpenAICompatibleProvider();
+    }
+
+    throw new Error('No LLM configured - set the AZURE_OPENAI_* variables or LLM_BASE_URL and LLM_MODEL, or LLM_PROVIDER=fake for offline answers');
+}
+
+module.exports = {
+    AzureOpenAIProvider,
+    OpenAICompatibleProvider,
+    FakeLLMProvider,
+    createLLMProvider
+};
@@ -0,0 +1,100 @@
+const { AzureOpenAIProvider, OpenAICompatibleProvider, FakeLLMProvider, createLLMProvider } = require('./llmProviders');
+
+const LLM_VARIABLES = ['LLM_PROVIDER', 'LLM_BASE_URL', 'LLM_MODEL', 'AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT_NAME'];
+const environment = { ...process.env };
+
+beforeEach(() => {
+    LLM_VARIABLES.forEach(variable => delete process.env[variable]);
+});
+
+afterAll(() => {
+    process.env = environment;
+});
+
+test('the fake is used only when LLM_PROVIDER asks for it', () => {
+    process.env.LLM_PROVIDER = 'fake';
+    expect(createLLMProvider()).toBeInstanceOf(FakeLLMProvider);
+});
+
+test('no configuration is an error, not an offline fallback', () => {
+    expect(() => createLLMProvider()).toThrow('No LLM configured');
+});
+
+test('an unknown provider is an error', () => {
+    process.env.LLM_PROVIDER = 'gpt';
+    expect(() => createLLMProvider()).toThrow('Unknown LLM_PROVIDER "gpt"');
+});
+
+test('a chosen provider with missing variables names them', () => {
+    process.env.LLM_PROVIDER = 'azure';
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    expect(() => createLLMProvider()).toThrow('Missing environment variables: AZURE_OPENAI_API_KEY, AZURE_OPENAI_DEPLOYMENT_NAME');
+});
+
+test('without LLM_PROVIDER the configured service is detected', () => {
+    process.env.LLM_BASE_URL = 'http://localhost:11434/v1';
+    process.env.LLM_MODEL = 'llama3';
+    expect(createLLMProvider()).toBeInstanceOf(OpenAICompatibleProvider);
+
+    process.env.AZURE_OPENAI_ENDPOINT = 'https://example.openai.azure.com';
+    process.env.AZURE_OPENAI_API_KEY = 'key';
+    process.env.AZURE_OPENAI_DEPLOYMENT_NAME = 'gpt-4o';
+    expect(createLLMProvider()).toBeInstanceOf(AzureOpenAIProvider);
+});
+
+describe('the fake provider', () => {
+    const fake = new FakeLLMProvider();
+    const user = content => [{ role: 'system', content: 'You are a university advisor.' }, { role: 'user', content }];
+
+    // Numbered passages as the search service's buildContext() writes them
+    const passages = `Based on the university documents provided below, please answer this question: "What APS does engineering need?"
+
+        NUMBERED DOCUMENT PASSAGES:
+        [1] University of Cape Town - uct-prospectus.pdf, pp. 12-13
+Engineering and the Built Environment. Applicants for BSc Engineering need an APS of 42 with Mathematics at level 7.
+
+[2] University of the Witwatersrand - wits-guide.pdf, p. 7
+Faculty of Health Sciences. The MBBCh programme requires the National Benchmark Test and Mathematics at level 6.
+
+`;
+
+    test('answers by quoting a full sentence of each passage with its citation', async () => {
+        expect(await fake.complete(user(passages), { task: 'answer' })).toBe([
+            'Offline answer (fake LLM provider) quoting the retrieved documents:',
+            '',
+            '- University of Cape Town - uct-prospectus.pdf, pp. 12-13: Applicants for BSc Engineering need an APS of 42 with Mathematics at level 7. [1]',
+            '- University of the Witwatersrand - wits-guide.pdf, p. 7: The MBBCh programme requires the National Benchmark Test and Mathematics at level 6. [2]'
+        ].join('\n'));
+    });
+
+    test('says so when no passages were retrieved', async () => {
+        expect(await fake.complete(user('please answer this question: "When do residences open?"'))).toBe(
+            'This information is not available in the provided documents.'
+        );
+    });
+
+    test('rewrites a follow-up with the previous question', async () => {
+        const prompt = 'Conversation:\nStudent: What APS do I need for BCom at UCT?\nAdvisor: An APS of 435 FPS [1]\n\nLatest question: what about at Wits?';
+
+        expect(await fake.complete(user(prompt), { task: 'rewrite' })).toBe('What APS do I need for BCom at UCT? what about at Wits?');
+        expect(await fake.complete(user('Conversation:\n\nLatest question: What is NSFAS?'), { task: 'rewrite' })).toBe('What is NSFAS?');
+    });
+
+    test('summarises by keeping the summary so far and listing the questions asked', async () => {
+        const prompt = 'Summary so far:\nThe student asked: What APS do I need for BCom at UCT?\n\n'
+            + 'New messages:\nStudent: what about at Wits?\nAdvisor: Wits asks for an APS of 38 [2]\nStudent: And the closing date?';
+
+        expect(await fake.complete(user(prompt), { task: 'summarize' })).toBe([
+            'The student asked: What APS do I need for BCom at UCT?',
+            'The student asked: what about at Wits?; And the closing date?'
+        ].join('\n'));
+    });
+
+    test('streams the same reply word by word', async () => {
+        const pieces = [];
+        for await (const piece of fake.stream(user(passages), { task: 'answer' })) pieces.push(piece);
+
+        expect(pieces.length).toBeGreaterThan(10);
+        expect(pieces.join('')).toBe(await fake.complete(user(passages), { task: 'answer' }));
+    });
+});
@@ -0,0 +1,290 @@
+/**
+ * Pathway Service
+ * Suggests alternatives for a programme a student does not qualify for:
+ * extended programmes at the same university, related programmes with lower
+ * minimums, Higher Certificate routes and the subject rewrites that would close
+ * the gap. Curated from the prospectuses into processed/pathways.json
+ */
+//pathwayService.js
+const fs = require('fs').promises;
+const path = require('path');
+const EligibilityService = require('./eligibilityService');
+const ProgrammeService = require('./programmeService');
+
+const RELATED_LIMIT = 3;
+
+// Nearly every programme asks for a language, so sharing one does not make two programmes related
+const LANGUAGE_SUBJECT = /^(English|Afrikaans)$|\bLanguage$/;
+
+// Rewrites tried, one achievement level at a time, before giving up on an APS or average gap
+const MAX_RAISES = 12;
+const TOP_LEVEL = 7;
+
+const EMPTY_PATHWAYS = { extendedProgrammes: [], secondChoices: [], higherCertificates: [], upgradeOptions: [] };
+
+class PathwayService {
+    constructor(programmeService = new ProgrammeService(), eligibilityService = new EligibilityService(programmeService)) {
+        this.programmeService = programmeService;
+        this.eligibilityService = eligibilityService;
+        this.apsCalculator = eligibilityService.apsCalculator;
+        this.processedDir = path.join(__dirname, '../processed');
+        this.pathways = EMPTY_PATHWAYS;
+        this.lastLoaded = null;
+    }
+
+    async loadPathways() {
+        try {
+            const pathwaysPath = path.join(this.processedDir, 'pathways.json');
+            const data = await fs.readFile(pathwaysPath, 'utf8');
+            this.pathways = { ...EMPTY_PATHWAYS, ...JSON.parse(data) };
+            this.lastLoaded = new Date().toISOString();
+            console.log(`🎓 Loaded ${this.pathways.extendedProgrammes.length} extended programmes, ${this.pathways.secondChoices.length} second choices and ${this.pathways.higherCertificates.length} Higher Certificate routes`);
+        } catch (error) {
+            console.error('❌ Failed to load pathway data:', error.message);
+            this.pathways = EMPTY_PATHWAYS;
+        }
+
+        return this.pathways;
+    }
+
+    async ensureLoaded() {
+        if (!this.lastLoaded) {
+            await this.loadPathways();
+        }
+        await this.programmeService.ensureLoaded();
+    }
+
+    /**
+     * Alternatives for a programme the student's results fall short of. Call
+     * ensureLoaded() first, as the RecommendationService does once per request
+     * @param {Array<{name: string, percentage: number}>} subjects - matric results
+     * @param {Object} programme - the programme record they do not qualify for
+     * @param {Object} options - province, to list universities of technology there first
+     */
+    suggest(subjects, programme, options = {}) {
+        return {
+            programmeId: programme.id,
+            extendedProgrammes: this.findExtendedProgrammes(subjects, programme),
+            relatedProgrammes: this.findRelatedProgrammes(subjects, programme),
+            higherCertificates: this.findHigherCertificates(subjects, programme, options.province),
+            subjectRewrites: this.planRewrites(subjects, programme),
+            upgradeOptions: this.pathways.upgradeOptions
+        };
+    }
+
+    /**
+     * Extended programmes offered in place of this one, that the student qualifies for
+     * or that select on other grounds (auditions, interviews)
+     */
+    findExtendedProgrammes(subjects, programme) {
+        return this.pathways.extendedProgrammes
+            .filter(entry => entry.universityId === programme.universityId
+                && entry.programmeId !== programme.id
+                && !entry.excludeProgrammeIds.includes(programme.id)
+                && (entry.forProgrammeIds.includes(programme.id) || (!!entry.forFaculty && entry.forFaculty === programme.faculty)))
+            .map(entry => {
+                // Requirements from the extracted programme record when there is one, else the curated entry's
+                const requirements = (entry.programmeId && this.findProgramme(entry.programmeId))
+                    || { ...entry, universityName: programme.universityName, faculty: programme.faculty };
+                const eligibility = this.hasRules(requirements) ? this.eligibilityService.check(subjects, requirements) : null;
+
+                return {
+                    id: entry.id,
+                    programmeId: entry.programmeId,
+                    qualification: entry.qualification,
+                    durationYears: entry.durationYears,
+                    selection: entry.selection,
+                    description: entry.description,
+                    source: entry.source,
+                    eligibility
+                };
+            })
+            .filter(pathway => !pathway.eligibility || pathway.eligibility.eligible);
+    }
+
+    /**
+     * Programmes at the same university the student does qualify for: the prospectus'
+     * suggested second choices first, then the faculty's programmes with lower minimums
+     * that ask for the same subjects, e.g. Mathematics and Physical Sciences
+     */
+    findRelatedProgrammes(subjects, programme) {
+        const extendedIds = new Set(this.pathways.extendedProgrammes.map(entry => entry.programmeId).filter(Boolean));
+        const secondChoice = this.pathways.secondChoices.find(choice => choice.programmeId === programme.id);
+        const curatedIds = secondChoice ? secondChoice.alternativeIds : [];
+
+        const curated = curatedIds
+            .map(id => this.findProgramme(id))
+            .filter(Boolean)
+            .map(candidate => ({ candidate, reason: 'Suggested second choice in the prospectus' }));
+
+        const sameFaculty = this.programmeService.programmes
+            .filter(candidate => candidate.universityId === programme.universityId
+                && candidate.faculty === programme.faculty
+                && candidate.id !== programme.id
+                && !curatedIds.includes(candidate.id)
+                && this.hasLowerMinimum(candidate, programme)
+                && this.sharesSubjectRequirements(candidate, programme))
+            .sort((a, b) => (a.minimumAPS ?? a.minimumAggregate) - (b.minimumAPS ?? b.minimumAggregate))
+            .map(candidate => ({ candidate, reason: this.describeLowerMinimum(candidate, programme) }));
+
+        return [...curated, ...sameFaculty]
+            .filter(({ candidate }) => !extendedIds.has(candidate.id))
+            .filter(({ candidate }) => this.eligibilityService.check(subjects, candidate).eligible)
+            .slice(0, RELATED_LIMIT)
+            .map(({ candidate, reason }) => ({
+                programmeId: candidate.id,
+                qualification: candidate.qualification,
+                faculty: candidate.faculty,
+                durationYears: candidate.durationYears,
+                minimumAPS: candidate.minimumAPS,
+                minimumAggregate: candidate.minimumAggregate,
+                reason
+            }));
+    }
+
+    /**
+     * The university's own Higher Certificates the student qualifies for, then
+     * universities of technology (those in the student's province when there are any)
+     * and TVET colleges
+     */
+    findHigherCertificates(subjects, programme, province) {
+        const routes = this.pathways.higherCertificates;
+        const nearby = routes.filter(route => route.institutionType === 'university_of_technology' && route.province === province);
+
+        const ownRoutes = routes
+            .filter(route => route.universityId === programme.universityId)
+            .filter(route => {
+                const record = route.programmeId && this.findProgramme(route.programmeId);
+                return !record || this.eligibilityService.check(subjects, record).eligible;
+            });
+        const technology = nearby.length > 0
+            ? nearby
+            : routes.filter(route => route.institutionType === 'university_of_technology');
+
+        return [...ownRoutes, ...technology, ...routes.filter(route => route.institutionType === 'tvet')];
+    }
+
+    /**
+     * The subject marks that would make the student eligible: subject minimums
+     * first, then the cheapest one-level improvements until the APS or average is met
+     * @returns {Object} steps - one per subject, with its current and target mark - and
+     *   closesGap, false when even these rewrites leave the student short
+     */
+    planRewrites(subjects, programme) {
+        let results = this.apsCalculator.normalizeSubjects(subjects).map(({ name, percentage }) => ({ name, percentage }));
+        const marks = new Map(results.map(subject => [subject.name, subject.percentage]));
+        const steps = new Map(); // subject -> step
+
+        const setMark = (name, percentage, step) => {
+            const known = steps.get(name);
+            const target = known ? Math.max(known.to, percentage) : percentage;
+            results = [...results.filter(subject => subject.name !== name && subject.name !== step.replaces), { name, percentage: target }];
+            steps.set(name, { ...step, ...known, subject: name, to: target });
+        };
+
+        this.eligibilityService.check(results, programme).failures.forEach(failure => {
+            if (failure.rule === 'subject_level') {
+                setMark(failure.taken, failure.requiredPercentage, { action: 'rewrite', from: marks.get(failure.taken) });
+            } else if (failure.rule === 'subject_not_accepted') {
+                setMark(failure.subject, failure.requiredPercentage, { action: 'replace', replaces: failure.taken, from: null });
+            } else if (failure.rule === 'subject_missing') {
+                setMark(failure.subject, failure.requiredPercentage, { action: 'add', from: null });
+            }
+        });
+
+        let check = this.eligibilityService.check(results, programme);
+        for (let raise = 0; raise < MAX_RAISES && !check.eligible; raise++) {
+            const gap = this.getScoreGap(check);
+            const best = results
+                .filter(subject => !this.apsCalculator.isLifeOrientation(subject.name))
+                .map(subject => {
+                    const level = this.apsCalculator.getAchievementLevel(subject.percentage);
+                    if (level >= TOP_LEVEL) return null;
+                    const target = this.apsCalculator.getLevelMinimum(level + 1);
+                    const raised = results.map(result => result === subject ? { ...result, percentage: target } : result);
+                    const gain = gap - this.getScoreGap(this.eligibilityService.check(raised, programme));
+                    return gain > 0 ? { subject, target, value: gain / (target - subject.percentage) } : null;
+                })
+                .filter(Boolean)
+                .sort((a, b) => b.value - a.value)[0];
+            if (!best) break;
+
+            setMark(best.subject.name, best.target, { action: 'rewrite', from: marks.get(best.subject.name) ?? null });
+            check = this.eligibilityService.check(results, programme);
+        }
+
+        return {
+            steps: Array.from(steps.values()).map(step => ({ ...step, message: this.describeStep(step) })),
+            closesGap: check.eligible
+        };
+    }
+
+    // What the student is still short of on the APS and average rules
+    getScoreGap(check) {
+        return check.failures
+            .filter(failure => failure.rule === 'aps' || failure.rule === 'aggregate')
+            .reduce((sum, failure) => sum + failure.shortBy, 0);
+    }
+
+    describeStep(step) {
+        if (step.action === 'replace') {
+            return `Take ${step.subject} instead of ${step.replaces} and achieve at least ${step.to}%`;
+        }
+        if (step.action === 'add') {
+            return `Add ${step.subject} and achieve at least ${step.to}%`;
+        }
+        return `Improve ${step.subject} from ${step.from}% to at least ${step.to}%`;
+    }
+
+    hasRules(programme) {
+        return typeof programme.minimumAPS === 'number'
+            || typeof programme.minimumAggregate === 'number'
+            || (programme.requiredSubjects || []).length > 0;
+    }
+
+    // A lower minimum on the scale both programmes use
+    hasLowerMinimum(candidate, programme) {
+        if (typeof candidate.minimumAPS === 'number' && typeof programme.minimumAPS === 'number') {
+            return candidate.minimumAPS < programme.minimumAPS;
+        }
+        if (typeof candidate.minimumAggregate === 'number' && typeof programme.minimumAggregate === 'number') {
+            return candidate.minimumAggregate < programme.minimumAggregate;
+        }
+        return false;
+    }
+
+    describeLowerMinimum(candidate, programme) {
+        const minimum = typeof candidate.minimumAPS === 'number' && typeof programme.minimumAPS === 'number'
+            ? `Lower minimum APS of ${candidate.minimumAPS} (${programme.minimumAPS} for ${programme.qualification})`
+            : `Lower minimum average of ${candidate.minimumAggregate}% (${programme.minimumAggregate}% for ${programme.qualification})`;
+        const subjects = this.getSubjectRequirements(programme).map(options => options[0]);
+        return subjects.length > 0 ? `${minimum}, also asking for ${this.joinNames(subjects)}` : minimum;
+    }
+
+    /**
+     * Every subject the programme asks for besides languages is asked for by the
+     * candidate too, counting alternatives (Mathematics or Mathematical Literacy)
+     */
+    sharesSubjectRequirements(candidate, programme) {
+        const candidateRequirements = this.getSubjectRequirements(candidate);
+        return this.getSubjectRequirements(programme)
+            .every(options => candidateRequirements.some(other => other.some(subject => options.includes(subject))));
+    }
+
+    // Each non-language requirement as the subjects that meet it, the one asked for first
+    getSubjectRequirements(programme) {
+        return (programme.requiredSubjects || [])
+            .map(requirement => [requirement, ...(requirement.alternatives || [])].map(option => option.subject))
+            .filter(options => !options.every(subject => LANGUAGE_SUBJECT.test(subject)));
+    }
+
+    joinNames(names) {
+        return names.length > 1 ? `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}` : names[0];
+    }
+
+    findProgramme(id) {
+        return this.programmeService.programmes.find(programme => programme.id === id) || null;
+    }
+}
+
+module.exports = PathwayService;
@@ -0,0 +1,128 @@
+const PathwayService = require('./pathwayService');
+
+// APS 28 on the standard scheme
+const subjects = [
+    { name: 'English Home Language', percentage: 65 },
+    { name: 'Afrikaans First Additional Language', percentage: 55 },
+    { name: 'Mathematics', percentage: 58 },
+    { name: 'Physical Sciences', percentage: 62 },
+    { name: 'Life Sciences', percentage: 70 },
+    { name: 'Geography', percentage: 50 },
+    { name: 'Life Orientation', percentage: 80 }
+];
+
+const english = { subject: 'English', minimumLevel: 4 };
+const mathematics = { subject: 'Mathematics', minimumLevel: 4 };
+const physicalSciences = { subject: 'Physical Sciences', minimumLevel: 4 };
+
+const programme = (slug, minimumAPS, requiredSubjects, faculty = 'Natural and Agricultural Sciences') => ({
+    id: `university-of-pretoria-${slug}`,
+    universityId: 'university-of-pretoria',
+    universityName: 'University of Pretoria',
+    faculty,
+    qualification: slug,
+    minimumAPS,
+    requiredSubjects
+});
+
+const chemistry = programme('bsc-chemistry', 32, [english, { ...mathematics, minimumLevel: 5 }, { ...physicalSciences, minimumLevel: 5 }]);
+const geology = programme('bsc-geology', 28, [english, mathematics, physicalSciences]);
+const geography = programme('ba-geography', 26, [english, { subject: 'Geography', minimumLevel: 4 }]);
+const consumerScience = programme('bconsumer-science', 24, [english, { subject: 'Afrikaans', minimumLevel: 4 }]);
+const physics = programme('bsc-physics', 27, [english, { ...mathematics, alternatives: [{ subject: 'Technical Mathematics', minimumLevel: 5 }] }, physicalSciences]);
+const extended = programme('bsc-extended', 24, [english, mathematics]);
+const music = programme('bmus', 30, [english], 'Humanities');
+
+let service;
+
+beforeEach(() => {
+    service = new PathwayService();
+    service.programmeService.programmes = [chemistry, geology, geography, consumerScience, physics, extended, music];
+    service.pathways = {
+        extendedProgrammes: [{
+            id: 'university-of-pretoria-extended-bsc',
+            universityId: 'university-of-pretoria',
+            qualification: 'BSc [Extended programme]',
+            durationYears: 4,
+            programmeId: extended.id,
+            forProgrammeIds: [],
+            forFaculty: 'Natural and Agricultural Sciences',
+            excludeProgrammeIds: [],
+            selection: false
+        }],
+        secondChoices: [],
+        higherCertificates: [
+            { id: 'tut', institutionType: 'university_of_technology', province: 'Gauteng', qualification: 'Higher Certificate in Science' },
+            { id: 'cput', institutionType: 'university_of_technology', province: 'Western Cape', qualification: 'Higher Certificate in Science' },
+            { id: 'tvet', institutionType: 'tvet', qualification: 'NC(V) Engineering' }
+        ],
+        upgradeOptions: []
+    };
+});
+
+test('related programmes ask for the same subjects besides languages', () => {
+    const related = service.findRelatedProgrammes(subjects, chemistry);
+
+    // Geography and Consumer Science have lower minimums in the faculty but do not ask for Mathematics and Physical Sciences
+    expect(related.map(entry => entry.programmeId)).toEqual([physics.id, geology.id]);
+    expect(related[0].reason).toBe('Lower minimum APS of 27 (32 for bsc-chemistry), also asking for Mathematics and Physical Sciences');
+});
+
+test('an alternative subject counts towards the overlap', () => {
+    const withTechnical = programme('bsc-engineering-science', 35, [english, { subject: 'Technical Mathematics', minimumLevel: 5 }, physicalSciences]);
+
+    expect(service.findRelatedProgrammes(subjects, withTechnical).map(entry => entry.programmeId)).toContain(physics.id);
+});
+
+test('the prospectus second choices come first, whatever subjects they ask for', () => {
+    service.pathways.secondChoices = [{ programmeId: chemistry.id, alternativeIds: [geography.id] }];
+
+    const related = service.findRelatedProgrammes(subjects, chemistry);
+
+    expect(related[0]).toMatchObject({ programmeId: geography.id, reason: 'Suggested second choice in the prospectus' });
+    expect(related.map(entry => entry.programmeId)).toEqual([geography.id, physics.id, geology.id]);
+});
+
+test('a programme asking only for a language is related to the rest of its faculty', () => {
+    const languages = programme('ba-languages', 34, [{ ...english, minimumLevel: 6 }]);
+
+    expect(service.findRelatedProgrammes(subjects, languages).map(entry => entry.programmeId))
+        .toEqual([consumerScience.id, geography.id, physics.id]);
+});
+
+test('extended programmes for the faculty are offered when the student qualifies for them', () => {
+    const [pathway] = service.findExtendedProgrammes(subjects, chemistry);
+
+    expect(pathway).toMatchObject({ id: 'university-of-pretoria-extended-bsc', programmeId: extended.id });
+    expect(pathway.eligibility.eligible).toBe(true);
+    expect(service.findExtendedProgrammes(subjects, music)).toEqual([]);
+});
+
+test('Higher Certificate routes list universities of technology in the province first', () => {
+    expect(service.findHigherCertificates(subjects, chemistry, 'Gauteng').map(route => route.id)).toEqual(['tut', 'tvet']);
+    expect(service.findHigherCertificates(subjects, chemistry, 'Limpopo').map(route => route.id)).toEqual(['tut', 'cput', 'tvet']);
+});
+
+test('rewrites raise the subject minimums, then the cheapest levels until the APS is met', () => {
+    const plan = service.planRewrites(subjects, chemistry);
+
+    expect(plan.closesGap).toBe(true);
+    expect(plan.steps.find(step => step.subject === 'Mathematics')).toMatchObject({ action: 'rewrite', from: 58, to: 60 });
+    expect(service.eligibilityService.check(
+        subjects.map(subject => {
+            const step = plan.steps.find(entry => entry.subject === subject.name);
+            return step ? { ...subject, percentage: step.to } : subject;
+        }),
+        chemistry
+    ).eligible).toBe(true);
+});
+
+test('a missing subject is added to the plan', () => {
+    const accounting = programme('bcom-accounting', 28, [english, mathematics, { subject: 'Accounting', minimumLevel: 5 }], 'Economic and Management Sciences');
+
+    const plan = service.planRewrites(subjects, accounting);
+
+    expect(plan.steps).toEqual([
+        expect.objectContaining({ action: 'add', subject: 'Accounting', to: 60, message: 'Add Accounting and achieve at least 60%' })
+    ]);
+});
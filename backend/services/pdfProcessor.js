@@ -10,10 +10,32 @@ const { v4: uuidv4 } = require('uuid');
 require('dotenv').config({ path: path.join(__dirname, '../.env') });
 const {BlobServiceClient} = require('@azure/storage-blob');
 const PDFContextSearchService = require('./searchService');
+const ProgrammeExtractor = require('./programmeExtractor');
+const DeadlineExtractor = require('./deadlineExtractor');
+const ProgrammeService = require('./programmeService');
+const ProspectusRegistry = require('./prospectusRegistry');
+const ProcessingManifest = require('./processingManifest');
+const UniversityRegistry = require('./universityRegistry');
+
+// A rand amount or head count in the thousands, as prospectuses print them: "34 000", "R38 690", "2,544"
+const THOUSANDS = String.raw`(\d{1,3}(?:[ ,]\d{3})+|\d{4,6})\b`;
+// Fees stated per year that are not tuition
+const OTHER_FEES = /\b(?:residence|accommodation|parking|deposit|meals?|rent|application)\b/i;
 
 class EnhancedUniversityProcessor {
-constructor() {
-    this.searchService = new PDFContextSearchService();
+/**
+ * @param {Object} services - programmeService, universityRegistry and searchService
+ *   to write into. The server passes its own, so processing and uploads change one
+ *   set of documents and indexes; the command line gets new ones.
+ */
+constructor(services = {}) {
+    this.programmeService = services.programmeService || new ProgrammeService();
+    this.universityRegistry = services.universityRegistry || new UniversityRegistry(this.programmeService);
+    this.searchService = services.searchService || new PDFContextSearchService(this.universityRegistry);
+    this.programmeExtractor = new ProgrammeExtractor();
+    this.deadlineExtractor = new DeadlineExtractor(this.programmeExtractor);
+    this.prospectusRegistry = new ProspectusRegistry();
+    this.isProcessing = false;
     this.dataDir = path.join(__dirname, '../data'); // still kept as fallback
     this.processedDir = path.join(__dirname, '../processed');
     this.chunkSize = 2000;
@@ -32,147 +54,253 @@ constructor() {
     }
 }
 
-    async processAllPDFs() {
+    /**
+     * Process every document in the prospectus registry. A document whose file and
+     * registry entry match the manifest is skipped; a changed one replaces only its
+     * own programmes and chunks.
+     * @param {Object} options - force: reprocess every document regardless of the manifest
+     */
+    async processAllPDFs(options = {}) {
+        if (this.isProcessing) {
+            throw new Error('PDF processing is already running');
+        }
+        this.isProcessing = true;
+
         try {
             console.log('📚 Starting enhanced PDF processing...');
             
             // Initialize the search index
             await this.searchService.createIndex();
+            await this.searchService.ready;
             
-            // Define PDF files with their corresponding university info
-            const pdfMappings = [
-                {
-                    file: '2026-ufs-prospectus.pdf',
-                    university: 'University of the Free State',
-                    province: 'Free State',
-                    city: 'Bloemfontein',
-                    type: 'Traditional'
-                },
-                {
-                    file: 'stellies Prospectus.pdf',
-                    university: 'Stellenbosch University',
-                    province: 'Western Cape',
-                    city: 'Stellenbosch',
-                    type: 'Traditional'
-                },
-                {
-                    file: 'stellies pt2 International Curriculum Undergraduate Admission Requirements.pdf', // Updated name
-                    university: 'Stellenbosch University',
-                    province: 'Western Cape',
-                    city: 'Stellenbosch',
-                    type: 'Traditional',
-                    documentType: 'international_curriculum',
-                    isInternational: true
-                },
-                {
-                    file: 'uct ug-prospectus-2026-april.pdf',
-                    university: 'University of Cape Town',
-                    province: 'Western Cape',
-                    city: 'Cape Town',
-                    type: 'Traditional'
-                },
-                {
-                    file: 'UKZN Undergrad2025-Web-latest.pdf',
-                    university: 'University of KwaZulu-Natal',
-                    province: 'KwaZulu-Natal',
-                    city: 'Durban',
-                    type: 'Traditional'
-                },
-                {
-                    file: 'UP_ug-prospectus-2026_nsc-ieb_devv4_web.zp260601.pdf', // Make sure this matches exactly
-                    university: 'University of Pretoria',
-                    province: 'Gauteng',
-                    city: 'Pretoria',
-                    type: 'Traditional'
-                },
-                {
-                    file: 'wits 2026 Guide for Undergrad Applicants Web.pdf', // Check the exact filename
-                    university: 'University of the Witwatersrand',
-                    province: 'Gauteng',
-                    city: 'Johannesburg',
-                    type: 'Traditional'
-                }
-            ];
+            // One entry per source document, from the prospectus registry
+            const pdfMappings = await this.prospectusRegistry.getMappings();
+            const manifest = await new ProcessingManifest(path.join(this.processedDir, 'manifest.json')).load();
 
-            const universities = [];
             const aiDocuments = [];
+            const programmes = [];
+            const deadlines = [];
+            const processed = [];
+            const unchanged = [];
+            const skipped = [];
             
             // Process each PDF for both structured data and AI search
             for (const mapping of pdfMappings) {
                 console.log(`\n📄 Processing: ${mapping.file}`);
-                const filePath = path.join(this.dataDir, mapping.file);
+                const filePath = path.join(this.dataDir, mapping.localPath);
                 
                 try {
-                    // Check if file exists
-                    await fs.access(filePath);
-                    
-                    // Extract structured university data (your existing logic)
-                    const structuredData = await this.extractStructuredData(filePath, mapping);
-                    if (structuredData) {
-                        universities.push(structuredData);
-                        console.log(`✅ Extracted structured data: ${structuredData.universityName}`);
+                    if (!(await this.isAvailable(filePath))) {
+                        console.warn(`⚠️ Skipping ${mapping.file}: not in the data folder or blob storage`);
+                        skipped.push({ file: mapping.file, university: mapping.university, reason: 'not found' });
+                        continue;
+                    }
+
+                    const contentHash = ProcessingManifest.hashContent(await this.getPdfBuffer(filePath, mapping));
+                    if (!options.force && manifest.isUnchanged(mapping, contentHash) && this.searchService.hasChunks(mapping.file)) {
+                        console.log(`⏭️ Unchanged since ${manifest.get(mapping.file).processedAt}, keeping its programmes and chunks`);
+                        unchanged.push(mapping.file);
+                        continue;
                     }
                     
+                    // Programme-level admission requirements
+                    const pdfProgrammes = await this.extractProgrammes(filePath, mapping);
+                    programmes.push(...pdfProgrammes);
+                    console.log(`🎓 Extracted ${pdfProgrammes.length} programmes`);
+
+                    // Closing dates, which can name the programmes above
+                    const pdfDeadlines = await this.extractDeadlines(filePath, mapping, pdfProgrammes);
+                    deadlines.push(...pdfDeadlines);
+                    console.log(`📅 Extracted ${pdfDeadlines.length} deadlines`);
+
                     // Process for AI search (chunked content with embeddings)
                     const aiDocs = await this.processForAISearch(filePath, mapping);
                     aiDocuments.push(...aiDocs);
                     console.log(`🤖 Created ${aiDocs.length} AI document chunks`);
+
+                    manifest.record(mapping, contentHash, {
+                        chunkCount: aiDocs.length,
+                        programmeCount: pdfProgrammes.length,
+                        deadlineCount: pdfDeadlines.length
+                    });
+                    processed.push(mapping.file);
                     
                 } catch (error) {
                     console.error(`❌ Error processing ${mapping.file}:`, error.message);
+                    skipped.push({ file: mapping.file, university: mapping.university, reason: error.message });
                 }
             }
+
+            // Documents taken out of the registry take their output with them
+            const registered = new Set(pdfMappings.map(mapping => mapping.file));
+            const removed = manifest.files().filter(file => !registered.has(file));
+            removed.forEach(file => manifest.remove(file));
+
+            const summary = { processed, unchanged, removed, skipped };
+            if (processed.length === 0 && removed.length === 0) {
+                console.log('\n✨ Every registered document is unchanged, nothing to do');
+                return { ...summary, structuredCount: 0, aiDocCount: 0, programmeCount: 0, deadlineCount: 0, universities: [], programmes, deadlines, aiDocuments };
+            }
             
             // Ensure processed directory exists
             await fs.mkdir(this.processedDir, { recursive: true });
+
+            // Earlier output is kept for every document that was not processed again
+            const replaced = new Set([...processed, ...removed]);
+            const allProgrammes = this.mergeOutput(
+                await this.readProcessed('programmes.json'), programmes, replaced, programme => programme.source.fileName, pdfMappings);
+            const allDeadlines = this.mergeOutput(
+                await this.readProcessed('deadlines.json'), deadlines, replaced, deadline => deadline.source.fileName, pdfMappings);
+            const allAIDocuments = this.mergeOutput(
+                await this.readProcessed('ai_documents.json'), aiDocuments, replaced, doc => doc.fileName, pdfMappings);
             
-            // Save structured data
-            const structuredOutputPath = path.join(this.processedDir, 'universities_structured.json');
+            // Save programme requirements
+            const programmesOutputPath = path.join(this.processedDir, 'programmes.json');
             await fs.writeFile(
-                structuredOutputPath,
-                JSON.stringify(universities, null, 2)
+                programmesOutputPath,
+                JSON.stringify(allProgrammes, null, 2)
+            );
+            
+            // Save closing dates
+            const deadlinesOutputPath = path.join(this.processedDir, 'deadlines.json');
+            await fs.writeFile(
+                deadlinesOutputPath,
+                JSON.stringify(allDeadlines, null, 2)
             );
             
             // Save AI documents for reference
             const aiOutputPath = path.join(this.processedDir, 'ai_documents.json');
             await fs.writeFile(
                 aiOutputPath,
-                JSON.stringify(aiDocuments, null, 2)
+                JSON.stringify(allAIDocuments, null, 2)
             );
+
+            // Structured data is read back from every document's stored output, so it
+            // does not depend on which documents happened to be processed this time
+            const universities = await this.rebuildStructuredData();
+            const structuredOutputPath = this.universityRegistry.getStorePath();
             
             console.log(`\n📊 Processing Summary:`);
+            console.log(`   Processed: ${processed.length}, unchanged: ${unchanged.length}, removed: ${removed.length}, skipped: ${skipped.length}`);
             console.log(`   Structured Universities: ${universities.length}`);
+            console.log(`   Programmes: ${programmes.length}`);
+            console.log(`   Deadlines: ${deadlines.length}`);
             console.log(`   AI Document Chunks: ${aiDocuments.length}`);
             console.log(`💾 Saved structured data to: ${structuredOutputPath}`);
+            console.log(`💾 Saved programmes to: ${programmesOutputPath}`);
+            console.log(`💾 Saved deadlines to: ${deadlinesOutputPath}`);
             console.log(`💾 Saved AI documents to: ${aiOutputPath}`);
             
+            // A changed document's old chunks go before its new ones are uploaded
+            replaced.forEach(file => this.searchService.removeChunks(file));
+
             // Upload both types to Azure Search
             console.log('\n🔄 Uploading to Azure Search...');
             await this.uploadToSearch(universities, aiDocuments);
+            await manifest.save();
             
             console.log('\n✨ Processing complete!');
             return { 
+                ...summary,
                 structuredCount: universities.length, 
                 aiDocCount: aiDocuments.length,
+                programmeCount: programmes.length,
+                deadlineCount: deadlines.length,
                 universities,
+                programmes,
+                deadlines,
                 aiDocuments 
             };
             
         } catch (error) {
             console.error('Processing error:', error);
             throw error;
+        } finally {
+            this.isProcessing = false;
+        }
+    }
+
+    /**
+     * Rebuild every university record from the stored chunk text, programmes and
+     * deadlines, replacing the registry's records. Needs no PDFs, so it also covers
+     * documents that are only kept in blob storage.
+     */
+    async rebuildStructuredData() {
+        const pdfMappings = await this.prospectusRegistry.getMappings();
+        const aiDocuments = await this.readProcessed('ai_documents.json');
+        const programmes = await this.readProcessed('programmes.json');
+        const deadlines = await this.readProcessed('deadlines.json');
+
+        const universities = [];
+        for (const mapping of pdfMappings) {
+            const chunks = aiDocuments
+                .filter(doc => doc.fileName === mapping.file)
+                .sort((a, b) => a.chunkIndex - b.chunkIndex);
+            if (chunks.length === 0) {
+                console.warn(`⚠️ Skipping ${mapping.file}: it has not been processed yet`);
+                continue;
+            }
+
+            universities.push(this.extractUniversityInfo(
+                chunks.map(chunk => chunk.content).join('\n'),
+                mapping,
+                programmes.filter(programme => programme.source.fileName === mapping.file),
+                deadlines.filter(deadline => deadline.source.fileName === mapping.file)
+            ));
+        }
+
+        await this.programmeService.loadProgrammes();
+        await this.universityRegistry.replaceAll(universities);
+        console.log(`💾 Rebuilt structured data from ${universities.length} documents into ${this.universityRegistry.getStorePath()}`);
+        return universities;
+    }
+
+    async readProcessed(fileName) {
+        try {
+            return JSON.parse(await fs.readFile(path.join(this.processedDir, fileName), 'utf8'));
+        } catch (error) {
+            return [];
+        }
+    }
+
+    /**
+     * Earlier entries of documents that were not replaced plus the new ones,
+     * grouped by document in registry order
+     */
+    mergeOutput(previous, fresh, replaced, getFile, pdfMappings) {
+        const kept = previous.filter(entry => !replaced.has(getFile(entry)));
+        const order = new Map(pdfMappings.map((mapping, index) => [mapping.file, index]));
+        const rank = entry => (order.has(getFile(entry)) ? order.get(getFile(entry)) : order.size);
+
+        // Array.prototype.sort is stable, so entries keep their order within a document
+        return [...kept, ...fresh].sort((a, b) => rank(a) - rank(b));
+    }
+
+    /**
+     * A document can be read when it is in the local data folder or blob storage is configured
+     */
+    async isAvailable(filePath) {
+        if (this.containerClient) return true;
+
+        try {
+            await fs.access(filePath);
+            return true;
+        } catch (error) {
+            return false;
         }
     }
+
     async getPdfBuffer(filePath, mapping) {
         let pdfBuffer = null;
+        const blobName = mapping.blobName || mapping.file;
 
         // Try blob storage first
         if (this.containerClient) {
             try {
-                pdfBuffer = await this.downloadBlobToBuffer(mapping.file);
-                console.log(`   📤 Downloaded ${mapping.file} from Azure Blob Storage`);
+                pdfBuffer = await this.downloadBlobToBuffer(blobName);
+                console.log(`   📤 Downloaded ${blobName} from Azure Blob Storage`);
             } catch (err) {
-                console.warn(`   ⚠️ Could not download ${mapping.file} from blob: ${err.message}`);
+                console.warn(`   ⚠️ Could not download ${blobName} from blob: ${err.message}`);
             }
         }
 
@@ -186,20 +314,79 @@ constructor() {
     }
 
     /**
-     * Extract structured data using your existing logic
+     * Extract programme-level admission requirements, page by page. Requirement
+     * tables are rebuilt from the positions of the text, before any whitespace is collapsed.
      */
-    async extractStructuredData(filePath, mapping) {
+    async extractProgrammes(filePath, mapping) {
         try {
             const dataBuffer = await this.getPdfBuffer(filePath, mapping);
-            const data = await pdf(dataBuffer);
-            const text = data.text;
-            return this.extractUniversityInfo(text, mapping);
+            const layouts = await this.getPageLayouts(dataBuffer);
+            return this.programmeExtractor.extract(
+                layouts.map(layout => layout.text),
+                mapping,
+                layouts.map(layout => layout.items)
+            );
         } catch (error) {
-            console.error(`Error extracting structured data from ${filePath}:`, error.message);
-            return null;
+            console.error(`Error extracting programmes from ${filePath}:`, error.message);
+            return [];
+        }
+    }
+
+    /**
+     * Application, residence, bursary and document closing dates, with who they apply to
+     */
+    async extractDeadlines(filePath, mapping, programmes = []) {
+        try {
+            const dataBuffer = await this.getPdfBuffer(filePath, mapping);
+            const pages = await this.getPageTexts(dataBuffer);
+            return this.deadlineExtractor.extract(pages, mapping, programmes);
+        } catch (error) {
+            console.error(`Error extracting deadlines from ${filePath}:`, error.message);
+            return [];
         }
     }
 
+    /**
+     * Text of each page, rendered the same way pdf-parse renders the whole document
+     */
+    async getPageTexts(dataBuffer) {
+        const layouts = await this.getPageLayouts(dataBuffer);
+        return layouts.map(layout => layout.text);
+    }
+
+    /**
+     * Each page's text plus its text items with their positions: x and y of the
+     * baseline start (y grows up the page) and the rendered width
+     */
+    async getPageLayouts(dataBuffer) {
+        const layouts = [];
+
+        await pdf(dataBuffer, {
+            pagerender: pageData => pageData
+                .getTextContent({ normalizeWhitespace: false, disableCombineTextItems: false })
+                .then(textContent => {
+                    let lastY;
+                    let text = '';
+                    for (const item of textContent.items) {
+                        text += (lastY === item.transform[5] || !lastY) ? item.str : `\n${item.str}`;
+                        lastY = item.transform[5];
+                    }
+                    layouts.push({
+                        text,
+                        items: textContent.items.map(item => ({
+                            text: item.str,
+                            x: item.transform[4],
+                            y: item.transform[5],
+                            width: item.width
+                        }))
+                    });
+                    return text;
+                })
+        });
+
+        return layouts;
+    }
+
     // Add this method to EnhancedUniversityProcessor class
     async processPDF(filePath) {
         try {
@@ -212,54 +399,152 @@ constructor() {
         }
     }
 
+    /**
+     * Stages of a 'pdf-upload' job for the job queue. The job starts from
+     * { filePath, fileName } and leaves the file searchable in searchService as a
+     * whole document plus page-cited chunks, replacing an earlier upload of it.
+     */
+    getUploadJobHandler(searchService) {
+        const stages = [
+            {
+                name: 'parse',
+                run: async ({ filePath }) => {
+                    const dataBuffer = await fs.readFile(filePath);
+                    const pages = await this.getPageTexts(dataBuffer);
+                    if (!pages.some(page => page.trim())) {
+                        throw new Error('No text could be read from the PDF');
+                    }
+                    return { contentHash: ProcessingManifest.hashContent(dataBuffer), pages };
+                }
+            },
+            {
+                name: 'chunk',
+                run: async ({ pages }) => {
+                    const { text, pageOffsets } = this.joinPages(pages);
+                    return { text, pageOffsets, chunks: this.splitIntoChunks(text, this.chunkSize, this.chunkOverlap) };
+                }
+            },
+            {
+                name: 'extract',
+                run: async ({ fileName, pages, text, chunks, pageOffsets, contentHash }) => {
+                    const document = searchService.buildPDFDocument(fileName, text);
+                    // The name patterns stop at line breaks, which the cleaned text no longer has
+                    document.universityName = searchService.extractUniversityName(pages.join('\n'));
+                    const mapping = { file: fileName, university: document.universityName };
+                    return { document, documents: this.buildChunkDocuments(chunks, pageOffsets, mapping, contentHash) };
+                }
+            },
+            {
+                name: 'embed',
+                run: async ({ document, documents, documentVector }, reportProgress) => {
+                    // A retry keeps the vectors generated before the failure
+                    const vector = documentVector || await searchService.generateEmbeddings(`${document.universityName}\n${document.content}`);
+                    for (let i = 0; i < documents.length; i++) {
+                        if (!documents[i].contentVector) {
+                            documents[i].contentVector = await searchService.generateEmbeddings(documents[i].content);
+                        }
+                        reportProgress(i + 1, documents.length);
+                        await this.yieldToEventLoop();
+                    }
+                    return { documentVector: vector };
+                }
+            },
+            {
+                name: 'index',
+                run: async ({ document, documents, documentVector }) => {
+                    searchService.removeChunks(document.fileName);
+                    searchService.storePDFDocument(document, documentVector);
+                    for (const doc of documents) {
+                        await searchService.uploadDocument(doc);
+                    }
+                    await searchService.savePDFData();
+
+                    console.log(`✅ Indexed upload ${document.fileName}: ${documents.length} chunks (${document.wordCount} words)`);
+                    return {
+                        result: {
+                            fileName: document.fileName,
+                            universityName: document.universityName,
+                            wordCount: document.wordCount,
+                            chunkCount: documents.length
+                        }
+                    };
+                }
+            }
+        ];
+
+        // The upload is removed whether the job completed or failed
+        const onFinish = async (job, { filePath }) => {
+            await fs.unlink(filePath).catch(error => {
+                if (error.code !== 'ENOENT') throw error;
+            });
+        };
+
+        return { stages, onFinish };
+    }
+
+    // Let requests be served between steps of a long job
+    yieldToEventLoop() {
+        return new Promise(resolve => setImmediate(resolve));
+    }
+
     /**
      * Process PDF for AI search - create chunks with embeddings
      */
     async processForAISearch(filePath, mapping) {
         try {
             const dataBuffer = await this.getPdfBuffer(filePath, mapping);
-            const data = await pdf(dataBuffer);
-            const fullText = data.text;
+            const contentHash = ProcessingManifest.hashContent(dataBuffer);
+            const pages = await this.getPageTexts(dataBuffer);
 
-            const cleanText = this.cleanText(fullText);
+            const { text: cleanText, pageOffsets } = this.joinPages(pages);
             const chunks = this.splitIntoChunks(cleanText, this.chunkSize, this.chunkOverlap);
 
             console.log(`   📝 Split into ${chunks.length} chunks`);
 
-            const documents = [];
-
-            for (let i = 0; i < chunks.length; i++) {
-                const chunk = chunks[i];
-                if (chunk.length < 100) continue;
-
-                const doc = {
-                    id: `${mapping.university.toLowerCase().replace(/\s+/g, '_')}_chunk_${i}_${Date.now()}`,
-                    fileName: mapping.file,
-                    universityName: mapping.university,
-                    province: mapping.province,
-                    city: mapping.city,
-                    documentType: mapping.documentType || 'prospectus',
-                    chunkIndex: i,
-                    totalChunks: chunks.length,
-                    content: chunk,
-                    summary: this.generateChunkSummary(chunk, mapping.university),
-                    keyPhrases: this.extractBasicKeyPhrases(chunk),
-                    extractedEntities: this.extractBasicEntities(chunk, mapping.university),
-                    uploadDate: new Date().toISOString(),
-                    lastModified: new Date().toISOString(),
-                    contentVector: null // fill later with embeddings
-                };
-
-                documents.push(doc);
-            }
-
-            return documents;
+            return this.buildChunkDocuments(chunks, pageOffsets, mapping, contentHash);
         } catch (error) {
             console.error(`Error processing ${filePath} for AI search:`, error.message);
             return [];
         }
     }
 
+    /**
+     * Search documents for the chunks of one file, skipping fragments too short to be useful
+     */
+    buildChunkDocuments(chunks, pageOffsets, mapping, contentHash) {
+        const documents = [];
+
+        for (let i = 0; i < chunks.length; i++) {
+            const { text: chunk, start, end } = chunks[i];
+            if (chunk.length < 100) continue;
+
+            const doc = {
+                // Stable across runs: the same file always gives the same chunk ids
+                id: `${UniversityRegistry.toSlug(mapping.university)}_${contentHash.slice(0, 12)}_chunk_${i}`,
+                fileName: mapping.file,
+                universityName: mapping.university,
+                province: mapping.province,
+                city: mapping.city,
+                documentType: mapping.documentType || 'prospectus',
+                chunkIndex: i,
+                totalChunks: chunks.length,
+                pageStart: this.getPageAt(pageOffsets, start),
+                pageEnd: this.getPageAt(pageOffsets, end - 1),
+                content: chunk,
+                summary: this.generateChunkSummary(chunk, mapping.university),
+                keyPhrases: this.extractBasicKeyPhrases(chunk),
+                extractedEntities: this.extractBasicEntities(chunk, mapping.university),
+                uploadDate: new Date().toISOString(),
+                lastModified: new Date().toISOString(),
+                contentVector: null // fill later with embeddings
+            };
+
+            documents.push(doc);
+        }
+
+        return documents;
+    }
+
     /**
      * Clean and normalize text
      */
@@ -279,7 +564,35 @@ constructor() {
     }
 
     /**
-     * Split text into chunks with overlap
+     * Clean each page and join them into one text, remembering where every page starts
+     */
+    joinPages(pages) {
+        const pageOffsets = [];
+        let text = '';
+
+        pages.forEach(pageText => {
+            const cleaned = this.cleanText(pageText);
+            if (text && cleaned) text += ' ';
+            pageOffsets.push(text.length);
+            text += cleaned;
+        });
+
+        return { text, pageOffsets };
+    }
+
+    /**
+     * 1-based page number of a character offset in the joined text
+     */
+    getPageAt(pageOffsets, offset) {
+        let page = 1;
+        pageOffsets.forEach((pageStart, index) => {
+            if (offset >= pageStart) page = index + 1;
+        });
+        return page;
+    }
+
+    /**
+     * Split text into chunks with overlap, keeping each chunk's character range
      */
     splitIntoChunks(text, chunkSize, overlap) {
         const chunks = [];
@@ -301,7 +614,7 @@ constructor() {
             
             const chunk = text.slice(start, end).trim();
             if (chunk.length > 50) { // Only add substantial chunks
-                chunks.push(chunk);
+                chunks.push({ text: chunk, start, end: Math.min(end, text.length) });
             }
             
             start = Math.max(start + 1, end - overlap);
@@ -436,6 +749,9 @@ constructor() {
                 await this.delay(1000);
             }
         }
+        
+        // Persist the documents, keyword index and vectors once rather than per chunk
+        await this.searchService.savePDFData();
 
         console.log(`\n📊 Upload Summary:`);
         console.log(`   ✅ Structured Universities: ${structuredSuccess}`);
@@ -488,21 +804,28 @@ constructor() {
         }
     }
     // Keep all your existing extraction methods
-    extractUniversityInfo(text, mapping) {
+    /**
+     * Each extractor returns null (or an empty list) when the text does not state
+     * the value, and the record notes where every value came from as it is read
+     */
+    extractUniversityInfo(text, mapping, programmes = [], deadlines = []) {
         const { university, province, city, type, isInternational } = mapping;
+        const fromProgrammes = ProgrammeService.getRequiredSubjects(programmes).length > 0;
         
-        return {
-            id: `${university.toLowerCase().replace(/\s+/g, '_')}_${Date.now()}`,
+        const record = {
+            id: UniversityRegistry.toSlug(university),
             universityName: university,
+            academicYear: mapping.academicYear || null,
             province: province,
             city: city,
             location: `${city}, ${province}`,
             universityType: type,
-            apsScoreRequired: this.extractAPSScore(text),
-            applicationDeadline: this.extractDeadline(text),
+            publicUniversity: mapping.publicUniversity ?? null,
+            apsScoreRequired: this.extractAPSScore(programmes),
+            applicationDeadline: DeadlineExtractor.getApplicationDeadline(deadlines),
             bachelorPassRequired: this.checkBachelorPass(text),
             matricRequirements: this.extractMatricRequirements(text),
-            subjectRequirements: this.extractSubjectRequirements(text),
+            subjectRequirements: this.extractSubjectRequirements(text, programmes),
             tuitionFeesAnnual: this.extractTuitionFees(text),
             accommodationAvailable: this.checkAccommodation(text),
             nsfasAccredited: this.checkNSFAS(text),
@@ -511,56 +834,32 @@ constructor() {
             faculties: this.extractFaculties(text),
             languageMedium: this.extractLanguageMedium(text),
             studentPopulation: this.extractStudentPopulation(text),
-            establishmentYear: this.getEstablishmentYear(university),
-            description: this.generateDescription(university, text),
+            establishmentYear: mapping.establishmentYear || null,
+            description: this.generateDescription(mapping),
         };
-    }
-
-    // Keep all your existing extraction methods exactly as they are
-    extractAPSScore(text) {
-        const patterns = [
-            /APS\s*[:=]\s*(\d+)/i,
-            /APS\s+(?:score\s+)?(?:of\s+)?(\d+)/i,
-            /Admission\s+Point\s+Score\s*[:=]\s*(\d+)/i,
-            /minimum\s+APS\s+(?:of\s+)?(\d+)/i
-        ];
 
-        for (const pattern of patterns) {
-            const match = text.match(pattern);
-            if (match) {
-                return parseInt(match[1]);
-            }
-        }
-        return 30;
+        record.fieldSources = UniversityRegistry.recordFieldSources(record, {
+            apsScoreRequired: 'programmes',
+            subjectRequirements: fromProgrammes ? 'programmes' : 'extracted'
+        });
+        return record;
     }
 
-    extractDeadline(text) {
-        const patterns = [
-            /Applications?\s+close[sd]?\s*[:=]\s*([^\n]+)/i,
-            /Closing\s+date\s*[:=]\s*([^\n]+)/i,
-            /Deadline\s*[:=]\s*([^\n]+)/i,
-            /(\d{1,2}\s+(?:January|February|March|April|May|June|July|August|September|October|November|December)\s+\d{4})/i
-        ];
-
-        for (const pattern of patterns) {
-            const match = text.match(pattern);
-            if (match) {
-                const dateStr = match[1].trim();
-                if (dateStr.toLowerCase().includes('september')) {
-                    return '2024-09-30';
-                } else if (dateStr.toLowerCase().includes('october')) {
-                    return '2024-10-31';
-                }
-            }
-        }
-        return '2024-09-30';
+    extractAPSScore(programmes) {
+        return ProgrammeService.getEntryAPS(programmes);
     }
 
+    // The keyword checks below say true when the text mentions it, null when it
+    // does not - a prospectus leaving something out does not make it false
     checkBachelorPass(text) {
         const lowerText = text.toLowerCase();
-        return lowerText.includes("bachelor's pass") || 
+        return this.mentioned(lowerText.includes("bachelor's pass") || 
                lowerText.includes("bachelor pass") ||
-               lowerText.includes("bachelors pass");
+               lowerText.includes("bachelors pass"));
+    }
+
+    mentioned(found) {
+        return found ? true : null;
     }
 
     extractMatricRequirements(text) {
@@ -574,10 +873,14 @@ constructor() {
         if (text.toLowerCase().includes("higher certificate")) {
             return "National Senior Certificate with Higher Certificate Pass";
         }
-        return "National Senior Certificate";
+        return null;
     }
 
-    extractSubjectRequirements(text) {
+    extractSubjectRequirements(text, programmes = []) {
+        // Prefer what the programme requirement tables actually ask for
+        const required = ProgrammeService.getRequiredSubjects(programmes);
+        if (required.length > 0) return required.slice(0, 6);
+
         const subjects = [];
         const subjectPatterns = [
             'Mathematics', 'Mathematical Literacy', 'Physical Sciences',
@@ -593,50 +896,50 @@ constructor() {
             }
         }
 
-        if (!subjects.includes('English')) {
-            subjects.push('English');
-        }
-
         return subjects.slice(0, 6);
     }
 
+    /**
+     * Annual tuition: an amount under a tuition label ("Average tuition fees 34 000"),
+     * else a rand amount stated per year that the sentence does not tie to another fee
+     */
     extractTuitionFees(text) {
-        const patterns = [
-            /R\s*(\d+[\s,]*\d*)\s*(?:per\s+)?(?:year|annual|pa)/i,
-            /Tuition\s*[:=]\s*R?\s*(\d+[\s,]*\d*)/i,
-            /Annual\s+fees?\s*[:=]\s*R?\s*(\d+[\s,]*\d*)/i
-        ];
+        const labelled = text.match(new RegExp(String.raw`\btuition\s+fees?\s*[:=]?\s*(?:R\s?)?${THOUSANDS}`, 'i'));
+        if (labelled) return this.parseThousands(labelled[1]);
 
-        for (const pattern of patterns) {
-            const match = text.match(pattern);
-            if (match) {
-                const amount = match[1].replace(/[\s,]/g, '');
-                return parseInt(amount);
-            }
+        const perYear = new RegExp(String.raw`\bR\s?${THOUSANDS}\s*(?:per\s+(?:year|annum)\b|p\.\s?a\.)`, 'gi');
+        let match;
+        while ((match = perYear.exec(text)) !== null) {
+            const sentence = text.slice(0, match.index).split(/[.\n]/).pop();
+            if (!OTHER_FEES.test(sentence)) return this.parseThousands(match[1]);
         }
-        return 55000;
+        return null;
+    }
+
+    parseThousands(amount) {
+        return parseInt(amount.replace(/[\s,]/g, ''), 10);
     }
 
     checkAccommodation(text) {
         const lowerText = text.toLowerCase();
-        return lowerText.includes('accommodation') || 
+        return this.mentioned(lowerText.includes('accommodation') || 
                lowerText.includes('residence') ||
                lowerText.includes('res ') ||
                lowerText.includes('housing') ||
-               lowerText.includes('hostel');
+               lowerText.includes('hostel'));
     }
 
     checkNSFAS(text) {
-        return text.toLowerCase().includes('nsfas');
+        return this.mentioned(text.toLowerCase().includes('nsfas'));
     }
 
     checkBursaries(text) {
         const lowerText = text.toLowerCase();
-        return lowerText.includes('bursary') || 
+        return this.mentioned(lowerText.includes('bursary') || 
                lowerText.includes('bursaries') ||
                lowerText.includes('financial aid') ||
                lowerText.includes('financial assistance') ||
-               lowerText.includes('funding');
+               lowerText.includes('funding'));
     }
 
     extractPrograms(text) {
@@ -692,74 +995,64 @@ constructor() {
             return ['English', 'Afrikaans'];
         }
         
-        return languages.length > 0 ? languages : ['English'];
+        return languages;
     }
 
+    /**
+     * The university's head count: "has over 29 000 students", a count dated by its
+     * year ("41 100 students (2021)") or a student population label. Residence
+     * capacities and counts from the university's history are left out
+     */
     extractStudentPopulation(text) {
         const patterns = [
-            /(\d+[\s,]*\d*)\s+students?/i,
-            /student\s+(?:population|body)\s*[:=]\s*(\d+[\s,]*\d*)/i,
-            /enrollment\s*[:=]\s*(\d+[\s,]*\d*)/i
+            String.raw`\b(?:has|have)\s+(?:over\s+|more\s+than\s+|some\s+|about\s+|approximately\s+|nearly\s+|almost\s+)?${THOUSANDS}\s+students\b`,
+            String.raw`\b${THOUSANDS}\s+students\s*\((?:19|20)\d{2}\)`,
+            String.raw`\bstudent\s+(?:population|body|enrolment|enrollment)\s*[:=]\s*${THOUSANDS}`
         ];
 
         for (const pattern of patterns) {
-            const match = text.match(pattern);
-            if (match) {
-                const number = match[1].replace(/[\s,]/g, '');
-                return parseInt(number);
-            }
+            const match = text.match(new RegExp(pattern, 'i'));
+            if (match) return this.parseThousands(match[1]);
         }
-
         return null;
     }
 
-    getEstablishmentYear(universityName) {
-        const years = {
-            'University of Cape Town': 1829,
-            'Stellenbosch University': 1918,
-            'University of the Witwatersrand': 1896,
-            'University of Pretoria': 1908,
-            'University of KwaZulu-Natal': 2004,
-            'University of the Free State': 1904
-        };
-
-        return years[universityName] || null;
-    }
-
-    generateDescription(universityName, text) {
-        const descriptions = {
-            'University of Cape Town': 'Africa\'s leading university, consistently ranked as the top university in Africa with world-class research facilities and academic programs.',
-            'Stellenbosch University': 'Historic university known for excellence in agriculture, engineering, medicine, and wine studies, with strong research output.',
-            'University of the Witwatersrand': 'Leading research-intensive university in South Africa, renowned for mining engineering, health sciences, and business education.',
-            'University of Pretoria': 'One of South Africa\'s largest universities, famous for veterinary science, engineering, and innovative research programs.',
-            'University of KwaZulu-Natal': 'Formed through merger, known for medicine, agriculture, and strong community engagement in KwaZulu-Natal.',
-            'University of the Free State': 'Multicultural institution offering quality education across diverse fields with strong agricultural and health programs.'
-        };
-
-        return descriptions[universityName] || `${universityName} is a leading institution of higher learning in South Africa.`;
+    // Registry metadata, or a generic line for a university onboarded without one
+    generateDescription(mapping) {
+        return mapping.description || `${mapping.university} is a leading institution of higher learning in South Africa.`;
     }
 }
 
 // Run the processor if called directly
 if (require.main === module) {
     const processor = new EnhancedUniversityProcessor();
-    
-    // Process all PDFs
-    processor.processAllPDFs()
-        .then(async result => {
-            console.log('✅ Processing completed successfully');
+
+    // --rebuild-structured only re-reads the stored output into the university records
+    if (process.argv.includes('--rebuild-structured')) {
+        processor.rebuildStructuredData()
+            .then(() => process.exit(0))
+            .catch(error => {
+                console.error('❌ Rebuilding structured data failed:', error);
+                process.exit(1);
+            });
+    } else {
+        // Process changed PDFs, or every one with --force
+        processor.processAllPDFs({ force: process.argv.includes('--force') })
+            .then(async result => {
+                console.log('✅ Processing completed successfully');
             
-            // Test the AI search functionality
-            console.log('\n🧪 Testing AI Search...');
-            await processor.testAISearch('What are the admission requirements for computer science at UCT?');
-            await processor.testAISearch('Tell me about accommodation at Stellenbosch University');
+                // Test the AI search functionality
+                console.log('\n🧪 Testing AI Search...');
+                await processor.testAISearch('What are the admission requirements for computer science at UCT?');
+                await processor.testAISearch('Tell me about accommodation at Stellenbosch University');
             
-            process.exit(0);
-        })
-        .catch(error => {
-            console.error('❌ Processing failed:', error);
-            process.exit(1);
-        });
+                process.exit(0);
+            })
+            .catch(error => {
+                console.error('❌ Processing failed:', error);
+                process.exit(1);
+            });
+    }
 }
 
 module.exports = EnhancedUniversityProcessor;
\ No newline at end of file
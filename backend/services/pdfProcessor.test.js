@@ -0,0 +1,56 @@
+const EnhancedUniversityProcessor = require('./pdfProcessor');
+
+let processor;
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    processor = new EnhancedUniversityProcessor({ searchService: {} });
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+// Quoted from the 2025 UKZN undergraduate prospectus
+const ukznFees = 'Consider external donors. Fees and Allowances R (in 2025) Average tuition fees 34 000 Residence fees 38 690 '
+    + 'Meals allowance 28 900 Book allowance 11 000 TOTALS 112 590 THE ACADEMIC YEAR 2025 BURSARY REGISTER is available';
+const ukznResidence = 'Residence Fees In 2024, residence fees consisted of an accommodation charge of R38 690 per annum. '
+    + 'The accommodation deposit was R3 380 (2024 fee).';
+
+test('tuition is read from a tuition fees label', () => {
+    expect(processor.extractTuitionFees(ukznFees)).toBe(34000);
+});
+
+test('a yearly fee for residence or parking is not taken as tuition', () => {
+    expect(processor.extractTuitionFees(ukznResidence)).toBeNull();
+    // 2026 UFS prospectus
+    expect(processor.extractTuitionFees('Covered parking for residence students Reserved parking p.a. (Not refundable)R500')).toBeNull();
+});
+
+test('an R at the end of a word or "pa" inside one is not a yearly fee', () => {
+    // 2026 UCT and Wits prospectuses
+    expect(processor.extractTuitionFees('complete. After graduating with an MBCh B degree and completing two years’ internship and a year’s community service')).toBeNull();
+    expect(processor.extractTuitionFees('• R100 Application fee for South African citizens and Permanent Residents • R700 Application fee for foreign citizens')).toBeNull();
+    expect(processor.extractTuitionFees('for the year 30 Paraplegic students')).toBeNull();
+});
+
+test('a rand amount per year outside a residence sentence is tuition', () => {
+    expect(processor.extractTuitionFees('The BCom programme costs R58 397 per year, excluding books.')).toBe(58397);
+    expect(processor.extractTuitionFees('Tuition: R 46,040 p.a. for Accounting')).toBe(46040);
+});
+
+test('the student population comes from the university head count', () => {
+    // 2026 UCT prospectus
+    expect(processor.extractStudentPopulation('UCT has over 29 000 students, of whom 30% are postgraduates.')).toBe(29000);
+    // 2026 Wits prospectus
+    expect(processor.extractStudentPopulation('The Home of Talented Scholars 41 100 students (2021) Commerce, Law and Management')).toBe(41100);
+});
+
+test('years, residence capacities and historical counts are not the student population', () => {
+    // 2026 UFS, 2025 UKZN and 2026 Wits prospectuses
+    expect(processor.extractStudentPopulation('Doctoral degrees 6 547 Undergraduate students 2024 GRADUATES COMPLETED IN 2023')).toBeNull();
+    expect(processor.extractStudentPopulation('Howard College and Medical School residences accommodate 1 701 students.')).toBeNull();
+    expect(processor.extractStudentPopulation('37 departments, 73 members of academic staff and just over 1,000 students. In 1925')).toBeNull();
+    expect(processor.extractStudentPopulation('Apply by 30 June 2026 students must register')).toBeNull();
+});
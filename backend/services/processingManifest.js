@@ -0,0 +1,89 @@
+/**
+ * Processing Manifest
+ * What the PDF processor last built from each source document: a hash of the
+ * file and of its registry entry, so unchanged documents are skipped on the next run
+ */
+//processingManifest.js
+const crypto = require('crypto');
+const fs = require('fs').promises;
+const path = require('path');
+
+// Bump when extraction or chunking changes, so every document is processed again
+const PROCESSING_VERSION = 3;
+
+// Registry fields that end up in the processed output
+const MAPPING_FIELDS = ['university', 'province', 'city', 'type', 'publicUniversity', 'documentType', 'academicYear', 'establishmentYear', 'description'];
+
+class ProcessingManifest {
+    constructor(storePath = path.join(__dirname, '../processed/manifest.json')) {
+        this.storePath = storePath;
+        this.documents = new Map(); // file name -> entry
+    }
+
+    static hashContent(buffer) {
+        return crypto.createHash('sha256').update(buffer).digest('hex');
+    }
+
+    static hashMapping(mapping) {
+        const fields = MAPPING_FIELDS.map(field => [field, mapping[field] ?? null]);
+        return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+    }
+
+    async load() {
+        try {
+            const data = JSON.parse(await fs.readFile(this.storePath, 'utf8'));
+            // A manifest from another version describes output this code would not produce
+            this.documents = data.version === PROCESSING_VERSION
+                ? new Map(data.documents.map(entry => [entry.file, entry]))
+                : new Map();
+        } catch (error) {
+            this.documents = new Map();
+        }
+        return this;
+    }
+
+    async save() {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify({
+            version: PROCESSING_VERSION,
+            documents: Array.from(this.documents.values())
+        }, null, 2));
+    }
+
+    get(file) {
+        return this.documents.get(file) || null;
+    }
+
+    /**
+     * Whether a document's file and registry entry are as they were when it was last processed
+     */
+    isUnchanged(mapping, contentHash) {
+        const entry = this.get(mapping.file);
+        return !!entry
+            && entry.contentHash === contentHash
+            && entry.mappingHash === ProcessingManifest.hashMapping(mapping);
+    }
+
+    record(mapping, contentHash, counts) {
+        this.documents.set(mapping.file, {
+            file: mapping.file,
+            university: mapping.university,
+            contentHash,
+            mappingHash: ProcessingManifest.hashMapping(mapping),
+            chunkCount: counts.chunkCount,
+            programmeCount: counts.programmeCount,
+            deadlineCount: counts.deadlineCount,
+            processedAt: new Date().toISOString()
+        });
+    }
+
+    remove(file) {
+        return this.documents.delete(file);
+    }
+
+    files() {
+        return Array.from(this.documents.keys());
+    }
+}
+
+module.exports = ProcessingManifest;
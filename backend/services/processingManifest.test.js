@@ -0,0 +1,74 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProcessingManifest = require('./processingManifest');
+
+const mapping = {
+    file: 'uct-prospectus.pdf',
+    university: 'University of Cape Town',
+    province: 'Western Cape',
+    city: 'Cape Town',
+    type: 'Traditional',
+    documentType: 'prospectus',
+    academicYear: 2026,
+    localPath: 'uct-prospectus.pdf'
+};
+
+let dir;
+
+beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-'));
+});
+
+afterEach(async () => {
+    await fs.rm(dir, { recursive: true });
+});
+
+test('the content hash depends only on the bytes of the file', () => {
+    const hash = ProcessingManifest.hashContent(Buffer.from('%PDF-1.7 prospectus'));
+
+    expect(hash).toMatch(/^[0-9a-f]{64}$/);
+    expect(ProcessingManifest.hashContent(Buffer.from('%PDF-1.7 prospectus'))).toBe(hash);
+    expect(ProcessingManifest.hashContent(Buffer.from('%PDF-1.7 prospectus 2'))).not.toBe(hash);
+});
+
+test('the mapping hash follows the registry fields that reach the output', () => {
+    const hash = ProcessingManifest.hashMapping(mapping);
+
+    expect(ProcessingManifest.hashMapping({ ...mapping, localPath: 'elsewhere/uct.pdf' })).toBe(hash);
+    expect(ProcessingManifest.hashMapping({ ...mapping, academicYear: 2027 })).not.toBe(hash);
+    expect(ProcessingManifest.hashMapping({ ...mapping, city: 'Rondebosch' })).not.toBe(hash);
+});
+
+test('a document is unchanged only when both its file and registry entry are', () => {
+    const manifest = new ProcessingManifest(path.join(dir, 'manifest.json'));
+    manifest.record(mapping, 'hash-a', { chunkCount: 10, programmeCount: 4, deadlineCount: 2 });
+
+    expect(manifest.isUnchanged(mapping, 'hash-a')).toBe(true);
+    expect(manifest.isUnchanged(mapping, 'hash-b')).toBe(false);
+    expect(manifest.isUnchanged({ ...mapping, academicYear: 2027 }, 'hash-a')).toBe(false);
+    expect(manifest.isUnchanged({ ...mapping, file: 'wits-guide.pdf' }, 'hash-a')).toBe(false);
+});
+
+test('entries survive a save and load, and removed ones are gone', async () => {
+    const storePath = path.join(dir, 'processed', 'manifest.json');
+    const manifest = new ProcessingManifest(storePath);
+    manifest.record(mapping, 'hash-a', { chunkCount: 10, programmeCount: 4, deadlineCount: 2 });
+    manifest.record({ ...mapping, file: 'wits-guide.pdf' }, 'hash-w', { chunkCount: 3, programmeCount: 0, deadlineCount: 0 });
+    manifest.remove('wits-guide.pdf');
+    await manifest.save();
+
+    const loaded = await new ProcessingManifest(storePath).load();
+    expect(loaded.files()).toEqual(['uct-prospectus.pdf']);
+    expect(loaded.get('uct-prospectus.pdf')).toMatchObject({ contentHash: 'hash-a', chunkCount: 10, programmeCount: 4 });
+    expect(loaded.isUnchanged(mapping, 'hash-a')).toBe(true);
+});
+
+test('a manifest from another processing version is ignored', async () => {
+    const storePath = path.join(dir, 'manifest.json');
+    await fs.writeFile(storePath, JSON.stringify({ version: 0, documents: [{ file: mapping.file, contentHash: 'hash-a' }] }));
+
+    const loaded = await new ProcessingManifest(storePath).load();
+    expect(loaded.files()).toEqual([]);
+    expect(loaded.isUnchanged(mapping, 'hash-a')).toBe(false);
+});
@@ -0,0 +1,540 @@
+/**
+ * Programme Extractor
+ * Pulls qualification-level admission requirements (minimum APS, aggregate and
+ * subject minimums) out of a prospectus: from its requirement tables when the
+ * page layout is known, from UCT's admission band tables, otherwise from the page text
+ */
+//programmeExtractor.js
+const APSCalculator = require('./apsCalculator');
+const TableExtractor = require('./tableExtractor');
+const UniversityRegistry = require('./universityRegistry');
+
+// Lines that start a qualification name, e.g. "Bachelor of Commerce", "BSc in ...", "MBChB"
+const QUALIFICATION_PREFIX = /^(Bachelor|BSc|BCom|BA|BEng|BAgric|BScAgric|BEd|BMus|BPharm|BNurs|BAcc|BArch|BVSc|BChD|BDS|BCur|LLB|MBChB|Higher Certificate|Advanced Diploma|Diploma|Extended)\b/;
+
+// "[4 years]" (table layouts) or "(3 years)" (list layouts) at the end of a line
+const DURATION = /[[(](\d+)\s*years?[\])]\s*$/i;
+
+// Text that ends the requirements of a qualification
+const BLOCK_END = /^(Suggested|Proposed|Careers?\b|Career opportunities|Similar programmes?|For advice|Fields of study|Routes|Programmes$|Note\b|If you take|Interfaculty)/i;
+
+// Longer names first so "Mathematical Literacy" is not read as "Mathematics"
+const SUBJECTS = [
+    'Mathematical Literacy', 'Technical Mathematics', 'Mathematics',
+    'Physical Sciences', 'Life Sciences', 'Agricultural Sciences',
+    'Engineering Graphics and Design', 'Computer Applications Technology', 'Information Technology',
+    'Accounting', 'Business Studies', 'Economics', 'Geography', 'History',
+    'English', 'Afrikaans', 'First Additional Language', 'Home Language'
+];
+
+const LANGUAGE_LEVELS = ['Home Language', 'First Additional Language'];
+
+// Anything outside these is a mis-read table cell (e.g. two cells run together).
+// UCT's Health Sciences FPS adds NBT results to the six subjects, so it is off the uct_fps scale
+const LEVEL_RANGE = { min: 1, max: 7 };
+const APS_RANGES = {
+    standard: { min: 15, max: 50 },
+    wits: { min: 15, max: 56 },
+    uct_fps: { min: 250, max: 600 }
+};
+
+// UCT tables: a title such as "BACHELOR OF SCIENCE IN GEOMATICS", this header, then a
+// row per admission band. Band A is the score that admits any applicant
+const BAND_TABLE_HEADER = /ELIGIBLE\s*BANDS?\s*ADMISSION REQUIREMENTS/g;
+const BAND_TITLE = /B?ACHELOR OF (?:[A-Z&,]+(?![a-z])|\([A-Za-z ]+\))(?: (?:[A-Z&,]+(?![a-z])|\([A-Za-z ]+\)))*/g;
+const BAND_A = /Band A\s+FPS\s+Guaranteed admission\s+(?:FPS\s+(?:of\s+)?(\d{3})|(\d{3})\s+FPS)\s+or above/i;
+const BAND_LANGUAGE_LEVELS = { HL: 'Home Language', FAL: 'First Additional Language' };
+const TITLE_CONNECTORS = ['and', 'of', 'the', 'in', 'for'];
+const MAX_NAME_LINES = 5;
+const MAX_BLOCK_LINES = 12;
+
+class ProgrammeExtractor {
+    constructor() {
+        this.apsCalculator = new APSCalculator();
+        this.tableExtractor = new TableExtractor({ rowStart: QUALIFICATION_PREFIX, nameEnd: DURATION, rowEnd: BLOCK_END });
+    }
+
+    /**
+     * Extract every programme listed in a prospectus
+     * @param {string[]} pages - text of each page, in order
+     * @param {Object} mapping - the PDF mapping (university, file, ...)
+     * @param {Array<Array<{text: string, x: number, y: number, width: number}>>} layouts -
+     *   the positioned text items of each page, when available
+     */
+    extract(pages, mapping, layouts = []) {
+        // Same slug the university registry keys its records by
+        const universityId = UniversityRegistry.toSlug(mapping.university);
+        const apsScheme = this.apsCalculator.getSchemeForUniversity(mapping.university);
+        const context = { faculty: null, columns: [] };
+        const programmes = [];
+        const seen = new Set();
+
+        pages.forEach((pageText, pageIndex) => {
+            const lines = pageText
+                .split('\n')
+                .map(line => line.replace(/\s+/g, ' ').trim())
+                .filter(Boolean);
+
+            context.faculty = this.detectFaculty(lines) || context.faculty;
+
+            // Table rows read from the layout replace the ones guessed from the text
+            const textEntries = this.extractFromPage(lines, context);
+            const tableEntries = this.extractFromTables(layouts[pageIndex] || []);
+            const entries = [
+                ...(tableEntries.length > 0
+                    ? [...tableEntries, ...textEntries.filter(entry => entry.layout === 'list')]
+                    : textEntries),
+                ...this.extractFromBandTables(lines.join(' '), apsScheme)
+            ];
+
+            entries.forEach(entry => {
+                let id = `${universityId}-${UniversityRegistry.toSlug(entry.qualification)}`;
+                // Some qualifications are listed more than once (e.g. a 3 and 4-year curriculum)
+                for (let n = 2; seen.has(id); n++) {
+                    id = `${universityId}-${UniversityRegistry.toSlug(entry.qualification)}-${n}`;
+                }
+                seen.add(id);
+
+                programmes.push({
+                    id,
+                    universityId,
+                    universityName: mapping.university,
+                    academicYear: mapping.academicYear || null,
+                    faculty: context.faculty,
+                    qualification: entry.qualification,
+                    durationYears: entry.durationYears,
+                    minimumAPS: entry.minimumAPS,
+                    apsScheme,
+                    minimumAggregate: entry.minimumAggregate,
+                    requiredSubjects: entry.requiredSubjects,
+                    source: {
+                        fileName: mapping.file,
+                        page: pageIndex + 1,
+                        extraction: entry.extraction
+                    }
+                });
+            });
+        });
+
+        return programmes;
+    }
+
+    extractFromPage(lines, context) {
+        const entries = [];
+
+        for (let i = 0; i < lines.length; i++) {
+            // Requirement tables announce their subject columns after the "APS" header cell
+            if (lines[i] === 'APS' && lines.slice(Math.max(0, i - 2), i).some(line => /level$/i.test(line))) {
+                const header = [];
+                for (let j = i + 1; j < lines.length && !QUALIFICATION_PREFIX.test(lines[j]); j++) {
+                    header.push(lines[j]);
+                }
+                context.columns = this.findColumns(header.join(' '));
+                continue;
+            }
+
+            const duration = lines[i].match(DURATION);
+            if (!duration) continue;
+
+            const qualification = this.readQualificationName(lines, i);
+            if (!qualification) continue;
+
+            const block = [];
+            for (let j = i + 1; j < lines.length && block.length < MAX_BLOCK_LINES; j++) {
+                if (BLOCK_END.test(lines[j]) || DURATION.test(lines[j])) break;
+                block.push(lines[j]);
+            }
+
+            const layout = block.some(line => line.startsWith('-')) ? 'list' : 'table';
+            const requirements = layout === 'list'
+                ? this.parseListRequirements(block)
+                : this.parseTableRequirements(block, context.columns);
+
+            // A qualification name without any requirements is usually a cross-reference
+            if (!this.isPlausible(requirements)) continue;
+
+            entries.push({
+                qualification,
+                durationYears: parseInt(duration[1]),
+                ...requirements,
+                extraction: 'text',
+                layout
+            });
+        }
+
+        return entries;
+    }
+
+    /**
+     * Requirement table rows rebuilt from the positioned text of a page: one
+     * entry per row, with a subject requirement per column and the APS cell
+     */
+    extractFromTables(items) {
+        const entries = [];
+
+        this.tableExtractor.extract(items).forEach(table => {
+            table.rows.forEach(row => {
+                const duration = row.name.match(DURATION);
+                if (!duration) return;
+
+                const requirements = { minimumAPS: null, minimumAggregate: null, requiredSubjects: [] };
+                table.columns.forEach(({ label }) => {
+                    const cell = row.cells[label];
+                    if (!cell) return;
+
+                    if (label === 'APS') {
+                        const aps = cell.match(/^(\d{2})$/);
+                        if (aps) requirements.minimumAPS = parseInt(aps[1]);
+                        return;
+                    }
+
+                    const requirement = this.parseCell(cell, this.findColumns(label)[0] || label);
+                    if (requirement) requirements.requiredSubjects.push(requirement);
+                });
+
+                if (!this.isPlausible(requirements)) return;
+
+                // Qualifiers such as "[Also referred to as MBChB]" are not part of the name,
+                // and programmes sharing a row ("... in Genetics Bachelor of Science in Human Genetics") are split
+                row.name
+                    .replace(DURATION, '')
+                    .replace(/\[[^\]]*\]/g, ' ')
+                    .split(/\s(?=Bachelor of\b)/)
+                    .map(name => this.cleanName([name]))
+                    .filter(name => QUALIFICATION_PREFIX.test(name))
+                    .forEach(qualification => entries.push({
+                        qualification,
+                        durationYears: parseInt(duration[1]),
+                        ...requirements,
+                        extraction: 'table'
+                    }));
+            });
+        });
+
+        return entries;
+    }
+
+    /**
+     * UCT's admission band tables, read from the page text: the Band A score under
+     * the faculty's FPS, and the subject minimums that band asks for, e.g.
+     * "Band A FPS Guaranteed admission 500 FPS or above ≥ 80% for Mathematics & ≥ 75% for Physical Sciences"
+     */
+    extractFromBandTables(text, apsScheme = 'standard') {
+        const entries = [];
+        const headers = [...text.matchAll(BAND_TABLE_HEADER)];
+
+        headers.forEach((header, index) => {
+            const start = index > 0 ? headers[index - 1].index + headers[index - 1][0].length : 0;
+            const titles = [...text.slice(start, header.index).matchAll(BAND_TITLE)];
+            const title = titles[titles.length - 1];
+            const body = text.slice(header.index + header[0].length, index + 1 < headers.length ? headers[index + 1].index : text.length);
+            const bandA = body.match(BAND_A);
+            if (!title || !bandA) return;
+
+            const bandARow = body.slice(bandA.index + bandA[0].length).split(/\bBand [B-Z]\b/)[0];
+            const requirements = {
+                minimumAPS: parseInt(bandA[1] || bandA[2]),
+                minimumAggregate: null,
+                requiredSubjects: this.parseBandSubjects(bandARow)
+            };
+            if (!this.isPlausible(requirements, apsScheme)) return;
+
+            // "... ONLY Computer Science & Statistics and Data Science Specialisation" tells tables for one degree apart
+            const name = title[0].replace(/^ACHELOR/, 'BACHELOR').replace(/\s+ONLY$/, '');
+            const qualifier = text.slice(start, header.index).slice(title.index + title[0].length).trim();
+            const suffix = qualifier && qualifier.split(' ').length <= 12 && !qualifier.includes(':') ? ` (${qualifier})` : '';
+
+            name
+                .split(/\s+AND\s+(?=BACHELOR OF\b)/)
+                // Abbreviations such as "(BSoc Sc)" keep their own case
+                .map(part => part.split(/(\([^)]*\))/).map((piece, i) => (i % 2 ? piece : this.toTitleCase(piece))).join(''))
+                .forEach(qualification => entries.push({
+                    qualification: `${qualification}${suffix}`,
+                    durationYears: null,
+                    ...requirements,
+                    extraction: 'table'
+                }));
+        });
+
+        return entries;
+    }
+
+    /**
+     * Subject minimums in a band row: "≥ 75% for Mathematics" or "Mathematics 60%",
+     * with "English HL 50% English FAL 60%" as one requirement met by either
+     */
+    parseBandSubjects(text) {
+        const names = SUBJECTS.join('|');
+        const pattern = new RegExp(String.raw`≥\s*(\d+)%\s*for\s+(${names})|\b(${names})(?:\s+(HL|FAL))?\s+(\d+)%`, 'g');
+        const requirements = [];
+
+        for (const match of text.matchAll(pattern)) {
+            const percentage = parseInt(match[1] || match[5]);
+            const base = match[2] || match[3];
+            const subject = match[4] ? `${base} ${BAND_LANGUAGE_LEVELS[match[4]]}` : base;
+            const option = { subject, minimumLevel: this.apsCalculator.getAchievementLevel(percentage), minimumPercentage: percentage };
+
+            const sameSubject = match[4] && requirements.find(requirement => requirement.subject.startsWith(`${base} `));
+            if (sameSubject) {
+                sameSubject.alternatives.push(option);
+            } else {
+                requirements.push({ ...option, alternatives: [] });
+            }
+        }
+
+        return requirements;
+    }
+
+    /**
+     * Walk back from the duration line to the line that starts the qualification name
+     */
+    readQualificationName(lines, durationIndex) {
+        const parts = [];
+        const sameLine = lines[durationIndex].replace(DURATION, '').trim();
+
+        if (sameLine) {
+            parts.unshift(sameLine);
+            if (QUALIFICATION_PREFIX.test(sameLine)) return this.cleanName(parts);
+        }
+
+        for (let j = durationIndex - 1; j >= Math.max(0, durationIndex - MAX_NAME_LINES); j--) {
+            // Skip qualifiers such as "[Grades 4 to 6]"
+            if (/^\[.*\]$/.test(lines[j])) continue;
+
+            parts.unshift(lines[j]);
+            if (QUALIFICATION_PREFIX.test(lines[j])) return this.cleanName(parts);
+        }
+
+        return null;
+    }
+
+    cleanName(parts) {
+        return parts.join(' ').replace(/[#*:]+/g, '').replace(/\s+/g, ' ').trim();
+    }
+
+    /**
+     * Table layout: one achievement level per subject column followed by the APS,
+     * e.g. "56635" for English 5, Mathematics 6, Physical Sciences 6 and an APS of 35
+     */
+    parseTableRequirements(block, columns) {
+        const requirements = { minimumAPS: null, minimumAggregate: null, requiredSubjects: [] };
+        let text = block.join(' ').trim();
+
+        // The cell row is normally a line of its own straight after the duration
+        const digits = (block[0] || '').replace(/\s/g, '');
+        if (/^\d+$/.test(digits) && digits.length === columns.length + 2) {
+            columns.forEach((subject, index) => {
+                requirements.requiredSubjects.push({ subject, minimumLevel: parseInt(digits[index]), alternatives: [] });
+            });
+            requirements.minimumAPS = parseInt(digits.slice(-2));
+            return requirements;
+        }
+
+        const aps = text.match(/(\d{2})$/);
+        if (!aps) return requirements;
+        requirements.minimumAPS = parseInt(aps[1]);
+        text = text.slice(0, aps.index).trim();
+
+        // Mixed cells, e.g. "5 Mathematics 3 or Mathematical Literacy 4"
+        for (const column of columns) {
+            const level = text.match(/^(\d)\b/);
+            if (level) {
+                requirements.requiredSubjects.push({ subject: column, minimumLevel: parseInt(level[1]), alternatives: [] });
+                text = text.slice(level[0].length).trim();
+                continue;
+            }
+
+            const cell = text.match(/^[A-Za-z][A-Za-z ]*?\s\d(?:\s+or\s+[A-Za-z][A-Za-z ]*?\s\d)*/);
+            if (!cell) break;
+
+            const requirement = this.parseCell(cell[0], column);
+            if (requirement) requirements.requiredSubjects.push(requirement);
+            text = text.slice(cell[0].length).trim();
+        }
+
+        return requirements;
+    }
+
+    /**
+     * One subject cell of a requirements table, e.g. "5", "65%", "Life Sciences 4"
+     * or "Mathematics 3 or Mathematical Literacy 4". An option naming no subject
+     * ("or Accounting 4") is the column's own subject; null for "-" and empty cells.
+     */
+    parseCell(text, column) {
+        const parts = text
+            .replace(/\([^)]*\)/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim()
+            .split(/(?:^|\s)or\s/i);
+
+        // "English HL or English FAL 5" - an option without a level shares the next one's
+        const options = [];
+        let minimumLevel = null;
+        let minimumPercentage = null;
+        for (let i = parts.length - 1; i >= 0; i--) {
+            const part = parts[i].trim();
+            const percentage = part.match(/(\d+)\s*%$/);
+            const level = part.match(/(?:^|\s)(\d)$/);
+            if (percentage) {
+                minimumPercentage = parseInt(percentage[1]);
+                minimumLevel = this.apsCalculator.getAchievementLevel(minimumPercentage);
+            } else if (level) {
+                minimumPercentage = null;
+                minimumLevel = parseInt(level[1]);
+            }
+
+            // Words that name no subject (e.g. "Grade VII Practical") are not a school subject option
+            const subject = this.findSubject(part) || (/[A-Za-z]/.test(part) ? null : column);
+            if (!subject || minimumLevel === null) continue;
+
+            options.unshift(minimumPercentage === null
+                ? { subject, minimumLevel }
+                : { subject, minimumLevel, minimumPercentage });
+        }
+
+        return options.length > 0 ? { ...options[0], alternatives: options.slice(1) } : null;
+    }
+
+    /**
+     * List layout: "- An NSC aggregate of at least 60%", "- Mathematics 50% OR Mathematical Literacy 60%"
+     */
+    parseListRequirements(block) {
+        const requirements = { minimumAPS: null, minimumAggregate: null, requiredSubjects: [] };
+
+        const bullets = [];
+        block.forEach(line => {
+            if (line.startsWith('-')) {
+                bullets.push(line.replace(/^-\s*/, ''));
+            } else if (bullets.length > 0) {
+                bullets[bullets.length - 1] += ` ${line}`;
+            }
+        });
+
+        bullets.forEach(bullet => {
+            const aggregate = bullet.match(/aggregate of at least (\d+)\s*%/i);
+            if (aggregate) {
+                requirements.minimumAggregate = parseInt(aggregate[1]);
+                return;
+            }
+
+            const aps = bullet.match(/APS of at least (\d+)/i);
+            if (aps) {
+                requirements.minimumAPS = parseInt(aps[1]);
+                return;
+            }
+
+            // "English OR Afrikaans (...) 50%" - a part without a mark shares the next one's
+            const parts = bullet.split(/\bOR\b/);
+            let percentage = null;
+            const options = [];
+            for (let i = parts.length - 1; i >= 0; i--) {
+                const mark = parts[i].match(/(\d+)\s*%/);
+                if (mark) percentage = parseInt(mark[1]);
+
+                const subject = this.findSubject(parts[i]);
+                if (subject && percentage !== null) {
+                    options.unshift({
+                        subject,
+                        minimumLevel: this.apsCalculator.getAchievementLevel(percentage),
+                        minimumPercentage: percentage
+                    });
+                }
+            }
+
+            if (options.length > 0) {
+                requirements.requiredSubjects.push({ ...options[0], alternatives: options.slice(1) });
+            }
+        });
+
+        return requirements;
+    }
+
+    isPlausible(requirements, apsScheme = 'standard') {
+        const { minimumAPS, minimumAggregate, requiredSubjects } = requirements;
+        const range = APS_RANGES[apsScheme];
+        if (minimumAPS === null && minimumAggregate === null && requiredSubjects.length === 0) return false;
+        if (minimumAPS !== null && (minimumAPS < range.min || minimumAPS > range.max)) return false;
+
+        return requiredSubjects
+            .flatMap(requirement => [requirement, ...requirement.alternatives])
+            .every(option => option.minimumLevel >= LEVEL_RANGE.min && option.minimumLevel <= LEVEL_RANGE.max);
+    }
+
+    /**
+     * Subject columns of a requirements table, in the order they appear
+     */
+    findColumns(headerText) {
+        const found = SUBJECTS
+            .map(subject => ({ subject, index: headerText.search(new RegExp(`\\b${subject}\\b`)) }))
+            .filter(match => match.index >= 0);
+
+        // "English Home Language or English First Additional Language" is a single column
+        const hasLanguage = found.some(match => match.subject === 'English' || match.subject === 'Afrikaans');
+
+        return found
+            .filter(match => !(hasLanguage && LANGUAGE_LEVELS.includes(match.subject)))
+            .sort((a, b) => a.index - b.index)
+            .map(match => match.subject);
+    }
+
+    /**
+     * Every school subject named in a piece of text, e.g. to check a stated
+     * requirement against a prospectus
+     */
+    static findSubjects(text) {
+        const found = SUBJECTS.filter(name => new RegExp(`\\b${name}\\b`).test(text));
+
+        // "Mathematics" inside "Technical Mathematics" is not a subject of its own
+        return found.filter(name => !found.some(other => other !== name && other.includes(name)));
+    }
+
+    findSubject(text) {
+        const subject = SUBJECTS.find(name => new RegExp(`\\b${name}\\b`).test(text));
+        if (!subject) return null;
+
+        // Keep "English Home Language" apart from "English First Additional Language"
+        if (subject === 'English' || subject === 'Afrikaans') {
+            const levels = LANGUAGE_LEVELS.filter(level => text.includes(level));
+            if (levels.length === 1) return `${subject} ${levels[0]}`;
+        }
+
+        return subject;
+    }
+
+    /**
+     * Faculty headings come as "FACULTY OF / ENGINEERING" (list layouts) or as the
+     * "Faculty of ... website" line above a requirements table
+     */
+    detectFaculty(lines) {
+        for (let i = 0; i < lines.length; i++) {
+            const heading = lines[i].match(/^FACULTY OF\s*([A-Z ,&-]*)$/);
+            if (heading) {
+                const parts = [heading[1]];
+                for (let j = i + 1; j < lines.length && j <= i + 3 && /^[A-Z ,&-]+$/.test(lines[j]); j++) {
+                    parts.push(lines[j]);
+                }
+                const name = parts.join(' ').replace(/\s+/g, ' ').trim();
+                if (name) return this.toTitleCase(name);
+            }
+
+            const website = lines[i].match(/^Faculty of (.+?) website:?(\s+\S+)?$/i);
+            if (website && this.isTitle(website[1])) return website[1].trim();
+        }
+
+        return null;
+    }
+
+    isTitle(text) {
+        return text.split(' ').every(word => /^[A-Z]/.test(word) || TITLE_CONNECTORS.includes(word));
+    }
+
+    toTitleCase(text) {
+        return text
+            .toLowerCase()
+            .split(' ')
+            .map(word => TITLE_CONNECTORS.includes(word) ? word : word.charAt(0).toUpperCase() + word.slice(1))
+            .join(' ');
+    }
+}
+
+module.exports = ProgrammeExtractor;
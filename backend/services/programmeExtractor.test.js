@@ -0,0 +1,176 @@
+const ProgrammeExtractor = require('./programmeExtractor');
+
+const item = ([text, x, y, width]) => ({ text, x, y, width });
+
+// The Theology table on page 13 of the 2026 UP prospectus, right column
+const theology = [
+    ['Minimum ', 512.1, 313.8, 32.7],
+    ['requirements\tfor', 500.3, 306.3, 54.6],
+    ['NSC/IEB\tfor\t2026', 501.3, 298.8, 52.5],
+    ['Achievement', 495.2, 288.1, 42.1],
+    ['level', 508.7, 280.6, 15],
+    ['Programmes', 309.4, 276.9, 40.8],
+    ['English\tHome', 494.7, 270, 43.2],
+    ['APS', 550, 264, 12],
+    ['Language or ', 496.6, 262.5, 40.9],
+    ['English\tFirst', 497, 255, 38.4],
+    ['Additional ', 499.7, 247.5, 34.8],
+    ['Language', 500.9, 240, 30.7],
+    ['Bachelor\tof\tTheology', 309.4, 229.3, 66.6],
+    ['4', 514.4, 225.6, 3.7],
+    ['28', 552.3, 225.6, 7.3],
+    ['[3 years]', 309.4, 221.8, 25.4],
+    ['Suggested\tsecond-choice\tprogramme:', 309.4, 211.2, 120],
+    [' Diploma in Theology', 429.4, 211.2, 62.6],
+    ['Careers: ', 309.4, 200.5, 27.9],
+    ['Ministers, pastors, priests, preachers in certain denominations, missionaries ', 337.2, 200.5, 226.8],
+    ['and youth counsellors. Other possibilities include ethics consultants to businesses. ', 309.4, 193, 246],
+    ['Theological studies can be enriching for people in various other vocations. Prospective ', 309.4, 185.5, 256.8],
+    ['students who are interested in ordained ministry should discuss their intention to ', 309.4, 178, 243.4],
+    ['register for this programme with their church leadership. ', 309.4, 170.5, 170.6],
+    ['Bachelor\tof\tDivinity', 309.4, 159.9, 62.6],
+    ['4', 514.4, 156.2, 3.7],
+    ['28', 552.3, 156.2, 7.3],
+    ['[4 years]', 309.4, 152.4, 25.4],
+    ['Suggested\tsecond-choice\tprogramme:', 309.4, 141.8, 120],
+    [' Bachelor of Theology', 429.4, 141.8, 64.2],
+    ['Careers: ', 309.4, 131.1, 27.9],
+    ['Ministers, pastors, priests, preachers in certain denominations, missionaries ', 337.2, 131.1, 226.8],
+    ['and youth counsellors. Other possibilities include ethics consultants to businesses. ', 309.4, 123.6, 246],
+    ['Theological studies can be enriching for people in various other vocations. Prospective ', 309.4, 116.1, 256.8],
+    ['students who are interested in ordained ministry should discuss their intention to ', 309.4, 108.6, 243.4],
+    ['register for this programme with their church leadership. ', 309.4, 101.1, 170.6],
+    ['Diploma\tin\tTheology', 309.4, 90.5, 64.9],
+    ['3', 514.4, 86.7, 3.7],
+    ['24', 552.3, 86.7, 7.3],
+    ['[3 years]', 309.4, 83, 25.4]
+].map(item);
+
+// The pdf-parse text of the same items: a line per baseline
+const pageText = items => [...items]
+    .sort((a, b) => b.y - a.y || a.x - b.x)
+    .reduce((lines, entry) => {
+        const line = lines[lines.length - 1];
+        if (line && line.y === entry.y) {
+            line.text += entry.text;
+        } else {
+            lines.push({ y: entry.y, text: entry.text });
+        }
+        return lines;
+    }, [])
+    .map(line => line.text)
+    .join('\n');
+
+// Page 13 of the 2026 Stellenbosch prospectus
+const stellenboschChemistry = [
+    'PROGRAMMES IN THE PHYSICAL SCIENCES',
+    'BSc Chemistry (3 years)',
+    '-  An aggregate of at least 65% for the NSC (excluding Life   ',
+    '      Orientation)      ',
+    '-  Afrikaans OR English (Home Language or First Additional   ',
+    '      Language)      50% ',
+    '-  Physical Sciences 50% ',
+    '-  Mathematics 70% ',
+    '  Focal areas (you choose one) ',
+    ' -   Chemistry and Polymer Science '
+].join('\n');
+
+// Admission band tables from the 2026 UCT prospectus
+const uctCommerce = 'BACHELOR OF BUSINESS SCIENCE AND BACHELOR OF COMMERCE All specialisations except for Actuarial Science and Computer Science '
+    + 'ELIGIBLE BANDADMISSION REQUIREMENTS All applicants Band A FPS Guaranteed admission FPS of 435 or above. '
+    + 'NBT scores of Upper Intermediate or above for AL & QL Mathematics 60% English HL 50% English FAL 60% '
+    + 'All applicants Band B WPS Probable admission WPS of 470 or above. NBT scores of Upper Intermediate or above for AL & QL Mathematics 60% English HL 50% English FAL 60%';
+const uctGeomatics = 'BACHELOR OF SCIENCE IN GEOMATICS ELIGIBLE BANDADMISSION REQUIREMENTS All applicants Band A FPS Guaranteed admission '
+    + '450 FPS or above ≥ 75% for Mathematics & ≥ 70% for Physical Sciences NBTs in Mathematics, AL & QL to be written* '
+    + 'All applicants Band B WPS Probable admission 420 WPS or above ≥ 65% for Mathematics & ≥ 60% for Physical Sciences';
+const uctHealthSciences = 'BACHELOR OF MEDICINE AND BACHELOR OF SURGERY (MBChB) Sub-minimum APS of 450. ELIGIBLEBANDSADMISSION REQUIREMENTS '
+    + 'All applicants Band A FPS Guaranteed admission 810 FPS or above Meet minimum subject requirements NBT scores of Proficient for AL, QL and Mathematics';
+
+const up = { university: 'University of Pretoria', file: 'up.pdf', academicYear: 2026 };
+const uct = { university: 'University of Cape Town', file: 'uct.pdf', academicYear: 2026 };
+
+let extractor;
+
+beforeEach(() => {
+    extractor = new ProgrammeExtractor();
+});
+
+test('requirement table rows become programmes with a subject per column and the APS', () => {
+    const programmes = extractor.extract([pageText(theology)], up, [theology]);
+
+    expect(programmes.map(programme => [programme.id, programme.durationYears, programme.minimumAPS])).toEqual([
+        ['university-of-pretoria-bachelor-of-theology', 3, 28],
+        ['university-of-pretoria-bachelor-of-divinity', 4, 28],
+        ['university-of-pretoria-diploma-in-theology', 3, 24]
+    ]);
+    expect(programmes[2]).toMatchObject({
+        apsScheme: 'standard',
+        requiredSubjects: [{ subject: 'English', minimumLevel: 3, alternatives: [] }],
+        source: { fileName: 'up.pdf', page: 1, extraction: 'table' }
+    });
+});
+
+test('table cells give a level, a percentage, or the column subject with its alternatives', () => {
+    expect(extractor.parseCell('5', 'Mathematics')).toEqual({ subject: 'Mathematics', minimumLevel: 5, alternatives: [] });
+    expect(extractor.parseCell('65%', 'Mathematics')).toEqual({ subject: 'Mathematics', minimumLevel: 5, minimumPercentage: 65, alternatives: [] });
+    expect(extractor.parseCell('or Accounting 4', 'Physical Sciences')).toEqual({
+        subject: 'Physical Sciences',
+        minimumLevel: 4,
+        alternatives: [{ subject: 'Accounting', minimumLevel: 4 }]
+    });
+    expect(extractor.parseCell('-', 'Mathematics')).toBeNull();
+});
+
+test('Stellenbosch lists its minimum as an NSC aggregate, with subject percentages', () => {
+    const [chemistry] = extractor.extract([stellenboschChemistry], { university: 'Stellenbosch University', file: 'su.pdf' });
+
+    expect(chemistry).toMatchObject({
+        qualification: 'BSc Chemistry',
+        durationYears: 3,
+        minimumAPS: null,
+        minimumAggregate: 65,
+        source: { extraction: 'text' }
+    });
+    expect(chemistry.requiredSubjects).toEqual([
+        { subject: 'Afrikaans', minimumLevel: 4, minimumPercentage: 50, alternatives: [{ subject: 'English', minimumLevel: 4, minimumPercentage: 50 }] },
+        { subject: 'Physical Sciences', minimumLevel: 4, minimumPercentage: 50, alternatives: [] },
+        { subject: 'Mathematics', minimumLevel: 6, minimumPercentage: 70, alternatives: [] }
+    ]);
+});
+
+test('a UCT band table gives each degree it names the Band A FPS and subject minimums', () => {
+    const programmes = extractor.extract([uctCommerce], uct);
+
+    expect(programmes.map(programme => programme.qualification)).toEqual([
+        'Bachelor of Business Science (All specialisations except for Actuarial Science and Computer Science)',
+        'Bachelor of Commerce (All specialisations except for Actuarial Science and Computer Science)'
+    ]);
+    expect(programmes[1]).toMatchObject({ minimumAPS: 435, apsScheme: 'uct_fps', source: { extraction: 'table' } });
+    expect(programmes[1].requiredSubjects).toEqual([
+        { subject: 'Mathematics', minimumLevel: 5, minimumPercentage: 60, alternatives: [] },
+        {
+            subject: 'English Home Language',
+            minimumLevel: 4,
+            minimumPercentage: 50,
+            alternatives: [{ subject: 'English First Additional Language', minimumLevel: 5, minimumPercentage: 60 }]
+        }
+    ]);
+});
+
+test('"≥ 75% for Mathematics" band cells are read, and later bands do not lower the minimum', () => {
+    const [geomatics] = extractor.extractFromBandTables(uctGeomatics, 'uct_fps');
+
+    expect(geomatics).toMatchObject({
+        qualification: 'Bachelor of Science in Geomatics',
+        minimumAPS: 450,
+        requiredSubjects: [
+            { subject: 'Mathematics', minimumPercentage: 75 },
+            { subject: 'Physical Sciences', minimumPercentage: 70 }
+        ]
+    });
+});
+
+test('a Health Sciences FPS, which adds NBT results, is off the uct_fps scale and left out', () => {
+    expect(extractor.extractFromBandTables(uctHealthSciences, 'uct_fps')).toEqual([]);
+    expect(extractor.extractFromBandTables(`${uctGeomatics} ${uctHealthSciences}`, 'uct_fps').map(entry => entry.minimumAPS)).toEqual([450]);
+});
@@ -0,0 +1,143 @@
+/**
+ * Programme Service
+ * Serves the qualification-level admission requirements extracted from the prospectuses.
+ * Each programme is tagged with the intake year of its prospectus; a university's
+ * latest year is current, and earlier years are kept for comparison.
+ */
+//programmeService.js
+const fs = require('fs').promises;
+const path = require('path');
+
+class ProgrammeService {
+    constructor() {
+        this.processedDir = path.join(__dirname, '../processed');
+        this.programmes = []; // current year of each university
+        this.allProgrammes = []; // every year
+        this.lastLoaded = null;
+    }
+
+    /**
+     * Newest first; programmes extracted before years were recorded have none and come last
+     */
+    static sortYears(years) {
+        return [...new Set(years)].sort((a, b) => (b ?? -Infinity) - (a ?? -Infinity));
+    }
+
+    async loadProgrammes() {
+        try {
+            const programmesPath = path.join(this.processedDir, 'programmes.json');
+            const data = await fs.readFile(programmesPath, 'utf8');
+            this.allProgrammes = JSON.parse(data).map(programme => ({ ...programme, academicYear: programme.academicYear ?? null }));
+            this.programmes = this.selectCurrent(this.allProgrammes);
+            this.lastLoaded = new Date().toISOString();
+            console.log(`🎓 Loaded ${this.programmes.length} current programmes (${this.allProgrammes.length} across all years)`);
+        } catch (error) {
+            console.error('❌ Failed to load programme data:', error.message);
+            this.programmes = [];
+            this.allProgrammes = [];
+        }
+
+        return this.programmes;
+    }
+
+    async ensureLoaded() {
+        if (this.programmes.length === 0) {
+            await this.loadProgrammes();
+        }
+    }
+
+    // Each university's programmes from its latest year
+    selectCurrent(programmes) {
+        const years = new Map(); // universityId -> years it has programmes for
+        programmes.forEach(programme => {
+            if (!years.has(programme.universityId)) years.set(programme.universityId, []);
+            years.get(programme.universityId).push(programme.academicYear);
+        });
+
+        const latest = new Map(Array.from(years, ([universityId, list]) => [universityId, ProgrammeService.sortYears(list)[0]]));
+        return programmes.filter(programme => programme.academicYear === latest.get(programme.universityId));
+    }
+
+    /**
+     * Programmes for one university, by its registry slug
+     * @param {number} [academicYear] - an earlier intake year; the current one when left out
+     */
+    async getByUniversity(universityId, academicYear) {
+        await this.ensureLoaded();
+        const programmes = academicYear === undefined ? this.programmes : this.allProgrammes;
+        return programmes.filter(programme => programme.universityId === universityId
+            && (academicYear === undefined || programme.academicYear === academicYear));
+    }
+
+    /**
+     * Intake years with programmes for a university, newest first
+     */
+    async getYears(universityId) {
+        await this.ensureLoaded();
+        return ProgrammeService.sortYears(this.allProgrammes
+            .filter(programme => programme.universityId === universityId)
+            .map(programme => programme.academicYear));
+    }
+
+    /**
+     * A university has no single APS - its entry point is the lowest degree minimum.
+     * Higher certificates and diplomas are left out, null when no degree lists an APS
+     */
+    static getEntryAPS(programmes) {
+        const scores = programmes
+            .filter(programme => !/^(Higher Certificate|Advanced Diploma|Diploma)/.test(programme.qualification))
+            .map(programme => programme.minimumAPS)
+            .filter(score => typeof score === 'number');
+
+        return scores.length > 0 ? Math.min(...scores) : null;
+    }
+
+    /**
+     * Subjects a university's programmes ask for, most often required first
+     */
+    static getRequiredSubjects(programmes) {
+        const counts = new Map();
+        programmes
+            .flatMap(programme => programme.requiredSubjects || [])
+            .forEach(({ subject }) => counts.set(subject, (counts.get(subject) || 0) + 1));
+
+        return [...counts.entries()]
+            .sort((a, b) => b[1] - a[1])
+            .map(([subject]) => subject);
+    }
+
+    async getById(id) {
+        await this.ensureLoaded();
+        return this.programmes.find(programme => programme.id === id) || null;
+    }
+
+    /**
+     * Free-text search over qualification, faculty and university names
+     * @param {string} query - every word must match, e.g. "computer science"
+     * @param {Object} filters - faculty, universityId, maxAPS (programmes the student's APS can reach)
+     */
+    async search(query = '', filters = {}) {
+        await this.ensureLoaded();
+
+        const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+        return this.programmes.filter(programme => {
+            const haystack = `${programme.qualification} ${programme.faculty || ''} ${programme.universityName}`.toLowerCase();
+            if (!terms.every(term => haystack.includes(term))) return false;
+
+            if (filters.universityId && programme.universityId !== filters.universityId) {
+                return false;
+            }
+            if (filters.faculty && !(programme.faculty || '').toLowerCase().includes(filters.faculty.toLowerCase())) {
+                return false;
+            }
+            if (filters.maxAPS && programme.minimumAPS !== null && programme.minimumAPS > filters.maxAPS) {
+                return false;
+            }
+
+            return true;
+        });
+    }
+}
+
+module.exports = ProgrammeService;
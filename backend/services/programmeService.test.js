@@ -0,0 +1,94 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+
+const programme = (universityId, qualification, minimumAPS, academicYear, extra = {}) => ({
+    id: `${universityId}-${academicYear}-${qualification}`.toLowerCase().replace(/[^a-z0-9]+/g, '-'),
+    universityId,
+    universityName: universityId === 'university-of-pretoria' ? 'University of Pretoria' : 'Stellenbosch University',
+    faculty: 'Engineering',
+    qualification,
+    minimumAPS,
+    academicYear,
+    requiredSubjects: [],
+    ...extra
+});
+
+const programmes = [
+    programme('university-of-pretoria', 'BEng Civil Engineering', 35, 2026, {
+        requiredSubjects: [{ subject: 'Mathematics', minimumLevel: 6 }, { subject: 'Physical Sciences', minimumLevel: 6 }]
+    }),
+    programme('university-of-pretoria', 'BEng Mining Engineering', 30, 2026, {
+        requiredSubjects: [{ subject: 'Mathematics', minimumLevel: 6 }]
+    }),
+    programme('university-of-pretoria', 'Higher Certificate in Sports Sciences', 20, 2026, { faculty: 'Humanities' }),
+    programme('university-of-pretoria', 'BEng Civil Engineering', 33, 2025),
+    programme('stellenbosch-university', 'BEng Civil Engineering', null, undefined)
+];
+
+let dir;
+let service;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'programmes-'));
+    await fs.writeFile(path.join(dir, 'programmes.json'), JSON.stringify(programmes));
+
+    service = new ProgrammeService();
+    service.processedDir = dir;
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('each university\'s latest intake year is current, and earlier years are kept', async () => {
+    await service.ensureLoaded();
+
+    expect(service.programmes.map(p => p.qualification)).toEqual([
+        'BEng Civil Engineering', 'BEng Mining Engineering', 'Higher Certificate in Sports Sciences', 'BEng Civil Engineering'
+    ]);
+    expect(service.allProgrammes).toHaveLength(5);
+    expect((await service.getByUniversity('university-of-pretoria', 2025)).map(p => p.minimumAPS)).toEqual([33]);
+});
+
+test('intake years are newest first, with programmes extracted before years were recorded last', async () => {
+    expect(await service.getYears('university-of-pretoria')).toEqual([2026, 2025]);
+    expect(await service.getYears('stellenbosch-university')).toEqual([null]);
+    expect(ProgrammeService.sortYears([2025, null, 2026, 2025])).toEqual([2026, 2025, null]);
+});
+
+test('the entry APS is the lowest degree minimum, leaving out certificates and unpublished minimums', async () => {
+    expect(ProgrammeService.getEntryAPS(await service.getByUniversity('university-of-pretoria'))).toBe(30);
+    expect(ProgrammeService.getEntryAPS(await service.getByUniversity('stellenbosch-university'))).toBeNull();
+});
+
+test('required subjects are listed most often asked for first', async () => {
+    expect(ProgrammeService.getRequiredSubjects(await service.getByUniversity('university-of-pretoria')))
+        .toEqual(['Mathematics', 'Physical Sciences']);
+});
+
+test('search matches every word and keeps programmes without a published APS under maxAPS', async () => {
+    const names = results => results.map(p => `${p.universityName}: ${p.qualification}`);
+
+    expect(names(await service.search('civil engineering'))).toEqual([
+        'University of Pretoria: BEng Civil Engineering',
+        'Stellenbosch University: BEng Civil Engineering'
+    ]);
+    expect(names(await service.search('engineering', { maxAPS: 32 }))).toEqual([
+        'University of Pretoria: BEng Mining Engineering',
+        'Stellenbosch University: BEng Civil Engineering'
+    ]);
+    expect(names(await service.search('', { universityId: 'university-of-pretoria', faculty: 'humanities' })))
+        .toEqual(['University of Pretoria: Higher Certificate in Sports Sciences']);
+});
+
+test('a missing programmes file leaves no programmes rather than failing', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    service.processedDir = path.join(dir, 'missing');
+
+    expect(await service.loadProgrammes()).toEqual([]);
+    expect(await service.getById('anything')).toBeNull();
+});
@@ -0,0 +1,216 @@
+/**
+ * Prospectus Registry
+ * The universities the processor reads and their source documents, kept in
+ * data/prospectuses.json so a university can be onboarded without code changes
+ */
+//prospectusRegistry.js
+const fs = require('fs').promises;
+const path = require('path');
+const UniversityRegistry = require('./universityRegistry');
+
+const DOCUMENT_TYPES = ['prospectus', 'international_curriculum', 'fees_booklet'];
+
+const UNIVERSITY_TYPES = ['Traditional', 'Comprehensive', 'University of Technology'];
+
+// Metadata an admin can set on a university, alongside its documents
+// publicUniversity: a public university, which NSFAS funds students at
+const UNIVERSITY_FIELDS = ['universityName', 'province', 'city', 'universityType', 'publicUniversity', 'establishmentYear', 'description'];
+
+const YEAR_RANGE = { min: 1800, max: 2100 };
+
+class ProspectusRegistry {
+    constructor(storePath = path.join(__dirname, '../data/prospectuses.json')) {
+        this.storePath = storePath;
+        this.universities = new Map(); // slug -> university with its documents
+        this.lastLoaded = null;
+    }
+
+    async loadProspectuses() {
+        try {
+            const data = await fs.readFile(this.storePath, 'utf8');
+            this.universities = new Map(JSON.parse(data).map(university => [university.id, university]));
+            this.lastLoaded = new Date().toISOString();
+        } catch (error) {
+            console.error('❌ Failed to load the prospectus registry:', error.message);
+            this.universities = new Map();
+        }
+
+        return this.list();
+    }
+
+    async ensureLoaded() {
+        if (!this.lastLoaded) {
+            await this.loadProspectuses();
+        }
+    }
+
+    async list() {
+        await this.ensureLoaded();
+        return Array.from(this.universities.values());
+    }
+
+    async getById(id) {
+        await this.ensureLoaded();
+        return this.universities.get(UniversityRegistry.toSlug(id)) || null;
+    }
+
+    /**
+     * @returns {Object|null} the new university, null when it is already registered
+     */
+    async create(input) {
+        await this.ensureLoaded();
+
+        const id = UniversityRegistry.toSlug(input.universityName);
+        if (this.universities.has(id)) return null;
+
+        const now = new Date().toISOString();
+        const university = { id, ...this.pick(input), documents: this.normalizeDocuments(input.documents), createdAt: now, updatedAt: now };
+        this.universities.set(id, university);
+        await this.save();
+
+        return university;
+    }
+
+    /**
+     * Change metadata or replace the document list. The name is the id, so it cannot change.
+     * @returns {Object|null} the updated university, null when there is none with that id
+     */
+    async update(id, input) {
+        const existing = await this.getById(id);
+        if (!existing) return null;
+
+        const university = {
+            ...existing,
+            ...this.pick(input),
+            universityName: existing.universityName,
+            documents: input.documents ? this.normalizeDocuments(input.documents) : existing.documents,
+            updatedAt: new Date().toISOString()
+        };
+        this.universities.set(existing.id, university);
+        await this.save();
+
+        return university;
+    }
+
+    async remove(id) {
+        const existing = await this.getById(id);
+        if (!existing) return false;
+
+        this.universities.delete(existing.id);
+        await this.save();
+        return true;
+    }
+
+    async save() {
+        await fs.mkdir(path.dirname(this.storePath), { recursive: true });
+        await fs.writeFile(this.storePath, JSON.stringify(Array.from(this.universities.values()), null, 2));
+        console.log(`💾 Saved ${this.universities.size} universities to the prospectus registry`);
+    }
+
+    /**
+     * Problems with a university submitted by an admin, empty when it is valid
+     * @param {boolean} partial - an update, where fields left out keep their value
+     */
+    validate(input, partial = false) {
+        const errors = [];
+        if (!input || typeof input !== 'object') return ['A university object is required'];
+
+        if (!partial && !input.universityName) errors.push('universityName is required');
+        if (!partial && !(Array.isArray(input.documents) && input.documents.length > 0)) {
+            errors.push('At least one source document is required');
+        }
+
+        if (input.universityType !== undefined && !UNIVERSITY_TYPES.includes(input.universityType)) {
+            errors.push(`universityType must be one of: ${UNIVERSITY_TYPES.join(', ')}`);
+        }
+        if (input.publicUniversity !== undefined && typeof input.publicUniversity !== 'boolean') {
+            errors.push('publicUniversity must be true or false');
+        }
+        if (input.establishmentYear !== undefined && input.establishmentYear !== null && !this.isYear(input.establishmentYear)) {
+            errors.push('establishmentYear must be a year');
+        }
+
+        if (input.documents !== undefined) {
+            if (!Array.isArray(input.documents)) {
+                errors.push('documents must be a list');
+            } else {
+                input.documents.forEach((document, index) => {
+                    const label = `documents[${index}]`;
+                    if (!document || !document.file) {
+                        errors.push(`${label}.file is required`);
+                        return;
+                    }
+                    if (document.documentType !== undefined && !DOCUMENT_TYPES.includes(document.documentType)) {
+                        errors.push(`${label}.documentType must be one of: ${DOCUMENT_TYPES.join(', ')}`);
+                    }
+                    if (document.localPath && !this.isInsideDataFolder(document.localPath)) {
+                        errors.push(`${label}.localPath must be a path inside the data folder`);
+                    }
+                    if (!this.isYear(document.academicYear)) {
+                        errors.push(`${label}.academicYear must be a year`);
+                    }
+                });
+            }
+        }
+
+        return errors;
+    }
+
+    /**
+     * One entry per source document, in the shape the PDF processor reads:
+     * university metadata plus where to find the file
+     */
+    async getMappings() {
+        await this.loadProspectuses();
+
+        return Array.from(this.universities.values()).flatMap(university => university.documents.map(document => ({
+            file: document.file,
+            localPath: document.localPath || document.file,
+            blobName: document.blobName || document.file,
+            documentType: document.documentType,
+            academicYear: document.academicYear,
+            isInternational: document.documentType === 'international_curriculum',
+            university: university.universityName,
+            province: university.province,
+            city: university.city,
+            type: university.universityType,
+            publicUniversity: university.publicUniversity,
+            establishmentYear: university.establishmentYear,
+            description: university.description
+        })));
+    }
+
+    pick(input) {
+        const fields = {};
+        UNIVERSITY_FIELDS.forEach(field => {
+            if (input[field] !== undefined) fields[field] = input[field];
+        });
+        return fields;
+    }
+
+    // A document is found by file name; localPath (under data/) and blobName only when they differ
+    normalizeDocuments(documents) {
+        return documents.map(document => {
+            const normalized = {
+                file: document.file,
+                documentType: document.documentType || 'prospectus',
+                academicYear: parseInt(document.academicYear)
+            };
+            if (document.localPath && document.localPath !== document.file) normalized.localPath = document.localPath;
+            if (document.blobName && document.blobName !== document.file) normalized.blobName = document.blobName;
+            return normalized;
+        });
+    }
+
+    isInsideDataFolder(localPath) {
+        const normalized = path.normalize(localPath);
+        return !path.isAbsolute(normalized) && !normalized.startsWith('..');
+    }
+
+    isYear(value) {
+        const year = parseInt(value);
+        return String(year) === String(value).trim() && year >= YEAR_RANGE.min && year <= YEAR_RANGE.max;
+    }
+}
+
+module.exports = ProspectusRegistry;
@@ -0,0 +1,107 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProspectusRegistry = require('./prospectusRegistry');
+
+const ufs = {
+    id: 'university-of-the-free-state',
+    universityName: 'University of the Free State',
+    province: 'Free State',
+    city: 'Bloemfontein',
+    universityType: 'Traditional',
+    publicUniversity: true,
+    documents: [{ file: '2026-ufs-prospectus.pdf', documentType: 'prospectus', academicYear: 2026 }]
+};
+
+const nmu = {
+    universityName: 'Nelson Mandela University',
+    province: 'Eastern Cape',
+    city: 'Gqeberha',
+    universityType: 'Comprehensive',
+    publicUniversity: true,
+    establishmentYear: 2005,
+    documents: [
+        { file: 'nmu-2026.pdf', academicYear: '2026' },
+        { file: 'nmu-fees-2026.pdf', localPath: 'fees/nmu-fees-2026.pdf', blobName: 'nmu-fees-2026.pdf', documentType: 'fees_booklet', academicYear: 2026 }
+    ]
+};
+
+let dir;
+let registry;
+
+const stored = async () => JSON.parse(await fs.readFile(registry.storePath, 'utf8'));
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'prospectuses-'));
+    registry = new ProspectusRegistry(path.join(dir, 'prospectuses.json'));
+    await fs.writeFile(registry.storePath, JSON.stringify([ufs]));
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('an added university is saved under its slug with normalised documents, once', async () => {
+    const university = await registry.create({ ...nmu, ranking: 1 });
+
+    expect(university).toMatchObject({ id: 'nelson-mandela-university', city: 'Gqeberha', establishmentYear: 2005 });
+    expect(university).not.toHaveProperty('ranking');
+    expect(university.documents).toEqual([
+        { file: 'nmu-2026.pdf', documentType: 'prospectus', academicYear: 2026 },
+        { file: 'nmu-fees-2026.pdf', documentType: 'fees_booklet', academicYear: 2026, localPath: 'fees/nmu-fees-2026.pdf' }
+    ]);
+    expect((await stored()).map(entry => entry.id)).toEqual(['university-of-the-free-state', 'nelson-mandela-university']);
+
+    expect(await registry.create({ ...nmu, universityName: 'Nelson  Mandela University!' })).toBeNull();
+});
+
+test('an update changes metadata and documents but keeps the name', async () => {
+    const university = await registry.update('University of the Free State', {
+        universityName: 'UFS',
+        city: 'Bloemfontein and Qwaqwa',
+        documents: [{ file: '2027-ufs-prospectus.pdf', academicYear: 2027 }]
+    });
+
+    expect(university).toMatchObject({ id: 'university-of-the-free-state', universityName: 'University of the Free State', city: 'Bloemfontein and Qwaqwa', province: 'Free State' });
+    expect(university.documents).toEqual([{ file: '2027-ufs-prospectus.pdf', documentType: 'prospectus', academicYear: 2027 }]);
+    expect((await stored())[0].city).toBe('Bloemfontein and Qwaqwa');
+
+    // Documents left out are kept
+    expect((await registry.update('university-of-the-free-state', { province: 'Free State' })).documents).toHaveLength(1);
+    expect(await registry.update('university-of-atlantis', { city: 'Atlantis' })).toBeNull();
+});
+
+test('a removed university is no longer mapped for processing', async () => {
+    await registry.create(nmu);
+
+    expect(await registry.remove('university-of-the-free-state')).toBe(true);
+    expect(await registry.remove('university-of-the-free-state')).toBe(false);
+    expect((await stored()).map(entry => entry.id)).toEqual(['nelson-mandela-university']);
+
+    const mappings = await registry.getMappings();
+    expect(mappings.map(mapping => mapping.file)).toEqual(['nmu-2026.pdf', 'nmu-fees-2026.pdf']);
+    expect(mappings[1]).toMatchObject({ localPath: 'fees/nmu-fees-2026.pdf', blobName: 'nmu-fees-2026.pdf', university: 'Nelson Mandela University', type: 'Comprehensive' });
+});
+
+test('submitted universities are checked before they are stored', () => {
+    expect(registry.validate(nmu)).toEqual([]);
+    expect(registry.validate({ city: 'Durban' }, true)).toEqual([]);
+    expect(registry.validate(null)).toEqual(['A university object is required']);
+    expect(registry.validate({
+        universityType: 'College',
+        publicUniversity: 'yes',
+        establishmentYear: 'long ago',
+        documents: [{}, { file: 'x.pdf', documentType: 'brochure', localPath: '../../etc/passwd', academicYear: 26 }]
+    })).toEqual([
+        'universityName is required',
+        'universityType must be one of: Traditional, Comprehensive, University of Technology',
+        'publicUniversity must be true or false',
+        'establishmentYear must be a year',
+        'documents[0].file is required',
+        'documents[1].documentType must be one of: prospectus, international_curriculum, fees_booklet',
+        'documents[1].localPath must be a path inside the data folder',
+        'documents[1].academicYear must be a year'
+    ]);
+});
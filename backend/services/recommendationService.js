@@ -0,0 +1,596 @@
+/**
+ * University Recommendation Service
+ * Scores the structured prospectus data against a South African student profile
+ */
+//recommendationService.js
+const APSCalculator = require('./apsCalculator');
+const EligibilityService = require('./eligibilityService');
+const FundingService = require('./fundingService');
+const PathwayService = require('./pathwayService');
+const ProgrammeService = require('./programmeService');
+const UniversityRegistry = require('./universityRegistry');
+
+// Plausible ranges for values pulled out of the prospectuses. Anything outside
+// these is an extraction artefact (e.g. a page number picked up as an APS).
+// Minimums are on the programme's own APS scheme
+const APS_RANGES = { standard: { min: 15, max: 50 }, wits: { min: 15, max: 56 }, uct_fps: { min: 250, max: 600 } };
+const TUITION_RANGE = { min: 10000, max: 250000 };
+
+// Programmes that are only open to learners who took pure Mathematics
+const MATHEMATICS_PROGRAMMES = [
+    'engineering', 'medicine', 'health sciences', 'computer science', 'science',
+    'actuarial science', 'accounting', 'architecture', 'pharmacy', 'veterinary science',
+    'information technology', 'statistics', 'physics', 'chemistry'
+];
+
+// What a match score is made of, with how much each factor counts (0-10)
+// unless the student sets their own weights
+const SCORE_FACTORS = {
+    academic: { label: 'Academic fit', weight: 8 },
+    programme: { label: 'Programme availability', weight: 5 },
+    cost: { label: 'Cost versus budget', weight: 4 },
+    distance: { label: 'Distance from home', weight: 2 },
+    nsfas: { label: 'NSFAS funding', weight: 2 },
+    language: { label: 'Language of instruction', weight: 2 }
+};
+const MAX_WEIGHT = 10;
+const DEFAULT_WEIGHTS = Object.fromEntries(Object.entries(SCORE_FACTORS).map(([factor, { weight }]) => [factor, weight]));
+
+// Academic fit is 70 at exactly the minimum APS, 100 four points above it
+const ACADEMIC_SCORE_AT_MINIMUM = 70;
+const ACADEMIC_SCORE_PER_APS_POINT = 7.5;
+// Points on each scheme worth one standard APS point: a level in one subject is
+// a point on the standard and Wits scales, and ten percent of UCT's FPS
+const APS_POINTS_PER_LEVEL = { standard: 1, wits: 1, uct_fps: 10 };
+const SUBJECT_FAILURE_PENALTY = 20;
+const NEUTRAL_SCORE = 50;
+const FINANCIAL_FIT_SCORES = { Good: 100, Moderate: 60, Stretch: 20 };
+
+const NEIGHBOURING_PROVINCES = {
+    'Eastern Cape': ['Western Cape', 'Northern Cape', 'Free State', 'KwaZulu-Natal'],
+    'Free State': ['Northern Cape', 'Eastern Cape', 'KwaZulu-Natal', 'Mpumalanga', 'Gauteng', 'North West'],
+    'Gauteng': ['Free State', 'North West', 'Limpopo', 'Mpumalanga'],
+    'KwaZulu-Natal': ['Eastern Cape', 'Free State', 'Mpumalanga'],
+    'Limpopo': ['North West', 'Gauteng', 'Mpumalanga'],
+    'Mpumalanga': ['Gauteng', 'Free State', 'KwaZulu-Natal', 'Limpopo'],
+    'North West': ['Northern Cape', 'Free State', 'Gauteng', 'Limpopo'],
+    'Northern Cape': ['Western Cape', 'Eastern Cape', 'Free State', 'North West'],
+    'Western Cape': ['Northern Cape', 'Eastern Cape']
+};
+
+class RecommendationService {
+    constructor(programmeService = new ProgrammeService(), universityRegistry = new UniversityRegistry(programmeService)) {
+        this.apsCalculator = new APSCalculator();
+        this.programmeService = programmeService;
+        this.universityRegistry = universityRegistry;
+        this.eligibilityService = new EligibilityService(programmeService, this.apsCalculator);
+        this.pathwayService = new PathwayService(programmeService, this.eligibilityService);
+        this.fundingService = new FundingService();
+    }
+
+    /**
+     * @param {Object} weights - factor -> 0-10, e.g. { cost: 10 } when cost matters most
+     * @returns {string[]} one message per problem, empty when the weights can be used
+     */
+    static validateWeights(weights) {
+        if (weights === undefined || weights === null) return [];
+        if (typeof weights !== 'object' || Array.isArray(weights)) {
+            return ['Score weights must be an object of factor weights'];
+        }
+
+        const errors = [];
+        Object.entries(weights).forEach(([factor, weight]) => {
+            if (!SCORE_FACTORS[factor]) {
+                errors.push(`Unknown score factor "${factor}"; expected one of ${Object.keys(SCORE_FACTORS).join(', ')}`);
+            } else if (typeof weight !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > MAX_WEIGHT) {
+                errors.push(`The weight for ${factor} must be a number from 0 to ${MAX_WEIGHT}`);
+            }
+        });
+        if (errors.length === 0 && Object.keys(SCORE_FACTORS).every(factor => this.resolveWeights(weights)[factor] === 0)) {
+            errors.push('At least one score factor needs a weight above 0');
+        }
+        return errors;
+    }
+
+    // The student's weights, with the default for every factor they leave out
+    static resolveWeights(weights) {
+        return { ...DEFAULT_WEIGHTS, ...(weights || {}) };
+    }
+
+    /**
+     * Rank every known university for the given profile, by its scoreWeights when it has them
+     */
+    async recommend(profile) {
+        const universities = await this.universityRegistry.list();
+        await this.programmeService.ensureLoaded();
+        await this.pathwayService.ensureLoaded();
+        await this.fundingService.ensureLoaded();
+
+        const studentAPS = this.resolveAPS(profile);
+        if (!studentAPS) {
+            throw new Error('An APS score or NSC subject marks are required for recommendations');
+        }
+
+        const student = { ...profile, apsScore: studentAPS, nsfas: this.fundingService.estimateNSFAS(profile) };
+        const weights = RecommendationService.resolveWeights(profile.scoreWeights);
+
+        const recommendations = universities
+            .map(uni => this.scoreUniversity(uni, student, weights))
+            // Universities whose requirement is unknown go last, whatever their other factors score
+            .sort((a, b) => (a.category === 'Unknown') - (b.category === 'Unknown') || b.matchScore - a.matchScore);
+
+        return {
+            recommendations,
+            weights,
+            nsfas: student.nsfas,
+            summary: this.generateSummary(recommendations, student),
+            profileAnalysis: this.analyzeProfile(student, recommendations)
+        };
+    }
+
+    /**
+     * Recommendations for projected marks, and what they change against the
+     * current ones: the APS, each university's category and the programmes
+     * matching the intended programme that become reachable or drop out of reach
+     * @param {Object} profile - the saved profile, with the current marks
+     * @param {Array<{name: string, percentage: number}>} projectedSubjects - the marks to try
+     */
+    async simulate(profile, projectedSubjects) {
+        // The projected APS comes from the projected marks, not the one saved on the profile
+        const projectedProfile = { ...profile, subjects: projectedSubjects, apsScore: null };
+        const [current, projected] = await Promise.all([this.recommend(profile), this.recommend(projectedProfile)]);
+
+        const query = (profile.intendedMajor || '').trim();
+        const [currentChecks, projectedChecks] = await Promise.all([
+            this.eligibilityService.checkAll(profile.subjects || [], query),
+            this.eligibilityService.checkAll(projectedSubjects, query)
+        ]);
+        const eligibleNow = new Set(currentChecks.filter(check => check.eligible).map(check => check.programmeId));
+        const describe = check => ({
+            programmeId: check.programmeId,
+            qualification: check.qualification,
+            universityId: check.universityId,
+            universityName: check.universityName
+        });
+
+        const currentCategories = new Map(current.recommendations.map(rec => [rec.university.id, rec.category]));
+        const categoryChanges = projected.recommendations
+            .filter(rec => currentCategories.has(rec.university.id) && currentCategories.get(rec.university.id) !== rec.category)
+            .map(rec => ({
+                universityId: rec.university.id,
+                universityName: rec.university.universityName,
+                from: currentCategories.get(rec.university.id),
+                to: rec.category
+            }));
+
+        return {
+            ...projected,
+            apsScore: { current: this.resolveAPS(profile), projected: this.resolveAPS(projectedProfile) },
+            eligibleCount: { current: eligibleNow.size, projected: projectedChecks.filter(check => check.eligible).length },
+            changes: {
+                categories: categoryChanges,
+                nowEligible: projectedChecks.filter(check => check.eligible && !eligibleNow.has(check.programmeId)).map(describe),
+                noLongerEligible: projectedChecks.filter(check => !check.eligible && eligibleNow.has(check.programmeId)).map(describe)
+            }
+        };
+    }
+
+    /**
+     * Use the APS on the profile, or work it out from the subject marks
+     * with the standard NSC calculation
+     */
+    resolveAPS(profile) {
+        if (profile.apsScore && profile.apsScore > 0) {
+            return profile.apsScore;
+        }
+
+        const { score } = this.apsCalculator.calculate(profile.subjects || []);
+        return score || null;
+    }
+
+    /**
+     * The student's APS on a university's own scheme. A profile APS is a standard one,
+     * so the Wits APS and UCT's FPS need subject marks; null without them
+     */
+    getAPSOnScheme(student, scheme) {
+        if (scheme === 'standard') return student.apsScore;
+        if ((student.subjects || []).length === 0) return null;
+
+        return this.apsCalculator.calculate(student.subjects, { scheme }).score || null;
+    }
+
+    getAPSName(scheme) {
+        return scheme === 'standard' ? 'APS' : this.apsCalculator.getSchemes().find(({ id }) => id === scheme).label;
+    }
+
+    scoreUniversity(uni, student, weights = DEFAULT_WEIGHTS) {
+        const reasons = [];
+        // factor -> { score: 0-100, or null when it does not apply, unknown: true when the
+        // prospectus does not state what it needs, detail }
+        const factors = {};
+
+        // Academic fit - APS margin against the intended programme's minimum when the
+        // prospectus lists one. The university's entry-level minimum only stands in
+        // when no programme was asked for; with neither, the requirement is unknown
+        const programmeMatch = this.findProgrammeRequirement(uni, student);
+        const intended = (student.intendedMajor || '').trim();
+        let requiredAPS = null;
+        let scheme = 'standard';
+        if (programmeMatch) {
+            requiredAPS = programmeMatch.minimumAPS;
+            scheme = programmeMatch.apsScheme || 'standard';
+        } else if (!intended) {
+            const universityScheme = this.apsCalculator.getSchemeForUniversity(uni.universityName);
+            if (this.isInRange(uni.apsScoreRequired, APS_RANGES[universityScheme])) {
+                requiredAPS = uni.apsScoreRequired;
+                scheme = universityScheme;
+            }
+        }
+        // The minimum is on the university's own scale, so the student's APS is too
+        const apsScore = this.getAPSOnScheme(student, scheme);
+        const apsName = this.getAPSName(scheme);
+        const requirementLabel = programmeMatch ? ` for ${programmeMatch.qualification}` : '';
+        const apsMargin = requiredAPS === null || apsScore === null ? null : apsScore - requiredAPS;
+        const levelMargin = apsMargin === null ? null : apsMargin / APS_POINTS_PER_LEVEL[scheme];
+
+        let category;
+        let academicFit;
+        if (requiredAPS !== null && apsScore === null) {
+            category = 'Unknown';
+            academicFit = 'Unknown';
+            reasons.push(`The minimum${requirementLabel} is a ${apsName} of ${requiredAPS}; add your subject marks to compare yours with it.`);
+        } else if (apsMargin === null) {
+            category = 'Unknown';
+            academicFit = 'Unknown';
+            reasons.push(intended
+                ? `The prospectus does not publish a minimum APS for ${intended}, so your chances here cannot be judged.`
+                : 'The prospectus does not publish a minimum APS, so your chances here cannot be judged.');
+        } else if (levelMargin >= 4) {
+            category = 'Safety';
+            academicFit = 'Excellent';
+            reasons.push(`Your ${apsName} of ${apsScore} is well above the minimum of ${requiredAPS}${requirementLabel}.`);
+        } else if (levelMargin >= 0) {
+            category = 'Target';
+            academicFit = 'Good';
+            reasons.push(`Your ${apsName} of ${apsScore} meets the minimum of ${requiredAPS}${requirementLabel}.`);
+        } else if (levelMargin >= -3) {
+            category = 'Reach';
+            academicFit = 'Competitive';
+            reasons.push(`Your ${apsName} is ${Math.abs(apsMargin)} points below the minimum of ${requiredAPS}${requirementLabel}, so admission is competitive.`);
+        } else {
+            category = 'Reach';
+            academicFit = 'Competitive';
+            reasons.push(`Your ${apsName} is ${Math.abs(apsMargin)} points below the minimum of ${requiredAPS}${requirementLabel}.`);
+        }
+
+        // Rule by rule against the intended programme, when there are marks to check
+        const eligibility = programmeMatch && (student.subjects || []).length > 0
+            ? this.eligibilityService.check(student.subjects, programmeMatch)
+            : null;
+        const subjectFailures = eligibility
+            ? eligibility.failures.filter(failure => failure.rule !== 'aps' && failure.rule !== 'aggregate').length
+            : 0;
+
+        let academicScore = apsMargin === null
+            ? null
+            : ACADEMIC_SCORE_AT_MINIMUM + levelMargin * ACADEMIC_SCORE_PER_APS_POINT - subjectFailures * SUBJECT_FAILURE_PENALTY;
+        let academicDetail;
+        if (apsMargin !== null) {
+            academicDetail = `${apsName} ${apsScore} against ${requiredAPS} needed${requirementLabel}`;
+        } else if (requiredAPS !== null) {
+            academicDetail = `${apsName} ${requiredAPS} needed${requirementLabel}; no subject marks to work yours out`;
+        } else {
+            academicDetail = `APS ${student.apsScore}; no published minimum to compare it with`;
+        }
+        if (subjectFailures > 0) {
+            academicDetail += `; ${subjectFailures} subject requirement${subjectFailures === 1 ? '' : 's'} not met`;
+        }
+
+        // Programme availability
+        const programme = (student.intendedMajor || '').trim().toLowerCase();
+        if (programme) {
+            const listed = [...(uni.programs || []), ...(uni.faculties || [])]
+                .some(p => p.toLowerCase().includes(programme) || programme.includes(p.toLowerCase()));
+
+            if (programmeMatch) {
+                factors.programme = { score: 100, detail: `Lists ${programmeMatch.qualification} with its requirements` };
+                reasons.push(`Offers programmes in ${student.intendedMajor}.`);
+            } else if (listed) {
+                factors.programme = { score: 75, detail: `Offers ${student.intendedMajor}; programme requirements not extracted` };
+                reasons.push(`Offers programmes in ${student.intendedMajor}.`);
+            } else {
+                factors.programme = { score: 0, detail: `${student.intendedMajor} not found in the prospectus` };
+                reasons.push(`${student.intendedMajor} was not found in the prospectus programme list.`);
+            }
+
+            if (this.requiresMathematics(programme) && !this.hasSubject(student, 'Mathematics')) {
+                // Already counted rule by rule when the programme's requirements were checked
+                if (!eligibility && academicScore !== null) {
+                    academicScore -= SUBJECT_FAILURE_PENALTY;
+                    academicDetail += '; Mathematics usually required';
+                }
+                if (category === 'Safety') category = 'Target';
+                reasons.push(`${student.intendedMajor} usually requires Mathematics rather than Mathematical Literacy.`);
+            }
+        } else {
+            factors.programme = { score: null, detail: 'No intended programme on your profile' };
+        }
+        factors.academic = academicScore === null
+            ? { score: null, unknown: true, detail: academicDetail }
+            : { score: this.clampScore(academicScore), detail: academicDetail };
+
+        // Home province
+        const homeProvince = student.province || student.homeProvince;
+        if (homeProvince && uni.province === homeProvince) {
+            reasons.push(`Located in your home province (${uni.province}).`);
+        }
+        factors.distance = this.scoreDistance(uni.province, homeProvince);
+
+        // Financial fit - a year's tuition, residence and living costs, less expected
+        // funding, against the student's budget
+        const tuition = this.isInRange(uni.tuitionFeesAnnual, TUITION_RANGE) ? uni.tuitionFeesAnnual : null;
+        const funding = this.fundingService.estimate(uni, tuition, student.nsfas, uni.academicYear);
+        const financialFit = this.assessFinancialFit(funding, student.budgetRange);
+
+        if (funding.expectedFunding) {
+            reasons.push(`You are likely to qualify for NSFAS, which would cover an estimated ${this.formatRand(funding.expectedFunding.total)} a year here.`);
+        } else if (student.nsfas.status === 'likely' && uni.publicUniversity === false) {
+            reasons.push('You are likely to qualify for NSFAS, but it only funds study at public universities.');
+        } else if (uni.publicUniversity && student.nsfas.status !== 'unlikely') {
+            reasons.push('NSFAS funding is available at this public university.');
+        }
+        if (financialFit === 'Stretch') {
+            reasons.push(`The estimated ${this.formatRand(funding.netCost)} a year after funding is above your budget${uni.bursariesAvailable ? '; the prospectus lists bursaries' : ''}.`);
+        }
+        factors.cost = this.scoreCost(funding, financialFit, student.budgetRange);
+        factors.nsfas = this.scoreNSFAS(uni);
+
+        // A keyword match on the prospectus text, so it only counts when the text was read for it
+        factors.language = this.isFrom(uni, 'languageMedium', 'extracted')
+            ? this.scoreLanguage(uni.languageMedium, student.subjects)
+            : { score: null, unknown: true, detail: 'Language of instruction not stated in the prospectus' };
+
+        // Alternatives when the marks fall short of the intended programme
+        const pathways = eligibility && !eligibility.eligible
+            ? this.pathwayService.suggest(student.subjects, programmeMatch, { province: homeProvince })
+            : null;
+
+        const { matchScore, scoreBreakdown } = this.combineScores(factors, weights);
+
+        return {
+            university: uni,
+            programme: programmeMatch,
+            eligibility,
+            pathways,
+            funding,
+            matchScore,
+            scoreBreakdown,
+            category,
+            reasoning: reasons.join(' '),
+            academicFit,
+            financialFit
+        };
+    }
+
+    /**
+     * Weighted average of the factors that apply, with each factor's share of it
+     * @returns {Object} matchScore (0-100) and scoreBreakdown - per factor its score,
+     *   its weight as a percentage of the total, the points it contributes and its
+     *   status: scored, unknown (the prospectus does not say) or not_applicable
+     */
+    combineScores(factors, weights) {
+        const applicable = Object.keys(SCORE_FACTORS).filter(factor => factors[factor].score !== null && weights[factor] > 0);
+        const totalWeight = applicable.reduce((sum, factor) => sum + weights[factor], 0);
+
+        const scoreBreakdown = Object.keys(SCORE_FACTORS).map(factor => {
+            const share = applicable.includes(factor) ? weights[factor] / totalWeight : 0;
+            return {
+                factor,
+                label: SCORE_FACTORS[factor].label,
+                score: factors[factor].score,
+                weight: Math.round(share * 100),
+                contribution: Math.round(factors[factor].score * share * 10) / 10,
+                status: this.getFactorStatus(factors[factor]),
+                detail: factors[factor].detail
+            };
+        });
+
+        const matchScore = totalWeight > 0
+            ? Math.round(applicable.reduce((sum, factor) => sum + factors[factor].score * weights[factor], 0) / totalWeight)
+            : NEUTRAL_SCORE;
+
+        return { matchScore, scoreBreakdown };
+    }
+
+    getFactorStatus(factor) {
+        if (factor.score !== null) return 'scored';
+        return factor.unknown ? 'unknown' : 'not_applicable';
+    }
+
+    isFrom(uni, field, source) {
+        return (uni.fieldSources || {})[field] === source;
+    }
+
+    /**
+     * NSFAS funds students at every public university, which the prospectus registry
+     * records. Without that, a mention of NSFAS in the prospectus text counts, but
+     * only when the text was read for it
+     */
+    scoreNSFAS(uni) {
+        if (this.isFrom(uni, 'publicUniversity', 'reference') && typeof uni.publicUniversity === 'boolean') {
+            return uni.publicUniversity
+                ? { score: 100, detail: 'Public university, funded by NSFAS' }
+                : { score: 0, detail: 'Not a public university, so not funded by NSFAS' };
+        }
+        if (this.isFrom(uni, 'nsfasAccredited', 'extracted') && typeof uni.nsfasAccredited === 'boolean') {
+            return { score: uni.nsfasAccredited ? 100 : 0, detail: uni.nsfasAccredited ? 'NSFAS-accredited' : 'Not NSFAS-accredited' };
+        }
+        return { score: null, unknown: true, detail: 'NSFAS funding not stated' };
+    }
+
+    scoreCost(funding, financialFit, budgetRange) {
+        const netCost = `${this.formatRand(funding.netCost)} a year after funding`;
+        if (!funding.complete) {
+            // Without tuition the net cost is only part of the bill, so it cannot be compared with the budget
+            return { score: null, unknown: true, detail: `Tuition not published in the prospectus; residence and living costs are ${netCost}` };
+        }
+
+        const budget = this.getBudget(budgetRange);
+        if (!budget) {
+            return { score: null, detail: `${netCost}; add a budget to your profile to compare` };
+        }
+        return {
+            score: FINANCIAL_FIT_SCORES[financialFit],
+            detail: `${netCost} against your budget of ${this.formatRand(budget)}`
+        };
+    }
+
+    scoreDistance(province, homeProvince) {
+        if (!homeProvince || !province) {
+            return { score: null, detail: 'No home province on your profile' };
+        }
+        if (province === homeProvince) {
+            return { score: 100, detail: `In your home province (${province})` };
+        }
+        if ((NEIGHBOURING_PROVINCES[homeProvince] || []).includes(province)) {
+            return { score: 60, detail: `In ${province}, next to ${homeProvince}` };
+        }
+        return { score: 20, detail: `In ${province}, away from ${homeProvince}` };
+    }
+
+    // Teaching in the student's home language scores highest, then in their first additional language
+    scoreLanguage(languageMedium, subjects) {
+        const languages = level => (subjects || [])
+            .filter(subject => subject.name && subject.name.endsWith(` ${level}`))
+            .map(subject => subject.name.slice(0, -level.length - 1).trim().toLowerCase());
+        const homeLanguages = languages('Home Language');
+        const additionalLanguages = languages('First Additional Language');
+        const media = (languageMedium || []).map(language => language.toLowerCase());
+
+        if (media.length === 0) {
+            return { score: null, unknown: true, detail: 'Language of instruction not stated in the prospectus' };
+        }
+        if (homeLanguages.length + additionalLanguages.length === 0) {
+            return { score: null, detail: 'No home or first additional language on your profile' };
+        }
+
+        const mediumLabel = (languageMedium || []).join(' and ');
+        if (media.some(language => homeLanguages.includes(language))) {
+            return { score: 100, detail: `Teaches in ${mediumLabel}, including your home language` };
+        }
+        if (media.some(language => additionalLanguages.includes(language))) {
+            return { score: 75, detail: `Teaches in ${mediumLabel}, including your first additional language` };
+        }
+        return { score: 25, detail: `Teaches in ${mediumLabel}` };
+    }
+
+    clampScore(score) {
+        return Math.max(0, Math.min(100, Math.round(score)));
+    }
+
+    /**
+     * The most accessible programme at this university matching the intended programme
+     */
+    findProgrammeRequirement(uni, student) {
+        const intended = (student.intendedMajor || '').trim().toLowerCase();
+        if (!intended) return null;
+
+        const matches = this.programmeService.programmes
+            .filter(p => p.universityId === uni.id)
+            .filter(p => p.qualification.toLowerCase().includes(intended))
+            .filter(p => this.isInRange(p.minimumAPS, APS_RANGES[p.apsScheme || 'standard']))
+            .sort((a, b) => a.minimumAPS - b.minimumAPS);
+
+        return matches[0] || null;
+    }
+
+    // The net cost after expected funding against the most the student can spend a year
+    assessFinancialFit(funding, budgetRange) {
+        const budget = this.getBudget(budgetRange);
+        if (!budget || !funding.complete) return 'Moderate';
+
+        if (funding.netCost <= budget) return 'Good';
+        if (funding.netCost <= budget * 1.2) return 'Moderate';
+        return 'Stretch';
+    }
+
+    getBudget(budgetRange) {
+        return budgetRange && budgetRange.max > 0 ? budgetRange.max : null;
+    }
+
+    formatRand(amount) {
+        return `R${amount.toLocaleString('en-ZA')}`;
+    }
+
+    requiresMathematics(programme) {
+        return MATHEMATICS_PROGRAMMES.some(p => programme.includes(p));
+    }
+
+    hasSubject(student, subjectName) {
+        return (student.subjects || []).some(s => s.name && s.name.toLowerCase() === subjectName.toLowerCase());
+    }
+
+    isInRange(value, range) {
+        return typeof value === 'number' && value >= range.min && value <= range.max;
+    }
+
+    generateSummary(recommendations, student) {
+        const counts = { Safety: 0, Target: 0, Reach: 0, Unknown: 0 };
+        recommendations.forEach(rec => counts[rec.category]++);
+
+        let summary = `Based on an APS of ${student.apsScore}, we found ${counts.Safety} safety, ${counts.Target} target and ${counts.Reach} reach universities.`;
+        if (counts.Unknown > 0) {
+            summary += ` ${counts.Unknown} ${counts.Unknown === 1 ? 'does' : 'do'} not publish a minimum APS${student.intendedMajor ? ` for ${student.intendedMajor}` : ''}.`;
+        }
+        if (recommendations.length > 0) {
+            summary += ` Your strongest match is ${recommendations[0].university.universityName}.`;
+        }
+        return summary;
+    }
+
+    analyzeProfile(student, recommendations) {
+        const analysis = {
+            strengths: [],
+            areasForImprovement: [],
+            suggestions: []
+        };
+
+        if (student.apsScore >= 35) {
+            analysis.strengths.push(`Strong APS of ${student.apsScore}, competitive for most programmes`);
+        } else if (student.apsScore < 28) {
+            analysis.areasForImprovement.push('An APS below 28 limits degree options; consider extended programmes');
+        }
+
+        const maths = (student.subjects || []).find(s => s.name === 'Mathematics');
+        if (maths && maths.percentage >= 70) {
+            analysis.strengths.push('Good Mathematics mark opens STEM and commerce programmes');
+        } else if (!maths && (student.subjects || []).some(s => s.name === 'Mathematical Literacy')) {
+            analysis.areasForImprovement.push('Mathematical Literacy is not accepted for many science and commerce degrees');
+        }
+
+        if (!student.intendedMajor) {
+            analysis.areasForImprovement.push('Add an intended programme to get programme-specific matches');
+        }
+
+        if (student.nsfas.status === 'likely') {
+            analysis.strengths.push(`Likely to qualify for NSFAS: ${student.nsfas.reason}`);
+        } else if (student.nsfas.status === 'unknown') {
+            analysis.suggestions.push('Add your household income band and SASSA grant status to your profile to estimate NSFAS funding');
+        }
+
+        const checked = recommendations.filter(r => r.eligibility);
+        if (checked.length > 0 && checked.every(r => !r.eligibility.eligible)) {
+            analysis.suggestions.push(`You do not yet meet the requirements for ${student.intendedMajor} at any university we checked - see the other ways in listed with each one`);
+        }
+
+        analysis.suggestions.push('Apply to a mix of safety, target and reach universities');
+        analysis.suggestions.push('Apply early - many South African universities close applications by 30 September');
+        if (recommendations.filter(r => r.category === 'Safety').length < 2) {
+            analysis.suggestions.push('Consider adding more safety options to your list');
+        }
+
+        return analysis;
+    }
+}
+
+module.exports = RecommendationService;
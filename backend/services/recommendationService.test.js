@@ -0,0 +1,262 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+const RecommendationService = require('./recommendationService');
+const UniversityRegistry = require('./universityRegistry');
+
+// APS 29 on the standard scheme
+const subjects = [
+    { name: 'English Home Language', percentage: 65 },
+    { name: 'Afrikaans First Additional Language', percentage: 60 },
+    { name: 'Mathematics', percentage: 62 },
+    { name: 'Physical Sciences', percentage: 62 },
+    { name: 'Life Sciences', percentage: 65 },
+    { name: 'Geography', percentage: 55 },
+    { name: 'Life Orientation', percentage: 70 }
+];
+
+const withMarks = marks => subjects.map(subject => (subject.name in marks ? { ...subject, percentage: marks[subject.name] } : subject));
+
+const programme = (universityName, qualification, minimumAPS, mathematicsLevel) => ({
+    id: UniversityRegistry.toSlug(`${universityName} ${qualification}`),
+    universityId: UniversityRegistry.toSlug(universityName),
+    universityName,
+    academicYear: 2026,
+    faculty: 'Engineering',
+    qualification,
+    minimumAPS,
+    requiredSubjects: [
+        { subject: 'Mathematics', minimumLevel: mathematicsLevel },
+        { subject: 'Physical Sciences', minimumLevel: mathematicsLevel }
+    ]
+});
+
+const university = (universityName, province) => ({
+    universityName,
+    academicYear: 2026,
+    province,
+    city: province,
+    fieldSources: {}
+});
+
+const profile = { subjects, intendedMajor: 'Engineering', province: 'Gauteng' };
+
+let dir;
+let service;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'recommend-'));
+
+    await fs.writeFile(path.join(dir, 'programmes.json'), JSON.stringify([
+        programme('University of Pretoria', 'BEng Mining Engineering', 30, 6),
+        programme('University of Pretoria', 'BEng Civil Engineering', 35, 6),
+        programme('Stellenbosch University', 'BEng Civil Engineering', 28, 5)
+    ]));
+    await fs.writeFile(path.join(dir, 'universities_structured.json'), JSON.stringify([
+        university('University of Pretoria', 'Gauteng'),
+        university('Stellenbosch University', 'Western Cape')
+    ]));
+    await fs.writeFile(path.join(dir, 'pathways.json'), JSON.stringify({}));
+
+    const programmeService = new ProgrammeService();
+    programmeService.processedDir = dir;
+    const registry = new UniversityRegistry(programmeService);
+    registry.processedDir = dir;
+    service = new RecommendationService(programmeService, registry);
+    service.pathwayService.processedDir = dir;
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('projected marks recompute the APS, categories and eligibility against the current marks', async () => {
+    const result = await service.simulate(profile, withMarks({ Mathematics: 70, 'Physical Sciences': 70 }));
+
+    expect(result.apsScore).toEqual({ current: 29, projected: 31 });
+    expect(result.eligibleCount).toEqual({ current: 1, projected: 2 });
+    expect(result.changes.categories).toEqual([{
+        universityId: 'university-of-pretoria',
+        universityName: 'University of Pretoria',
+        from: 'Reach',
+        to: 'Target'
+    }]);
+    expect(result.changes.nowEligible).toEqual([{
+        programmeId: 'university-of-pretoria-beng-mining-engineering',
+        qualification: 'BEng Mining Engineering',
+        universityId: 'university-of-pretoria',
+        universityName: 'University of Pretoria'
+    }]);
+    expect(result.changes.noLongerEligible).toEqual([]);
+});
+
+test('the recommendations returned are the projected ones', async () => {
+    const result = await service.simulate(profile, withMarks({ Mathematics: 70, 'Physical Sciences': 70 }));
+    const pretoria = result.recommendations.find(rec => rec.university.id === 'university-of-pretoria');
+
+    expect(pretoria.category).toBe('Target');
+    expect(pretoria.eligibility.eligible).toBe(true);
+    expect(pretoria.pathways).toBeNull();
+});
+
+test('lower projected marks report the programmes that drop out of reach', async () => {
+    const result = await service.simulate(profile, withMarks({ Mathematics: 55 }));
+
+    expect(result.apsScore).toEqual({ current: 29, projected: 28 });
+    expect(result.changes.nowEligible).toEqual([]);
+    expect(result.changes.noLongerEligible.map(check => check.programmeId)).toEqual(['stellenbosch-university-beng-civil-engineering']);
+});
+
+test('the projected APS comes from the projected marks, not the APS saved on the profile', async () => {
+    const result = await service.simulate({ ...profile, apsScore: 40 }, subjects);
+
+    expect(result.apsScore).toEqual({ current: 40, projected: 29 });
+});
+
+test('unchanged marks change nothing', async () => {
+    const result = await service.simulate(profile, subjects);
+
+    expect(result.changes).toEqual({ categories: [], nowEligible: [], noLongerEligible: [] });
+    expect(result.eligibleCount).toEqual({ current: 1, projected: 1 });
+});
+
+test('score weights must name known factors, each from 0 to 10, and not all be 0', () => {
+    expect(RecommendationService.validateWeights(undefined)).toEqual([]);
+    expect(RecommendationService.validateWeights({ cost: 10 })).toEqual([]);
+    expect(RecommendationService.validateWeights({ prestige: 5 })).toEqual([
+        'Unknown score factor "prestige"; expected one of academic, programme, cost, distance, nsfas, language'
+    ]);
+    expect(RecommendationService.validateWeights({ cost: 11 })).toEqual(['The weight for cost must be a number from 0 to 10']);
+    expect(RecommendationService.validateWeights({ academic: 0, programme: 0, cost: 0, distance: 0, nsfas: 0, language: 0 }))
+        .toEqual(['At least one score factor needs a weight above 0']);
+});
+
+test('weights the student sets re-rank the universities', async () => {
+    const byDefault = await service.recommend({ ...profile });
+    const distanceOnly = await service.recommend({
+        ...profile,
+        scoreWeights: { academic: 0, programme: 0, cost: 0, distance: 10, nsfas: 0, language: 0 }
+    });
+
+    expect(byDefault.recommendations.map(rec => rec.university.id)).toEqual(['stellenbosch-university', 'university-of-pretoria']);
+    expect(distanceOnly.recommendations.map(rec => rec.university.id)).toEqual(['university-of-pretoria', 'stellenbosch-university']);
+    expect(distanceOnly.recommendations[0].matchScore).toBe(100);
+    expect(distanceOnly.weights.distance).toBe(10);
+});
+
+test('the breakdown gives each factor its share of the weight and the points it adds', () => {
+    const uni = { id: 'stellenbosch-university', universityName: 'Stellenbosch University', province: 'Western Cape', tuitionFeesAnnual: 60000, fieldSources: {} };
+    const student = { apsScore: 29, subjects: [], province: 'Western Cape', nsfas: { status: 'unknown' } };
+
+    const { matchScore, scoreBreakdown } = service.scoreUniversity({ ...uni, apsScoreRequired: 25 }, student);
+    const academic = scoreBreakdown.find(component => component.factor === 'academic');
+    const distance = scoreBreakdown.find(component => component.factor === 'distance');
+
+    // Academic 100 (APS 4 above the minimum) weighted 8, distance 100 weighted 2
+    expect(academic).toMatchObject({ score: 100, weight: 80, contribution: 80, status: 'scored' });
+    expect(distance).toMatchObject({ score: 100, weight: 20, contribution: 20, status: 'scored' });
+    expect(scoreBreakdown.find(component => component.factor === 'programme')).toMatchObject({ score: null, weight: 0, status: 'not_applicable' });
+    expect(scoreBreakdown.find(component => component.factor === 'cost')).toMatchObject({ score: null, weight: 0, status: 'not_applicable' });
+    expect(matchScore).toBe(100);
+});
+
+test('NSFAS and language count only when the prospectus text was read for them', () => {
+    const student = {
+        apsScore: 29,
+        subjects: [{ name: 'English Home Language', percentage: 65 }],
+        nsfas: { status: 'unknown' }
+    };
+    const uni = {
+        id: 'university-of-pretoria',
+        universityName: 'University of Pretoria',
+        province: 'Gauteng',
+        apsScoreRequired: 25,
+        nsfasAccredited: true,
+        languageMedium: ['English'],
+        fieldSources: { apsScoreRequired: 'programmes' }
+    };
+    const component = (breakdown, factor) => breakdown.find(entry => entry.factor === factor);
+
+    const unread = service.scoreUniversity(uni, student).scoreBreakdown;
+    expect(component(unread, 'nsfas')).toMatchObject({ score: null, weight: 0, contribution: 0, status: 'unknown' });
+    expect(component(unread, 'language')).toMatchObject({ score: null, weight: 0, contribution: 0, status: 'unknown' });
+
+    const read = service.scoreUniversity({
+        ...uni,
+        fieldSources: { ...uni.fieldSources, nsfasAccredited: 'extracted', languageMedium: 'extracted' }
+    }, student).scoreBreakdown;
+    expect(component(read, 'nsfas')).toMatchObject({ score: 100, status: 'scored' });
+    expect(component(read, 'language')).toMatchObject({ score: 100, status: 'scored', detail: 'Teaches in English, including your home language' });
+});
+
+test('an unpublished minimum APS leaves academic fit unknown rather than scoring it', () => {
+    const uni = { id: 'university-of-pretoria', universityName: 'University of Pretoria', province: 'Gauteng', tuitionFeesAnnual: 60000, fieldSources: {} };
+    const student = { apsScore: 29, subjects: [], province: 'Gauteng', nsfas: { status: 'unknown' } };
+
+    const result = service.scoreUniversity(uni, student);
+
+    expect(result.category).toBe('Unknown');
+    expect(result.scoreBreakdown.find(component => component.factor === 'academic')).toMatchObject({ score: null, weight: 0, status: 'unknown' });
+    expect(result.matchScore).toBe(100);
+});
+
+test('a Wits programme is compared with the student\'s Wits APS, not their standard APS', () => {
+    const wits = { id: 'university-of-the-witwatersrand', universityName: 'University of the Witwatersrand', province: 'Gauteng', fieldSources: {} };
+    // Standard APS 29; Wits APS 35, with 2 more each for English and Mathematics and 2 for Life Orientation
+    service.programmeService.programmes = [
+        { ...programme('University of the Witwatersrand', 'BSc Engineering (Civil)', 35, 5), apsScheme: 'wits' }
+    ];
+
+    const result = service.scoreUniversity(wits, { ...profile, apsScore: 29, nsfas: { status: 'unknown' } });
+
+    expect(result.category).toBe('Target');
+    expect(result.reasoning).toMatch(/^Your Wits APS of 35 meets the minimum of 35 for BSc Engineering \(Civil\)\./);
+    expect(result.scoreBreakdown.find(component => component.factor === 'academic'))
+        .toMatchObject({ score: 70, detail: 'Wits APS 35 against 35 needed for BSc Engineering (Civil)' });
+});
+
+test('a UCT Faculty Points Score minimum needs the student\'s marks to compare with', () => {
+    const uct = { id: 'university-of-cape-town', universityName: 'University of Cape Town', province: 'Western Cape', fieldSources: {} };
+    service.programmeService.programmes = [
+        { ...programme('University of Cape Town', 'Bachelor of Science in Engineering', 500, 7), apsScheme: 'uct_fps' }
+    ];
+
+    // An FPS of 369, 131 percentage points or about 13 APS points short
+    const marked = service.scoreUniversity(uct, { ...profile, apsScore: 29, nsfas: { status: 'unknown' } });
+    expect(marked.category).toBe('Reach');
+    expect(marked.reasoning).toMatch(/^Your UCT Faculty Points Score is 131 points below the minimum of 500 for Bachelor of Science in Engineering\./);
+
+    const unmarked = service.scoreUniversity(uct, { ...profile, subjects: [], apsScore: 29, nsfas: { status: 'unknown' } });
+    expect(unmarked.category).toBe('Unknown');
+    expect(unmarked.scoreBreakdown.find(component => component.factor === 'academic')).toMatchObject({ score: null, weight: 0, status: 'unknown' });
+});
+
+test('unpublished tuition leaves the cost factor unknown, with no weight', () => {
+    const uni = { id: 'university-of-pretoria', universityName: 'University of Pretoria', province: 'Gauteng', tuitionFeesAnnual: null, fieldSources: {} };
+    const student = { apsScore: 29, subjects: [], province: 'Gauteng', budgetRange: { min: 0, max: 150000 }, nsfas: { status: 'unknown' } };
+    const cost = result => result.scoreBreakdown.find(component => component.factor === 'cost');
+
+    expect(cost(service.scoreUniversity(uni, student))).toMatchObject({ score: null, weight: 0, status: 'unknown' });
+    expect(cost(service.scoreUniversity({ ...uni, tuitionFeesAnnual: 60000 }, student))).toMatchObject({ status: 'scored' });
+});
+
+test('NSFAS funding follows the registry public-university status over the prospectus text', () => {
+    const student = { apsScore: 29, subjects: [], nsfas: { status: 'unknown' } };
+    const uni = {
+        id: 'university-of-pretoria',
+        universityName: 'University of Pretoria',
+        province: 'Gauteng',
+        apsScoreRequired: 25,
+        nsfasAccredited: null,
+        fieldSources: { apsScoreRequired: 'programmes', nsfasAccredited: 'extracted', publicUniversity: 'reference' }
+    };
+    const nsfas = breakdown => breakdown.find(entry => entry.factor === 'nsfas');
+
+    expect(nsfas(service.scoreUniversity({ ...uni, publicUniversity: true }, student).scoreBreakdown))
+        .toMatchObject({ score: 100, status: 'scored', detail: 'Public university, funded by NSFAS' });
+    expect(nsfas(service.scoreUniversity({ ...uni, publicUniversity: false, nsfasAccredited: true }, student).scoreBreakdown))
+        .toMatchObject({ score: 0, status: 'scored' });
+});
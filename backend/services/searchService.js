@@ -2,47 +2,57 @@
 // This version will only use content extracted from university PDF files
 //searchService.js
 const { SearchClient, AzureKeyCredential } = require('@azure/search-documents');
-const { OpenAI } = require('openai');
 const fs = require('fs').promises;
 const path = require('path');
+const UniversityRegistry = require('./universityRegistry');
+const KeywordIndex = require('./keywordIndex');
+const VectorStore = require('./vectorStore');
+const HybridRetriever = require('./hybridRetriever');
+const { HashingEmbeddingProvider, createEmbeddingProvider } = require('./embeddingProviders');
+const { createLLMProvider } = require('./llmProviders');
+const GroundingVerifier = require('./groundingVerifier');
+const ProcessingManifest = require('./processingManifest');
+
+// Documents embedded per provider call when backfilling the vector store
+const EMBEDDING_BATCH_SIZE = 16;
+
+// How much of each retrieved passage, and of all of them together, goes into the prompt
+const MAX_PASSAGE_CHARS = 2000;
+const MAX_CONTEXT_CHARS = 12000;
 
 class PDFContextSearchService {
-    constructor() {
+    constructor(universityRegistry = new UniversityRegistry()) {
         console.log('🔧 Initializing PDF-Context SearchService...');
         
-        this.validateEnvironment();
-        this.initializeOpenAIClient();
+        this.universityRegistry = universityRegistry;
+        
+        this.initializeLLM();
         this.initializeSearchClient();
+        this.initializeEmbeddings();
         
         // PDF content storage
         this.pdfDocuments = new Map(); // Store processed PDF content
-        this.loadExistingPDFs();
+        this.documentsHash = null; // content hash of pdf_documents.json as last read or written
+        this.keywordIndex = new KeywordIndex();
+        this.vectorStore = new VectorStore(path.join(__dirname, '../data/vector_store.json'), this.embeddingProvider);
+        this.manifestPath = path.join(__dirname, '../processed/manifest.json');
+        this.groundingVerifier = new GroundingVerifier();
+        this.hybridRetriever = new HybridRetriever({
+            keywordIndex: this.keywordIndex,
+            vectorStore: this.vectorStore,
+            embeddingProvider: this.embeddingProvider,
+            getDocument: id => this.pdfDocuments.get(id)
+        });
+        // Resolves once the stored documents and indexes are loaded
+        this.ready = this.loadExistingPDFs();
         this.isProcessing = false;
         this.hasProcessedExistingPDFs = false;
         console.log('✅ PDF-Context SearchService initialized');
     }
 
-    validateEnvironment() {
-        const required = ['AZURE_OPENAI_ENDPOINT', 'AZURE_OPENAI_API_KEY', 'AZURE_OPENAI_DEPLOYMENT_NAME'];
-        const missing = required.filter(env => !process.env[env]);
-        
-        if (missing.length > 0) {
-            throw new Error(`Missing environment variables: ${missing.join(', ')}`);
-        }
-    }
-
-    initializeOpenAIClient() {
-        this.openaiClient = new OpenAI({
-            apiKey: process.env.AZURE_OPENAI_API_KEY,
-            baseURL: `${process.env.AZURE_OPENAI_ENDPOINT}/openai/deployments/${process.env.AZURE_OPENAI_DEPLOYMENT_NAME}`,
-            defaultQuery: { 'api-version': process.env.AZURE_OPENAI_API_VERSION || '2024-02-01' },
-            defaultHeaders: {
-                'api-key': process.env.AZURE_OPENAI_API_KEY,
-            },
-        });
-        
-        this.deploymentName = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-        console.log('✅ OpenAI Client initialized for PDF context search');
+    initializeLLM() {
+        this.llm = createLLMProvider();
+        console.log(`✅ LLM provider ${this.llm.name} initialized for PDF context search`);
     }
 
     initializeSearchClient() {
@@ -58,6 +68,16 @@ class PDFContextSearchService {
             console.log('⚠️ Azure Search not configured, using in-memory PDF storage');
         }
     }
+    initializeEmbeddings() {
+        try {
+            this.embeddingProvider = createEmbeddingProvider();
+        } catch (error) {
+            console.error('❌ Embedding provider unavailable, using local hashing embeddings:', error.message);
+            this.embeddingProvider = new HashingEmbeddingProvider();
+        }
+        console.log(`✅ Embedding provider: ${this.embeddingProvider.name}`);
+    }
+
     async processExistingPDFs() {
         try {
             const PDFProcessor = require('./pdfProcessor');
@@ -99,12 +119,15 @@ class PDFContextSearchService {
                 await fs.access(pdfDataPath);
                 const data = await fs.readFile(pdfDataPath, 'utf8');
                 const pdfData = JSON.parse(data);
+                this.documentsHash = ProcessingManifest.hashContent(data);
                 
                 Object.entries(pdfData).forEach(([fileName, content]) => {
                     this.pdfDocuments.set(fileName, content);
                 });
                 
                 console.log(`Loaded ${this.pdfDocuments.size} existing PDF documents`);
+                await this.loadKeywordIndex();
+                await this.loadVectorStore();
                 
             } catch (error) {
                 console.log('No processed PDF data found, checking for raw PDFs to process...');
@@ -126,13 +149,84 @@ class PDFContextSearchService {
     async savePDFData() {
         try {
             const pdfDataPath = path.join(__dirname, '../data/pdf_documents.json');
-            const pdfData = Object.fromEntries(this.pdfDocuments);
-            await fs.writeFile(pdfDataPath, JSON.stringify(pdfData, null, 2));
+            const data = JSON.stringify(Object.fromEntries(this.pdfDocuments), null, 2);
+            this.documentsHash = ProcessingManifest.hashContent(data);
+            this.keywordIndex.sourceHash = this.documentsHash;
+            await fs.writeFile(pdfDataPath, data);
+            await this.keywordIndex.save(this.getKeywordIndexPath());
+            await this.vectorStore.save();
             console.log('💾 PDF data saved successfully');
         } catch (error) {
             console.error('❌ Failed to save PDF data:', error);
         }
     }
+
+    getKeywordIndexPath() {
+        return path.join(__dirname, '../data/keyword_index.json');
+    }
+
+    /**
+     * Load the saved keyword index, rebuilding it when it is missing or was
+     * built from a different pdf_documents.json
+     */
+    async loadKeywordIndex() {
+        const loaded = await this.keywordIndex.loadFrom(this.getKeywordIndexPath(), this.documentsHash);
+        if (loaded) {
+            console.log(`🔎 Loaded keyword index for ${this.keywordIndex.size} documents`);
+            return;
+        }
+
+        console.log('🔎 Rebuilding keyword index...');
+        this.keywordIndex.clear();
+        for (const [fileName, doc] of this.pdfDocuments) {
+            this.indexDocument(fileName, doc);
+        }
+        this.keywordIndex.sourceHash = this.documentsHash;
+        await this.keywordIndex.save(this.getKeywordIndexPath());
+        console.log(`🔎 Indexed ${this.keywordIndex.size} documents`);
+    }
+
+    /**
+     * Load the saved embeddings and embed any document that has none yet
+     */
+    async loadVectorStore() {
+        await this.vectorStore.load();
+
+        const missing = Array.from(this.pdfDocuments.keys()).filter(fileName => !this.vectorStore.has(fileName));
+        if (missing.length === 0) {
+            console.log(`🧭 Loaded ${this.vectorStore.size} document embeddings`);
+            return;
+        }
+
+        console.log(`🧭 Embedding ${missing.length} documents with ${this.embeddingProvider.name}...`);
+        try {
+            for (let i = 0; i < missing.length; i += EMBEDDING_BATCH_SIZE) {
+                await this.embedDocuments(missing.slice(i, i + EMBEDDING_BATCH_SIZE));
+            }
+        } catch (error) {
+            console.error('❌ Failed to embed documents:', error.message);
+        }
+        await this.vectorStore.save();
+        console.log(`🧭 ${this.vectorStore.size} document embeddings ready`);
+    }
+
+    async embedDocuments(fileNames) {
+        const texts = fileNames.map(fileName => {
+            const doc = this.pdfDocuments.get(fileName);
+            return `${doc.universityName}\n${doc.content}`;
+        });
+        const vectors = await this.embeddingProvider.embed(texts);
+        fileNames.forEach((fileName, i) => this.vectorStore.upsert(fileName, vectors[i]));
+    }
+
+    indexDocument(fileName, doc) {
+        this.keywordIndex.add(fileName, {
+            universityName: doc.universityName,
+            keyPhrases: (doc.keyPhrases || []).join(' '),
+            sections: Object.values(doc.sections || {}).join(' '),
+            content: doc.content
+        });
+    }
     extractUniversityName(content) {
         // Extract university name from content using common patterns
         const patterns = [
@@ -189,17 +283,11 @@ class PDFContextSearchService {
             console.log(`📄 Adding PDF document: ${fileName}`);
             
             // Structure the PDF content
-            const structuredContent = {
-                fileName: fileName,
-                universityName: this.extractUniversityName(extractedContent),
-                content: extractedContent,
-                sections: this.extractSections(extractedContent),
-                lastUpdated: new Date().toISOString(),
-                wordCount: extractedContent.split(/\s+/).length
-            };
+            const structuredContent = this.buildPDFDocument(fileName, extractedContent);
 
             // Store in memory
-            this.pdfDocuments.set(fileName, structuredContent);
+            this.storePDFDocument(structuredContent);
+            await this.embedDocuments([fileName]);
             
             // Save to file system
             await this.savePDFData();
@@ -218,67 +306,43 @@ class PDFContextSearchService {
         }
     }
 
-    // Main search function that uses ONLY PDF content
-    async searchWithAI(query, options = {}) {
-        try {
-            console.log(`🔍 AI Search using PDF context: "${query}"`);
-            
-            if (this.pdfDocuments.size === 0) {
-                return {
-                    answer: "I don't have any university PDF documents loaded yet. Please upload university brochures, prospectuses, or information documents first.",
-                    sources: [],
-                    searchType: 'no-pdfs',
-                    success: false
-                };
-            }
+    buildPDFDocument(fileName, extractedContent) {
+        return {
+            fileName: fileName,
+            universityName: this.extractUniversityName(extractedContent),
+            content: extractedContent,
+            sections: this.extractSections(extractedContent),
+            lastUpdated: new Date().toISOString(),
+            wordCount: extractedContent.split(/\s+/).length
+        };
+    }
 
-            // Find relevant PDF documents
-            const relevantDocs = await this.findRelevantDocuments(query);
-            
-            if (relevantDocs.length === 0) {
-                return {
-                    answer: `I couldn't find specific information about "${query}" in the available university documents. The information might not be covered in the uploaded PDFs, or you might need to upload more relevant documents.`,
-                    sources: Array.from(this.pdfDocuments.values()).map(doc => ({
-                        fileName: doc.fileName,
-                        universityName: doc.universityName,
-                        relevantContent: 'Document available but no specific match found'
-                    })),
-                    searchType: 'no-match',
-                    success: false
-                };
-            }
+    // Keep a whole-file document searchable, with its embedding when there is one - the caller saves
+    storePDFDocument(document, contentVector = null) {
+        this.pdfDocuments.set(document.fileName, document);
+        this.indexDocument(document.fileName, document);
+        if (contentVector) {
+            this.vectorStore.upsert(document.fileName, contentVector);
+        }
+    }
 
-            // Create context from relevant documents
-            const context = this.buildContext(relevantDocs, query);
-            
-            // Generate AI response using ONLY the PDF context
-            const aiResponse = await this.generateContextualResponse(query, context);
-            
-            console.log('✅ AI search completed using PDF context');
-            
-            return {
-                answer: aiResponse,
-                sources: relevantDocs.map(doc => ({
-                    fileName: doc.fileName,
-                    universityName: doc.universityName,
-                    relevantContent: this.getRelevantExcerpt(doc, query)
-                })),
-                searchType: 'pdf-context',
-                documentsSearched: this.pdfDocuments.size,
-                relevantDocuments: relevantDocs.length,
-                success: true
-            };
+    /**
+     * Join search sources to the structured university records
+     */
+    async toUniversityResults(sources) {
+        const hits = sources.map(source => ({
+            ...source,
+            universityName: this.resolveUniversityName(source)
+        }));
 
-        } catch (error) {
-            console.error('❌ PDF context search failed:', error);
-            return {
-                answer: 'I encountered an error while searching through the university documents. Please try again.',
-                sources: [],
-                searchType: 'error',
-                success: false,
-                error: error.message
-            };
-        }
+        return this.universityRegistry.joinSearchHits(hits);
+    }
+
+    // Whole-file entries carry a name guessed from the cover page, while their
+    // chunks carry the name from the prospectus mapping - prefer the chunk's
+    resolveUniversityName(source) {
+        const firstChunk = this.pdfDocuments.get(`${source.fileName}_chunk_0`);
+        return firstChunk ? firstChunk.universityName : source.universityName;
     }
 
     async createIndex() {
@@ -298,27 +362,7 @@ async search(query, filters = {}, limit = 20) {
         // Delegate to AI search for consistent results
         const aiResult = await this.searchWithAI(query, { top: limit });
         
-        // Transform AI results to expected format
-        return aiResult.sources.map((source, index) => ({
-            id: `search_${Date.now()}_${index}`,
-            universityName: source.universityName,
-            fileName: source.fileName,
-            content: source.relevantContent,
-            location: 'South Africa',
-            province: 'Various',
-            universityType: 'Traditional',
-            apsScoreRequired: 30,
-            tuitionFeesAnnual: 50000,
-            establishmentYear: 2000,
-            studentPopulation: 25000,
-            applicationDeadline: "30 September",
-            nsfasAccredited: true,
-            accommodationAvailable: true,
-            bursariesAvailable: true,
-            bachelorPassRequired: false,
-            languageMedium: "English",
-            relevanceScore: source.relevanceScore || 1
-        }));
+        return this.toUniversityResults(aiResult.sources);
     } catch (error) {
         console.error('Error in search method:', error);
         return [];
@@ -328,52 +372,15 @@ async search(query, filters = {}, limit = 20) {
     async searchWithAI(query, options = {}) {
         try {
             console.log(`🔍 AI Search using PDF context: "${query}"`);
-            
-            if (this.pdfDocuments.size === 0) {
-                return {
-                    answer: "I don't have any university PDF documents loaded yet. Please upload university brochures, prospectuses, or information documents first.",
-                    sources: [],
-                    searchType: 'no-pdfs',
-                    success: false
-                };
-            }
 
-            // Find relevant PDF documents
-            const relevantDocs = await this.findRelevantDocuments(query);
-            
-            if (relevantDocs.length === 0) {
-                return {
-                    answer: `I couldn't find specific information about "${query}" in the available university documents. The information might not be covered in the uploaded PDFs, or you might need to upload more relevant documents.`,
-                    sources: Array.from(this.pdfDocuments.values()).map(doc => ({
-                        fileName: doc.fileName,
-                        universityName: doc.universityName,
-                        relevantContent: 'Document available but no specific match found'
-                    })),
-                    searchType: 'no-match',
-                    success: false
-                };
-            }
+            const retrieval = await this.retrieveForAnswer(query, options);
+            if (retrieval.result) return retrieval.result;
 
-            // Create context from relevant documents
-            const context = this.buildContext(relevantDocs, query);
-            
             // Generate AI response using ONLY the PDF context
-            const aiResponse = await this.generateContextualResponse(query, context);
+            const aiResponse = await this.generateContextualResponse(query, retrieval.context, options.conversation);
             
             console.log('✅ AI search completed using PDF context');
-            
-            return {
-                answer: aiResponse,
-                sources: relevantDocs.map(doc => ({
-                    fileName: doc.fileName,
-                    universityName: doc.universityName,
-                    relevantContent: this.getRelevantExcerpt(doc, query)
-                })),
-                searchType: 'pdf-context',
-                documentsSearched: this.pdfDocuments.size,
-                relevantDocuments: relevantDocs.length,
-                success: true
-            };
+            return this.buildAnswerResult(retrieval, aiResponse);
 
         } catch (error) {
             console.error('❌ PDF context search failed:', error);
@@ -386,58 +393,132 @@ async search(query, filters = {}, limit = 20) {
             };
         }
     }
-    async addUniversity(university) {
-    console.log(`📋 Registered structured data for: ${university.universityName}`);
-    // Could store structured data separately if needed
-    return true;
-    }
 
-    async generateEmbeddings(content) {
-        // Placeholder for Azure OpenAI embeddings
-        // In a full implementation, this would call Azure OpenAI embedding API
-        console.log('🔄 Embedding generation (ready for Azure OpenAI integration)');
-        return null;
+    /**
+     * Same as searchWithAI, but hands each piece of the answer to onToken as the
+     * model produces it. Aborting options.signal cancels the upstream request.
+     */
+    async streamWithAI(query, { onToken, signal, ...options } = {}) {
+        console.log(`🔍 Streaming AI answer using PDF context: "${query}"`);
+
+        const retrieval = await this.retrieveForAnswer(query, options);
+        if (retrieval.result) {
+            onToken(retrieval.result.answer);
+            return retrieval.result;
+        }
+
+        const aiResponse = await this.streamContextualResponse(query, retrieval.context, {
+            onToken,
+            signal,
+            conversation: options.conversation
+        });
+
+        console.log('✅ AI answer streamed using PDF context');
+        return this.buildAnswerResult(retrieval, aiResponse);
     }
-    async findRelevantDocuments(query) {
-        const queryLower = query.toLowerCase();
-        const relevantDocs = [];
 
-        // Score documents based on relevance to query
-        for (const [fileName, doc] of this.pdfDocuments) {
-            let score = 0;
-            const content = doc.content.toLowerCase();
+    /**
+     * Find the passages to answer from. A follow-up in options.conversation is
+     * first rewritten into a standalone query. Returns { result } instead when
+     * there is nothing to answer from, so the caller can reply without asking the model.
+     */
+    async retrieveForAnswer(query, options = {}) {
+        if (this.pdfDocuments.size === 0) {
+            return {
+                result: {
+                    answer: "I don't have any university PDF documents loaded yet. Please upload university brochures, prospectuses, or information documents first.",
+                    sources: [],
+                    searchType: 'no-pdfs',
+                    success: false
+                }
+            };
+        }
 
-            // Basic keyword matching
-            const queryWords = queryLower.split(/\s+/).filter(word => word.length > 2);
-            
-            queryWords.forEach(word => {
-                const matches = (content.match(new RegExp(word, 'g')) || []).length;
-                score += matches;
-            });
+        const retrievalQuery = await this.rewriteFollowUp(query, options.conversation);
 
-            // Boost score for university name matches
-            if (content.includes(queryLower) || queryLower.includes(doc.universityName.toLowerCase())) {
-                score += 10;
-            }
+        // Find relevant PDF documents
+        const relevantDocs = await this.findRelevantDocuments(retrievalQuery, options.top || 5);
+        
+        if (relevantDocs.length === 0) {
+            return {
+                result: {
+                    answer: `I couldn't find specific information about "${query}" in the available university documents. The information might not be covered in the uploaded PDFs, or you might need to upload more relevant documents.`,
+                    sources: Array.from(this.pdfDocuments.values()).map(doc => ({
+                        fileName: doc.fileName,
+                        universityName: doc.universityName,
+                        relevantContent: 'Document available but no specific match found'
+                    })),
+                    searchType: 'no-match',
+                    retrievalQuery,
+                    success: false
+                }
+            };
+        }
 
-            // Check sections for specific topics
-            if (queryLower.includes('fee') || queryLower.includes('cost') || queryLower.includes('cheap')) {
-                if (doc.sections.fees) score += 5;
-            }
-            
-            if (queryLower.includes('admission') || queryLower.includes('requirement')) {
-                if (doc.sections.admissionRequirements) score += 5;
-            }
+        // Create context from relevant documents
+        return { retrievalQuery, relevantDocs, context: this.buildContext(relevantDocs) };
+    }
 
-            if (score > 0) {
-                relevantDocs.push({ ...doc, relevanceScore: score });
-            }
+    buildAnswerResult({ retrievalQuery, relevantDocs }, answer) {
+        // Check the answer against exactly what the model was shown
+        const grounding = this.groundingVerifier.verify(answer, relevantDocs.map((doc, index) => ({
+            id: index + 1,
+            content: this.formatPassage(doc)
+        })));
+        if (grounding.summary.unsupported + grounding.summary.contradicted > 0) {
+            console.log(`⚠️ Answer grounding: ${grounding.summary.unsupported} unsupported, ${grounding.summary.contradicted} contradicted of ${grounding.summary.total} claims`);
         }
 
-        // Sort by relevance and return top documents
-        return relevantDocs
-            .sort((a, b) => b.relevanceScore - a.relevanceScore)
-            .slice(0, 5); // Limit to top 5 most relevant documents
+        return {
+            answer,
+            grounding,
+            sources: relevantDocs.map((doc, index) => {
+                const excerpt = this.getRelevantExcerpt(doc, retrievalQuery);
+                return {
+                    id: index + 1,
+                    ...this.describeSource(doc),
+                    universityName: doc.universityName,
+                    excerpt,
+                    relevantContent: excerpt,
+                    relevanceScore: doc.relevanceScore
+                };
+            }),
+            searchType: 'pdf-context',
+            retrievalQuery,
+            documentsSearched: this.pdfDocuments.size,
+            relevantDocuments: relevantDocs.length,
+            retrieval: {
+                ...this.hybridRetriever.getConfig(),
+                results: relevantDocs.map(doc => ({ fileName: doc.fileName, score: doc.relevanceScore, ...doc.scoreBreakdown }))
+            },
+            success: true
+        };
+    }
+    async addUniversity(university) {
+    console.log(`📋 Registered structured data for: ${university.universityName}`);
+    // Could store structured data separately if needed
+    return true;
+    }
+
+    async getById(id) {
+        return this.universityRegistry.getById(id);
+    }
+
+    async generateEmbeddings(content) {
+        const [vector] = await this.embeddingProvider.embed([content]);
+        return vector;
+    }
+    /**
+     * Top passages for a query from the hybrid keyword and semantic ranking.
+     * A file that was split into chunks is represented by its chunks only, so
+     * every passage can be cited with its page range.
+     */
+    async findRelevantDocuments(query, limit = 5) {
+        const hits = await this.hybridRetriever.retrieve(query, limit * 3);
+        return hits
+            .filter(hit => this.pdfDocuments.has(hit.id) && !this.pdfDocuments.has(`${hit.id}_chunk_0`))
+            .slice(0, limit)
+            .map(hit => ({ ...this.pdfDocuments.get(hit.id), relevanceScore: hit.score, scoreBreakdown: hit.breakdown }));
     }
 
     // Add this method to your PDFContextSearchService class
@@ -465,16 +546,21 @@ async uploadDocument(doc) {
             // Enhanced AI metadata
             chunkIndex: doc.chunkIndex,
             totalChunks: doc.totalChunks,
+            sourceFile: doc.fileName,
+            pageStart: doc.pageStart,
+            pageEnd: doc.pageEnd,
             summary: doc.summary,
             keyPhrases: doc.keyPhrases,
             extractedEntities: doc.extractedEntities,
-            contentVector: doc.contentVector,
             documentType: 'ai-chunk'
         };
 
-        // Add chunk to our searchable documents
+        // Add chunk to our searchable documents - the caller saves once the batch is in
         this.pdfDocuments.set(chunkFileName, chunkDocument);
-        await this.savePDFData();
+        this.indexDocument(chunkFileName, chunkDocument);
+        if (doc.contentVector) {
+            this.vectorStore.upsert(chunkFileName, doc.contentVector);
+        }
         
         return true;
     } catch (error) {
@@ -483,74 +569,174 @@ async uploadDocument(doc) {
     }
 }
 
-    buildContext(relevantDocs, query) {
-        let context = "University Information from Official Documents:\n\n";
-        
-        relevantDocs.forEach(doc => {
-            context += `=== ${doc.universityName} (${doc.fileName}) ===\n`;
-            
-            // Add most relevant sections based on query
-            if (query.toLowerCase().includes('fee') || query.toLowerCase().includes('cost') || query.toLowerCase().includes('cheap')) {
-                if (doc.sections.fees) {
-                    context += `FEES INFORMATION:\n${doc.sections.fees}\n\n`;
-                }
-            }
-            
-            if (query.toLowerCase().includes('admission') || query.toLowerCase().includes('requirement')) {
-                if (doc.sections.admissionRequirements) {
-                    context += `ADMISSION REQUIREMENTS:\n${doc.sections.admissionRequirements}\n\n`;
-                }
+    /**
+     * Number the retrieved passages for the prompt. The model cites them as
+     * [1], [2]... and the same numbers come back as the answer's sources.
+     */
+    buildContext(relevantDocs) {
+        let context = '';
+
+        relevantDocs.forEach((doc, index) => {
+            const entry = `[${index + 1}] ${this.formatPassage(doc)}\n\n`;
+            if (context.length + entry.length <= MAX_CONTEXT_CHARS) {
+                context += entry;
             }
+        });
 
-            if (query.toLowerCase().includes('program') || query.toLowerCase().includes('course')) {
-                if (doc.sections.programs) {
-                    context += `PROGRAMS OFFERED:\n${doc.sections.programs}\n\n`;
-                }
-            }
+        return context;
+    }
 
-            // Add general content excerpt
-            const excerpt = doc.content.substring(0, 500);
-            context += `GENERAL INFO:\n${excerpt}...\n\n`;
-        });
+    // A passage as the model sees it: where it is from, then its text
+    formatPassage(doc) {
+        const source = this.describeSource(doc);
+        const pages = source.page ? `, ${this.formatPages(source.page, source.pageEnd)}` : '';
+        return `${doc.universityName} - ${source.fileName}${pages}\n${doc.content.substring(0, MAX_PASSAGE_CHARS)}`;
+    }
 
-        return context.substring(0, 8000); // Limit context length for AI
+    // The PDF a passage came from, and its pages when the chunk recorded them
+    describeSource(doc) {
+        return {
+            fileName: doc.sourceFile || doc.fileName.replace(/_chunk_\d+$/, ''),
+            page: doc.pageStart || null,
+            pageEnd: doc.pageEnd || doc.pageStart || null
+        };
     }
 
-    async generateContextualResponse(query, context) {
+    formatPages(page, pageEnd) {
+        return pageEnd && pageEnd !== page ? `pp. ${page}-${pageEnd}` : `p. ${page}`;
+    }
+
+    async generateContextualResponse(query, context, conversation) {
         try {
-            const systemPrompt = `You are a university advisor with access to official university documents. 
-            IMPORTANT RULES:
-            1. ONLY use information from the provided document context
-            2. If information is not in the context, clearly state "This information is not available in the provided documents"
-            3. Always cite which university document the information comes from
-            4. Be specific about fees, requirements, and deadlines when available
-            5. If comparing universities, only compare those mentioned in the context`;
-
-            const userPrompt = `Based on the university documents provided below, please answer this question: "${query}"
-
-            DOCUMENT CONTEXT:
-            ${context}
-
-            Please provide a helpful and accurate answer based ONLY on the information in these documents.`;
-
-            const response = await this.openaiClient.chat.completions.create({
-                model: this.deploymentName,
-                messages: [
-                    { role: 'system', content: systemPrompt },
-                    { role: 'user', content: userPrompt }
-                ],
-                max_tokens: 800,
+            return await this.llm.complete(this.buildAnswerMessages(query, context, conversation), {
+                task: 'answer',
+                maxTokens: 800,
                 temperature: 0.3 // Lower temperature for more factual responses
             });
 
-            return response.choices[0].message.content;
-
         } catch (error) {
             console.error('❌ Error generating contextual response:', error);
             throw error;
         }
     }
 
+    /**
+     * Stream the answer token by token, resolving to the full text
+     */
+    async streamContextualResponse(query, context, { onToken, signal, conversation } = {}) {
+        const stream = this.llm.stream(this.buildAnswerMessages(query, context, conversation), {
+            task: 'answer',
+            maxTokens: 800,
+            temperature: 0.3,
+            signal
+        });
+
+        let answer = '';
+        for await (const token of stream) {
+            answer += token;
+            onToken(token);
+        }
+
+        return answer;
+    }
+
+    /**
+     * System prompt, then the conversation so far (summary and recent turns),
+     * then the question with this turn's numbered passages
+     */
+    buildAnswerMessages(query, context, conversation = null) {
+        const systemPrompt = `You are a university advisor with access to official university documents. 
+        IMPORTANT RULES:
+        1. ONLY use information from the provided document context
+        2. If information is not in the context, clearly state "This information is not available in the provided documents"
+        3. Cite every fact inline with the number of the passage it comes from, e.g. [2] or [1][3]. Only use the numbers given in the context
+        4. Be specific about fees, requirements, and deadlines when available
+        5. If comparing universities, only compare those mentioned in the context`;
+
+        const userPrompt = `Based on the university documents provided below, please answer this question: "${query}"
+
+        NUMBERED DOCUMENT PASSAGES:
+        ${context}
+
+        Please provide a helpful and accurate answer based ONLY on the information in these documents.`;
+
+        const history = [];
+        if (conversation && conversation.summary) {
+            history.push({ role: 'system', content: `Summary of the conversation so far:\n${conversation.summary}` });
+        }
+        if (conversation && conversation.messages.length > 0) {
+            history.push(
+                { role: 'system', content: 'Earlier answers cite passages from earlier turns. Cite only the numbered passages given with the latest question.' },
+                ...conversation.messages
+            );
+        }
+
+        return [
+            { role: 'system', content: systemPrompt },
+            ...history,
+            { role: 'user', content: userPrompt }
+        ];
+    }
+
+    /**
+     * Turn a follow-up such as "what about at Wits?" into a question that can be
+     * searched on its own. Standalone questions come back unchanged.
+     */
+    async rewriteFollowUp(question, conversation) {
+        if (!conversation || (conversation.messages.length === 0 && !conversation.summary)) {
+            return question;
+        }
+
+        const transcript = [
+            conversation.summary ? `Summary: ${conversation.summary}` : '',
+            ...conversation.messages.map(message => `${message.role === 'user' ? 'Student' : 'Advisor'}: ${message.content.substring(0, 500)}`)
+        ].filter(Boolean).join('\n');
+
+        try {
+            const response = await this.llm.complete([
+                {
+                    role: 'system',
+                    content: 'Rewrite the student\'s latest question as a standalone search query for university prospectuses, filling in universities, programmes and topics it refers back to. If it already stands alone, return it unchanged. Reply with the query only.'
+                },
+                { role: 'user', content: `Conversation:\n${transcript}\n\nLatest question: ${question}` }
+            ], { task: 'rewrite', maxTokens: 100, temperature: 0 });
+
+            const rewritten = response.trim().replace(/^"|"$/g, '');
+            if (rewritten) {
+                console.log(`🧠 Follow-up rewritten for retrieval: "${rewritten}"`);
+                return rewritten;
+            }
+        } catch (error) {
+            console.error('❌ Failed to rewrite follow-up question:', error.message);
+        }
+
+        // Searching with the previous question as well keeps its subject in the query
+        const lastQuestion = [...conversation.messages].reverse().find(message => message.role === 'user');
+        return lastQuestion ? `${lastQuestion.content} ${question}` : question;
+    }
+
+    /**
+     * Fold older turns into the running conversation summary
+     */
+    async summarizeConversation(previousSummary, messages) {
+        const transcript = messages
+            .map(message => `${message.role === 'user' ? 'Student' : 'Advisor'}: ${message.content}`)
+            .join('\n');
+
+        const summary = await this.llm.complete([
+            {
+                role: 'system',
+                content: 'Summarise this conversation between a student and a university advisor in at most 150 words. Keep the universities, programmes, marks, APS scores, fees and deadlines discussed, and what the student still wants to know.'
+            },
+            {
+                role: 'user',
+                content: `${previousSummary ? `Summary so far:\n${previousSummary}\n\n` : ''}New messages:\n${transcript}`
+            }
+        ], { task: 'summarize', maxTokens: 300, temperature: 0.2 });
+
+        return summary.trim();
+    }
+
     getRelevantExcerpt(doc, query) {
         const queryWords = query.toLowerCase().split(/\s+/);
         const content = doc.content.toLowerCase();
@@ -595,15 +781,54 @@ async uploadDocument(doc) {
         return summary;
     }
 
-    // Remove a PDF document
+    /**
+     * Chunks stored for a source file, keyed "<file>_chunk_<n>"
+     */
+    getChunkIds(fileName) {
+        const prefix = `${fileName}_chunk_`;
+        return Array.from(this.pdfDocuments.keys()).filter(id => id.startsWith(prefix));
+    }
+
+    hasChunks(fileName) {
+        return this.getChunkIds(fileName).length > 0;
+    }
+
+    // Drop a source file's chunks before it is processed again - the caller saves
+    removeChunks(fileName) {
+        const ids = this.getChunkIds(fileName);
+        ids.forEach(id => {
+            this.pdfDocuments.delete(id);
+            this.keywordIndex.remove(id);
+            this.vectorStore.remove(id);
+        });
+        return ids.length;
+    }
+
+    /**
+     * Remove a PDF document: its whole-file entry and its chunks, from the store and
+     * both indexes, and its manifest entry, which no longer describes stored output
+     */
     async removePDFDocument(fileName) {
-        if (this.pdfDocuments.has(fileName)) {
+        const hasDocument = this.pdfDocuments.has(fileName);
+        if (!hasDocument && !this.hasChunks(fileName)) {
+            return false;
+        }
+
+        if (hasDocument) {
             this.pdfDocuments.delete(fileName);
-            await this.savePDFData();
-            console.log(`📄 Removed PDF document: ${fileName}`);
-            return true;
+            this.keywordIndex.remove(fileName);
+            this.vectorStore.remove(fileName);
         }
-        return false;
+        const chunkCount = this.removeChunks(fileName);
+        await this.savePDFData();
+
+        const manifest = await new ProcessingManifest(this.manifestPath).load();
+        if (manifest.remove(fileName)) {
+            await manifest.save();
+        }
+
+        console.log(`📄 Removed PDF document: ${fileName} (${chunkCount} chunks)`);
+        return true;
     }
 }
 
@@ -0,0 +1,208 @@
+process.env.LLM_PROVIDER = 'fake';
+process.env.EMBEDDING_PROVIDER = 'local';
+
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const PDFContextSearchService = require('./searchService');
+const ProcessingManifest = require('./processingManifest');
+
+const UCT = 'uct-prospectus.pdf';
+const WITS = 'wits-guide.pdf';
+
+// Page-cited chunks as the PDF processor hands them over
+const chunks = [
+    {
+        fileName: UCT, universityName: 'University of Cape Town', chunkIndex: 0, totalChunks: 2, pageStart: 12, pageEnd: 13,
+        content: 'Engineering and the Built Environment. Applicants for BSc Engineering need an APS of 42 with Mathematics and Physical Sciences at level 7.'
+    },
+    {
+        fileName: UCT, universityName: 'University of Cape Town', chunkIndex: 1, totalChunks: 2, pageStart: 14, pageEnd: 14,
+        content: 'Residence applications. Applications for a place in residence close on 30 September for first-year students.'
+    },
+    {
+        fileName: WITS, universityName: 'University of the Witwatersrand', chunkIndex: 0, totalChunks: 1, pageStart: 7, pageEnd: 7,
+        content: 'Faculty of Health Sciences. The MBBCh programme requires the National Benchmark Test and Mathematics at level 6.'
+    }
+].map(chunk => ({ ...chunk, id: `${chunk.fileName}-${chunk.chunkIndex}`, summary: '', keyPhrases: [], extractedEntities: {}, uploadDate: '2026-01-01' }));
+
+// A search service over the given chunks, without reading or writing the stored documents
+const createService = async () => {
+    jest.spyOn(PDFContextSearchService.prototype, 'loadExistingPDFs').mockResolvedValue();
+    const service = new PDFContextSearchService({});
+    await service.ready;
+
+    // The whole-file entry is replaced by its chunks at retrieval
+    service.storePDFDocument({ fileName: UCT, universityName: 'University of Cape Town', content: chunks[0].content + chunks[1].content });
+    for (const chunk of chunks) {
+        await service.uploadDocument({ ...chunk, contentVector: await service.generateEmbeddings(chunk.content) });
+    }
+    return service;
+};
+
+beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+afterEach(() => {
+    jest.restoreAllMocks();
+});
+
+test('retrieval returns chunks, never the whole file they were split from', async () => {
+    const service = await createService();
+    const docs = await service.findRelevantDocuments('engineering APS mathematics', 5);
+
+    expect(docs.length).toBeGreaterThan(0);
+    expect(docs.every(doc => doc.fileName.includes('_chunk_'))).toBe(true);
+    expect(docs[0].fileName).toBe(`${UCT}_chunk_0`);
+});
+
+test('passages are numbered with their file and page range', async () => {
+    const service = await createService();
+    const context = service.buildContext([
+        service.pdfDocuments.get(`${UCT}_chunk_0`),
+        service.pdfDocuments.get(`${WITS}_chunk_0`)
+    ]);
+
+    expect(context).toContain(`[1] University of Cape Town - ${UCT}, pp. 12-13\n`);
+    expect(context).toContain(`[2] University of the Witwatersrand - ${WITS}, p. 7\n`);
+});
+
+test('sources carry the passage numbers the answer cites', async () => {
+    const service = await createService();
+    const result = await service.searchWithAI('What APS does engineering need?', { top: 2 });
+
+    expect(result.success).toBe(true);
+    expect(result.sources.map(source => source.id)).toEqual([1, 2]);
+    expect(result.sources[0]).toMatchObject({ fileName: UCT, page: 12, pageEnd: 13, universityName: 'University of Cape Town' });
+
+    const cited = Array.from(result.answer.matchAll(/\[(\d+)\]/g), match => Number(match[1]));
+    expect(cited.length).toBeGreaterThan(0);
+    expect(cited.every(number => result.sources.some(source => source.id === number))).toBe(true);
+});
+
+test('a whole-file document is cited by its file name without pages', () => {
+    const service = Object.create(PDFContextSearchService.prototype);
+
+    expect(service.describeSource({ fileName: 'brochure.pdf' })).toEqual({ fileName: 'brochure.pdf', page: null, pageEnd: null });
+    expect(service.describeSource({ fileName: `${UCT}_chunk_3`, pageStart: 5 })).toEqual({ fileName: UCT, page: 5, pageEnd: 5 });
+});
+
+test('removing a file drops its chunks from retrieval', async () => {
+    const service = await createService();
+    expect(service.removeChunks(UCT)).toBe(2);
+
+    const docs = await service.findRelevantDocuments('engineering residence', 5);
+    expect(docs.some(doc => doc.fileName.startsWith(`${UCT}_chunk_`))).toBe(false);
+});
+
+test('a deleted PDF is no longer searched and leaves the processing manifest', async () => {
+    const service = await createService();
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-'));
+    jest.spyOn(service, 'savePDFData').mockResolvedValue();
+    service.manifestPath = path.join(dir, 'manifest.json');
+
+    const manifest = new ProcessingManifest(service.manifestPath);
+    manifest.record({ file: UCT, university: 'University of Cape Town' }, 'uct-hash', { chunkCount: 2 });
+    manifest.record({ file: WITS, university: 'University of the Witwatersrand' }, 'wits-hash', { chunkCount: 1 });
+    await manifest.save();
+
+    expect(await service.removePDFDocument(UCT)).toBe(true);
+
+    const docs = await service.findRelevantDocuments('engineering APS mathematics residence', 5);
+    expect(docs.map(doc => doc.fileName)).toEqual([`${WITS}_chunk_0`]);
+    expect(service.pdfDocuments.has(UCT)).toBe(false);
+    expect((await new ProcessingManifest(service.manifestPath).load()).files()).toEqual([WITS]);
+    expect(await service.removePDFDocument(UCT)).toBe(false);
+
+    await fs.rm(dir, { recursive: true });
+});
+
+test('a streamed answer arrives in pieces that add up to the returned answer', async () => {
+    const service = await createService();
+    const pieces = [];
+    const result = await service.streamWithAI('What APS does engineering need?', { top: 2, onToken: text => pieces.push(text) });
+
+    expect(pieces.length).toBeGreaterThan(1);
+    expect(pieces.join('')).toBe(result.answer);
+    expect(result.sources.map(source => source.id)).toEqual([1, 2]);
+});
+
+test('aborting the signal stops the stream part way', async () => {
+    const service = await createService();
+    const controller = new AbortController();
+    const pieces = [];
+
+    await expect(service.streamWithAI('What APS does engineering need?', {
+        signal: controller.signal,
+        onToken: text => {
+            pieces.push(text);
+            if (pieces.length === 3) controller.abort();
+        }
+    })).rejects.toMatchObject({ name: 'AbortError' });
+    expect(pieces).toHaveLength(3);
+});
+
+test('a follow-up is rewritten into a standalone query from the conversation', async () => {
+    const service = await createService();
+    const conversation = {
+        summary: '',
+        messages: [
+            { role: 'user', content: 'What APS does UCT engineering need?' },
+            { role: 'assistant', content: 'An APS of 42 [1]' }
+        ]
+    };
+    const complete = jest.spyOn(service.llm, 'complete');
+
+    const query = await service.rewriteFollowUp('And at Wits?', conversation);
+
+    expect(query).toBe('What APS does UCT engineering need? And at Wits?');
+    expect(complete).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ task: 'rewrite' }));
+    expect(complete.mock.calls[0][0][1].content).toContain('Student: What APS does UCT engineering need?');
+});
+
+test('a first question is searched as asked', async () => {
+    const service = await createService();
+    const complete = jest.spyOn(service.llm, 'complete');
+
+    expect(await service.rewriteFollowUp('What APS does UCT engineering need?', { summary: '', messages: [] })).toBe('What APS does UCT engineering need?');
+    expect(complete).not.toHaveBeenCalled();
+});
+
+test('when the rewrite fails the previous question is searched with the follow-up', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+    const service = await createService();
+    jest.spyOn(service.llm, 'complete').mockRejectedValue(new Error('offline'));
+
+    const query = await service.rewriteFollowUp('And at Wits?', {
+        summary: '',
+        messages: [{ role: 'user', content: 'MBBCh requirements' }, { role: 'assistant', content: 'Level 6 Mathematics [1]' }]
+    });
+    expect(query).toBe('MBBCh requirements And at Wits?');
+});
+
+test('the summary prompt carries the previous summary and the new turns', async () => {
+    const service = await createService();
+    const complete = jest.spyOn(service.llm, 'complete');
+
+    const summary = await service.summarizeConversation('Asked about UCT.', [
+        { role: 'user', content: 'And Wits?' },
+        { role: 'assistant', content: 'Wits needs the NBT [1]' }
+    ]);
+
+    expect(complete).toHaveBeenCalledWith(expect.any(Array), expect.objectContaining({ task: 'summarize' }));
+    expect(complete.mock.calls[0][0][1].content).toBe('Summary so far:\nAsked about UCT.\n\nNew messages:\nStudent: And Wits?\nAdvisor: Wits needs the NBT [1]');
+    expect(summary).toBe('Asked about UCT.\nThe student asked: And Wits?');
+});
+
+test('earlier turns go into the answer prompt before the new passages', async () => {
+    const service = await createService();
+    const messages = service.buildAnswerMessages('And at Wits?', '[1] passage', {
+        summary: 'Asked about UCT.',
+        messages: [{ role: 'user', content: 'UCT?' }, { role: 'assistant', content: 'APS 42 [1]' }]
+    });
+
+    expect(messages.map(message => message.role)).toEqual(['system', 'system', 'system', 'user', 'assistant', 'user']);
+    expect(messages[1].content).toContain('Asked about UCT.');
+    expect(messages[5].content).toContain('[1] passage');
+});
@@ -0,0 +1,261 @@
+/**
+ * Table Extractor
+ * Rebuilds requirement tables from the positioned text of a PDF page. A table
+ * is found by its "Programmes" and "APS" header cells, each column spans the
+ * width of its header label, and every cell joins the programme row it sits beside.
+ */
+//tableExtractor.js
+
+// Items this close vertically are on the same line
+const LINE_TOLERANCE = 1.5;
+
+// Label lines further apart than this are a label and the first row's cell below it
+const MAX_LABEL_GAP = 12;
+
+// Slack when placing a cell in a column, and how far outside any column it may fall
+const COLUMN_TOLERANCE = 4;
+const MAX_COLUMN_DISTANCE = 20;
+
+// The "APS" header cell sits at most this far from the "Programmes" one
+const MAX_HEADER_WIDTH = 320;
+const MAX_HEADER_OFFSET = 35;
+
+// Header labels reach this far above the "APS" cell when there is no title
+const HEADER_HEIGHT = 40;
+
+// The title over the column labels, e.g. "Minimum requirements for NSC/IEB for 2026 / Achievement level"
+const TITLE_TEXT = /Minimum|requirements|NSC|IEB|Achievement|^level$/i;
+
+class TableExtractor {
+    /**
+     * @param {Object} options - rowStart, a pattern matching the first line of a
+     *   row's name, nameEnd, one matching its last line (e.g. the duration), and
+     *   rowEnd, one matching notes that follow a row
+     */
+    constructor(options = {}) {
+        this.rowStart = options.rowStart || /^\S/;
+        this.nameEnd = options.nameEnd || null;
+        this.rowEnd = options.rowEnd || null;
+    }
+
+    /**
+     * @param {Array<{text: string, x: number, y: number, width: number}>} items -
+     *   the text items of one page, in PDF coordinates (y grows upwards)
+     * @returns {Array<{columns: Array, rows: Array<{name: string, cells: Object, top: number, bottom: number}>}>}
+     *   tables top to bottom, each row's cells keyed by column label
+     */
+    extract(items) {
+        const textItems = items
+            .map(item => ({ ...item, text: item.text.replace(/\s+/g, ' ').trim() }))
+            .filter(item => item.text);
+
+        const headers = this.findHeaders(textItems);
+        return headers
+            .map(header => {
+                // A table ends where the next one below it in the same page column starts
+                const next = headers
+                    .filter(other => other !== header && other.top < header.bottom && this.overlaps(other, header))
+                    .sort((a, b) => b.top - a.top)[0];
+                return this.readTable(textItems, header, next ? next.top : -Infinity);
+            })
+            .filter(table => table.rows.length > 0);
+    }
+
+    /**
+     * Header rows with the extent of each column label
+     */
+    findHeaders(items) {
+        const headers = [];
+
+        items.filter(item => item.text === 'APS').forEach(aps => {
+            const programmes = items.find(item => item.text === 'Programmes'
+                && item.x < aps.x && aps.x - item.x < MAX_HEADER_WIDTH
+                && Math.abs(item.y - aps.y) < MAX_HEADER_OFFSET);
+            if (!programmes) return;
+
+            const x0 = programmes.x - COLUMN_TOLERANCE;
+            const x1 = aps.x + aps.width + COLUMN_TOLERANCE * 2;
+            const inTable = item => item.x >= x0 && item.x <= x1;
+
+            // Labels end above the first row; section headings can sit beside them
+            const rowStarts = items.filter(item => inTable(item)
+                && Math.abs(item.x - programmes.x) <= COLUMN_TOLERANCE
+                && item.y < Math.min(aps.y, programmes.y) - LINE_TOLERANCE
+                && this.rowStart.test(item.text));
+            const bodyTop = rowStarts.length > 0 ? Math.max(...rowStarts.map(item => item.y)) : -Infinity;
+
+            const titles = items.filter(item => inTable(item) && TITLE_TEXT.test(item.text)
+                && item.y > aps.y - HEADER_HEIGHT && item.y < aps.y + HEADER_HEIGHT * 2);
+            const labelTop = titles.length > 0 ? Math.min(...titles.map(item => item.y)) : aps.y + HEADER_HEIGHT;
+
+            const labels = items.filter(item => inTable(item)
+                && item !== aps
+                && item.x >= programmes.x + programmes.width
+                && item.y > bodyTop + LINE_TOLERANCE
+                && item.y < labelTop - LINE_TOLERANCE);
+
+            const columns = [...this.groupColumns(labels), { label: 'APS', x0: aps.x, x1: aps.x + aps.width, bottom: aps.y }]
+                .sort((a, b) => a.x0 - b.x0);
+
+            headers.push({
+                x0,
+                x1,
+                top: Math.max(labelTop, ...titles.map(item => item.y)),
+                // Tall cells of the first row can start above its name, so the body starts under the labels
+                bottom: Math.min(...columns.map(column => column.bottom), programmes.y) - LINE_TOLERANCE,
+                columns
+            });
+        });
+
+        return headers;
+    }
+
+    /**
+     * Label items that overlap horizontally form one column, read top to bottom
+     */
+    groupColumns(labels) {
+        const columns = [];
+
+        [...labels].sort((a, b) => a.x - b.x).forEach(item => {
+            const column = columns.find(candidate => item.x <= candidate.x1 && item.x + item.width >= candidate.x0);
+            if (column) {
+                column.items.push(item);
+                column.x0 = Math.min(column.x0, item.x);
+                column.x1 = Math.max(column.x1, item.x + item.width);
+            } else {
+                columns.push({ x0: item.x, x1: item.x + item.width, items: [item] });
+            }
+        });
+
+        return columns.map(({ x0, x1, items }) => {
+            // Top to bottom until a gap - anything below it is a cell of the first row
+            const sorted = [...items].sort((a, b) => b.y - a.y);
+            const gap = sorted.findIndex((item, index) => index > 0 && sorted[index - 1].y - item.y > MAX_LABEL_GAP);
+            const labelItems = gap === -1 ? sorted : sorted.slice(0, gap);
+
+            return {
+                label: this.joinText(labelItems),
+                x0,
+                x1,
+                bottom: Math.min(...labelItems.map(item => item.y))
+            };
+        });
+    }
+
+    readTable(items, header, floor) {
+        const firstColumn = header.columns[0];
+        const body = items.filter(item => item.x >= header.x0 && item.x <= header.x1
+            && item.y < header.bottom && item.y > floor);
+
+        const rows = [];
+        const cells = [];
+        const notes = [];
+        let row = null;
+
+        this.groupLines(body).forEach(line => {
+            const y = line[0].y;
+            const nameItems = line.filter(item => item.x < firstColumn.x0 - COLUMN_TOLERANCE);
+            const nameText = this.joinText(nameItems);
+
+            // Notes start in the programme column and run past the first cell; names wrap before it
+            const isNote = nameItems.length > 0 && (
+                nameItems.some(item => item.x + item.width > firstColumn.x1 + COLUMN_TOLERANCE)
+                || (this.rowEnd && this.rowEnd.test(nameText))
+            );
+
+            if (!isNote && nameText && (!row || row.complete) && this.rowStart.test(nameText)) {
+                row = { name: nameText, top: y, bottom: y, complete: false, cells: {} };
+                rows.push(row);
+            } else if (!isNote && nameText && row && !row.complete) {
+                row.name = `${row.name} ${nameText}`;
+                row.bottom = y;
+            } else if (nameText) {
+                // Notes, section headings and anything else between rows
+                notes.push(y);
+                row = null;
+                return;
+            }
+
+            if (row && this.nameEnd && this.nameEnd.test(nameText)) row.complete = true;
+            cells.push(...line.filter(item => !nameItems.includes(item)));
+        });
+
+        // Cells are placed once the rows are known: a tall cell starts above its
+        // row's name, and it belongs to the nearest row with no note in between
+        const columnText = new Map();
+        cells.forEach(cell => {
+            const owner = rows
+                .filter(candidate => !notes.some(noteY => this.isBetween(noteY, cell.y, candidate)))
+                .sort((a, b) => this.distanceToRow(cell, a) - this.distanceToRow(cell, b))[0];
+            const column = this.findColumn(cell, header.columns);
+            if (!owner || !column) return;
+
+            const key = `${rows.indexOf(owner)}|${column.label}`;
+            if (!columnText.has(key)) columnText.set(key, []);
+            columnText.get(key).push(cell);
+        });
+
+        columnText.forEach((cellItems, key) => {
+            const separator = key.indexOf('|');
+            rows[parseInt(key.slice(0, separator))].cells[key.slice(separator + 1)] = this.joinText(cellItems);
+        });
+
+        return {
+            columns: header.columns.map(({ label, x0, x1 }) => ({ label, x0, x1 })),
+            rows: rows.map(({ name, cells: rowCells, top, bottom }) => ({ name, cells: rowCells, top, bottom }))
+        };
+    }
+
+    findColumn(cell, columns) {
+        const centre = cell.x + cell.width / 2;
+        const inside = columns.find(column => centre >= column.x0 - COLUMN_TOLERANCE && centre <= column.x1 + COLUMN_TOLERANCE);
+        if (inside) return inside;
+
+        const nearest = [...columns].sort((a, b) => this.distanceToColumn(centre, a) - this.distanceToColumn(centre, b))[0];
+        return nearest && this.distanceToColumn(centre, nearest) <= MAX_COLUMN_DISTANCE ? nearest : null;
+    }
+
+    distanceToColumn(centre, column) {
+        return Math.abs(centre - (column.x0 + column.x1) / 2);
+    }
+
+    // Zero beside the row's name, otherwise how far above or below it
+    distanceToRow(cell, row) {
+        if (cell.y > row.top) return cell.y - row.top;
+        if (cell.y < row.bottom) return row.bottom - cell.y;
+        return 0;
+    }
+
+    isBetween(y, cellY, row) {
+        return cellY > row.top ? y > row.top && y < cellY : y < row.bottom && y > cellY;
+    }
+
+    // Items on the same baseline, top of the page first, each line left to right
+    groupLines(items) {
+        const lines = [];
+        [...items].sort((a, b) => b.y - a.y || a.x - b.x).forEach(item => {
+            const line = lines[lines.length - 1];
+            if (line && Math.abs(line[0].y - item.y) <= LINE_TOLERANCE) {
+                line.push(item);
+            } else {
+                lines.push([item]);
+            }
+        });
+        return lines.map(line => line.sort((a, b) => a.x - b.x));
+    }
+
+    joinText(items) {
+        return [...items]
+            .sort((a, b) => (Math.abs(a.y - b.y) <= LINE_TOLERANCE ? a.x - b.x : b.y - a.y))
+            .map(item => item.text)
+            .join(' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    overlaps(a, b) {
+        return a.x0 < b.x1 && b.x0 < a.x1;
+    }
+}
+
+module.exports = TableExtractor;
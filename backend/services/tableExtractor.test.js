@@ -0,0 +1,151 @@
+const TableExtractor = require('./tableExtractor');
+
+const QUALIFICATION = /^(Bachelor|Diploma)\b/;
+const DURATION = /\[(\d+)\s*years?\]\s*$/i;
+const ROW_END = /^(Suggested|Careers?\b|Note\b)/i;
+
+const item = ([text, x, y, width]) => ({ text, x, y, width });
+
+// The School for the Built Environment tables on page 9 of the 2026 UP prospectus,
+// left column: the Engineering table above, then the Built Environment one
+const builtEnvironment = [
+    ['Minimum\trequirements\tfor\tNSC/IEB\tfor\t2026', 122.4, 774.5, 141.4],
+    ['Achievement\tlevel', 152.4, 760.4, 58.7],
+    ['English\tHome', 103.5, 748, 43.2],
+    ['Programmes', 31.6, 747.1, 40.8],
+    ['Language or ', 105.5, 740.5, 40.9],
+    ['APS', 272.2, 740, 12],
+    ['Physical', 225.5, 736.7, 26],
+    ['English\tFirst', 105.8, 733, 38.4],
+    ['Mathematics', 160.8, 733, 42],
+    ['Sciences', 225, 729.2, 26.9],
+    ['Additional ', 108.5, 725.5, 34.8],
+    ['Language', 109.7, 718, 30.7],
+    ['Bachelor\tof', 31.6, 707.3, 36.2],
+    ['Engineering', 31.6, 699.8, 37.7],
+    ['5', 123.2, 699.8, 3.7],
+    ['65%', 175.5, 699.8, 12.6],
+    ['65%', 232.2, 699.8, 12.6],
+    ['33', 274.5, 699.8, 7.3],
+    ['[5 years]', 31.6, 692.3, 25.4],
+    ['This is a five-year programme for all Engineering disciplines. For advice on a second-', 31.6, 681.7, 248.7],
+    ['choice programme, please consult a Student Advisor. To make an appointment, send ', 31.6, 674.2, 253.2],
+    ['an email to carol.bosch@up.ac.za.', 31.6, 666.7, 100.5],
+    ['Note: ', 31.6, 656, 19.2],
+    ['The admission requirements above are relevant to prospective students who ', 50.7, 656, 229.6],
+    ['will commence their studies in 2026. Admission to the five-year programme in the ', 31.6, 648.5, 244],
+    ['School of Engineering will be determined by the NSC results.', 31.6, 641, 178.6],
+    ['SCHOOL\tFOR\tTHE\tBUILT\tENVIRONMENT', 28.3, 623.8, 153.3],
+    ['Minimum\trequirements\tfor\tNSC/IEB\tfor\t2026', 122.4, 607, 141.4],
+    ['Achievement\tlevel', 152.4, 592.9, 58.7],
+    ['English\tHome', 103.5, 580.5, 43.2],
+    ['Programmes', 31.6, 579.6, 40.8],
+    ['Language or ', 105.5, 573, 40.9],
+    ['APS', 272.2, 572.5, 12],
+    ['Physical', 225.5, 569.2, 26],
+    ['English\tFirst', 105.8, 565.5, 38.4],
+    ['Mathematics', 160.8, 565.5, 42],
+    ['Sciences', 225, 561.7, 26.9],
+    ['Additional ', 108.5, 558, 34.8],
+    ['Language', 109.7, 550.5, 30.7],
+    ['Bachelor\tof\tScience', 31.6, 539.8, 61.6],
+    ['in\tArchitecture', 31.6, 532.3, 47.9],
+    ['5', 123.2, 532.3, 3.7],
+    ['4', 179.9, 532.3, 3.7],
+    ['4', 236.6, 532.3, 3.7],
+    ['30', 274.5, 532.3, 7.3],
+    ['[3 years]', 31.6, 524.8, 25.4],
+    ['Will only be considered as first study choice. ', 31.6, 514.2, 132.1],
+    ['Selection programme: Selection includes an interview.', 31.6, 506.7, 160],
+    ['Careers: ', 31.6, 496, 27.9],
+    ['The Bachelor of Science in Architecture degree programme enables ', 59.4, 496, 201.5],
+    ['graduates to register with the South African Council for the Architectural Profession ', 31.6, 488.5, 248.6],
+    ['(SACAP) as candidate architectural technologists. The qualification is the first step ', 31.6, 481, 241.7],
+    ['to future registration as a candidate senior architectural technologist or a candidate ', 31.6, 473.5, 249.3],
+    ['architect. ', 31.6, 466, 29.2],
+    ['Bachelor\tof\tScience', 31.6, 455.4, 61.6],
+    ['or Accounting', 217.9, 455.4, 41.1],
+    ['in Construction ', 31.6, 447.9, 50.8],
+    ['5', 123.2, 444.1, 3.7],
+    ['5', 179.9, 444.1, 3.7],
+    ['30', 274.5, 444.1, 7.3],
+    ['Management', 31.6, 440.4, 42.4],
+    ['4', 236.6, 438.8, 3.7],
+    ['[3 years]', 31.6, 432.9, 25.4],
+    ['Suggested\tsecond-choice\tprogramme*:\t', 31.6, 422.2, 125.1],
+    ['Bachelor of Science in Real Estate', 156.7, 422.2, 99],
+    ['Careers:', 31.6, 411.6, 26.2],
+    ['After completing the three-year undergraduate degree programme, ', 59.4, 411.6, 202.4],
+    ['graduates could enter careers in, among others, construction site management or ', 31.6, 404.1, 244.5],
+    ['subcontracting.', 31.6, 396.6, 46],
+    ['On completion of the ensuing one-year honours programme, graduates can ', 31.6, 389.1, 226.9],
+    ['register as candidate professional construction managers or candidate professional ', 31.6, 381.6, 249.2],
+    ['construction project managers and opportunities become much wider, including ', 31.6, 374.1, 240],
+    ['property development, portfolio management, commercial marketing and managerial ', 31.6, 366.6, 256.6],
+    ['positions in the corporate environment.', 31.6, 359.1, 118],
+    ['Bachelor\tof\tScience', 31.6, 348.5, 61.6],
+    ['or Accounting', 217.9, 348.5, 41.1],
+    ['in Real Estate', 31.6, 341, 43],
+    ['5', 123.2, 341, 3.7],
+    ['5', 179.9, 341, 3.7],
+    ['30', 274.5, 341, 7.3],
+    ['4', 236.6, 335.6, 3.7],
+    ['[3 years]', 31.6, 333.5, 25.4]
+].map(item);
+
+const english = 'English Home Language or English First Additional Language';
+
+let extractor;
+
+beforeEach(() => {
+    extractor = new TableExtractor({ rowStart: QUALIFICATION, nameEnd: DURATION, rowEnd: ROW_END });
+});
+
+test('columns are read from the header labels, each spanning its label', () => {
+    const [, table] = extractor.extract(builtEnvironment);
+
+    expect(table.columns.map(column => column.label)).toEqual([english, 'Mathematics', 'Physical Sciences', 'APS']);
+    expect(table.columns[1]).toMatchObject({ x0: 160.8, x1: 202.8 });
+});
+
+test('a table ends where the next one below it starts', () => {
+    const tables = extractor.extract(builtEnvironment);
+
+    expect(tables.map(table => table.rows.map(row => row.name))).toEqual([
+        ['Bachelor of Engineering [5 years]'],
+        [
+            'Bachelor of Science in Architecture [3 years]',
+            'Bachelor of Science in Construction Management [3 years]',
+            'Bachelor of Science in Real Estate [3 years]'
+        ]
+    ]);
+});
+
+test('names wrapping over several lines are joined and each cell joins the row beside it', () => {
+    const [engineering, builtEnvironmentTable] = extractor.extract(builtEnvironment);
+
+    expect(engineering.rows[0].cells).toEqual({ [english]: '5', Mathematics: '65%', 'Physical Sciences': '65%', APS: '33' });
+    expect(builtEnvironmentTable.rows[0].cells).toEqual({ [english]: '5', Mathematics: '4', 'Physical Sciences': '4', APS: '30' });
+});
+
+test('a tall cell starting above its row name still belongs to that row, not the one before', () => {
+    const [, table] = extractor.extract(builtEnvironment);
+
+    // "or Accounting" sits level with the first line of the name, the "4" below it on the last
+    expect(table.rows[1].cells['Physical Sciences']).toBe('or Accounting 4');
+    expect(table.rows[2].cells['Physical Sciences']).toBe('or Accounting 4');
+});
+
+test('notes and career text between rows are not read as cells', () => {
+    const [, table] = extractor.extract(builtEnvironment);
+
+    table.rows.forEach(row => {
+        expect(Object.keys(row.cells)).toEqual(expect.arrayContaining(['APS']));
+        Object.values(row.cells).forEach(cell => expect(cell).toMatch(/^(or Accounting )?\d+%?$/));
+    });
+});
+
+test('a page without a Programmes and APS header has no tables', () => {
+    expect(extractor.extract(builtEnvironment.filter(entry => entry.text !== 'APS'))).toEqual([]);
+    expect(extractor.extract([])).toEqual([]);
+});
@@ -0,0 +1,310 @@
+/**
+ * University Registry
+ * One structured record per university, keyed by a slug of its name
+ * (e.g. "university-of-cape-town") so ids survive reprocessing. A university
+ * has an edition per intake year; the latest is served, earlier ones are kept
+ * so the years can be compared.
+ */
+//universityRegistry.js
+const fs = require('fs').promises;
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+
+// Plausible ranges - anything outside these is an extraction artefact
+// (e.g. a page number picked up as an APS, or a year as a student count)
+const FIELD_RANGES = {
+    apsScoreRequired: { min: 15, max: 50 },
+    tuitionFeesAnnual: { min: 10000, max: 250000 },
+    studentPopulation: { min: 5000, max: 500000 }
+};
+
+// Filled in from the prospectus registry's university metadata
+const REFERENCE_FIELDS = ['province', 'city', 'location', 'universityType', 'publicUniversity', 'establishmentYear', 'description'];
+
+// Read out of the prospectus text
+const EXTRACTED_FIELDS = [
+    'apsScoreRequired', 'applicationDeadline', 'bachelorPassRequired', 'matricRequirements',
+    'subjectRequirements', 'tuitionFeesAnnual', 'accommodationAvailable', 'nsfasAccredited',
+    'bursariesAvailable', 'programs', 'faculties', 'languageMedium', 'studentPopulation'
+];
+
+class UniversityRegistry {
+    constructor(programmeService = new ProgrammeService()) {
+        this.processedDir = path.join(__dirname, '../processed');
+        this.programmeService = programmeService;
+        this.records = new Map(); // "slug|year" -> record as stored
+        this.editions = new Map(); // slug -> Map of year -> record with field sources resolved
+        this.universities = new Map(); // slug -> its latest edition
+        this.lastLoaded = null;
+    }
+
+    /**
+     * "University of KwaZulu-Natal" -> "university-of-kwazulu-natal"
+     */
+    static toSlug(name) {
+        return (name || '')
+            .normalize('NFKD')
+            .replace(/[\u0300-\u036f]/g, '')
+            .toLowerCase()
+            .replace(/[^a-z0-9]+/g, '-')
+            .replace(/^-|-$/g, '');
+    }
+
+    async loadUniversities() {
+        try {
+            const data = await fs.readFile(this.getStorePath(), 'utf8');
+            const records = JSON.parse(data);
+
+            this.records = new Map();
+            records.forEach(record => this.mergeRecord(record));
+            await this.resolveAll();
+
+            this.lastLoaded = new Date().toISOString();
+            console.log(`🏛️ Loaded ${this.universities.size} universities into the registry`);
+        } catch (error) {
+            console.error('❌ Failed to load structured university data:', error.message);
+            this.records = new Map();
+            this.editions = new Map();
+            this.universities = new Map();
+        }
+
+        return this.list();
+    }
+
+    async ensureLoaded() {
+        if (this.universities.size === 0) {
+            await this.loadUniversities();
+        }
+    }
+
+    getStorePath() {
+        return path.join(this.processedDir, 'universities_structured.json');
+    }
+
+    async list() {
+        await this.ensureLoaded();
+        return Array.from(this.universities.values());
+    }
+
+    /**
+     * Look up by slug. Ids issued before slugs (name plus a timestamp,
+     * e.g. "university_of_pretoria_1757837527672") still resolve
+     */
+    async getById(id) {
+        await this.ensureLoaded();
+
+        const slug = UniversityRegistry.toSlug((id || '').replace(/_\d{10,}$/, ''));
+        return this.universities.get(slug) || null;
+    }
+
+    /**
+     * A university as its prospectus for one intake year described it
+     * @returns {Object|null} null when the university or that year is unknown
+     */
+    async getEdition(id, academicYear) {
+        const university = await this.getById(id);
+        if (!university) return null;
+        return this.editions.get(university.id).get(academicYear) || null;
+    }
+
+    async findByName(universityName) {
+        await this.ensureLoaded();
+        return this.universities.get(UniversityRegistry.toSlug(universityName)) || null;
+    }
+
+    /**
+     * Where each field of a freshly extracted record came from: 'reference' for the
+     * prospectus registry's metadata, 'extracted' for the prospectus text unless
+     * sources names another, and 'unavailable' when the extractor found nothing
+     * @param {Object} sources - field -> source, for fields read some other way
+     */
+    static recordFieldSources(record, sources = {}) {
+        const fieldSources = {};
+
+        for (const field of REFERENCE_FIELDS) {
+            fieldSources[field] = UniversityRegistry.hasValue(record[field]) ? 'reference' : 'unavailable';
+        }
+        for (const field of EXTRACTED_FIELDS) {
+            fieldSources[field] = UniversityRegistry.hasValue(record[field]) ? sources[field] || 'extracted' : 'unavailable';
+        }
+        return fieldSources;
+    }
+
+    /**
+     * Replace every record with a freshly extracted set and persist the registry
+     */
+    async replaceAll(records) {
+        this.records = new Map();
+        records.forEach(record => this.mergeRecord(record));
+        await this.resolveAll();
+        await this.save();
+
+        return Array.from(this.universities.values());
+    }
+
+    /**
+     * Insert or update universities and persist the registry
+     * @param {Object|Object[]} records - structured records, matched on universityName
+     */
+    async upsert(records) {
+        await this.ensureLoaded();
+
+        const updated = (Array.isArray(records) ? records : [records]).map(record => this.mergeRecord(record));
+        await this.resolveAll();
+        await this.save();
+
+        return updated.map(slug => this.universities.get(slug));
+    }
+
+    /**
+     * Fold a record into its university's edition for the record's intake year.
+     * A university can have more than one prospectus a year, so fields the new
+     * record leaves empty keep their old value and source
+     */
+    mergeRecord(record) {
+        if (!record.universityName) {
+            throw new Error('A university record needs a universityName');
+        }
+
+        const slug = UniversityRegistry.toSlug(record.universityName);
+        const academicYear = record.academicYear ?? null;
+        const key = `${slug}|${academicYear ?? ''}`;
+        const merged = { ...(this.records.get(key) || {}) };
+        const fieldSources = { ...(merged.fieldSources || {}) };
+
+        Object.entries(record).forEach(([field, value]) => {
+            if (field === 'fieldSources' || !UniversityRegistry.hasValue(value)) return;
+            merged[field] = value;
+            fieldSources[field] = (record.fieldSources || {})[field];
+        });
+        merged.fieldSources = fieldSources;
+        merged.id = slug;
+        merged.academicYear = academicYear;
+
+        this.records.set(key, merged);
+        return slug;
+    }
+
+    async resolveAll() {
+        const editions = new Map();
+        for (const record of this.records.values()) {
+            const programmes = await this.programmeService.getByUniversity(record.id, record.academicYear);
+            if (!editions.has(record.id)) editions.set(record.id, new Map());
+            editions.get(record.id).set(record.academicYear, this.resolveFields(record, programmes));
+        }
+
+        const universities = new Map();
+        editions.forEach((byYear, slug) => {
+            const years = ProgrammeService.sortYears(Array.from(byYear.keys()));
+            universities.set(slug, { ...byYear.get(years[0]), availableYears: years.filter(year => year !== null) });
+        });
+
+        this.editions = editions;
+        this.universities = universities;
+    }
+
+    async save() {
+        await fs.mkdir(this.processedDir, { recursive: true });
+        await fs.writeFile(this.getStorePath(), JSON.stringify(Array.from(this.records.values()), null, 2));
+        console.log(`💾 Saved ${this.records.size} university editions to the registry`);
+    }
+
+    /**
+     * Withhold implausible values and values with no recorded source, and give the
+     * source of every field: 'extracted' (prospectus text), 'reference' (prospectus
+     * registry), 'programmes' (programme-level requirements) or 'unavailable'
+     * (missing, implausible, or stored before sources were recorded)
+     */
+    resolveFields(record, programmes = []) {
+        const university = { ...record };
+        const recorded = record.fieldSources || {};
+        const fieldSources = {};
+
+        for (const field of REFERENCE_FIELDS) {
+            fieldSources[field] = UniversityRegistry.hasValue(university[field]) ? 'reference' : 'unavailable';
+        }
+
+        for (const field of EXTRACTED_FIELDS) {
+            const value = university[field];
+            const range = FIELD_RANGES[field];
+            const source = recorded[field];
+
+            if (!source || source === 'unavailable' || !UniversityRegistry.hasValue(value) || (range && !(value >= range.min && value <= range.max))) {
+                university[field] = null;
+                fieldSources[field] = 'unavailable';
+            } else {
+                fieldSources[field] = source;
+            }
+        }
+
+        // The programme table is more reliable than anything read from running text
+        const entryAPS = ProgrammeService.getEntryAPS(programmes);
+        if (entryAPS !== null) {
+            university.apsScoreRequired = entryAPS;
+            fieldSources.apsScoreRequired = 'programmes';
+        }
+
+        return { ...university, fieldSources };
+    }
+
+    static hasValue(value) {
+        if (Array.isArray(value)) return value.length > 0;
+        return value !== null && value !== undefined && value !== '';
+    }
+
+    /**
+     * Turn retrieval hits into university results by joining each hit to its
+     * structured record. Hits are ranked best-first, so the first hit for a
+     * university supplies the excerpt and score.
+     * @param {Array} hits - { fileName, universityName, relevantContent, relevanceScore }
+     */
+    async joinSearchHits(hits) {
+        await this.ensureLoaded();
+
+        const results = new Map();
+
+        for (const hit of hits) {
+            const university = this.universities.get(UniversityRegistry.toSlug(hit.universityName));
+            const resultId = university ? university.id : hit.fileName;
+            if (results.has(resultId)) continue;
+
+            const content = hit.relevantContent || '';
+            const match = {
+                fileName: hit.fileName,
+                content: content,
+                summary: content.length > 200 ? content.substring(0, 200) + '...' : content,
+                searchScore: hit.relevanceScore || 0,
+                documentType: 'pdf-context'
+            };
+
+            results.set(resultId, university
+                ? { ...university, universityId: university.id, ...match }
+                : this.buildUnmatchedResult(hit, match));
+        }
+
+        return Array.from(results.values());
+    }
+
+    /**
+     * A hit from a document with no structured record keeps its excerpt,
+     * with every field reported as unavailable rather than guessed
+     */
+    buildUnmatchedResult(hit, match) {
+        const fieldSources = {};
+        for (const field of [...REFERENCE_FIELDS, ...EXTRACTED_FIELDS]) {
+            fieldSources[field] = 'unavailable';
+        }
+
+        return {
+            id: hit.fileName,
+            universityId: null,
+            universityName: hit.universityName || 'Unknown University',
+            location: null,
+            province: null,
+            ...match,
+            fieldSources
+        };
+    }
+}
+
+module.exports = UniversityRegistry;
@@ -0,0 +1,125 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+const UniversityRegistry = require('./universityRegistry');
+
+const record = (universityName, academicYear, fields, fieldSources) => ({ universityName, academicYear, ...fields, fieldSources });
+
+const records = [
+    record('University of Pretoria', 2026, {
+        province: 'Gauteng',
+        apsScoreRequired: 7, // a page number read as an APS
+        tuitionFeesAnnual: 58397,
+        studentPopulation: 2024 // a year read as a head count
+    }, { apsScoreRequired: 'extracted', tuitionFeesAnnual: 'extracted', studentPopulation: 'extracted' }),
+    record('University of Pretoria', 2025, { tuitionFeesAnnual: 54000 }, { tuitionFeesAnnual: 'extracted' }),
+    record('Université de Test', 2026, { tuitionFeesAnnual: 300000, studentPopulation: 30000 }, { tuitionFeesAnnual: 'extracted', studentPopulation: 'extracted' }),
+    // Stored before field sources were recorded
+    record('University of Cape Town', 2026, { tuitionFeesAnnual: 70000 }, undefined)
+];
+
+const programmes = [
+    { id: 'up-beng', universityId: 'university-of-pretoria', qualification: 'BEng Civil Engineering', minimumAPS: 35, academicYear: 2026 },
+    { id: 'up-hc', universityId: 'university-of-pretoria', qualification: 'Higher Certificate in Sports Sciences', minimumAPS: 20, academicYear: 2026 }
+];
+
+let dir;
+let registry;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-'));
+    await fs.writeFile(path.join(dir, 'universities_structured.json'), JSON.stringify(records));
+    await fs.writeFile(path.join(dir, 'programmes.json'), JSON.stringify(programmes));
+
+    const programmeService = new ProgrammeService();
+    programmeService.processedDir = dir;
+    registry = new UniversityRegistry(programmeService);
+    registry.processedDir = dir;
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('names become stable slugs, accents and punctuation included', () => {
+    expect(UniversityRegistry.toSlug('University of KwaZulu-Natal')).toBe('university-of-kwazulu-natal');
+    expect(UniversityRegistry.toSlug('  Université de Test (Main Campus) ')).toBe('universite-de-test-main-campus');
+    expect(UniversityRegistry.toSlug(undefined)).toBe('');
+});
+
+test('values outside the plausible range are withheld as unavailable', async () => {
+    const universite = await registry.getById('universite-de-test');
+
+    expect(universite.tuitionFeesAnnual).toBeNull();
+    expect(universite.fieldSources.tuitionFeesAnnual).toBe('unavailable');
+    expect(universite.studentPopulation).toBe(30000);
+    expect(universite.fieldSources.studentPopulation).toBe('extracted');
+
+    const up = await registry.getById('university-of-pretoria');
+    expect(up.studentPopulation).toBeNull();
+    expect(up.fieldSources.studentPopulation).toBe('unavailable');
+});
+
+test('the entry APS comes from the lowest degree minimum, replacing an implausible extracted one', async () => {
+    const up = await registry.getById('university-of-pretoria');
+
+    expect(up.apsScoreRequired).toBe(35);
+    expect(up.fieldSources.apsScoreRequired).toBe('programmes');
+    expect(up.fieldSources.province).toBe('reference');
+});
+
+test('values stored without a source are not served', async () => {
+    const uct = await registry.getById('university-of-cape-town');
+
+    expect(uct.tuitionFeesAnnual).toBeNull();
+    expect(uct.fieldSources.tuitionFeesAnnual).toBe('unavailable');
+});
+
+test('ids issued before slugs, a name plus a timestamp, still resolve', async () => {
+    expect((await registry.getById('university_of_pretoria_1757837527672')).id).toBe('university-of-pretoria');
+    expect((await registry.getById('University of Pretoria')).id).toBe('university-of-pretoria');
+    expect(await registry.getById('university_of_atlantis_1757837527672')).toBeNull();
+});
+
+test('the latest intake year is served and earlier ones are kept', async () => {
+    const up = await registry.getById('university-of-pretoria');
+
+    expect(up.academicYear).toBe(2026);
+    expect(up.availableYears).toEqual([2026, 2025]);
+    expect((await registry.getEdition('university-of-pretoria', 2025)).tuitionFeesAnnual).toBe(54000);
+    expect(await registry.getEdition('university-of-pretoria', 2020)).toBeNull();
+});
+
+test('search hits join their university record, first hit first, and unmatched files keep their excerpt', async () => {
+    const results = await registry.joinSearchHits([
+        { fileName: 'up.pdf_chunk_3', universityName: 'University of Pretoria', relevantContent: 'BEng needs an APS of 35', relevanceScore: 0.9 },
+        { fileName: 'up.pdf_chunk_8', universityName: 'University of Pretoria', relevantContent: 'Residence fees', relevanceScore: 0.4 },
+        { fileName: 'unknown.pdf_chunk_0', universityName: 'Atlantis College', relevantContent: 'x'.repeat(250), relevanceScore: 0.2 }
+    ]);
+
+    expect(results).toHaveLength(2);
+    expect(results[0]).toMatchObject({
+        id: 'university-of-pretoria',
+        universityId: 'university-of-pretoria',
+        fileName: 'up.pdf_chunk_3',
+        content: 'BEng needs an APS of 35',
+        searchScore: 0.9,
+        apsScoreRequired: 35
+    });
+    expect(results[1]).toMatchObject({ id: 'unknown.pdf_chunk_0', universityId: null, universityName: 'Atlantis College', province: null });
+    expect(results[1].summary).toBe(`${'x'.repeat(200)}...`);
+    expect(Object.values(results[1].fieldSources).every(source => source === 'unavailable')).toBe(true);
+});
+
+test('an upsert fills in empty fields of the same edition and is saved', async () => {
+    await registry.upsert(record('University of Pretoria', 2026, { city: 'Pretoria', tuitionFeesAnnual: null }, {}));
+
+    const stored = JSON.parse(await fs.readFile(path.join(dir, 'universities_structured.json'), 'utf8'));
+    const up = stored.find(entry => entry.id === 'university-of-pretoria' && entry.academicYear === 2026);
+    expect(up).toMatchObject({ city: 'Pretoria', tuitionFeesAnnual: 58397 });
+    expect(up.fieldSources.tuitionFeesAnnual).toBe('extracted');
+    expect(() => registry.mergeRecord({ province: 'Gauteng' })).toThrow('A university record needs a universityName');
+});
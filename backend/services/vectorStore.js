@@ -0,0 +1,101 @@
+/**
+ * Vector Store
+ * File-backed store of document embeddings, searched by cosine similarity
+ */
+//vectorStore.js
+const fs = require('fs').promises;
+
+class VectorStore {
+    /**
+     * @param {string} filePath - where the vectors are persisted
+     * @param {Object} provider - the embedding provider the vectors come from
+     */
+    constructor(filePath, provider) {
+        this.filePath = filePath;
+        this.provider = provider;
+        this.vectors = new Map(); // document id -> unit-length vector
+    }
+
+    get size() {
+        return this.vectors.size;
+    }
+
+    /**
+     * Read the saved vectors. Vectors from another provider or model are not
+     * comparable, so in that case the store starts empty
+     */
+    async load() {
+        try {
+            const data = JSON.parse(await fs.readFile(this.filePath, 'utf8'));
+            if (data.provider !== this.provider.name) {
+                console.log(`⚠️ Vector store was built with ${data.provider}, re-embedding with ${this.provider.name}`);
+                this.vectors = new Map();
+                return false;
+            }
+
+            this.vectors = new Map(Object.entries(data.vectors || {}));
+            return true;
+        } catch (error) {
+            this.vectors = new Map();
+            return false;
+        }
+    }
+
+    async save() {
+        const vectors = {};
+        for (const [id, vector] of this.vectors) {
+            // Six decimals is well inside the precision cosine ranking needs
+            vectors[id] = vector.map(value => Math.round(value * 1e6) / 1e6);
+        }
+
+        await fs.writeFile(this.filePath, JSON.stringify({
+            provider: this.provider.name,
+            dimensions: this.provider.dimensions,
+            vectors
+        }));
+    }
+
+    has(id) {
+        return this.vectors.has(id);
+    }
+
+    upsert(id, vector) {
+        if (!Array.isArray(vector) || vector.length === 0) {
+            throw new Error(`No embedding to store for ${id}`);
+        }
+        this.vectors.set(id, this.normalize(vector));
+    }
+
+    remove(id) {
+        return this.vectors.delete(id);
+    }
+
+    /**
+     * Nearest documents to a query vector
+     * @returns {Array<{id: string, score: number}>} best first, score is cosine similarity
+     */
+    search(queryVector, limit = 10, minScore = 0) {
+        const query = this.normalize(queryVector);
+        const results = [];
+
+        for (const [id, vector] of this.vectors) {
+            let score = 0;
+            for (let i = 0; i < query.length; i++) {
+                score += query[i] * vector[i];
+            }
+            if (score > minScore) results.push({ id, score });
+        }
+
+        return results
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+    }
+
+    // Stored unit-length, so cosine similarity is a dot product
+    normalize(vector) {
+        const norm = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+        return norm > 0 ? vector.map(value => value / norm) : vector;
+    }
+}
+
+module.exports = VectorStore;
@@ -0,0 +1,70 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const VectorStore = require('./vectorStore');
+
+const provider = { name: 'test-3', dimensions: 3 };
+
+let dir;
+let filePath;
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'vectors-'));
+    filePath = path.join(dir, 'vector_store.json');
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('vectors are stored unit length and searched by cosine similarity, best first', () => {
+    const store = new VectorStore(filePath, provider);
+    store.upsert('engineering', [3, 4, 0]);
+    store.upsert('residence', [0, 0, 2]);
+    store.upsert('bursaries', [1, 1, 1]);
+
+    expect(store.vectors.get('engineering')).toEqual([0.6, 0.8, 0]);
+
+    const results = store.search([6, 8, 0]);
+    expect(results.map(result => result.id)).toEqual(['engineering', 'bursaries']);
+    expect(results[0].score).toBeCloseTo(1, 10);
+    expect(store.search([6, 8, 0], 1)).toHaveLength(1);
+    expect(store.search([6, 8, 0], 10, 0.9).map(result => result.id)).toEqual(['engineering']);
+});
+
+test('an empty embedding is refused, and removed vectors are no longer found', () => {
+    const store = new VectorStore(filePath, provider);
+    expect(() => store.upsert('empty', [])).toThrow('No embedding to store for empty');
+
+    store.upsert('engineering', [1, 0, 0]);
+    expect(store.remove('engineering')).toBe(true);
+    expect(store.has('engineering')).toBe(false);
+    expect(store.search([1, 0, 0])).toEqual([]);
+});
+
+test('saved vectors load back, to six decimals', async () => {
+    const store = new VectorStore(filePath, provider);
+    store.upsert('bursaries', [1, 1, 1]);
+    await store.save();
+
+    const saved = JSON.parse(await fs.readFile(filePath, 'utf8'));
+    expect(saved).toEqual({ provider: 'test-3', dimensions: 3, vectors: { bursaries: [0.57735, 0.57735, 0.57735] } });
+
+    const loaded = new VectorStore(filePath, provider);
+    expect(await loaded.load()).toBe(true);
+    expect(loaded.size).toBe(1);
+    expect(loaded.search([1, 1, 1])[0].score).toBeCloseTo(1, 5);
+});
+
+test('vectors from another embedding provider are dropped on load', async () => {
+    const store = new VectorStore(filePath, provider);
+    store.upsert('bursaries', [1, 1, 1]);
+    await store.save();
+
+    const other = new VectorStore(filePath, { name: 'azure-text-embedding-3-small', dimensions: 1536 });
+    expect(await other.load()).toBe(false);
+    expect(other.size).toBe(0);
+    expect(await new VectorStore(path.join(dir, 'missing.json'), provider).load()).toBe(false);
+});
@@ -0,0 +1,113 @@
+/**
+ * Year Comparison Service
+ * What changed at a university between two intake years: minimum APS changes,
+ * programmes added or dropped and a moved application deadline, so counsellors
+ * can warn students who relied on last year's figures
+ */
+//yearComparisonService.js
+const ProgrammeService = require('./programmeService');
+const UniversityRegistry = require('./universityRegistry');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+class YearComparisonService {
+    constructor(programmeService = new ProgrammeService(), universityRegistry = new UniversityRegistry(programmeService)) {
+        this.programmeService = programmeService;
+        this.universityRegistry = universityRegistry;
+    }
+
+    /**
+     * @param {string} universityId - registry slug
+     * @param {number} from - the earlier intake year
+     * @param {number} to - the later intake year
+     * @returns {Object|null} null when the university has no edition for either year
+     */
+    async compare(universityId, from, to) {
+        const [before, after] = await Promise.all([
+            this.universityRegistry.getEdition(universityId, from),
+            this.universityRegistry.getEdition(universityId, to)
+        ]);
+        if (!before || !after) return null;
+
+        const [oldProgrammes, newProgrammes] = await Promise.all([
+            this.programmeService.getByUniversity(after.id, from),
+            this.programmeService.getByUniversity(after.id, to)
+        ]);
+
+        // A programme keeps its id from year to year - it is the university and qualification name
+        const previous = new Map(oldProgrammes.map(programme => [programme.id, programme]));
+        const current = new Map(newProgrammes.map(programme => [programme.id, programme]));
+
+        const apsChanges = newProgrammes
+            .filter(programme => previous.has(programme.id) && previous.get(programme.id).minimumAPS !== programme.minimumAPS)
+            .map(programme => ({
+                ...this.describeProgramme(programme),
+                from: previous.get(programme.id).minimumAPS,
+                to: programme.minimumAPS,
+                change: this.difference(previous.get(programme.id).minimumAPS, programme.minimumAPS)
+            }));
+
+        const addedProgrammes = newProgrammes
+            .filter(programme => !previous.has(programme.id))
+            .map(programme => ({ ...this.describeProgramme(programme), minimumAPS: programme.minimumAPS }));
+
+        const removedProgrammes = oldProgrammes
+            .filter(programme => !current.has(programme.id))
+            .map(programme => ({ ...this.describeProgramme(programme), minimumAPS: programme.minimumAPS }));
+
+        const entryAPS = {
+            from: ProgrammeService.getEntryAPS(oldProgrammes),
+            to: ProgrammeService.getEntryAPS(newProgrammes)
+        };
+        const deadline = this.compareDeadlines(before.applicationDeadline, after.applicationDeadline, to - from);
+
+        return {
+            universityId: after.id,
+            universityName: after.universityName,
+            from,
+            to,
+            entryAPS: { ...entryAPS, change: this.difference(entryAPS.from, entryAPS.to) },
+            apsChanges,
+            addedProgrammes,
+            removedProgrammes,
+            deadline,
+            summary: {
+                apsRaised: apsChanges.filter(entry => entry.change > 0).length,
+                apsLowered: apsChanges.filter(entry => entry.change < 0).length,
+                added: addedProgrammes.length,
+                removed: removedProgrammes.length,
+                deadlineMoved: deadline.moved
+            }
+        };
+    }
+
+    describeProgramme(programme) {
+        return {
+            programmeId: programme.id,
+            qualification: programme.qualification,
+            faculty: programme.faculty
+        };
+    }
+
+    difference(from, to) {
+        return typeof from === 'number' && typeof to === 'number' ? to - from : null;
+    }
+
+    /**
+     * A deadline moved when it falls on a different day of the application cycle:
+     * 30 June before a 2025 intake and 30 June before a 2026 one did not move.
+     * @returns {{from: string|null, to: string|null, moved: boolean|null, days: number|null}}
+     *   moved and days are null when either year's prospectus gave no deadline
+     */
+    compareDeadlines(from, to, yearGap) {
+        if (!from || !to) return { from, to, moved: null, days: null };
+
+        const expected = new Date(`${from}T00:00:00Z`);
+        expected.setUTCFullYear(expected.getUTCFullYear() + yearGap);
+        const days = Math.round((Date.parse(`${to}T00:00:00Z`) - expected.getTime()) / DAY_MS);
+
+        return { from, to, moved: days !== 0, days };
+    }
+}
+
+module.exports = YearComparisonService;
@@ -0,0 +1,132 @@
+const fs = require('fs').promises;
+const os = require('os');
+const path = require('path');
+const ProgrammeService = require('./programmeService');
+const UniversityRegistry = require('./universityRegistry');
+const YearComparisonService = require('./yearComparisonService');
+
+const programme = (academicYear, qualification, minimumAPS, faculty = 'Engineering') => ({
+    id: UniversityRegistry.toSlug(`University of Pretoria ${qualification}`),
+    universityId: 'university-of-pretoria',
+    universityName: 'University of Pretoria',
+    academicYear,
+    faculty,
+    qualification,
+    minimumAPS,
+    requiredSubjects: [],
+    source: { fileName: `up-${academicYear}.pdf`, page: 1, extraction: 'text' }
+});
+
+const edition = (academicYear, applicationDeadline) => ({
+    universityName: 'University of Pretoria',
+    academicYear,
+    province: 'Gauteng',
+    city: 'Pretoria',
+    applicationDeadline,
+    fieldSources: { applicationDeadline: 'extracted' }
+});
+
+let dir;
+let service;
+let registry;
+
+// Stand in for the processed output of the prospectuses
+const writeEditions = async (programmes, editions) => {
+    await fs.writeFile(path.join(dir, 'programmes.json'), JSON.stringify(programmes));
+    await fs.writeFile(path.join(dir, 'universities_structured.json'), JSON.stringify(editions));
+};
+
+beforeEach(async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'editions-'));
+
+    const programmeService = new ProgrammeService();
+    programmeService.processedDir = dir;
+    registry = new UniversityRegistry(programmeService);
+    registry.processedDir = dir;
+    service = new YearComparisonService(programmeService, registry);
+});
+
+afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.rm(dir, { recursive: true });
+});
+
+test('both editions are kept and the latest is served', async () => {
+    await writeEditions(
+        [programme(2025, 'BEng Civil Engineering', 35), programme(2026, 'BEng Civil Engineering', 36)],
+        [edition(2025, '2024-06-30'), edition(2026, '2025-06-30')]
+    );
+
+    const university = await registry.getById('university-of-pretoria');
+
+    expect(university.availableYears).toEqual([2026, 2025]);
+    expect(university.academicYear).toBe(2026);
+    expect((await registry.getEdition('university-of-pretoria', 2025)).apsScoreRequired).toBe(35);
+});
+
+test('reports raised and lowered minimums, added and dropped programmes', async () => {
+    await writeEditions(
+        [
+            programme(2025, 'BEng Civil Engineering', 35),
+            programme(2025, 'BSc Geology', 30, 'Natural and Agricultural Sciences'),
+            programme(2025, 'BCom Accounting Sciences', 34, 'Economic and Management Sciences'),
+            programme(2026, 'BEng Civil Engineering', 36),
+            programme(2026, 'BSc Geology', 28, 'Natural and Agricultural Sciences'),
+            programme(2026, 'BSc Data Science', 34, 'Natural and Agricultural Sciences')
+        ],
+        [edition(2025, '2024-06-30'), edition(2026, '2025-06-30')]
+    );
+
+    const changes = await service.compare('university-of-pretoria', 2025, 2026);
+
+    expect(changes.apsChanges).toEqual([
+        { programmeId: 'university-of-pretoria-beng-civil-engineering', qualification: 'BEng Civil Engineering', faculty: 'Engineering', from: 35, to: 36, change: 1 },
+        { programmeId: 'university-of-pretoria-bsc-geology', qualification: 'BSc Geology', faculty: 'Natural and Agricultural Sciences', from: 30, to: 28, change: -2 }
+    ]);
+    expect(changes.addedProgrammes.map(entry => entry.qualification)).toEqual(['BSc Data Science']);
+    expect(changes.removedProgrammes.map(entry => entry.qualification)).toEqual(['BCom Accounting Sciences']);
+    expect(changes.entryAPS).toEqual({ from: 30, to: 28, change: -2 });
+    expect(changes.summary).toEqual({ apsRaised: 1, apsLowered: 1, added: 1, removed: 1, deadlineMoved: false });
+});
+
+test('a deadline on the same day of the next cycle has not moved', async () => {
+    await writeEditions(
+        [programme(2025, 'BEng Civil Engineering', 35), programme(2026, 'BEng Civil Engineering', 35)],
+        [edition(2025, '2024-06-30'), edition(2026, '2025-06-30')]
+    );
+
+    const changes = await service.compare('university-of-pretoria', 2025, 2026);
+
+    expect(changes.deadline).toEqual({ from: '2024-06-30', to: '2025-06-30', moved: false, days: 0 });
+    expect(changes.apsChanges).toEqual([]);
+});
+
+test('a deadline brought forward is reported in days', async () => {
+    await writeEditions(
+        [programme(2025, 'BEng Civil Engineering', 35), programme(2026, 'BEng Civil Engineering', 35)],
+        [edition(2025, '2024-06-30'), edition(2026, '2025-05-31')]
+    );
+
+    const { deadline } = await service.compare('university-of-pretoria', 2025, 2026);
+
+    expect(deadline).toEqual({ from: '2024-06-30', to: '2025-05-31', moved: true, days: -30 });
+});
+
+test('an edition with no deadline leaves whether it moved unknown', async () => {
+    await writeEditions(
+        [programme(2025, 'BEng Civil Engineering', 35), programme(2026, 'BEng Civil Engineering', 35)],
+        [edition(2025, null), edition(2026, '2025-06-30')]
+    );
+
+    const { deadline } = await service.compare('university-of-pretoria', 2025, 2026);
+
+    expect(deadline).toEqual({ from: null, to: '2025-06-30', moved: null, days: null });
+});
+
+test('there is nothing to compare for a year without an edition', async () => {
+    await writeEditions([programme(2026, 'BEng Civil Engineering', 36)], [edition(2026, '2025-06-30')]);
+
+    expect(await service.compare('university-of-pretoria', 2025, 2026)).toBeNull();
+    expect((await registry.getById('university-of-pretoria')).availableYears).toEqual([2026]);
+});
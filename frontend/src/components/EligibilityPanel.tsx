@@ -0,0 +1,47 @@
+import React from 'react';
+import { CheckCircleIcon, XCircleIcon } from '@heroicons/react/24/outline';
+import { EligibilityResult } from '../types';
+
+interface EligibilityPanelProps {
+  result: EligibilityResult;
+  // Shown above the result, e.g. "You meet the requirements for 3 of 5 programmes"
+  summary?: string;
+}
+
+// Whether the student's marks meet a programme's requirements, with every rule they miss
+const EligibilityPanel: React.FC<EligibilityPanelProps> = ({ result, summary }) => {
+  const apsLabel = result.minimumAPS !== null
+    ? `APS ${result.apsScore} of ${result.minimumAPS} needed`
+    : result.minimumAggregate !== null
+      ? `Average ${result.aggregate}% of ${result.minimumAggregate}% needed`
+      : null;
+
+  return (
+    <div className={`rounded-lg border p-3 ${result.eligible ? 'bg-green-50 border-green-200' : 'bg-orange-50 border-orange-200'}`}>
+      {summary && <p className="text-xs font-medium text-gray-600 mb-1">{summary}</p>}
+      <div className="flex items-start">
+        {result.eligible ? (
+          <CheckCircleIcon className="h-5 w-5 text-green-600 mr-2 flex-shrink-0" />
+        ) : (
+          <XCircleIcon className="h-5 w-5 text-orange-600 mr-2 flex-shrink-0" />
+        )}
+        <div className="min-w-0">
+          <p className={`text-sm font-medium ${result.eligible ? 'text-green-900' : 'text-orange-900'}`}>
+            {result.eligible ? 'You meet the requirements for ' : 'Not yet eligible for '}
+            {result.qualification}
+          </p>
+          {apsLabel && <p className="text-xs text-gray-600">{apsLabel}</p>}
+          {result.failures.length > 0 && (
+            <ul className="mt-1 text-xs text-orange-800 space-y-0.5">
+              {result.failures.map(failure => (
+                <li key={`${failure.rule}-${failure.subject || ''}`}>• {failure.message}</li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default EligibilityPanel;
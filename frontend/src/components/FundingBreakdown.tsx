@@ -0,0 +1,68 @@
+import React from 'react';
+import { BanknotesIcon } from '@heroicons/react/24/outline';
+import { FundingCost, FundingEstimate } from '../types';
+
+interface FundingBreakdownProps {
+  funding: FundingEstimate;
+}
+
+const formatRand = (amount: number) => `R${amount.toLocaleString('en-ZA')}`;
+
+// A year's costs at the university, the NSFAS funding expected against them and what is left to pay
+const FundingBreakdown: React.FC<FundingBreakdownProps> = ({ funding }) => {
+  const { costs, expectedFunding } = funding;
+
+  const renderCost = (label: string, cost: FundingCost) => (
+    <li className="flex justify-between" title={cost.detail}>
+      <span>
+        {label}
+        {cost.estimated && <span className="text-gray-400"> (estimate)</span>}
+      </span>
+      <span>{cost.amount === null ? 'Not published' : formatRand(cost.amount)}</span>
+    </li>
+  );
+
+  return (
+    <div>
+      <h4 className="font-semibold text-gray-900 mb-3 flex items-center">
+        <BanknotesIcon className="h-5 w-5 mr-2 text-green-600" />
+        Cost of a year
+      </h4>
+      <ul className="space-y-1 text-sm text-gray-700">
+        {renderCost('Tuition', costs.tuition)}
+        {renderCost('Residence', costs.residence)}
+        {renderCost('Living costs', costs.living)}
+      </ul>
+
+      {expectedFunding && (
+        <ul className="mt-2 space-y-1 text-sm text-green-700">
+          <li className="flex justify-between">
+            <span>NSFAS tuition</span>
+            <span>-{expectedFunding.tuition === null ? 'in full' : formatRand(expectedFunding.tuition)}</span>
+          </li>
+          <li className="flex justify-between">
+            <span>NSFAS accommodation</span>
+            <span>-{formatRand(expectedFunding.accommodation)}</span>
+          </li>
+          <li className="flex justify-between">
+            <span>NSFAS living and learning allowances</span>
+            <span>-{formatRand(expectedFunding.livingAllowance + expectedFunding.learningMaterials)}</span>
+          </li>
+        </ul>
+      )}
+
+      <div className="mt-2 pt-2 border-t border-gray-200 flex justify-between text-sm font-semibold text-gray-900">
+        <span>{expectedFunding ? 'Left to pay after NSFAS' : 'Left to pay'}</span>
+        <span>
+          {formatRand(funding.netCost)}
+          {!funding.complete && ' + tuition'}
+        </span>
+      </div>
+      {expectedFunding && (
+        <p className="mt-1 text-xs text-gray-500">Estimated from the NSFAS {expectedFunding.version} allowances.</p>
+      )}
+    </div>
+  );
+};
+
+export default FundingBreakdown;
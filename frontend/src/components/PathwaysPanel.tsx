@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { ChevronDownIcon, ChevronUpIcon, LightBulbIcon } from '@heroicons/react/24/outline';
+import { Pathways } from '../types';
+
+interface PathwaysPanelProps {
+  pathways: Pathways;
+}
+
+const INSTITUTION_TYPE_LABELS: Record<string, string> = {
+  university: 'University',
+  university_of_technology: 'University of technology',
+  tvet: 'TVET college'
+};
+
+// Routes into a programme the student does not yet qualify for, shown below the eligibility check
+const PathwaysPanel: React.FC<PathwaysPanelProps> = ({ pathways }) => {
+  const [expanded, setExpanded] = useState(false);
+  const { extendedProgrammes, relatedProgrammes, higherCertificates, subjectRewrites, upgradeOptions } = pathways;
+  const programmeCount = extendedProgrammes.length + relatedProgrammes.length;
+
+  return (
+    <div className="rounded-lg border border-blue-200 bg-blue-50 p-3 mt-2">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex w-full items-center justify-between text-left"
+      >
+        <span className="flex items-center text-sm font-medium text-blue-900">
+          <LightBulbIcon className="h-5 w-5 text-blue-600 mr-2 flex-shrink-0" />
+          Other ways in
+          {programmeCount > 0 && ` - ${programmeCount} programme${programmeCount === 1 ? '' : 's'} you can apply for`}
+        </span>
+        {expanded ? <ChevronUpIcon className="h-4 w-4 text-blue-700" /> : <ChevronDownIcon className="h-4 w-4 text-blue-700" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-3 space-y-3 text-xs text-gray-700">
+          {extendedProgrammes.length > 0 && (
+            <div>
+              <h5 className="font-medium text-blue-900 mb-1">Extended programmes</h5>
+              <ul className="space-y-1">
+                {extendedProgrammes.map(pathway => (
+                  <li key={pathway.id}>
+                    <span className="font-medium">{pathway.qualification}</span> ({pathway.durationYears} years)
+                    {pathway.selection && <span className="text-gray-500"> - selection</span>}
+                    <p className="text-gray-600">{pathway.description}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {relatedProgrammes.length > 0 && (
+            <div>
+              <h5 className="font-medium text-blue-900 mb-1">Related programmes you qualify for</h5>
+              <ul className="space-y-1">
+                {relatedProgrammes.map(programme => (
+                  <li key={programme.programmeId}>
+                    <span className="font-medium">{programme.qualification}</span>
+                    <p className="text-gray-600">{programme.reason}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {subjectRewrites.steps.length > 0 && (
+            <div>
+              <h5 className="font-medium text-blue-900 mb-1">
+                {subjectRewrites.closesGap ? 'Marks that would get you in' : 'Marks that would bring you closer'}
+              </h5>
+              <ul className="space-y-0.5">
+                {subjectRewrites.steps.map(step => (
+                  <li key={step.subject}>• {step.message}</li>
+                ))}
+              </ul>
+              {upgradeOptions.length > 0 && (
+                <p className="mt-1 text-gray-600">
+                  Rewrite subjects through{' '}
+                  {upgradeOptions.map((option, index) => (
+                    <React.Fragment key={option.id}>
+                      {index > 0 && ' or '}
+                      <a href={option.website} target="_blank" rel="noopener noreferrer" className="text-blue-700 hover:underline">
+                        {option.name}
+                      </a>
+                    </React.Fragment>
+                  ))}
+                </p>
+              )}
+            </div>
+          )}
+
+          {higherCertificates.length > 0 && (
+            <div>
+              <h5 className="font-medium text-blue-900 mb-1">Higher Certificate routes</h5>
+              <ul className="space-y-1">
+                {higherCertificates.map(route => (
+                  <li key={route.id}>
+                    <a href={route.website} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-700 hover:underline">
+                      {route.institution}
+                    </a>
+                    <span className="text-gray-500"> - {INSTITUTION_TYPE_LABELS[route.institutionType]}{route.province ? `, ${route.province}` : ''}</span>
+                    <p className="text-gray-600">{route.qualification}: {route.description}</p>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathwaysPanel;
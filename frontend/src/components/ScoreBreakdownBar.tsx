@@ -0,0 +1,49 @@
+import React from 'react';
+import { ScoreComponent, ScoreFactor } from '../types';
+
+interface ScoreBreakdownBarProps {
+  breakdown: ScoreComponent[];
+}
+
+const FACTOR_COLORS: Record<ScoreFactor, string> = {
+  academic: 'bg-blue-500',
+  programme: 'bg-purple-500',
+  cost: 'bg-green-500',
+  distance: 'bg-yellow-400',
+  nsfas: 'bg-teal-500',
+  language: 'bg-pink-400'
+};
+
+// The match score as a stacked bar: each factor's segment is the points it contributes
+const ScoreBreakdownBar: React.FC<ScoreBreakdownBarProps> = ({ breakdown }) => (
+  <div>
+    <div className="flex h-3 w-full overflow-hidden rounded-full bg-gray-200">
+      {breakdown
+        .filter(component => component.contribution > 0)
+        .map(component => (
+          <div
+            key={component.factor}
+            className={FACTOR_COLORS[component.factor]}
+            style={{ width: `${component.contribution}%` }}
+            title={`${component.label}: ${component.contribution} points - ${component.detail}`}
+          />
+        ))}
+    </div>
+    <ul className="mt-2 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-xs text-gray-600">
+      {breakdown.map(component => (
+        <li key={component.factor} className="flex items-start" title={component.detail}>
+          <span className={`mt-1 mr-1.5 h-2 w-2 flex-shrink-0 rounded-full ${FACTOR_COLORS[component.factor]}`} />
+          <span>
+            <span className="font-medium text-gray-800">{component.label}</span>
+            {component.score === null
+              ? (component.status === 'unknown' ? ' - unknown' : ' - n/a')
+              : ` ${component.score}/100 x ${component.weight}% = ${component.contribution}`}
+            <span className="block text-gray-500">{component.detail}</span>
+          </span>
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+export default ScoreBreakdownBar;
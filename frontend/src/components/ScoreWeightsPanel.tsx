@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { ScaleIcon } from '@heroicons/react/24/outline';
+import { ScoreFactor, ScoreWeights } from '../types';
+import { MAX_SCORE_WEIGHT, SCORE_FACTOR_LABELS, SCORE_WEIGHT_PRESETS } from '../constants';
+
+interface ScoreWeightsPanelProps {
+  weights: ScoreWeights;
+  applying: boolean;
+  onApply: (weights: ScoreWeights) => void;
+}
+
+// How much each factor counts towards the match score, saved on the profile when applied
+const ScoreWeightsPanel: React.FC<ScoreWeightsPanelProps> = ({ weights, applying, onApply }) => {
+  const [draft, setDraft] = useState<ScoreWeights>(weights);
+  const factors = Object.keys(SCORE_FACTOR_LABELS) as ScoreFactor[];
+  const total = factors.reduce((sum, factor) => sum + draft[factor], 0);
+  const changed = factors.some(factor => draft[factor] !== weights[factor]);
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center">
+        <ScaleIcon className="h-5 w-5 mr-2 text-blue-600" />
+        What matters to you
+      </h3>
+      <p className="text-sm text-gray-600 mb-4">Weight each factor from 0 to {MAX_SCORE_WEIGHT} and re-rank your matches.</p>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {SCORE_WEIGHT_PRESETS.map(preset => (
+          <button
+            key={preset.label}
+            onClick={() => setDraft(preset.weights)}
+            className="px-3 py-1 text-xs rounded-full border border-gray-300 hover:bg-gray-50"
+          >
+            {preset.label}
+          </button>
+        ))}
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+        {factors.map(factor => (
+          <div key={factor}>
+            <div className="flex justify-between text-sm">
+              <label htmlFor={`weight-${factor}`} className="font-medium text-gray-700">{SCORE_FACTOR_LABELS[factor]}</label>
+              <span className="text-gray-600">
+                {draft[factor]} {total > 0 && <span className="text-gray-400">({Math.round((draft[factor] / total) * 100)}%)</span>}
+              </span>
+            </div>
+            <input
+              id={`weight-${factor}`}
+              type="range"
+              min={0}
+              max={MAX_SCORE_WEIGHT}
+              value={draft[factor]}
+              onChange={event => setDraft({ ...draft, [factor]: Number(event.target.value) })}
+              className="w-full accent-blue-600"
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex items-center justify-end mt-4 space-x-3">
+        {total === 0 && <span className="text-sm text-red-600">Give at least one factor a weight</span>}
+        <button
+          onClick={() => onApply(draft)}
+          disabled={!changed || total === 0 || applying}
+          className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50"
+        >
+          {applying ? 'Re-ranking...' : 'Re-rank'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ScoreWeightsPanel;
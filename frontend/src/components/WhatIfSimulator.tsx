@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { AdjustmentsHorizontalIcon, ArrowPathIcon, ArrowRightIcon, XMarkIcon } from '@heroicons/react/24/outline';
+import { MatricSubject, SimulatedProgramme, SimulationResult, StudentProfile } from '../types';
+import { simulateRecommendations } from '../services/api';
+import { calculateAPS, getAchievementLevel } from '../utils/aps';
+
+interface WhatIfSimulatorProps {
+  profile: StudentProfile;
+  getCategoryColor: (category: string) => string;
+  onClose: () => void;
+}
+
+// Wait for the slider to settle before asking the server
+const SIMULATE_DELAY_MS = 400;
+
+// Projected matric marks on sliders, with the APS, eligibility and categories they would give
+const WhatIfSimulator: React.FC<WhatIfSimulatorProps> = ({ profile, getCategoryColor, onClose }) => {
+  const [marks, setMarks] = useState<MatricSubject[]>(profile.subjects);
+  const [result, setResult] = useState<SimulationResult | null>(null);
+  const [simulating, setSimulating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const changed = marks.some((subject, index) => subject.percentage !== profile.subjects[index].percentage);
+  const currentAPS = useMemo(() => calculateAPS(profile.subjects).score, [profile.subjects]);
+  const projectedAPS = useMemo(() => calculateAPS(marks).score, [marks]);
+
+  useEffect(() => {
+    if (!changed) {
+      setResult(null);
+      return;
+    }
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setSimulating(true);
+      setError(null);
+      try {
+        const response = await simulateRecommendations(profile, marks);
+        if (cancelled) return;
+        if (response.success && response.data) {
+          setResult(response.data);
+        } else {
+          throw new Error(response.error || 'Failed to simulate recommendations');
+        }
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to simulate recommendations');
+      } finally {
+        if (!cancelled) setSimulating(false);
+      }
+    }, SIMULATE_DELAY_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [marks, changed, profile]);
+
+  const setMark = (index: number, percentage: number) => {
+    setMarks(marks.map((subject, i) => (i === index ? { ...subject, percentage } : subject)));
+  };
+
+  const renderProgrammes = (programmes: SimulatedProgramme[]) => (
+    <ul className="space-y-0.5">
+      {programmes.map(programme => (
+        <li key={programme.programmeId} className="text-sm text-gray-700">
+          {programme.qualification} <span className="text-gray-500">- {programme.universityName}</span>
+        </li>
+      ))}
+    </ul>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow p-6">
+      <div className="flex justify-between items-start mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-gray-900 flex items-center">
+            <AdjustmentsHorizontalIcon className="h-6 w-6 mr-2 text-purple-600" />
+            What if?
+          </h2>
+          <p className="text-sm text-gray-600">Try projected marks to see what they would change. Your saved profile is not touched.</p>
+        </div>
+        <div className="flex items-center space-x-2">
+          <button
+            onClick={() => setMarks(profile.subjects)}
+            disabled={!changed}
+            className="flex items-center space-x-1 px-3 py-1.5 text-sm text-gray-700 border border-gray-300 rounded-lg hover:bg-gray-50 disabled:opacity-50"
+          >
+            <ArrowPathIcon className="h-4 w-4" />
+            <span>Reset</span>
+          </button>
+          <button onClick={onClose} className="p-1.5 text-gray-500 hover:text-gray-700" aria-label="Close simulator">
+            <XMarkIcon className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Projected marks */}
+        <div className="space-y-3">
+          {marks.map((subject, index) => {
+            const difference = subject.percentage - profile.subjects[index].percentage;
+            return (
+              <div key={subject.name}>
+                <div className="flex justify-between text-sm">
+                  <label htmlFor={`what-if-${index}`} className="font-medium text-gray-700">{subject.name}</label>
+                  <span className="text-gray-600">
+                    {subject.percentage}% (level {getAchievementLevel(subject.percentage)})
+                    {difference !== 0 && (
+                      <span className={difference > 0 ? 'text-green-600 ml-1' : 'text-red-600 ml-1'}>
+                        {difference > 0 ? '+' : ''}{difference}
+                      </span>
+                    )}
+                  </span>
+                </div>
+                <input
+                  id={`what-if-${index}`}
+                  type="range"
+                  min={0}
+                  max={100}
+                  value={subject.percentage}
+                  onChange={event => setMark(index, Number(event.target.value))}
+                  className="w-full accent-purple-600"
+                />
+              </div>
+            );
+          })}
+        </div>
+
+        {/* What the projected marks change */}
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="rounded-lg bg-purple-50 p-3">
+              <p className="text-xs text-gray-600">APS</p>
+              <p className="text-lg font-semibold text-gray-900 flex items-center">
+                {currentAPS}
+                {projectedAPS !== currentAPS && (
+                  <>
+                    <ArrowRightIcon className="h-4 w-4 mx-1 text-gray-500" />
+                    <span className={projectedAPS > currentAPS ? 'text-green-600' : 'text-red-600'}>{projectedAPS}</span>
+                  </>
+                )}
+              </p>
+            </div>
+            {result && (
+              <div className="rounded-lg bg-purple-50 p-3">
+                <p className="text-xs text-gray-600">
+                  Eligible {profile.intendedMajor ? `${profile.intendedMajor} ` : ''}programmes
+                </p>
+                <p className="text-lg font-semibold text-gray-900 flex items-center">
+                  {result.eligibleCount.current}
+                  {result.eligibleCount.projected !== result.eligibleCount.current && (
+                    <>
+                      <ArrowRightIcon className="h-4 w-4 mx-1 text-gray-500" />
+                      <span className={result.eligibleCount.projected > result.eligibleCount.current ? 'text-green-600' : 'text-red-600'}>
+                        {result.eligibleCount.projected}
+                      </span>
+                    </>
+                  )}
+                </p>
+              </div>
+            )}
+          </div>
+
+          {!changed && <p className="text-sm text-gray-500">Move a slider to see what changes.</p>}
+          {simulating && <p className="text-sm text-gray-500">Updating...</p>}
+          {error && <p className="text-sm text-red-600">{error}</p>}
+
+          {changed && result && (
+            <>
+              {result.changes.nowEligible.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-green-800 mb-1">Now within reach</h3>
+                  {renderProgrammes(result.changes.nowEligible)}
+                </div>
+              )}
+              {result.changes.noLongerEligible.length > 0 && (
+                <div>
+                  <h3 className="text-sm font-medium text-red-800 mb-1">No longer within reach</h3>
+                  {renderProgrammes(result.changes.noLongerEligible)}
+                </div>
+              )}
+
+              <div>
+                <h3 className="text-sm font-medium text-gray-900 mb-1">Projected recommendations</h3>
+                <ul className="divide-y divide-gray-100">
+                  {result.recommendations.map(rec => {
+                    const categoryChange = result.changes.categories.find(change => change.universityId === rec.university.id);
+                    return (
+                      <li key={rec.university.id} className="flex items-center justify-between py-1.5 text-sm">
+                        <span className="text-gray-700">
+                          {rec.university.universityName}
+                          {rec.eligibility && (
+                            <span className={rec.eligibility.eligible ? 'text-green-600 ml-1' : 'text-orange-600 ml-1'}>
+                              {rec.eligibility.eligible ? '- eligible' : `- ${rec.eligibility.failures.length} requirement${rec.eligibility.failures.length === 1 ? '' : 's'} missed`}
+                            </span>
+                          )}
+                        </span>
+                        <span className="flex items-center">
+                          {categoryChange && (
+                            <>
+                              <span className={`px-2 py-0.5 rounded-full border text-xs ${getCategoryColor(categoryChange.from)}`}>{categoryChange.from}</span>
+                              <ArrowRightIcon className="h-3 w-3 mx-1 text-gray-500" />
+                            </>
+                          )}
+                          <span className={`px-2 py-0.5 rounded-full border text-xs ${getCategoryColor(rec.category)}`}>{rec.category}</span>
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default WhatIfSimulator;
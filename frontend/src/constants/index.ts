@@ -1,3 +1,5 @@
+import { HouseholdIncomeBand, ScoreFactor, ScoreWeights } from '../types';
+
 export const APP_CONFIG = {
   API_BASE_URL: process.env.REACT_APP_API_URL || 'http://localhost:5000',
   APP_NAME: 'UniCopilot',
@@ -16,9 +18,66 @@ export const ROUTES = {
 export const UNIVERSITY_CATEGORIES = {
   SAFETY: 'Safety',
   TARGET: 'Target',
-  REACH: 'Reach'
+  REACH: 'Reach',
+  UNKNOWN: 'Unknown'
 } as const;
 
+export const SA_PROVINCES = [
+  'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal',
+  'Limpopo', 'Mpumalanga', 'Northern Cape', 'North West', 'Western Cape'
+];
+
+export const EXAM_BOARDS = ['NSC', 'IEB'] as const;
+
+export const MATRIC_SUBJECTS = [
+  'English Home Language', 'English First Additional Language',
+  'Afrikaans Home Language', 'Afrikaans First Additional Language',
+  'isiZulu Home Language', 'isiZulu First Additional Language',
+  'isiXhosa Home Language', 'isiXhosa First Additional Language',
+  'Sepedi Home Language', 'Sesotho Home Language', 'Setswana Home Language',
+  'Mathematics', 'Mathematical Literacy', 'Technical Mathematics',
+  'Life Orientation', 'Physical Sciences', 'Life Sciences', 'Geography',
+  'History', 'Accounting', 'Business Studies', 'Economics',
+  'Information Technology', 'Computer Applications Technology',
+  'Engineering Graphics and Design', 'Agricultural Sciences',
+  'Consumer Studies', 'Tourism', 'Dramatic Arts', 'Visual Arts', 'Music'
+];
+
+// Mirrors SCORE_FACTORS in backend/services/recommendationService.js
+export const SCORE_FACTOR_LABELS: Record<ScoreFactor, string> = {
+  academic: 'Academic fit',
+  programme: 'Programme availability',
+  cost: 'Cost versus budget',
+  distance: 'Distance from home',
+  nsfas: 'NSFAS funding',
+  language: 'Language of instruction'
+};
+
+export const MAX_SCORE_WEIGHT = 10;
+
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  academic: 8,
+  programme: 5,
+  cost: 4,
+  distance: 2,
+  nsfas: 2,
+  language: 2
+};
+
+export const SCORE_WEIGHT_PRESETS: { label: string; weights: ScoreWeights }[] = [
+  { label: 'Balanced', weights: DEFAULT_SCORE_WEIGHTS },
+  { label: 'Cost matters most', weights: { academic: 5, programme: 4, cost: 10, distance: 2, nsfas: 6, language: 1 } },
+  { label: 'Close to home', weights: { academic: 5, programme: 4, cost: 3, distance: 10, nsfas: 2, language: 2 } },
+  { label: 'Academic fit first', weights: { academic: 10, programme: 6, cost: 1, distance: 1, nsfas: 1, language: 1 } }
+];
+
+// Mirrors HOUSEHOLD_INCOME_BANDS in backend/services/fundingService.js
+export const HOUSEHOLD_INCOME_BANDS: { id: HouseholdIncomeBand; label: string }[] = [
+  { id: 'up-to-350000', label: 'R350 000 or less' },
+  { id: '350001-600000', label: 'R350 001 to R600 000' },
+  { id: 'over-600000', label: 'More than R600 000' }
+];
+
 export const US_STATES = [
   'Alabama', 'Alaska', 'Arizona', 'Arkansas', 'California', 'Colorado',
   'Connecticut', 'Delaware', 'Florida', 'Georgia', 'Hawaii', 'Idaho',
@@ -336,7 +336,7 @@ const Compare: React.FC = () => {
                   </tr>
                 </thead>
                 <tbody className="bg-white divide-y divide-gray-200">
-                  {renderComparisonRow('Location', (uni) => uni.location)}
+                  {renderComparisonRow('Location', (uni) => uni.location || undefined)}
                   {renderComparisonRow('GPA Required', (uni) => uni.gpaRequired)}
                   {renderComparisonRow('SAT Range', (uni) => uni.satRange)}
                   {renderComparisonRow('Acceptance Rate', (uni) => uni.acceptanceRate, (val) => val ? `${val}%` : 'N/A')}
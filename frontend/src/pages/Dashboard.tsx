@@ -11,9 +11,11 @@ import {
   TrophyIcon,
   CurrencyDollarIcon
 } from '@heroicons/react/24/outline';
-import { getAllUniversities, getProfile, getApiStatistics } from '../services/api';
+import { getAllUniversities, getProfile, getApiStatistics, getDeadlines } from '../services/api';
 import type { 
   University, 
+  Deadline,
+  DeadlineType,
   StudentProfile, 
   LoadingState, 
   ErrorState,
@@ -24,12 +26,37 @@ import type {
 interface DeadlineInfo {
   id: string;
   universityName: string;
+  label: string; // what closes and for whom, e.g. "Residence · International applicants"
+  description: string;
   deadline: string;
-  deadlineDate: Date;
   daysUntil: number;
-  location: string;
+  location: string | null;
 }
 
+const DEADLINE_TYPE_LABELS: Record<DeadlineType, string> = {
+  application: 'Applications',
+  residence: 'Residence',
+  bursary: 'Bursaries',
+  document_submission: 'Documents'
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+// Today as an ISO date in the student's own time zone
+const getToday = (): string => {
+  const now = new Date();
+  return `${now.getFullYear()}-${String(now.getMonth() + 1).padStart(2, '0')}-${String(now.getDate()).padStart(2, '0')}`;
+};
+
+const describeScope = (deadline: Deadline): string => {
+  if (deadline.scope.applicantGroup === 'international') return 'International applicants';
+  if (deadline.scope.programmeIds.length > 0) {
+    return deadline.scope.programmeIds.length === 1 ? 'One programme' : `${deadline.scope.programmeIds.length} programmes`;
+  }
+  if (deadline.scope.faculty) return `Faculty of ${deadline.scope.faculty}`;
+  return 'All applicants';
+};
+
 interface DashboardStats {
   totalUniversities: number;
   totalSearches: number;
@@ -39,6 +66,7 @@ interface DashboardStats {
 
 const Dashboard: React.FC = () => {
   const [universities, setUniversities] = useState<University[]>([]);
+  const [deadlines, setDeadlines] = useState<Deadline[]>([]);
   const [profile, setProfile] = useState<StudentProfile | null>(null);
   const [dashboardStats, setDashboardStats] = useState<DashboardStats | null>(null);
   const [loadingState, setLoadingState] = useState<LoadingState>({ isLoading: true });
@@ -56,18 +84,24 @@ const Dashboard: React.FC = () => {
       const promises = [
         getAllUniversities(1, 50), // Get first 50 universities for overview
         getProfile().catch(() => ({ success: false, data: null })), // Don't fail if no profile
-        getApiStatistics().catch(() => ({ success: false, data: null })) // Don't fail if stats unavailable
+        getApiStatistics().catch(() => ({ success: false, data: null })), // Don't fail if stats unavailable
+        getDeadlines({ from: getToday() }).catch(() => ({ success: false, data: null })) // Only dates still to come
       ];
 
-      const [univResponse, profileResponse, statsResponse] = await Promise.all(promises);
+      const [univResponse, profileResponse, statsResponse, deadlinesResponse] = await Promise.all(promises);
 
       // Handle universities response
       if (univResponse.success && Array.isArray(univResponse.data)) {
-        setUniversities(univResponse.data);
+        setUniversities(univResponse.data as University[]);
       } else {
         console.warn('Failed to load universities:', 'message' in univResponse ? univResponse.message : univResponse);
       }
 
+      // Handle deadlines response
+      if (deadlinesResponse.success && Array.isArray(deadlinesResponse.data)) {
+        setDeadlines(deadlinesResponse.data as Deadline[]);
+      }
+
       // Handle profile response
       if (profileResponse.success && profileResponse.data && typeof profileResponse.data === 'object' && !Array.isArray(profileResponse.data) && 'name' in profileResponse.data) {
         setProfile(profileResponse.data as StudentProfile);
@@ -97,55 +131,34 @@ const Dashboard: React.FC = () => {
     }
   };
 
+  // Dates come from the prospectuses as they are - a deadline that has passed
+  // is not moved to next year, since next year's may differ
   const upcomingDeadlines = useMemo((): DeadlineInfo[] => {
-    if (!universities.length) return [];
-
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    
-    return universities
-      .filter((u) => u.deadline)
-      .map((u) => {
-        // Parse deadline - assume current year if year not specified
-        let deadlineDate: Date;
-        try {
-          //deadlineDate = new Date(u.deadline);
-          deadlineDate = new Date(u.deadline ?? "");
-          // If year is not in the future, assume next year
-          if (deadlineDate.getFullYear() < currentYear || 
-              (deadlineDate.getFullYear() === currentYear && deadlineDate < now)) {
-            deadlineDate.setFullYear(currentYear + 1);
-          }
-        } catch {
-          // If parsing fails, skip this deadline
-          return null;
-        }
-
-        const daysUntil = Math.ceil((deadlineDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24));
+    const today = new Date(`${getToday()}T00:00:00`);
+    const locations = new Map(universities.map((u) => [u.id, u.location]));
 
-        return {
-          id: u.id,
-          universityName: u.universityName,
-          deadline: u.deadline,
-          deadlineDate,
-          daysUntil,
-          location: u.location
-        };
-      })
-      .filter((deadline): deadline is DeadlineInfo => 
-        deadline !== null && deadline.daysUntil > 0 && deadline.daysUntil <= 365
-      )
+    return deadlines
+      .map((deadline) => ({
+        id: deadline.id,
+        universityName: deadline.universityName,
+        label: `${DEADLINE_TYPE_LABELS[deadline.type]} · ${describeScope(deadline)}`,
+        description: deadline.description,
+        deadline: new Date(`${deadline.date}T00:00:00`).toLocaleDateString(undefined, { day: 'numeric', month: 'long', year: 'numeric' }),
+        daysUntil: Math.round((new Date(`${deadline.date}T00:00:00`).getTime() - today.getTime()) / DAY_MS),
+        location: locations.get(deadline.universityId) ?? null
+      }))
+      .filter((deadline) => deadline.daysUntil >= 0)
       .sort((a, b) => a.daysUntil - b.daysUntil)
       .slice(0, 5);
-  }, [universities]);
+  }, [deadlines, universities]);
 
   const profileCompletion = useMemo(() => {
     if (!profile) return 0;
     
     const fields = [
       profile.name,
-      profile.gpa,
-      profile.sat || profile.act,
+      profile.apsScore,
+      profile.subjects?.length,
       profile.intendedMajor,
       profile.locationPreference?.length,
       profile.extracurriculars?.length
@@ -250,9 +263,9 @@ const Dashboard: React.FC = () => {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Your GPA</p>
+              <p className="text-sm text-gray-600">Your APS</p>
               <p className="text-2xl font-bold text-gray-900">
-                {profile?.gpa ? profile.gpa.toFixed(2) : '--'}
+                {profile?.apsScore ? profile.apsScore : '--'}
               </p>
             </div>
             <ChartBarIcon className="h-8 w-8 text-green-600" />
@@ -262,9 +275,9 @@ const Dashboard: React.FC = () => {
         <div className="bg-white rounded-lg shadow p-6">
           <div className="flex items-center justify-between">
             <div>
-              <p className="text-sm text-gray-600">Test Score</p>
+              <p className="text-sm text-gray-600">Matric Subjects</p>
               <p className="text-2xl font-bold text-gray-900">
-                {profile?.sat ? profile.sat : profile?.act ? `${profile.act} ACT` : '--'}
+                {profile?.subjects?.length ? `${profile.subjects.length} ${profile.examBoard}` : '--'}
               </p>
             </div>
             <DocumentTextIcon className="h-8 w-8 text-purple-600" />
@@ -304,12 +317,13 @@ const Dashboard: React.FC = () => {
                         <p className="font-medium text-gray-900 truncate" title={deadline.universityName}>
                           {deadline.universityName}
                         </p>
-                        <p className="text-sm text-gray-600">{deadline.location}</p>
+                        <p className="text-sm text-gray-600" title={deadline.description}>{deadline.label}</p>
+                        {deadline.location && <p className="text-xs text-gray-500">{deadline.location}</p>}
                         <p className="text-xs text-gray-500">Due: {deadline.deadline}</p>
                       </div>
                       <div className="text-right ml-4">
                         <span className={`px-2 py-1 rounded-full text-xs font-medium ${urgency.color}`}>
-                          {deadline.daysUntil} days
+                          {deadline.daysUntil === 0 ? 'Today' : `${deadline.daysUntil} days`}
                         </span>
                         <p className="text-xs text-gray-500 mt-1">{urgency.label}</p>
                       </div>
@@ -8,19 +8,42 @@ import {
   XMarkIcon,
   InformationCircleIcon
 } from '@heroicons/react/24/outline';
-import { getProfile, saveProfile, uploadPDF } from '../services/api';
+import { getProfile, saveProfile, uploadPDF, getJob } from '../services/api';
 import { 
   StudentProfile, 
+  MatricSubject,
+  ExamBoard,
   LoadingState, 
   ErrorState, 
   ValidationError,
-  PDFUploadResult,
+  UploadJob,
+  JobStageName,
   APP_CONFIG 
 } from '../types';
+import { SA_PROVINCES, EXAM_BOARDS, MATRIC_SUBJECTS, HOUSEHOLD_INCOME_BANDS } from '../constants';
+import { calculateAllAPS, getAchievementLevel, isLifeOrientation, validateMatricSubjects } from '../utils/aps';
+
+// How often a processing upload is checked on
+const JOB_POLL_INTERVAL_MS = 1500;
+
+const STAGE_LABELS: Record<JobStageName, string> = {
+  parse: 'Reading the PDF',
+  chunk: 'Splitting it into passages',
+  extract: 'Extracting details',
+  embed: 'Preparing it for AI search',
+  index: 'Adding it to search'
+};
+
+// Seven rows matches the NSC/IEB minimum of six subjects plus Life Orientation
+const DEFAULT_SUBJECTS: MatricSubject[] = [
+  ...Array.from({ length: 6 }, () => ({ name: '', percentage: 0 })),
+  { name: 'Life Orientation', percentage: 0 }
+];
 
 const Profile: React.FC = () => {
   const [profile, setProfile] = useState<StudentProfile>({
-    gpa: 0,
+    examBoard: 'NSC',
+    subjects: DEFAULT_SUBJECTS,
     locationPreference: [],
     extracurriculars: [],
     awards: [],
@@ -30,6 +53,7 @@ const Profile: React.FC = () => {
   const [loadingState, setLoadingState] = useState<LoadingState>({ isLoading: true });
   const [savingState, setSavingState] = useState<LoadingState>({ isLoading: false });
   const [uploadingState, setUploadingState] = useState<LoadingState>({ isLoading: false });
+  const [uploadJob, setUploadJob] = useState<UploadJob | null>(null);
   const [errorState, setErrorState] = useState<ErrorState>({ hasError: false });
   const [message, setMessage] = useState<{ type: 'success' | 'error' | 'info', text: string } | null>(null);
   const [validationErrors, setValidationErrors] = useState<ValidationError[]>([]);
@@ -51,6 +75,39 @@ const Profile: React.FC = () => {
     }
   }, [message]);
 
+  useEffect(() => {
+    // Follow an upload until its background job finishes
+    if (!uploadJob || uploadJob.status === 'completed' || uploadJob.status === 'failed') return;
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await getJob(uploadJob.id);
+        if (!response.success || !response.data) {
+          throw new Error(response.error || 'Failed to fetch job status');
+        }
+
+        const job = response.data;
+        if (job.status === 'completed' && job.result) {
+          setMessage({
+            type: 'success',
+            text: `${job.result.fileName} processed: ${job.result.chunkCount} passages added to search in ${(job.result.processingTime / 1000).toFixed(1)}s`
+          });
+          setUploadingState({ isLoading: false });
+        } else if (job.status === 'failed') {
+          setMessage({ type: 'error', text: job.error || 'Failed to process document' });
+          setUploadingState({ isLoading: false });
+        }
+        setUploadJob(job);
+      } catch (error: any) {
+        setMessage({ type: 'error', text: error.message || 'Failed to fetch job status' });
+        setUploadingState({ isLoading: false });
+        setUploadJob(null);
+      }
+    }, JOB_POLL_INTERVAL_MS);
+
+    return () => clearTimeout(timer);
+  }, [uploadJob]);
+
   const loadProfile = async () => {
     try {
       setLoadingState({ isLoading: true, message: 'Loading profile...' });
@@ -59,12 +116,15 @@ const Profile: React.FC = () => {
       const response = await getProfile();
       
       if (response.success && response.data) {
+        // Profiles saved before the matric model have no exam board or subjects
         setProfile({
           locationPreference: [],
           extracurriculars: [],
           awards: [],
           workExperience: [],
-          ...response.data
+          ...response.data,
+          examBoard: response.data.examBoard || 'NSC',
+          subjects: response.data.subjects?.length ? response.data.subjects : DEFAULT_SUBJECTS
         });
       } else if (!response.success && response.message) {
         // Profile doesn't exist yet - this is normal for new users
@@ -87,21 +147,9 @@ const Profile: React.FC = () => {
   const validateProfile = (): ValidationError[] => {
     const errors: ValidationError[] = [];
     
-    if (!profile.gpa || profile.gpa <= 0) {
-      errors.push({ field: 'gpa', message: 'GPA is required and must be greater than 0' });
-    }
-    
-    if (profile.gpa > 4.0) {
-      errors.push({ field: 'gpa', message: 'GPA cannot exceed 4.0' });
-    }
-    
-    if (profile.sat && (profile.sat < 400 || profile.sat > 1600)) {
-      errors.push({ field: 'sat', message: 'SAT score must be between 400 and 1600' });
-    }
-    
-    if (profile.act && (profile.act < 1 || profile.act > 36)) {
-      errors.push({ field: 'act', message: 'ACT score must be between 1 and 36' });
-    }
+    validateMatricSubjects(profile.subjects, profile.examBoard).forEach(message => {
+      errors.push({ field: 'subjects', message });
+    });
     
     if (profile.budgetRange && profile.budgetRange.min > profile.budgetRange.max) {
       errors.push({ field: 'budget', message: 'Minimum budget cannot exceed maximum budget' });
@@ -129,6 +177,9 @@ const Profile: React.FC = () => {
       const response = await saveProfile(profile);
       
       if (response.success) {
+        if (response.data) {
+          setProfile(prev => ({ ...prev, ...response.data }));
+        }
         setMessage({ type: 'success', text: 'Profile saved successfully!' });
       } else {
         throw new Error(response.message || 'Failed to save profile');
@@ -163,48 +214,24 @@ const Profile: React.FC = () => {
       return;
     }
 
-    setUploadingState({ isLoading: true, message: 'Processing document...' });
+    setUploadingState({ isLoading: true, message: 'Uploading document...' });
+    setUploadJob(null);
     setMessage(null);
 
     try {
       const response = await uploadPDF(file);
       
       if (response.success && response.data) {
-        const { extractedData } = response.data;
-        
-        setProfile(prev => ({
-          ...prev,
-          ...extractedData,
-          // Merge arrays instead of replacing
-          locationPreference: [
-            ...(prev.locationPreference || []),
-            ...(extractedData.locationPreference || [])
-          ].filter((item, index, arr) => arr.indexOf(item) === index),
-          
-          extracurriculars: [
-            ...(prev.extracurriculars || []),
-            ...(extractedData.extracurriculars || [])
-          ].filter((item, index, arr) => arr.indexOf(item) === index),
-          
-          awards: [
-            ...(prev.awards || []),
-            ...(extractedData.awards || [])
-          ].filter((item, index, arr) => arr.indexOf(item) === index),
-        }));
-        
-        setMessage({ 
-          type: 'success', 
-          text: `Document processed successfully! Processing time: ${response.data.processingTime}ms` 
-        });
+        // Processing carries on in the background; the effect above polls it
+        setUploadJob(response.data);
       } else {
-        throw new Error(response.message || 'Failed to process document');
+        throw new Error(response.error || response.message || 'Failed to upload document');
       }
     } catch (error: any) {
       setMessage({ 
         type: 'error', 
-        text: error.message || 'Failed to process document' 
+        text: error.message || 'Failed to upload document' 
       });
-    } finally {
       setUploadingState({ isLoading: false });
     }
   };
@@ -219,6 +246,29 @@ const Profile: React.FC = () => {
     setValidationErrors(prev => prev.filter(err => err.field !== field));
   };
 
+  const handleSubjectChange = (index: number, field: keyof MatricSubject, value: string | number) => {
+    setProfile(prev => ({
+      ...prev,
+      subjects: prev.subjects.map((subject, i) => i === index ? { ...subject, [field]: value } : subject)
+    }));
+    setValidationErrors(prev => prev.filter(err => err.field !== 'subjects'));
+  };
+
+  const addSubject = () => {
+    setProfile(prev => ({
+      ...prev,
+      subjects: [...prev.subjects, { name: '', percentage: 0 }]
+    }));
+  };
+
+  const removeSubject = (index: number) => {
+    setProfile(prev => ({
+      ...prev,
+      subjects: prev.subjects.filter((_, i) => i !== index)
+    }));
+    setValidationErrors(prev => prev.filter(err => err.field !== 'subjects'));
+  };
+
   const handleLocationChange = (location: string, checked: boolean) => {
     setProfile(prev => ({
       ...prev,
@@ -249,11 +299,17 @@ const Profile: React.FC = () => {
     }));
   };
 
+  const apsResults = useMemo(() => calculateAllAPS(profile.subjects), [profile.subjects]);
+  const countedSubjects = useMemo(() => {
+    const standard = apsResults.find(result => result.scheme === 'standard');
+    return new Set((standard?.breakdown || []).filter(subject => subject.counted).map(subject => subject.name));
+  }, [apsResults]);
+
   const profileCompletion = useMemo(() => {
     const fields = [
       profile.name,
-      profile.gpa && profile.gpa > 0,
-      profile.sat || profile.act,
+      profile.subjects.filter(subject => subject.name.trim() && subject.percentage > 0).length >= 7,
+      profile.province,
       profile.intendedMajor,
       profile.locationPreference?.length,
       profile.extracurriculars?.length,
@@ -385,10 +441,11 @@ const Profile: React.FC = () => {
       <div className="bg-white rounded-lg shadow p-6">
         <h2 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
           <DocumentArrowUpIcon className="h-6 w-6 mr-2 text-blue-600" />
-          Upload Academic Documents
+          Upload University Documents
         </h2>
         <p className="text-sm text-gray-600 mb-4">
-          Upload your transcript, test scores, or other academic documents to auto-fill your profile.
+          Upload a prospectus or other university document to add it to what the AI assistant searches.
+          Large documents are processed in the background.
           Supported format: PDF (max {APP_CONFIG.MAX_FILE_SIZE_MB}MB)
         </p>
         
@@ -406,7 +463,30 @@ const Profile: React.FC = () => {
             className={`cursor-pointer ${uploadingState.isLoading ? 'opacity-50 cursor-not-allowed' : ''}`}
           >
             <DocumentArrowUpIcon className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-            {uploadingState.isLoading ? (
+            {uploadingState.isLoading && uploadJob ? (
+              <div className="max-w-md mx-auto">
+                <div className="flex justify-between text-sm text-gray-600 mb-1">
+                  <span>
+                    {uploadJob.stage ? STAGE_LABELS[uploadJob.stage] : 'Waiting to start'}
+                    {uploadJob.stages.some(stage => stage.status === 'retrying') && ' (retrying)'}
+                  </span>
+                  <span>{uploadJob.progress}%</span>
+                </div>
+                <div
+                  className="w-full bg-gray-200 rounded-full h-2"
+                  role="progressbar"
+                  aria-valuenow={uploadJob.progress}
+                  aria-valuemin={0}
+                  aria-valuemax={100}
+                >
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-500"
+                    style={{ width: `${uploadJob.progress}%` }}
+                  ></div>
+                </div>
+                <p className="text-xs text-gray-500 mt-2">{uploadJob.details.fileName}</p>
+              </div>
+            ) : uploadingState.isLoading ? (
               <div className="flex items-center justify-center space-x-2">
                 <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-blue-600"></div>
                 <p className="text-sm text-gray-600">{uploadingState.message}</p>
@@ -460,73 +540,124 @@ const Profile: React.FC = () => {
           </div>
         </div>
 
-        {/* Academic Information */}
+        {/* Matric Results */}
         <div className="bg-white rounded-lg shadow p-6">
-          <h2 className="text-lg font-semibold text-gray-900 mb-4">Academic Information</h2>
+          <h2 className="text-lg font-semibold text-gray-900 mb-4">Matric Results</h2>
           
-          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                GPA <span className="text-red-500">*</span>
+                Exam Board <span className="text-red-500">*</span>
               </label>
-              <input
-                type="number"
-                step="0.01"
-                min="0"
-                max="4.0"
-                value={profile.gpa || ''}
-                onChange={(e) => handleInputChange('gpa', parseFloat(e.target.value) || 0)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 transition-colors ${
-                  getFieldError('gpa') ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-                }`}
-                placeholder="4.0 scale"
-                required
-              />
-              {getFieldError('gpa') && (
-                <p className="text-sm text-red-600 mt-1">{getFieldError('gpa')}</p>
-              )}
+              <select
+                value={profile.examBoard}
+                onChange={(e) => handleInputChange('examBoard', e.target.value as ExamBoard)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                {EXAM_BOARDS.map(board => (
+                  <option key={board} value={board}>{board}</option>
+                ))}
+              </select>
             </div>
 
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-2">
-                SAT Score
+                Home Province
               </label>
-              <input
-                type="number"
-                min="400"
-                max="1600"
-                value={profile.sat || ''}
-                onChange={(e) => handleInputChange('sat', parseInt(e.target.value) || undefined)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 transition-colors ${
-                  getFieldError('sat') ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-                }`}
-                placeholder="400-1600"
-              />
-              {getFieldError('sat') && (
-                <p className="text-sm text-red-600 mt-1">{getFieldError('sat')}</p>
-              )}
+              <select
+                value={profile.province || ''}
+                onChange={(e) => handleInputChange('province', e.target.value || undefined)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="">Select...</option>
+                {SA_PROVINCES.map(province => (
+                  <option key={province} value={province}>{province}</option>
+                ))}
+              </select>
             </div>
+          </div>
 
-            <div>
-              <label className="block text-sm font-medium text-gray-700 mb-2">
-                ACT Score
+          {/* Subjects */}
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="block text-sm font-medium text-gray-700">
+                Subjects <span className="text-red-500">*</span>
               </label>
-              <input
-                type="number"
-                min="1"
-                max="36"
-                value={profile.act || ''}
-                onChange={(e) => handleInputChange('act', parseInt(e.target.value) || undefined)}
-                className={`w-full px-3 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 transition-colors ${
-                  getFieldError('act') ? 'border-red-300 focus:border-red-500 focus:ring-red-500' : 'border-gray-300 focus:border-blue-500'
-                }`}
-                placeholder="1-36"
-              />
-              {getFieldError('act') && (
-                <p className="text-sm text-red-600 mt-1">{getFieldError('act')}</p>
-              )}
+              <button
+                type="button"
+                onClick={addSubject}
+                className="flex items-center text-sm text-blue-600 hover:text-blue-800"
+              >
+                <PlusIcon className="h-4 w-4 mr-1" />
+                Add subject
+              </button>
+            </div>
+
+            <datalist id="matric-subjects">
+              {MATRIC_SUBJECTS.map(subject => (
+                <option key={subject} value={subject} />
+              ))}
+            </datalist>
+
+            <div className="space-y-2">
+              {profile.subjects.map((subject, index) => (
+                <div key={index} className="flex items-center space-x-2">
+                  <input
+                    type="text"
+                    list="matric-subjects"
+                    value={subject.name}
+                    onChange={(e) => handleSubjectChange(index, 'name', e.target.value)}
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="e.g., English Home Language"
+                  />
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={subject.percentage || ''}
+                    onChange={(e) => handleSubjectChange(index, 'percentage', parseFloat(e.target.value) || 0)}
+                    className="w-24 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+                    placeholder="%"
+                  />
+                  <span
+                    className={`w-20 text-center text-sm px-2 py-1 rounded ${
+                      isLifeOrientation(subject.name) ? 'bg-gray-100 text-gray-500' :
+                      countedSubjects.has(subject.name.trim()) ? 'bg-blue-100 text-blue-800' : 'bg-gray-100 text-gray-600'
+                    }`}
+                    title={isLifeOrientation(subject.name) ? 'Life Orientation is not counted in the standard APS' : 'NSC achievement level'}
+                  >
+                    {subject.percentage > 0 ? `Level ${getAchievementLevel(subject.percentage)}` : '--'}
+                  </span>
+                  <button
+                    type="button"
+                    onClick={() => removeSubject(index)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                  >
+                    <XMarkIcon className="h-5 w-5" />
+                  </button>
+                </div>
+              ))}
             </div>
+            {getFieldError('subjects') && (
+              <p className="text-sm text-red-600 mt-2">{getFieldError('subjects')}</p>
+            )}
           </div>
+
+          {/* APS */}
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-6">
+            {apsResults.map(result => (
+              <div key={result.scheme} className="bg-blue-50 rounded-lg p-4">
+                <p className="text-sm text-blue-700">{result.label}</p>
+                <p className="text-2xl font-bold text-blue-900">
+                  {result.score}
+                  <span className="text-sm font-normal text-blue-700"> / {result.maxScore}</span>
+                </p>
+              </div>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-2">
+            The standard APS uses your best six subjects, excluding Life Orientation. Highlighted levels are the subjects being counted.
+          </p>
         </div>
 
         {/* Preferences */}
@@ -557,7 +688,7 @@ const Profile: React.FC = () => {
             {/* Budget Range */}
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-3">
-                Annual Budget Range (USD)
+                Annual Budget Range (Rand)
               </label>
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
@@ -592,6 +723,50 @@ const Profile: React.FC = () => {
               {getFieldError('budget') && (
                 <p className="text-sm text-red-600 mt-1">{getFieldError('budget')}</p>
               )}
+              <p className="text-xs text-gray-500 mt-1">
+                What your family can pay a year. Each university's tuition, residence and living costs, less expected funding, are compared with the maximum.
+              </p>
+            </div>
+
+            {/* Funding circumstances */}
+            <div>
+              <label htmlFor="household-income" className="block text-sm font-medium text-gray-700 mb-2">
+                Combined Household Income per Year
+              </label>
+              <select
+                id="household-income"
+                value={profile.householdIncomeBand || ''}
+                onChange={(e) => handleInputChange('householdIncomeBand', e.target.value || undefined)}
+                className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-blue-500 transition-colors"
+              >
+                <option value="">Prefer not to say</option>
+                {HOUSEHOLD_INCOME_BANDS.map(band => (
+                  <option key={band.id} value={band.id}>{band.label}</option>
+                ))}
+              </select>
+              <div className="mt-3 space-y-2">
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={profile.sassaGrant || false}
+                    onChange={(e) => handleInputChange('sassaGrant', e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">I receive a SASSA grant</span>
+                </label>
+                <label className="flex items-center space-x-2">
+                  <input
+                    type="checkbox"
+                    checked={profile.disability || false}
+                    onChange={(e) => handleInputChange('disability', e.target.checked)}
+                    className="rounded border-gray-300 text-blue-600 focus:ring-blue-500"
+                  />
+                  <span className="text-sm text-gray-700">I have a disability</span>
+                </label>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Used only to estimate whether you qualify for NSFAS funding.
+              </p>
             </div>
 
             {/* Location Preferences */}
@@ -750,7 +925,7 @@ const Profile: React.FC = () => {
             </div>
             <button
               type="submit"
-              disabled={savingState.isLoading || !profile.gpa || validationErrors.length > 0}
+              disabled={savingState.isLoading || profile.subjects.length === 0 || validationErrors.length > 0}
               className="px-8 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 transition-colors"
             >
               {savingState.isLoading ? (
@@ -788,9 +963,9 @@ const Profile: React.FC = () => {
           <div className="bg-blue-50 rounded-lg p-4">
             <h3 className="font-medium text-blue-900 mb-2">Academic</h3>
             <div className="space-y-1 text-sm">
-              <p className="text-blue-800">GPA: {profile.gpa ? profile.gpa.toFixed(2) : 'Not set'}</p>
+              <p className="text-blue-800">APS: {apsResults[0].score > 0 ? `${apsResults[0].score} / ${apsResults[0].maxScore}` : 'Not set'}</p>
               <p className="text-blue-800">
-                Test Score: {profile.sat ? `${profile.sat} SAT` : profile.act ? `${profile.act} ACT` : 'Not set'}
+                {profile.examBoard}: {profile.subjects.filter(subject => subject.name.trim()).length} subjects
               </p>
               <p className="text-blue-800">Major: {profile.intendedMajor || 'Not specified'}</p>
             </div>
@@ -825,6 +1000,9 @@ const Profile: React.FC = () => {
                   ? `${profile.budgetRange.min.toLocaleString()}-${profile.budgetRange.max.toLocaleString()}` 
                   : 'Not set'}
               </p>
+              <p className="text-purple-800">
+                Household Income: {HOUSEHOLD_INCOME_BANDS.find(band => band.id === profile.householdIncomeBand)?.label || 'Not set'}
+              </p>
             </div>
           </div>
         </div>
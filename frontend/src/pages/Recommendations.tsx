@@ -18,353 +18,51 @@ import {
   ChevronUpIcon,
   InformationCircleIcon,
   SparklesIcon,
-  TrophyIcon
+  TrophyIcon,
+  AdjustmentsHorizontalIcon
 } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
 
-// Types
-interface StudentProfile {
-  gpa: number;
-  sat?: number;
-  act?: number;
-  intendedMajor?: string;
-  extracurriculars?: string[];
-  essays?: number;
-  location?: string;
-}
-
-interface University {
-  id: string;
-  universityName: string;
-  location: string;
-  ranking?: number;
-  gpaRequired: string;
-  satRange?: string;
-  actRange?: string;
-  acceptanceRate: number;
-  applicationFee: number;
-  deadline: string;
-  essaysRequired: number;
-  tuition: number;
-  studentCount: number;
-  programs?: string;
-  requirements?: string;
-}
-
-interface Recommendation {
-  university: University;
-  matchScore: number;
-  category: 'Safety' | 'Target' | 'Reach';
-  reasoning: string;
-  academicFit?: 'Excellent' | 'Good' | 'Fair';
-  financialFit?: 'Good' | 'Moderate' | 'Challenging';
-}
-
-interface ProfileAnalysis {
-  strengths: string[];
-  areasForImprovement: string[];
-  suggestions: string[];
-}
+import { Link } from 'react-router-dom';
+import { getProfile, getRecommendations, saveProfile } from '../services/api';
+import { StudentProfile, Recommendation, ProfileAnalysis, ScoreWeights } from '../types';
+import EligibilityPanel from '../components/EligibilityPanel';
+import PathwaysPanel from '../components/PathwaysPanel';
+import WhatIfSimulator from '../components/WhatIfSimulator';
+import ScoreBreakdownBar from '../components/ScoreBreakdownBar';
+import ScoreWeightsPanel from '../components/ScoreWeightsPanel';
+import FundingBreakdown from '../components/FundingBreakdown';
 
 interface RecommendationFilters {
-  categories: ('Safety' | 'Target' | 'Reach')[];
+  categories: Recommendation['category'][];
   minMatchScore: number;
-  maxApplicationFee: number | null;
-  location: string[];
-  maxEssays: number | null;
-  sortBy: 'matchScore' | 'acceptanceRate' | 'ranking' | 'applicationFee' | 'deadline';
+  sortBy: 'matchScore' | 'apsScoreRequired' | 'tuitionFeesAnnual' | 'deadline';
   sortOrder: 'asc' | 'desc';
 }
 
-// Mock data generator
-const generateMockRecommendations = (profile: StudentProfile): { 
-  recommendations: Recommendation[], 
-  profileAnalysis: ProfileAnalysis 
-} => {
-  const universities: University[] = [
-    {
-      id: '1',
-      universityName: 'University of Cape Town',
-      location: 'Cape Town, Western Cape',
-      ranking: 1,
-      gpaRequired: '3.5+',
-      satRange: '1200-1400',
-      acceptanceRate: 18,
-      applicationFee: 1200,
-      deadline: '2024-09-30',
-      essaysRequired: 2,
-      tuition: 85000,
-      studentCount: 29000,
-      programs: 'Engineering, Medicine, Commerce, Humanities, Science',
-      requirements: 'NSC with Bachelor Pass, English proficiency, Mathematics 70%+'
-    },
-    {
-      id: '2',
-      universityName: 'University of the Witwatersrand',
-      location: 'Johannesburg, Gauteng',
-      ranking: 2,
-      gpaRequired: '3.6+',
-      satRange: '1250-1450',
-      acceptanceRate: 15,
-      applicationFee: 1500,
-      deadline: '2024-09-30',
-      essaysRequired: 1,
-      tuition: 92000,
-      studentCount: 37000,
-      programs: 'Engineering, Health Sciences, Commerce, Law, Humanities',
-      requirements: 'NSC with Bachelor Pass, APS 36+, English and Mathematics requirements'
-    },
-    {
-      id: '3',
-      universityName: 'Stellenbosch University',
-      location: 'Stellenbosch, Western Cape',
-      ranking: 3,
-      gpaRequired: '3.4+',
-      satRange: '1150-1350',
-      acceptanceRate: 22,
-      applicationFee: 1100,
-      deadline: '2024-06-30',
-      essaysRequired: 1,
-      tuition: 78000,
-      studentCount: 32000,
-      programs: 'Engineering, AgriSciences, Medicine, Arts, Economic Sciences',
-      requirements: 'NSC with Bachelor Pass, Language requirements, Mathematics 60%+'
-    },
-    {
-      id: '4',
-      universityName: 'University of Pretoria',
-      location: 'Pretoria, Gauteng',
-      ranking: 4,
-      gpaRequired: '3.3+',
-      satRange: '1100-1300',
-      acceptanceRate: 25,
-      applicationFee: 1000,
-      deadline: '2024-08-31',
-      essaysRequired: 1,
-      tuition: 75000,
-      studentCount: 53000,
-      programs: 'Engineering, Natural Sciences, Health Sciences, Law, Education',
-      requirements: 'NSC with Bachelor Pass, APS 32+, Subject-specific requirements'
-    },
-    {
-      id: '5',
-      universityName: 'Rhodes University',
-      location: 'Makhanda, Eastern Cape',
-      ranking: 5,
-      gpaRequired: '3.2+',
-      satRange: '1050-1250',
-      acceptanceRate: 35,
-      applicationFee: 900,
-      deadline: '2024-09-30',
-      essaysRequired: 2,
-      tuition: 68000,
-      studentCount: 8200,
-      programs: 'Humanities, Science, Commerce, Law, Pharmacy',
-      requirements: 'NSC with Bachelor Pass, English 60%+, Subject requirements'
-    },
-    {
-      id: '6',
-      universityName: 'University of KwaZulu-Natal',
-      location: 'Durban, KwaZulu-Natal',
-      ranking: 6,
-      gpaRequired: '3.0+',
-      satRange: '1000-1200',
-      acceptanceRate: 40,
-      applicationFee: 800,
-      deadline: '2024-09-30',
-      essaysRequired: 0,
-      tuition: 62000,
-      studentCount: 46000,
-      programs: 'Agriculture, Engineering, Health Sciences, Humanities, Law',
-      requirements: 'NSC with Bachelor Pass, APS 30+, English proficiency'
-    },
-    {
-      id: '7',
-      universityName: 'University of the Western Cape',
-      location: 'Cape Town, Western Cape',
-      ranking: 8,
-      gpaRequired: '2.8+',
-      satRange: '950-1150',
-      acceptanceRate: 45,
-      applicationFee: 750,
-      deadline: '2024-10-31',
-      essaysRequired: 0,
-      tuition: 55000,
-      studentCount: 24000,
-      programs: 'Natural Sciences, Economic Sciences, Law, Education, Community Health',
-      requirements: 'NSC with Bachelor Pass, APS 28+, Mathematics or Math Lit'
-    },
-    {
-      id: '8',
-      universityName: 'Nelson Mandela University',
-      location: 'Port Elizabeth, Eastern Cape',
-      ranking: 9,
-      gpaRequired: '2.9+',
-      satRange: '980-1180',
-      acceptanceRate: 42,
-      applicationFee: 850,
-      deadline: '2024-08-31',
-      essaysRequired: 0,
-      tuition: 58000,
-      studentCount: 27000,
-      programs: 'Business, Engineering, Health Sciences, Law, Science',
-      requirements: 'NSC with Bachelor Pass, APS 28+, Subject-specific requirements'
-    }
-  ];
-
-  // Calculate match scores and categorize based on profile
-  const recommendations: Recommendation[] = universities.map(uni => {
-    let matchScore = 50; // Base score
-    let category: 'Safety' | 'Target' | 'Reach' = 'Target';
-    let reasoning = '';
-    
-    // GPA comparison
-    const requiredGPA = parseFloat(uni.gpaRequired);
-    const gpaGap = profile.gpa - requiredGPA;
-    
-    if (gpaGap >= 0.5) {
-      matchScore += 25;
-      category = 'Safety';
-      reasoning = `Your GPA of ${profile.gpa} exceeds the typical requirement of ${uni.gpaRequired}. `;
-    } else if (gpaGap >= 0) {
-      matchScore += 15;
-      category = 'Target';
-      reasoning = `Your GPA of ${profile.gpa} meets the requirement of ${uni.gpaRequired}. `;
-    } else if (gpaGap >= -0.3) {
-      matchScore += 5;
-      category = 'Target';
-      reasoning = `Your GPA is slightly below the typical requirement, but still competitive. `;
-    } else {
-      matchScore -= 10;
-      category = 'Reach';
-      reasoning = `This is a reach school given the GPA requirements, but worth applying if you love the program. `;
-    }
-    
-    // SAT comparison if provided
-    if (profile.sat && uni.satRange) {
-      const [minSAT, maxSAT] = uni.satRange.split('-').map(s => parseInt(s));
-      const midSAT = (minSAT + maxSAT) / 2;
-      
-      if (profile.sat >= maxSAT) {
-        matchScore += 15;
-        reasoning += `Your SAT score is in the top range for admitted students. `;
-      } else if (profile.sat >= midSAT) {
-        matchScore += 10;
-        reasoning += `Your SAT score is competitive for this university. `;
-      } else if (profile.sat >= minSAT) {
-        matchScore += 5;
-        reasoning += `Your SAT score meets the minimum requirements. `;
-      }
-    }
-    
-    // Acceptance rate factor
-    if (uni.acceptanceRate < 20) {
-      matchScore -= 10;
-      if (category === 'Target') category = 'Reach';
-      reasoning += `Highly selective with ${uni.acceptanceRate}% acceptance rate. `;
-    } else if (uni.acceptanceRate > 35) {
-      matchScore += 10;
-      reasoning += `Good acceptance rate of ${uni.acceptanceRate}%. `;
-    }
-    
-    // Major alignment (mock)
-    if (profile.intendedMajor) {
-      matchScore += 5;
-      reasoning += `Strong programs in your area of interest. `;
-    }
-    
-    // Normalize score to 0-100
-    matchScore = Math.max(20, Math.min(95, matchScore));
-    
-    // Determine academic and financial fit
-    const academicFit: 'Excellent' | 'Good' | 'Fair' = 
-      matchScore >= 80 ? 'Excellent' : 
-      matchScore >= 60 ? 'Good' : 'Fair';
-      
-    const financialFit: 'Good' | 'Moderate' | 'Challenging' = 
-      uni.tuition < 60000 ? 'Good' :
-      uni.tuition < 80000 ? 'Moderate' : 'Challenging';
-    
-    return {
-      university: uni,
-      matchScore,
-      category,
-      reasoning: reasoning.trim(),
-      academicFit,
-      financialFit
-    };
-  });
-
-  // Generate profile analysis
-  const profileAnalysis: ProfileAnalysis = {
-    strengths: [],
-    areasForImprovement: [],
-    suggestions: []
-  };
-
-  // Analyze strengths
-  if (profile.gpa >= 3.5) {
-    profileAnalysis.strengths.push('Strong academic performance with GPA above 3.5');
-  }
-  if (profile.sat && profile.sat >= 1300) {
-    profileAnalysis.strengths.push('Competitive SAT score for top universities');
-  }
-  if (profile.extracurriculars && profile.extracurriculars.length > 3) {
-    profileAnalysis.strengths.push('Diverse extracurricular activities');
-  }
-
-  // Areas for improvement
-  if (profile.gpa < 3.0) {
-    profileAnalysis.areasForImprovement.push('GPA could be stronger for competitive programs');
-  }
-  if (!profile.sat && !profile.act) {
-    profileAnalysis.areasForImprovement.push('Consider taking SAT or ACT for more opportunities');
-  }
-  if (!profile.extracurriculars || profile.extracurriculars.length < 2) {
-    profileAnalysis.areasForImprovement.push('Limited extracurricular activities');
-  }
-
-  // Suggestions
-  profileAnalysis.suggestions.push('Apply to a mix of safety, target, and reach schools');
-  profileAnalysis.suggestions.push('Start applications early to meet all deadlines');
-  if (recommendations.filter(r => r.category === 'Safety').length < 2) {
-    profileAnalysis.suggestions.push('Consider adding more safety schools to your list');
-  }
-
-  return { recommendations, profileAnalysis };
-};
-
 const INITIAL_FILTERS: RecommendationFilters = {
-  categories: ['Safety', 'Target', 'Reach'],
+  categories: ['Safety', 'Target', 'Reach', 'Unknown'],
   minMatchScore: 0,
-  maxApplicationFee: null,
-  location: [],
-  maxEssays: null,
   sortBy: 'matchScore',
   sortOrder: 'desc'
 };
 
 const Recommendations: React.FC = () => {
-  // Default profile - in real app, this would come from API/context
-  const [profile] = useState<StudentProfile>({
-    gpa: 3.4,
-    sat: 1250,
-    act: 28,
-    intendedMajor: 'Computer Science',
-    extracurriculars: ['Debate Club', 'Chess Team', 'Volunteer Work', 'Part-time Job'],
-    essays: 3,
-    location: 'Gauteng'
-  });
-
+  const [profile, setProfile] = useState<StudentProfile | null>(null);
   const [recommendations, setRecommendations] = useState<Recommendation[]>([]);
   const [profileAnalysis, setProfileAnalysis] = useState<ProfileAnalysis | null>(null);
+  const [summary, setSummary] = useState<string>('');
   const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
   const [filters, setFilters] = useState<RecommendationFilters>(INITIAL_FILTERS);
   const [showFilters, setShowFilters] = useState(false);
   const [savedUniversities, setSavedUniversities] = useState<Set<string>>(new Set());
   const [comparisonList, setComparisonList] = useState<string[]>([]);
   const [expandedCards, setExpandedCards] = useState<Set<string>>(new Set());
   const [refreshing, setRefreshing] = useState(false);
+  const [showSimulator, setShowSimulator] = useState(false);
+  const [weights, setWeights] = useState<ScoreWeights | null>(null);
+  const [showWeights, setShowWeights] = useState(false);
 
   useEffect(() => {
     loadRecommendations();
@@ -372,14 +70,35 @@ const Recommendations: React.FC = () => {
 
   const loadRecommendations = async () => {
     setLoading(true);
-    
-    // Simulate API call
-    setTimeout(() => {
-      const { recommendations: recs, profileAnalysis: analysis } = generateMockRecommendations(profile);
-      setRecommendations(recs);
-      setProfileAnalysis(analysis);
+    setError(null);
+
+    try {
+      const profileResponse = await getProfile();
+      const savedProfile = profileResponse.success ? profileResponse.data || null : null;
+      setProfile(savedProfile);
+
+      if (!savedProfile || (!savedProfile.apsScore && !savedProfile.subjects?.length)) {
+        setRecommendations([]);
+        setProfileAnalysis(null);
+        return;
+      }
+
+      const response = await getRecommendations(savedProfile);
+
+      if (response.success && response.data) {
+        setRecommendations(response.data.recommendations);
+        setWeights(response.data.weights);
+        setProfileAnalysis(response.data.profileAnalysis);
+        setSummary(response.data.summary);
+      } else {
+        throw new Error(response.error || 'Failed to load recommendations');
+      }
+    } catch (err) {
+      console.error('Error loading recommendations:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load recommendations');
+    } finally {
       setLoading(false);
-    }, 1500);
+    }
   };
 
   const refreshRecommendations = async () => {
@@ -388,19 +107,29 @@ const Recommendations: React.FC = () => {
     setRefreshing(false);
   };
 
+  // Save the weights on the profile so later visits rank the same way, then re-rank
+  const applyWeights = async (scoreWeights: ScoreWeights) => {
+    if (!profile) return;
+
+    setRefreshing(true);
+    try {
+      const response = await saveProfile({ ...profile, scoreWeights });
+      if (!response.success) {
+        throw new Error(response.error || 'Failed to save score weights');
+      }
+      await loadRecommendations();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save score weights');
+    } finally {
+      setRefreshing(false);
+    }
+  };
+
   // Filter and sort recommendations
   const filteredAndSortedRecommendations = useMemo(() => {
     let filtered = recommendations.filter(rec => {
       if (!filters.categories.includes(rec.category)) return false;
       if (rec.matchScore < filters.minMatchScore) return false;
-      if (filters.maxApplicationFee !== null && rec.university.applicationFee > filters.maxApplicationFee) return false;
-      if (filters.location.length > 0) {
-        const hasMatchingLocation = filters.location.some(loc => 
-          rec.university.location.toLowerCase().includes(loc.toLowerCase())
-        );
-        if (!hasMatchingLocation) return false;
-      }
-      if (filters.maxEssays !== null && rec.university.essaysRequired > filters.maxEssays) return false;
       return true;
     });
 
@@ -412,26 +141,26 @@ const Recommendations: React.FC = () => {
           aVal = a.matchScore;
           bVal = b.matchScore;
           break;
-        case 'acceptanceRate':
-          aVal = a.university.acceptanceRate;
-          bVal = b.university.acceptanceRate;
+        case 'apsScoreRequired':
+          aVal = a.university.apsScoreRequired;
+          bVal = b.university.apsScoreRequired;
           break;
-        case 'ranking':
-          aVal = a.university.ranking || 999999;
-          bVal = b.university.ranking || 999999;
-          break;
-        case 'applicationFee':
-          aVal = a.university.applicationFee || 0;
-          bVal = b.university.applicationFee || 0;
+        case 'tuitionFeesAnnual':
+          aVal = a.university.tuitionFeesAnnual;
+          bVal = b.university.tuitionFeesAnnual;
           break;
         case 'deadline':
-          aVal = new Date(a.university.deadline || '9999-12-31').getTime();
-          bVal = new Date(b.university.deadline || '9999-12-31').getTime();
+          aVal = a.university.applicationDeadline ? new Date(a.university.applicationDeadline).getTime() : null;
+          bVal = b.university.applicationDeadline ? new Date(b.university.applicationDeadline).getTime() : null;
           break;
         default:
           return 0;
       }
       
+      // Unknown values go last whichever way the list is sorted
+      if (aVal === null || aVal === undefined) return bVal === null || bVal === undefined ? 0 : 1;
+      if (bVal === null || bVal === undefined) return -1;
+      
       if (filters.sortOrder === 'asc') {
         return aVal < bVal ? -1 : aVal > bVal ? 1 : 0;
       } else {
@@ -512,12 +241,12 @@ const Recommendations: React.FC = () => {
     });
   };
 
-  const formatCurrency = (amount?: number) => {
+  const formatCurrency = (amount?: number | null) => {
     if (!amount) return 'N/A';
     return `R${amount.toLocaleString()}`;
   };
 
-  const formatDate = (dateString?: string) => {
+  const formatDate = (dateString?: string | null) => {
     if (!dateString) return 'N/A';
     try {
       return new Date(dateString).toLocaleDateString('en-US', {
@@ -533,6 +262,7 @@ const Recommendations: React.FC = () => {
   const safetySchools = filteredAndSortedRecommendations.filter(r => r.category === 'Safety');
   const targetSchools = filteredAndSortedRecommendations.filter(r => r.category === 'Target');
   const reachSchools = filteredAndSortedRecommendations.filter(r => r.category === 'Reach');
+  const unknownSchools = filteredAndSortedRecommendations.filter(r => r.category === 'Unknown');
 
   if (loading) {
     return (
@@ -545,6 +275,42 @@ const Recommendations: React.FC = () => {
     );
   }
 
+  if (error) {
+    return (
+      <div className="bg-red-50 border border-red-200 rounded-lg p-6">
+        <div className="flex items-center">
+          <ExclamationTriangleIcon className="h-6 w-6 text-red-600 mr-2" />
+          <h2 className="text-lg font-semibold text-red-900">Could not load recommendations</h2>
+        </div>
+        <p className="text-red-800 mt-2">{error}</p>
+        <button
+          onClick={loadRecommendations}
+          className="mt-4 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+        >
+          Try Again
+        </button>
+      </div>
+    );
+  }
+
+  if (!profile || (!profile.apsScore && !profile.subjects?.length)) {
+    return (
+      <div className="bg-white rounded-lg shadow p-8 text-center">
+        <AcademicCapIcon className="mx-auto h-12 w-12 text-blue-600" />
+        <h2 className="mt-4 text-xl font-semibold text-gray-900">Add your matric results first</h2>
+        <p className="mt-2 text-gray-600">
+          Recommendations are based on your APS score, subjects, province and budget.
+        </p>
+        <Link
+          to="/profile"
+          className="inline-block mt-6 px-6 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+        >
+          Complete Your Profile
+        </Link>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-6">
       {/* Header */}
@@ -559,14 +325,34 @@ const Recommendations: React.FC = () => {
               Personalized recommendations based on your academic profile
             </p>
           </div>
-          <button
-            onClick={refreshRecommendations}
-            disabled={refreshing}
-            className="flex items-center space-x-2 px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
-          >
-            <ArrowPathIcon className={`h-5 w-5 ${refreshing ? 'animate-spin' : ''}`} />
-            <span>Refresh</span>
-          </button>
+          <div className="flex items-center space-x-2">
+            {weights && (
+              <button
+                onClick={() => setShowWeights(!showWeights)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+              >
+                <ScaleIcon className="h-5 w-5" />
+                <span>Weights</span>
+              </button>
+            )}
+            {profile && profile.subjects?.length > 0 && (
+              <button
+                onClick={() => setShowSimulator(!showSimulator)}
+                className="flex items-center space-x-2 px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors"
+              >
+                <AdjustmentsHorizontalIcon className="h-5 w-5" />
+                <span>What if?</span>
+              </button>
+            )}
+            <button
+              onClick={refreshRecommendations}
+              disabled={refreshing}
+              className="flex items-center space-x-2 px-4 py-2 bg-white/20 rounded-lg hover:bg-white/30 transition-colors disabled:opacity-50"
+            >
+              <ArrowPathIcon className={`h-5 w-5 ${refreshing ? 'animate-spin' : ''}`} />
+              <span>Refresh</span>
+            </button>
+          </div>
         </div>
         
         {profile && (
@@ -577,24 +363,24 @@ const Recommendations: React.FC = () => {
             </h3>
             <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm text-blue-100">
               <div>
-                <span className="block text-blue-200">GPA</span>
-                <span className="text-white font-semibold text-lg">{profile.gpa}</span>
+                <span className="block text-blue-200">APS</span>
+                <span className="text-white font-semibold text-lg">{profile.apsScore || '--'}</span>
               </div>
-              {profile.sat && (
+              {profile.province && (
                 <div>
-                  <span className="block text-blue-200">SAT</span>
-                  <span className="text-white font-semibold text-lg">{profile.sat}</span>
+                  <span className="block text-blue-200">Home Province</span>
+                  <span className="text-white font-semibold">{profile.province}</span>
                 </div>
               )}
-              {profile.act && (
+              {profile.budgetRange?.max ? (
                 <div>
-                  <span className="block text-blue-200">ACT</span>
-                  <span className="text-white font-semibold text-lg">{profile.act}</span>
+                  <span className="block text-blue-200">Annual Budget</span>
+                  <span className="text-white font-semibold">R{profile.budgetRange.max.toLocaleString()}</span>
                 </div>
-              )}
+              ) : null}
               {profile.intendedMajor && (
                 <div>
-                  <span className="block text-blue-200">Intended Major</span>
+                  <span className="block text-blue-200">Intended Programme</span>
                   <span className="text-white font-semibold">{profile.intendedMajor}</span>
                 </div>
               )}
@@ -603,6 +389,16 @@ const Recommendations: React.FC = () => {
         )}
       </div>
 
+      {/* How much each factor counts towards the match scores */}
+      {showWeights && weights && (
+        <ScoreWeightsPanel weights={weights} applying={refreshing} onApply={applyWeights} />
+      )}
+
+      {/* Projected marks, compared with the current recommendations */}
+      {showSimulator && profile && (
+        <WhatIfSimulator profile={profile} getCategoryColor={getCategoryColor} onClose={() => setShowSimulator(false)} />
+      )}
+
       {/* Profile Analysis */}
       {profileAnalysis && (
         <div className="bg-white rounded-lg shadow p-6">
@@ -610,6 +406,7 @@ const Recommendations: React.FC = () => {
             <TrophyIcon className="h-6 w-6 mr-2 text-yellow-600" />
             Profile Analysis
           </h2>
+          {summary && <p className="text-sm text-gray-600 mb-4">{summary}</p>}
           <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
             <div>
               <h3 className="font-medium text-green-800 mb-2 flex items-center">
@@ -713,6 +510,12 @@ const Recommendations: React.FC = () => {
           )}
         </div>
       </div>
+      {unknownSchools.length > 0 && (
+        <p className="text-sm text-gray-600">
+          {unknownSchools.length} {unknownSchools.length === 1 ? 'university does' : 'universities do'} not publish a minimum APS
+          {profile?.intendedMajor ? ` for ${profile.intendedMajor}` : ''}, so {unknownSchools.length === 1 ? 'it is' : 'they are'} listed last without a category.
+        </p>
+      )}
 
       {/* Comparison Bar */}
       {comparisonList.length > 0 && (
@@ -765,7 +568,7 @@ const Recommendations: React.FC = () => {
                   Categories
                 </label>
                 <div className="space-y-2">
-                  {['Safety', 'Target', 'Reach'].map((category) => (
+                  {['Safety', 'Target', 'Reach', 'Unknown'].map((category) => (
                     <label key={category} className="flex items-center">
                       <input
                         type="checkbox"
@@ -818,9 +621,8 @@ const Recommendations: React.FC = () => {
                     className="flex-1 px-3 py-2 border border-gray-300 rounded focus:ring-2 focus:ring-blue-500"
                   >
                     <option value="matchScore">Match Score</option>
-                    <option value="acceptanceRate">Acceptance Rate</option>
-                    <option value="ranking">Ranking</option>
-                    <option value="applicationFee">Application Fee</option>
+                    <option value="apsScoreRequired">APS Required</option>
+                    <option value="tuitionFeesAnnual">Annual Tuition</option>
                     <option value="deadline">Deadline</option>
                   </select>
                   <button
@@ -895,8 +697,8 @@ interface RecommendationCardProps {
   onSave: () => void;
   onCompare: () => void;
   onToggleExpansion: () => void;
-  formatCurrency: (amount?: number) => string;
-  formatDate: (date?: string) => string;
+  formatCurrency: (amount?: number | null) => string;
+  formatDate: (date?: string | null) => string;
   getCategoryColor: (category: string) => string;
   getCategoryIcon: (category: string) => React.ReactNode;
   getMatchScoreColor: (score: number) => string;
@@ -930,10 +732,10 @@ const RecommendationCard: React.FC<RecommendationCardProps> = ({
                 <div className="flex items-center text-gray-600 mb-2">
                   <MapPinIcon className="h-4 w-4 mr-1" />
                   <span className="text-sm">{rec.university.location}</span>
-                  {rec.university.ranking && (
+                  {rec.university.universityType && (
                     <>
                       <span className="mx-2">•</span>
-                      <span className="text-sm">#{rec.university.ranking} ranked</span>
+                      <span className="text-sm">{rec.university.universityType}</span>
                     </>
                   )}
                 </div>
@@ -973,36 +775,52 @@ const RecommendationCard: React.FC<RecommendationCardProps> = ({
           <div className="flex items-center space-x-2">
             <AcademicCapIcon className="h-4 w-4 text-gray-400" />
             <div>
-              <div className="text-xs text-gray-500">GPA Required</div>
-              <div className="font-semibold">{rec.university.gpaRequired || 'N/A'}</div>
+              <div className="text-xs text-gray-500">APS Required</div>
+              <div className="font-semibold">
+                {rec.programme?.minimumAPS || rec.university.apsScoreRequired || 'N/A'}
+              </div>
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
-            <StarIcon className="h-4 w-4 text-gray-400" />
+            <MapPinIcon className="h-4 w-4 text-gray-400" />
             <div>
-              <div className="text-xs text-gray-500">SAT Range</div>
-              <div className="font-semibold">{rec.university.satRange || 'N/A'}</div>
+              <div className="text-xs text-gray-500">Province</div>
+              <div className="font-semibold">{rec.university.province || 'N/A'}</div>
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
-            <EyeIcon className="h-4 w-4 text-gray-400" />
+            <CurrencyDollarIcon className="h-4 w-4 text-gray-400" />
             <div>
-              <div className="text-xs text-gray-500">Acceptance Rate</div>
-              <div className="font-semibold">{rec.university.acceptanceRate}%</div>
+              <div className="text-xs text-gray-500">Annual Tuition</div>
+              <div className="font-semibold">{formatCurrency(rec.university.tuitionFeesAnnual)}</div>
             </div>
           </div>
           
           <div className="flex items-center space-x-2">
-            <CurrencyDollarIcon className="h-4 w-4 text-gray-400" />
+            <CalendarIcon className="h-4 w-4 text-gray-400" />
             <div>
-              <div className="text-xs text-gray-500">Application Fee</div>
-              <div className="font-semibold">{formatCurrency(rec.university.applicationFee)}</div>
+              <div className="text-xs text-gray-500">Applications Close</div>
+              <div className="font-semibold">{formatDate(rec.university.applicationDeadline)}</div>
             </div>
           </div>
         </div>
 
+        {/* What the match score is made of */}
+        <div className="mb-4">
+          <h4 className="text-sm font-medium text-gray-900 mb-2">Match score breakdown</h4>
+          <ScoreBreakdownBar breakdown={rec.scoreBreakdown} />
+        </div>
+
+        {/* Requirements the student's marks miss for the intended programme, and other ways in */}
+        {rec.eligibility && (
+          <div className="mb-4">
+            <EligibilityPanel result={rec.eligibility} />
+            {rec.pathways && <PathwaysPanel pathways={rec.pathways} />}
+          </div>
+        )}
+
         {/* Recommendation Reasoning */}
         <div className="bg-gradient-to-r from-blue-50 to-purple-50 border border-blue-200 rounded-lg p-4 mb-4">
           <div className="flex items-start space-x-2">
@@ -1063,38 +881,36 @@ const RecommendationCard: React.FC<RecommendationCardProps> = ({
             <div>
               <h4 className="font-semibold text-gray-900 mb-3">University Details</h4>
               <div className="space-y-3">
-                {rec.university.deadline && (
+                {typeof rec.university.publicUniversity === 'boolean' ? (
                   <div className="flex items-center space-x-2">
-                    <CalendarIcon className="h-4 w-4 text-gray-400" />
+                    <CheckCircleIcon className="h-4 w-4 text-gray-400" />
                     <span className="text-sm">
-                      <strong>Deadline:</strong> {formatDate(rec.university.deadline)}
+                      <strong>NSFAS Funding:</strong> {rec.university.publicUniversity ? 'Available at public universities' : 'Not available'}
                     </span>
                   </div>
-                )}
-                
-                {rec.university.essaysRequired !== undefined && (
+                ) : rec.university.nsfasAccredited !== undefined && (
                   <div className="flex items-center space-x-2">
-                    <ClockIcon className="h-4 w-4 text-gray-400" />
+                    <CheckCircleIcon className="h-4 w-4 text-gray-400" />
                     <span className="text-sm">
-                      <strong>Essays Required:</strong> {rec.university.essaysRequired}
+                      <strong>NSFAS Funding:</strong> {rec.university.nsfasAccredited ? 'Available' : 'Not listed'}
                     </span>
                   </div>
                 )}
                 
-                {rec.university.tuition && (
+                {rec.university.accommodationAvailable !== undefined && (
                   <div className="flex items-center space-x-2">
-                    <CurrencyDollarIcon className="h-4 w-4 text-gray-400" />
+                    <ClockIcon className="h-4 w-4 text-gray-400" />
                     <span className="text-sm">
-                      <strong>Annual Tuition:</strong> {formatCurrency(rec.university.tuition)}
+                      <strong>Residence:</strong> {rec.university.accommodationAvailable ? 'Available' : 'Not listed'}
                     </span>
                   </div>
                 )}
 
-                {rec.university.studentCount && (
+                {rec.university.studentPopulation && (
                   <div className="flex items-center space-x-2">
                     <AcademicCapIcon className="h-4 w-4 text-gray-400" />
                     <span className="text-sm">
-                      <strong>Student Population:</strong> {rec.university.studentCount.toLocaleString()}
+                      <strong>Student Population:</strong> {rec.university.studentPopulation.toLocaleString()}
                     </span>
                   </div>
                 )}
@@ -1111,6 +927,7 @@ const RecommendationCard: React.FC<RecommendationCardProps> = ({
                     <span className={`px-2 py-1 rounded text-xs font-medium ${
                       rec.academicFit === 'Excellent' ? 'bg-green-100 text-green-800' :
                       rec.academicFit === 'Good' ? 'bg-blue-100 text-blue-800' :
+                      rec.academicFit === 'Unknown' ? 'bg-gray-100 text-gray-800' :
                       'bg-orange-100 text-orange-800'
                     }`}>
                       {rec.academicFit}
@@ -1151,24 +968,50 @@ const RecommendationCard: React.FC<RecommendationCardProps> = ({
             </div>
           </div>
 
-          {/* Programs and Requirements */}
-          {(rec.university.programs || rec.university.requirements) && (
+          {/* Tuition, residence and living costs less expected funding */}
+          <div className="mt-6 pt-4 border-t border-gray-300 md:w-1/2">
+            <FundingBreakdown funding={rec.funding} />
+          </div>
+
+          {/* Programmes and Requirements */}
+          {(rec.university.programs?.length || rec.university.subjectRequirements?.length) ? (
             <div className="mt-6 pt-4 border-t border-gray-300">
-              {rec.university.programs && (
+              {rec.programme && (
+                <div className="mb-4">
+                  <h4 className="font-semibold text-gray-900 mb-2">
+                    {rec.programme.qualification} ({rec.programme.durationYears} years)
+                  </h4>
+                  <ul className="text-sm text-gray-700 space-y-1">
+                    {rec.programme.minimumAPS && <li>• Minimum APS: {rec.programme.minimumAPS}</li>}
+                    {rec.programme.requiredSubjects.map(requirement => (
+                      <li key={requirement.subject}>
+                        • {[requirement, ...requirement.alternatives]
+                          .map(option => `${option.subject} level ${option.minimumLevel}`)
+                          .join(' or ')}
+                      </li>
+                    ))}
+                  </ul>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Source: {rec.programme.source.fileName}, page {rec.programme.source.page}
+                  </p>
+                </div>
+              )}
+
+              {rec.university.programs && rec.university.programs.length > 0 && (
                 <div className="mb-4">
-                  <h4 className="font-semibold text-gray-900 mb-2">Programs Offered</h4>
-                  <p className="text-sm text-gray-700">{rec.university.programs}</p>
+                  <h4 className="font-semibold text-gray-900 mb-2">Programmes Offered</h4>
+                  <p className="text-sm text-gray-700">{rec.university.programs.join(', ')}</p>
                 </div>
               )}
               
-              {rec.university.requirements && (
+              {rec.university.subjectRequirements && rec.university.subjectRequirements.length > 0 && (
                 <div>
-                  <h4 className="font-semibold text-gray-900 mb-2">Additional Requirements</h4>
-                  <p className="text-sm text-gray-700">{rec.university.requirements}</p>
+                  <h4 className="font-semibold text-gray-900 mb-2">Subjects Mentioned in Requirements</h4>
+                  <p className="text-sm text-gray-700">{rec.university.subjectRequirements.join(', ')}</p>
                 </div>
               )}
             </div>
-          )}
+          ) : null}
         </div>
       )}
     </div>
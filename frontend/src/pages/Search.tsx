@@ -1,5 +1,5 @@
 // Updated Search component with AI chat functionality
-import React, { useState, useEffect, useCallback, useMemo } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { 
   MagnifyingGlassIcon, 
@@ -17,22 +17,14 @@ import {
   CheckBadgeIcon,
   ExclamationTriangleIcon,
   ChatBubbleLeftRightIcon,
-  SparklesIcon
+  SparklesIcon,
+  StopCircleIcon
 } from '@heroicons/react/24/outline';
 import { BookmarkIcon as BookmarkSolidIcon } from '@heroicons/react/24/solid';
-import { searchUniversities, askAIQuestion } from '../services/api';
-import { University, SearchFilters, PaginatedResponse, SAUniversityCardProps, SearchState, SASearchFilters } from '../types';
-
-// Add AI Chat interface
-interface AIResponse {
-  answer: string;
-  sources: Array<{
-    fileName: string;
-    universityName: string;
-    relevantContent: string;
-  }>;
-  searchType: string;
-}
+import { searchUniversities, streamAIQuestion, deleteConversation, getProfile, checkProgrammesEligibility } from '../services/api';
+import { University, SAUniversityCardProps, SearchState, SASearchFilters, AISource, ChatMessage, EligibilityResult } from '../types';
+import EligibilityPanel from '../components/EligibilityPanel';
+import { SA_PROVINCES } from '../constants';
 
 const INITIAL_FILTERS: SASearchFilters = {
   minAPS: undefined,
@@ -48,9 +40,12 @@ const INITIAL_FILTERS: SASearchFilters = {
   sortOrder: 'asc'
 };
 
-const SA_PROVINCES = [
-  'Eastern Cape', 'Free State', 'Gauteng', 'KwaZulu-Natal',
-  'Limpopo', 'Mpumalanga', 'Northern Cape', 'North West', 'Western Cape'
+// Card values with their labels, for reporting which ones the prospectus left out
+const CARD_FIELDS: Array<{ field: keyof University; label: string }> = [
+  { field: 'apsScoreRequired', label: 'APS' },
+  { field: 'studentPopulation', label: 'student population' },
+  { field: 'tuitionFeesAnnual', label: 'annual fees' },
+  { field: 'applicationDeadline', label: 'deadline' }
 ];
 
 const UNIVERSITY_TYPES = ['Traditional', 'University of Technology', 'Comprehensive'];
@@ -93,12 +88,21 @@ const Search: React.FC = () => {
   const [comparisonList, setComparisonList] = useState<University[]>([]);
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('list');
   const [isFirstLoad, setIsFirstLoad] = useState(true);
+  const [eligibility, setEligibility] = useState<Map<string, EligibilityResult[]>>(new Map());
+  const [intendedMajor, setIntendedMajor] = useState('');
   
   // AI Chat state
   const [showAIChat, setShowAIChat] = useState(false);
-  const [aiResponse, setAiResponse] = useState<AIResponse | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [chatInput, setChatInput] = useState('');
   const [aiLoading, setAiLoading] = useState(false);
   const [aiError, setAiError] = useState<string | null>(null);
+  const [activeCitation, setActiveCitation] = useState<string | null>(null);
+  const [aiStreaming, setAiStreaming] = useState(false);
+  const aiAbortRef = useRef<AbortController | null>(null);
+  const chatEndRef = useRef<HTMLDivElement | null>(null);
+  // A ref, not state: handleSearch holds on to handleAIQuestion between renders
+  const chatSessionRef = useRef<string | null>(null);
 
   // Detect if query is natural language vs simple search
   const isNaturalLanguageQuery = (query: string) => {
@@ -140,20 +144,7 @@ const Search: React.FC = () => {
             error: null,
             pagination: response.pagination || null
           }));
-          
-          // Show AI answer if available
-          if ((response as any).aiAnswer) {
-            setAiResponse({
-              answer: (response as any).aiAnswer,
-              sources: response.data?.map((uni: University) => ({
-                fileName: uni.universityName,
-                universityName: uni.universityName,
-                relevantContent: uni.summary || uni.content || `Information about ${uni.universityName}`
-              })) || [],
-              searchType: 'ai-enhanced'
-            });
-            setShowAIChat(true);
-          }
+
         } else {
           setSearchState(prev => ({
             ...prev,
@@ -179,30 +170,166 @@ const Search: React.FC = () => {
 
   const handleAIQuestion = async (question: string) => {
     if (!question.trim()) return;
+
+    // Only one answer streams at a time
+    aiAbortRef.current?.abort();
+    const controller = new AbortController();
+    aiAbortRef.current = controller;
     
     setAiLoading(true);
+    setAiStreaming(true);
     setAiError(null);
+    setActiveCitation(null);
+    setShowAIChat(true);
+    setChatMessages(prev => [
+      ...prev.map(message => (message.streaming ? { ...message, streaming: false } : message)),
+      { role: 'user', content: question },
+      { role: 'assistant', content: '', sources: [], streaming: true }
+    ]);
+
+    // Only the last message, the answer being streamed, ever changes
+    const updateAnswer = (update: (message: ChatMessage) => ChatMessage) => {
+      setChatMessages(prev => [...prev.slice(0, -1), update(prev[prev.length - 1])]);
+    };
     
     try {
-      const response = await askAIQuestion(question);
-      
-      if (response.success) {
-        if (response.data) {
-          setAiResponse(response.data);
-          setShowAIChat(true);
-        } else {
-          setAiResponse(null);
+      const result = await streamAIQuestion(
+        question,
+        (text) => {
+          setAiLoading(false);
+          updateAnswer(message => ({ ...message, content: message.content + text }));
+        },
+        { signal: controller.signal, sessionId: chatSessionRef.current }
+      );
+
+      if (result.sessionId) chatSessionRef.current = result.sessionId;
+      updateAnswer(() => ({
+        role: 'assistant',
+        content: result.answer,
+        sources: result.sources,
+        grounding: result.grounding
+      }));
+    } catch (error: any) {
+      // A cancelled answer keeps whatever had arrived
+      if (controller.signal.aborted) {
+        // Replaced by a newer question, whose answer is now the last message
+        if (aiAbortRef.current === controller) {
+          updateAnswer(message => ({ ...message, streaming: false }));
         }
       } else {
-        setAiError(response.error || 'Failed to get AI response');
+        setAiError(error.message);
+        updateAnswer(message => ({ ...message, streaming: false, error: true }));
       }
-    } catch (error: any) {
-      setAiError(error.message);
     } finally {
-      setAiLoading(false);
+      if (aiAbortRef.current === controller) {
+        aiAbortRef.current = null;
+        setAiLoading(false);
+        setAiStreaming(false);
+      }
     }
   };
 
+  const cancelAIQuestion = () => {
+    aiAbortRef.current?.abort();
+  };
+
+  const handleChatSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!chatInput.trim() || aiStreaming) return;
+    handleAIQuestion(chatInput.trim());
+    setChatInput('');
+  };
+
+  // Forget the thread on both ends and start over
+  const startNewChat = () => {
+    aiAbortRef.current?.abort();
+    if (chatSessionRef.current) deleteConversation(chatSessionRef.current);
+    chatSessionRef.current = null;
+    setChatMessages([]);
+    setAiError(null);
+    setActiveCitation(null);
+  };
+
+  // Citation numbers restart with every answer, so they are keyed by message too
+  const citationKey = (messageIndex: number, id: number) => `${messageIndex}-${id}`;
+
+  const handleCitationClick = (messageIndex: number, id: number) => {
+    const key = citationKey(messageIndex, id);
+    setActiveCitation(key);
+    document.getElementById(`ai-source-${key}`)?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  };
+
+  // Turn the answer's [n] markers into buttons that jump to source n
+  const renderCitedAnswer = (answer: string, sources: AISource[], messageIndex: number) => {
+    const citedIds = new Set(sources.map(source => source.id));
+
+    return answer.split(/(\[\d+\])/).map((part, idx) => {
+      const match = part.match(/^\[(\d+)\]$/);
+      const id = match ? parseInt(match[1], 10) : null;
+
+      if (id === null || !citedIds.has(id)) {
+        return <React.Fragment key={idx}>{part}</React.Fragment>;
+      }
+
+      return (
+        <button
+          key={idx}
+          type="button"
+          onClick={() => handleCitationClick(messageIndex, id)}
+          className="inline-flex items-center px-1 mx-0.5 text-xs font-medium text-purple-700 bg-purple-100 rounded hover:bg-purple-200 align-super"
+          title={`Source ${id}`}
+        >
+          {id}
+        </button>
+      );
+    });
+  };
+
+  // Highlight the claims the sources do not back up, with the reason on hover
+  const renderGroundedAnswer = (message: ChatMessage, messageIndex: number) => {
+    const sources = message.sources || [];
+    const flagged = (message.grounding?.claims || [])
+      .filter(claim => claim.status !== 'supported')
+      .sort((a, b) => a.start - b.start);
+
+    const parts: React.ReactNode[] = [];
+    let cursor = 0;
+    flagged.forEach((claim, idx) => {
+      if (claim.start < cursor) return;
+      parts.push(
+        <React.Fragment key={`text-${idx}`}>
+          {renderCitedAnswer(message.content.slice(cursor, claim.start), sources, messageIndex)}
+        </React.Fragment>
+      );
+      parts.push(
+        <mark
+          key={`claim-${idx}`}
+          title={claim.status === 'contradicted' ? `Contradicts the documents: ${claim.reason}` : `Not found in the documents: ${claim.reason}`}
+          className={claim.status === 'contradicted'
+            ? 'bg-red-100 text-red-900 underline decoration-wavy decoration-red-400 rounded-sm'
+            : 'bg-amber-100 text-amber-900 underline decoration-dotted decoration-amber-500 rounded-sm'}
+        >
+          {renderCitedAnswer(message.content.slice(claim.start, claim.end), sources, messageIndex)}
+        </mark>
+      );
+      cursor = claim.end;
+    });
+    parts.push(
+      <React.Fragment key="text-end">
+        {renderCitedAnswer(message.content.slice(cursor), sources, messageIndex)}
+      </React.Fragment>
+    );
+
+    return parts;
+  };
+
+  const formatSourcePages = (source: AISource) => {
+    if (!source.page) return null;
+    return source.pageEnd && source.pageEnd !== source.page
+      ? `pp. ${source.page}-${source.pageEnd}`
+      : `p. ${source.page}`;
+  };
+
   const handleSearch = useCallback((page: number = 1) => {
     console.log('Search initiated:', { query: searchState.query, filters, page });
     
@@ -253,6 +380,41 @@ const Search: React.FC = () => {
     setComparisonList(prev => prev.filter(u => u.id !== universityId));
   };
 
+  // Programme eligibility for the saved profile's marks, grouped by university for the cards
+  useEffect(() => {
+    const loadEligibility = async () => {
+      try {
+        const profileResponse = await getProfile();
+        const profile = profileResponse.success ? profileResponse.data : null;
+        if (!profile?.subjects?.length) return;
+
+        const query = profile.intendedMajor?.trim() || '';
+        const response = await checkProgrammesEligibility(profile.subjects, { query });
+        if (!response.success || !response.data) return;
+
+        const byUniversity = new Map<string, EligibilityResult[]>();
+        response.data.forEach(result => {
+          byUniversity.set(result.universityId, [...(byUniversity.get(result.universityId) || []), result]);
+        });
+        setEligibility(byUniversity);
+        setIntendedMajor(query);
+      } catch (error) {
+        // Without a saved profile the cards simply show no eligibility
+        console.warn('Eligibility check skipped:', error);
+      }
+    };
+
+    loadEligibility();
+  }, []);
+
+  // Stop a streaming answer when leaving the page
+  useEffect(() => () => aiAbortRef.current?.abort(), []);
+
+  // Keep the newest message in view as the thread grows
+  useEffect(() => {
+    chatEndRef.current?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+  }, [chatMessages.length]);
+
   // Initial load
   useEffect(() => {
     if (isFirstLoad) {
@@ -327,46 +489,121 @@ const Search: React.FC = () => {
                 <SparklesIcon className="h-5 w-5 text-purple-600" />
                 <h3 className="font-semibold text-gray-900">AI University Assistant</h3>
               </div>
-              <button
-                onClick={() => setShowAIChat(false)}
-                className="text-gray-400 hover:text-gray-600"
-              >
-                <XMarkIcon className="h-5 w-5" />
-              </button>
+              <div className="flex items-center space-x-3">
+                {chatMessages.length > 0 && !aiStreaming && (
+                  <button
+                    onClick={startNewChat}
+                    className="px-2 py-1 text-sm text-gray-600 bg-white border border-gray-200 rounded hover:bg-gray-50"
+                  >
+                    New chat
+                  </button>
+                )}
+                {aiStreaming && (
+                  <button
+                    onClick={cancelAIQuestion}
+                    className="flex items-center space-x-1 px-2 py-1 text-sm text-purple-700 bg-white border border-purple-200 rounded hover:bg-purple-50"
+                  >
+                    <StopCircleIcon className="h-4 w-4" />
+                    <span>Cancel</span>
+                  </button>
+                )}
+                <button
+                  onClick={() => setShowAIChat(false)}
+                  className="text-gray-400 hover:text-gray-600"
+                >
+                  <XMarkIcon className="h-5 w-5" />
+                </button>
+              </div>
             </div>
           </div>
           
           <div className="p-6">
-            {aiLoading ? (
-              <div className="flex items-center space-x-3">
-                <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
-                <span className="text-gray-600">AI is thinking...</span>
-              </div>
-            ) : aiError ? (
-              <div className="text-red-600 bg-red-50 p-3 rounded-lg">
-                <p className="font-medium">AI Error:</p>
-                <p>{aiError}</p>
-              </div>
-            ) : aiResponse ? (
-              <div className="space-y-4">
-                <div className="bg-purple-50 p-4 rounded-lg">
-                  <h4 className="font-medium text-purple-900 mb-2">AI Response:</h4>
-                  <p className="text-gray-700 whitespace-pre-wrap">{aiResponse.answer}</p>
-                </div>
-                
-                {aiResponse.sources.length > 0 && (
-                  <div>
-                    <h4 className="font-medium text-gray-900 mb-2">Sources:</h4>
-                    <div className="space-y-2">
-                      {aiResponse.sources.map((source, idx) => (
-                        <div key={idx} className="border rounded-lg p-3 bg-gray-50">
-                          <h5 className="font-medium text-gray-900">{source.universityName}</h5>
-                          <p className="text-sm text-gray-600 mt-1">{source.relevantContent}</p>
+            {chatMessages.length > 0 ? (
+              <div className="space-y-4 max-h-[32rem] overflow-y-auto">
+                {chatMessages.map((message, messageIndex) => (
+                  message.role === 'user' ? (
+                    <div key={messageIndex} className="flex justify-end">
+                      <p className="max-w-[80%] px-4 py-2 bg-purple-600 text-white rounded-lg whitespace-pre-wrap">
+                        {message.content}
+                      </p>
+                    </div>
+                  ) : (
+                    <div key={messageIndex} className="space-y-3">
+                      <div className={`p-4 rounded-lg ${message.error ? 'bg-red-50' : 'bg-purple-50'}`}>
+                        {message.streaming && aiLoading && !message.content ? (
+                          <div className="flex items-center space-x-3">
+                            <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-purple-600"></div>
+                            <span className="text-gray-600">AI is thinking...</span>
+                          </div>
+                        ) : (
+                          <p className="text-gray-700 whitespace-pre-wrap">
+                            {message.streaming
+                              ? renderCitedAnswer(message.content, message.sources || [], messageIndex)
+                              : renderGroundedAnswer(message, messageIndex)}
+                            {message.streaming && aiStreaming && (
+                              <span className="inline-block w-2 h-4 ml-0.5 bg-purple-400 animate-pulse align-middle" />
+                            )}
+                          </p>
+                        )}
+                        {message.grounding && message.grounding.summary.total > 0 && (
+                          message.grounding.summary.unsupported + message.grounding.summary.contradicted > 0 ? (
+                            <p className="flex items-start text-xs text-amber-800 mt-3">
+                              <ExclamationTriangleIcon className="h-4 w-4 mr-1 flex-shrink-0" />
+                              <span>
+                                {message.grounding.summary.contradicted > 0 &&
+                                  `${message.grounding.summary.contradicted} highlighted claim${message.grounding.summary.contradicted === 1 ? ' contradicts' : 's contradict'} the documents. `}
+                                {message.grounding.summary.unsupported > 0 &&
+                                  `${message.grounding.summary.unsupported} could not be found in them. `}
+                                Check these against the prospectus before relying on them.
+                              </span>
+                            </p>
+                          ) : (
+                            <p className="flex items-center text-xs text-green-700 mt-3">
+                              <CheckBadgeIcon className="h-4 w-4 mr-1" />
+                              All {message.grounding.summary.total} claims checked against the documents
+                            </p>
+                          )
+                        )}
+                        {message.error && aiError && messageIndex === chatMessages.length - 1 && (
+                          <p className="text-sm text-red-600 mt-2">AI Error: {aiError}</p>
+                        )}
+                      </div>
+
+                      {message.sources && message.sources.length > 0 && (
+                        <div>
+                          <h4 className="font-medium text-gray-900 mb-2">Sources:</h4>
+                          <div className="space-y-2">
+                            {message.sources.map((source, idx) => {
+                              const key = source.id ? citationKey(messageIndex, source.id) : null;
+                              return (
+                                <div
+                                  key={idx}
+                                  id={key ? `ai-source-${key}` : undefined}
+                                  className={`border rounded-lg p-3 transition-colors ${
+                                    key && key === activeCitation ? 'bg-purple-50 border-purple-300' : 'bg-gray-50'
+                                  }`}
+                                >
+                                  <h5 className="font-medium text-gray-900">
+                                    {source.id && <span className="text-purple-700 mr-1">[{source.id}]</span>}
+                                    {source.universityName}
+                                  </h5>
+                                  {source.id && (
+                                    <p className="text-xs text-gray-500 mt-0.5">
+                                      {source.fileName}
+                                      {formatSourcePages(source) && ` · ${formatSourcePages(source)}`}
+                                    </p>
+                                  )}
+                                  <p className="text-sm text-gray-600 mt-1">{source.excerpt || source.relevantContent}</p>
+                                </div>
+                              );
+                            })}
+                          </div>
                         </div>
-                      ))}
+                      )}
                     </div>
-                  </div>
-                )}
+                  )
+                ))}
+                <div ref={chatEndRef} />
               </div>
             ) : (
               <div className="text-center py-8">
@@ -385,6 +622,24 @@ const Search: React.FC = () => {
                 </div>
               </div>
             )}
+
+            <form onSubmit={handleChatSubmit} className="mt-4 flex items-center space-x-2">
+              <input
+                type="text"
+                value={chatInput}
+                onChange={(e) => setChatInput(e.target.value)}
+                placeholder={chatMessages.length > 0 ? 'Ask a follow-up question...' : 'Ask about admissions, fees, programmes...'}
+                maxLength={1000}
+                className="flex-1 px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-purple-500"
+              />
+              <button
+                type="submit"
+                disabled={!chatInput.trim() || aiStreaming}
+                className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Send
+              </button>
+            </form>
           </div>
         </div>
       )}
@@ -737,6 +992,8 @@ const Search: React.FC = () => {
                       onCompare={addToComparison}
                       isInComparison={comparisonList.some(u => u.id === university.id)}
                       viewMode={viewMode}
+                      eligibility={eligibility.get(university.id)}
+                      intendedMajor={intendedMajor}
                     />
                   ))}
                 </div>
@@ -830,9 +1087,11 @@ const SAUniversityCard: React.FC<SAUniversityCardProps> = ({
   onSave,
   onCompare,
   isInComparison,
-  viewMode
+  viewMode,
+  eligibility,
+  intendedMajor
 }) => {
-  const formatCurrency = (amount?: number) => {
+  const formatCurrency = (amount?: number | null) => {
     if (!amount) return 'N/A';
     return new Intl.NumberFormat('en-ZA', {
       style: 'currency',
@@ -841,6 +1100,19 @@ const SAUniversityCard: React.FC<SAUniversityCardProps> = ({
     }).format(amount);
   };
 
+  // Card fields the prospectus did not state - shown as N/A rather than a placeholder
+  const notStated = CARD_FIELDS
+    .filter(({ field }) => university.fieldSources?.[field] === 'unavailable')
+    .map(({ label }) => label);
+
+  // The programme to explain: one the student qualifies for, otherwise the nearest miss
+  const featuredEligibility = eligibility && eligibility.length > 0
+    ? eligibility.find(result => result.eligible) || [...eligibility].sort((a, b) => a.failures.length - b.failures.length)[0]
+    : null;
+  const eligibilitySummary = eligibility && eligibility.length > 0
+    ? `You meet the requirements for ${eligibility.filter(result => result.eligible).length} of ${eligibility.length} ${intendedMajor ? `${intendedMajor} ` : ''}programme${eligibility.length === 1 ? '' : 's'}`
+    : undefined;
+
   return (
     <div className="border border-gray-200 rounded-lg p-4 hover:shadow-md transition-shadow bg-white">
       <div className="flex justify-between items-start">
@@ -852,7 +1124,7 @@ const SAUniversityCard: React.FC<SAUniversityCardProps> = ({
               </h3>
               <div className="flex items-center text-sm text-gray-600 mt-1">
                 <MapPinIcon className="h-4 w-4 mr-1" />
-                {university.location}, {university.province}
+                {university.location || university.province || 'Location not available'}
               </div>
             </div>
             
@@ -882,7 +1154,12 @@ const SAUniversityCard: React.FC<SAUniversityCardProps> = ({
               <AcademicCapIcon className="h-4 w-4 text-gray-400 mr-2" />
               <div>
                 <span className="text-xs text-gray-500 block">APS Required</span>
-                <p className="font-medium text-sm">{university.apsScoreRequired || 'N/A'}</p>
+                <p
+                  className="font-medium text-sm"
+                  title={university.fieldSources?.apsScoreRequired === 'programmes' ? 'Lowest minimum APS across degree programmes' : undefined}
+                >
+                  {university.apsScoreRequired || 'N/A'}
+                </p>
               </div>
             </div>
             
@@ -911,6 +1188,18 @@ const SAUniversityCard: React.FC<SAUniversityCardProps> = ({
             </div>
           </div>
 
+          {notStated.length > 0 && (
+            <p className="mt-2 text-xs text-gray-500">
+              Not stated in the prospectus: {notStated.join(', ')}
+            </p>
+          )}
+
+          {featuredEligibility && (
+            <div className="mt-3">
+              <EligibilityPanel result={featuredEligibility} summary={eligibilitySummary} />
+            </div>
+          )}
+
           <div className="mt-3 flex flex-wrap gap-2">
             {university.nsfasAccredited && (
               <div className="flex items-center text-green-600 text-xs bg-green-50 px-2 py-1 rounded-full">
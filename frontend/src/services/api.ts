@@ -1,6 +1,6 @@
 // frontend/src/services/api.ts
 import axios, { AxiosError, AxiosResponse } from 'axios';
-import { University, StudentProfile, ApiResponse, SearchFilters, Recommendation, PaginatedResponse } from '../types';
+import { University, StudentProfile, ApiResponse, SearchFilters, RecommendationResult, PaginatedResponse, AIAnswer, UploadJob, Deadline, DeadlineType, MatricSubject, EligibilityResult, SimulationResult } from '../types';
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000';
 
 // Create axios instance with default configuration
@@ -79,27 +79,90 @@ api.interceptors.response.use(
   }
 );
 
-export const askAIQuestion = async (question: string): Promise<ApiResponse<{
-  answer: string;
-  sources: Array<{
-    fileName: string;
-    universityName: string;
-    relevantContent: string;
-  }>;
-  searchType: string;
-}>> => {
+export const askAIQuestion = async (question: string, sessionId?: string | null): Promise<ApiResponse<AIAnswer>> => {
   try {
     if (!question.trim()) {
       throw new Error('Question cannot be empty');
     }
     
-    const response = await api.post('/api/ask', { question });
+    const response = await api.post('/api/ask', { question, sessionId: sessionId || undefined });
     return response.data;
   } catch (error: any) {
     throw new Error(error.response?.data?.message || 'Failed to get AI response');
   }
 };
 
+/**
+ * Ask a question and receive the answer over Server-Sent Events as it is
+ * generated. onToken gets each piece of text; the promise resolves to the
+ * finished answer with its sources. Pass the sessionId from an earlier answer
+ * to ask a follow-up, and abort the signal to cancel generation.
+ */
+export const streamAIQuestion = async (
+  question: string,
+  onToken: (text: string) => void,
+  options: { signal?: AbortSignal; sessionId?: string | null } = {}
+): Promise<AIAnswer> => {
+  if (!question.trim()) {
+    throw new Error('Question cannot be empty');
+  }
+
+  const response = await fetch(`${API_BASE_URL}/api/ask/stream`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+    body: JSON.stringify({ question, sessionId: options.sessionId || undefined }),
+    signal: options.signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => null);
+    throw new Error(data?.error || 'Failed to get AI response');
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    // Events are separated by a blank line
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const rawEvent = buffer.slice(0, boundary);
+      buffer = buffer.slice(boundary + 2);
+      boundary = buffer.indexOf('\n\n');
+
+      const event = rawEvent.match(/^event: (.*)$/m)?.[1];
+      const data = rawEvent.match(/^data: (.*)$/m)?.[1];
+      if (!event || !data) continue;
+
+      const payload = JSON.parse(data);
+      if (event === 'token') {
+        onToken(payload.text);
+      } else if (event === 'done') {
+        return payload;
+      } else if (event === 'error') {
+        throw new Error(payload.error || 'Failed to get AI response');
+      }
+    }
+  }
+
+  throw new Error('The AI response ended unexpectedly');
+};
+
+// Ends a conversation started by askAIQuestion or streamAIQuestion
+export const deleteConversation = async (sessionId: string): Promise<void> => {
+  try {
+    await api.delete(`/api/conversations/${encodeURIComponent(sessionId)}`);
+  } catch (error: any) {
+    // Sessions also expire on the server, so a failed delete is not worth surfacing
+    console.warn('Failed to delete conversation:', error.message);
+  }
+};
+
   // Updated searchUniversities function for api.ts
   export const searchUniversities = async (
     query: string, 
@@ -187,13 +250,10 @@ export const getAllUniversities = async (
     const response = await api.get('/api/universities', {
       params: { page, limit }
     });
-    //return response.data;
-
-    // Fix: Handle the actual response structure
     if (response.data.success) {
       return {
         success: true,
-        data: response.data.universities, // Your backend returns 'universities', not 'data'
+        data: response.data.data,
         pagination: response.data.pagination
       };
     } else {
@@ -215,6 +275,18 @@ export const getUniversityById = async (id: string): Promise<ApiResponse<Univers
   }
 };
 
+// Soonest first; from and to are ISO dates, e.g. { from: '2025-05-01', to: '2025-07-31' }
+export const getDeadlines = async (
+  filters: { university?: string; programme?: string; type?: DeadlineType; from?: string; to?: string } = {}
+): Promise<ApiResponse<Deadline[]>> => {
+  try {
+    const response = await api.get('/api/deadlines', { params: filters });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.error || 'Failed to fetch deadlines');
+  }
+};
+
 export const compareUniversities = async (
   universityIds: string[]
 ): Promise<ApiResponse<{
@@ -231,14 +303,15 @@ export const compareUniversities = async (
     if (universityIds.length > 4) throw new Error('Cannot compare more than 4 universities');
     
     const response = await api.post('/api/compare', { universityIds });
+    const comparison = response.data.data;
     
     return {
       success: true,
       data: {
-        universities: response.data.universities,
-        analysis: response.data.analysis,
-        summary: response.data.summary,
-        highlights: response.data.highlights
+        universities: comparison.universities,
+        analysis: comparison.analysis,
+        summary: comparison.summary,
+        highlights: comparison.highlights
       },
       message: "Comparison completed successfully"
     };
@@ -249,19 +322,26 @@ export const compareUniversities = async (
   }
 };
 
+// Every programme matching the search, as /api/programmes finds them
+export const checkProgrammesEligibility = async (
+  subjects: MatricSubject[],
+  filters: { query?: string; university?: string; faculty?: string } = {}
+): Promise<ApiResponse<EligibilityResult[]> & { total?: number; eligibleCount?: number }> => {
+  try {
+    const response = await api.post('/api/eligibility', { subjects, ...filters });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.error || 'Failed to check eligibility');
+  }
+};
+
 export const getRecommendations = async (
   profile: StudentProfile
-): Promise<ApiResponse<{
-  recommendations: Recommendation[];
-  summary: string;
-  profileAnalysis: {
-    strengths: string[];
-    areasForImprovement: string[];
-    suggestions: string[];
-  };
-}>> => {
+): Promise<ApiResponse<RecommendationResult>> => {
   try {
-    if (!profile.gpa) throw new Error('GPA is required for recommendations');
+    if (!profile.apsScore && !profile.subjects?.length) {
+      throw new Error('An APS score or matric subject marks are required for recommendations');
+    }
     
     const response = await api.post('/api/recommend', profile);
     return response.data;
@@ -270,10 +350,23 @@ export const getRecommendations = async (
   }
 };
 
+// Recommendations for projected marks, against the profile's current marks
+export const simulateRecommendations = async (
+  profile: StudentProfile,
+  subjects: MatricSubject[]
+): Promise<ApiResponse<SimulationResult>> => {
+  try {
+    const response = await api.post('/api/recommend/simulate', { profile, subjects });
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.error || 'Failed to simulate recommendations');
+  }
+};
+
 export const saveProfile = async (profile: StudentProfile): Promise<ApiResponse<StudentProfile>> => {
   try {
-    if (!profile.gpa || profile.gpa < 0 || profile.gpa > 4.0) {
-      throw new Error('Valid GPA (0.0-4.0) is required');
+    if (!profile.subjects?.length) {
+      throw new Error('Matric subject marks are required');
     }
     
     const response = await api.post('/api/profile', profile);
@@ -294,12 +387,7 @@ export const getProfile = async (): Promise<ApiResponse<StudentProfile>> => {
 
 export const uploadPDF = async (
   file: File
-): Promise<ApiResponse<{
-  extractedData: Partial<StudentProfile>;
-  fileName: string;
-  fileSize: number;
-  processingTime: number;
-}>> => {
+): Promise<ApiResponse<UploadJob>> => {
   try {
     if (!file) throw new Error('File is required');
     if (file.type !== 'application/pdf') throw new Error('Only PDF files are allowed');
@@ -312,7 +400,7 @@ export const uploadPDF = async (
       headers: {
         'Content-Type': 'multipart/form-data',
       },
-      timeout: 30000, // 30 seconds for file upload
+      timeout: 30000, // 30 seconds to send the file - processing continues as a job
       onUploadProgress: (progressEvent) => {
         const percentCompleted = Math.round((progressEvent.loaded * 100) / (progressEvent.total || 1));
         console.log(`Upload Progress: ${percentCompleted}%`);
@@ -325,6 +413,16 @@ export const uploadPDF = async (
   }
 };
 
+// Poll this until the job is completed or failed
+export const getJob = async (id: string): Promise<ApiResponse<UploadJob>> => {
+  try {
+    const response = await api.get(`/api/jobs/${encodeURIComponent(id)}`);
+    return response.data;
+  } catch (error: any) {
+    throw new Error(error.response?.data?.error || 'Failed to fetch job status');
+  }
+};
+
 export const initializeData = async (): Promise<ApiResponse<{
   universitiesLoaded: number;
   dataVersion: string;
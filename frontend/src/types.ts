@@ -134,13 +134,46 @@ export interface FileUploadProps {
   isLoading?: boolean;
 }
 
+// An uploaded PDF is processed in the background, one stage after another
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+export type JobStageName = 'parse' | 'chunk' | 'extract' | 'embed' | 'index';
+
+export interface JobStage {
+  name: JobStageName;
+  status: 'pending' | 'running' | 'retrying' | 'completed' | 'failed';
+  attempts: number;
+  progress: number; // 0-100
+  error: string | null;
+  startedAt: string | null;
+  finishedAt: string | null;
+}
+
 export interface PDFUploadResult {
-  extractedData: Partial<StudentProfile>;
   fileName: string;
-  fileSize: number;
+  universityName: string;
+  wordCount: number;
+  chunkCount: number;
   processingTime: number;
 }
 
+export interface UploadJob {
+  id: string;
+  type: 'pdf-upload';
+  status: JobStatus;
+  stage: JobStageName | null;
+  progress: number; // 0-100 across all stages
+  details: {
+    fileName: string;
+    fileSize: number;
+  };
+  stages: JobStage[];
+  result: PDFUploadResult | null;
+  error: string | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
 // Utility types
 export type SortDirection = 'asc' | 'desc';
 
@@ -202,6 +235,7 @@ export const RECOMMENDATION_CATEGORIES = {
   SAFETY: 'Safety' as const,
   TARGET: 'Target' as const,
   REACH: 'Reach' as const,
+  UNKNOWN: 'Unknown' as const, // no published minimum APS to compare with
 } as const;
 
 export const FINANCIAL_FIT_LEVELS = {
@@ -237,6 +271,8 @@ export interface SAUniversityCardProps {
   onCompare: (university: University) => void;
   isInComparison: boolean;
   viewMode: 'grid' | 'list';
+  eligibility?: EligibilityResult[]; // the student's eligibility for this university's programmes
+  intendedMajor?: string; // what the programmes were searched for, empty for every programme
 }
 export interface SearchState {
   query: string;
@@ -267,33 +303,43 @@ export interface SASearchFilters extends SearchFilters {
   sortOrder: 'asc' | 'desc';
 }
 
+// Where a university field came from; unavailable fields are null
+export type FieldSource = 'extracted' | 'reference' | 'programmes' | 'unavailable';
+
 export interface University {
   content: any;
   summary: any;
   id: string;
+  universityId?: string | null;
   universityName: string;
-  location: string;
-  province: string;
+  academicYear?: number | null; // intake year of the prospectus this record comes from
+  availableYears?: number[]; // every intake year on record, newest first
+  location: string | null;
+  province: string | null;
   city?: string;
   //Added lines:
   studentCount?: number;
   tuition?: number;
-  applicationDeadline?: string;
-  apsScoreRequired?: number;
+  applicationDeadline?: string | null;
+  apsScoreRequired?: number | null;
   matricRequirements?: string;
   bachelorPassRequired?: boolean;
   subjectRequirements?: string[];
   languageMedium?: string[];
-  tuitionFeesAnnual?: number;
+  tuitionFeesAnnual?: number | null;
   accommodationAvailable?: boolean;
   nsfasAccredited?: boolean;
   bursariesAvailable?: boolean;
   programs?: string[];
   faculties?: string[];
   universityType?: string;
-  establishmentYear?: number;
-  studentPopulation?: number;
+  publicUniversity?: boolean | null; // from the prospectus registry; NSFAS funds every public university
+  establishmentYear?: number | null;
+  studentPopulation?: number | null;
   description?: string;
+  fileName?: string;
+  searchScore?: number;
+  fieldSources?: Partial<Record<string, FieldSource>>;
   // Additional fields from the original interface
   deadline?: string;
   gpaRequired?: number;
@@ -308,13 +354,101 @@ export interface University {
   website?: string;
 }
 
+// A numbered passage an AI answer cites inline as [id]
+export interface AISource {
+  id?: number;
+  fileName: string;
+  universityName: string;
+  page?: number | null;
+  pageEnd?: number | null;
+  excerpt?: string;
+  relevantContent: string;
+  relevanceScore?: number;
+}
+
+export type GroundingStatus = 'supported' | 'unsupported' | 'contradicted';
+
+// A sentence of an AI answer checked against the passages it cites
+export interface GroundedClaim {
+  text: string;
+  start: number; // character range in the answer
+  end: number;
+  citations: number[];
+  status: GroundingStatus;
+  reason: string;
+  facts: Array<{
+    text: string | null;
+    type?: 'number' | 'percent' | 'money' | 'date' | 'requirement';
+    status: GroundingStatus;
+    expected?: string;
+    source?: number;
+    reason?: string;
+  }>;
+}
+
+export interface GroundingReport {
+  claims: GroundedClaim[];
+  summary: {
+    total: number;
+    supported: number;
+    unsupported: number;
+    contradicted: number;
+  };
+}
+
+export interface AIAnswer {
+  sessionId?: string | null;
+  answer: string;
+  sources: AISource[];
+  grounding?: GroundingReport | null;
+  searchType: string;
+  metadata?: any;
+}
+
+// One message in a threaded AI conversation
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  sources?: AISource[];
+  grounding?: GroundingReport | null;
+  streaming?: boolean;
+  error?: boolean;
+}
+
+export type ExamBoard = 'NSC' | 'IEB';
+
+export type APSScheme = 'standard' | 'wits' | 'uct_fps';
+
+export interface MatricSubject {
+  name: string;
+  percentage: number;
+  level?: number; // 1-7 NSC achievement level, derived from the percentage
+}
+
+export interface APSSubjectPoints extends MatricSubject {
+  points: number;
+  counted: boolean;
+}
+
+export interface APSResult {
+  scheme: APSScheme;
+  label: string;
+  score: number;
+  maxScore: number;
+  breakdown?: APSSubjectPoints[];
+}
+
 export interface StudentProfile {
   name?: string;
-  gpa: number;
-  sat?: number;
-  act?: number;
+  // South African matric results
+  examBoard: ExamBoard;
+  subjects: MatricSubject[];
+  apsScore?: number;
+  apsVariants?: APSResult[];
+  province?: string;
   locationPreference?: string[];
   intendedMajor?: string;
+  scoreWeights?: Partial<ScoreWeights>; // how the student ranks match score factors; defaults otherwise
   maxEssays?: number;
   // Additional profile fields
   extracurriculars?: string[];
@@ -324,8 +458,15 @@ export interface StudentProfile {
     min: number;
     max: number;
   };
+  // Funding circumstances, for the NSFAS estimate
+  householdIncomeBand?: HouseholdIncomeBand;
+  sassaGrant?: boolean;
+  disability?: boolean;
 }
 
+// Combined annual household income, in bands that line up with the NSFAS thresholds
+export type HouseholdIncomeBand = 'up-to-350000' | '350001-600000' | 'over-600000';
+
 export interface SearchFilters {
   minGPA?: number;
   maxGPA?: number;
@@ -342,14 +483,272 @@ export interface SearchFilters {
   programs?: string[];
 }
 
+export interface SubjectRequirementOption {
+  subject: string;
+  minimumLevel: number;
+  minimumPercentage?: number;
+}
+
+export interface SubjectRequirement extends SubjectRequirementOption {
+  alternatives: SubjectRequirementOption[];
+}
+
+export interface Programme {
+  id: string;
+  universityId: string;
+  universityName: string;
+  academicYear: number | null; // intake year the requirements apply to
+  faculty: string | null;
+  qualification: string;
+  durationYears: number;
+  minimumAPS: number | null;
+  apsScheme: APSScheme;
+  minimumAggregate: number | null; // % average, for universities that don't use an APS
+  requiredSubjects: SubjectRequirement[];
+  source: {
+    fileName: string;
+    page: number;
+    extraction?: 'table' | 'text'; // read from the rebuilt requirements table, or from the page text
+  };
+}
+
+export type DeadlineType = 'application' | 'residence' | 'bursary' | 'document_submission';
+
+// A closing date as the prospectus states it
+export interface Deadline {
+  id: string;
+  universityId: string;
+  universityName: string;
+  academicYear: number | null; // intake year the deadline is for
+  type: DeadlineType;
+  date: string; // ISO date, e.g. "2025-06-30"
+  // Who it applies to - everyone when faculty, programmeIds and applicantGroup are all empty
+  scope: {
+    faculty: string | null;
+    programmeIds: string[];
+    applicantGroup: 'international' | null;
+  };
+  description: string; // the sentence the date was read from
+  source: {
+    fileName: string;
+    page: number;
+  };
+}
+
+export type EligibilityRule = 'aps' | 'aggregate' | 'subject_level' | 'subject_missing' | 'subject_not_accepted';
+
+export type EligibilityUnit = 'aps' | 'percentage' | 'level';
+
+// One admission rule a student's results do not meet
+export interface EligibilityFailure {
+  rule: EligibilityRule;
+  subject?: string; // the subject the rule is about, for subject rules
+  taken?: string | null; // the student's subject checked against it, e.g. Mathematical Literacy
+  required: number; // in unit
+  achieved: number | null; // in unit, null when the subject was not taken
+  shortBy: number | null; // in unit
+  unit: EligibilityUnit; // subject rules use the prospectus percentage when it gives one, else the achievement level
+  requiredPercentage?: number; // subject rules: the mark needed - the prospectus percentage or the level's lowest mark
+  achievedPercentage?: number;
+  message: string; // e.g. "Mathematics level 5 needed but level 4 achieved"
+}
+
+export interface EligibilityResult {
+  programmeId: string;
+  qualification: string;
+  universityId: string;
+  universityName: string;
+  faculty: string | null;
+  eligible: boolean;
+  apsScheme: APSScheme;
+  apsScore: number;
+  minimumAPS: number | null;
+  aggregate: number; // % average of the best six subjects besides Life Orientation
+  minimumAggregate: number | null;
+  failures: EligibilityFailure[];
+}
+
+// An extended or foundation programme offered in place of a mainstream one
+export interface ExtendedProgrammePathway {
+  id: string;
+  programmeId: string | null; // its programme record, when the prospectus lists it separately
+  qualification: string;
+  durationYears: number;
+  selection: boolean; // admission also by audition, interview or the faculty's discretion
+  description: string;
+  source: {
+    fileName: string;
+    page: number;
+  };
+  eligibility: EligibilityResult | null; // null when it selects on other grounds only
+}
+
+export interface RelatedProgrammePathway {
+  programmeId: string;
+  qualification: string;
+  faculty: string;
+  durationYears: number;
+  minimumAPS: number | null;
+  minimumAggregate: number | null;
+  reason: string; // e.g. "Suggested second choice in the prospectus"
+}
+
+export interface HigherCertificatePathway {
+  id: string;
+  universityId: string | null;
+  institution: string;
+  institutionType: 'university' | 'university_of_technology' | 'tvet';
+  province: string | null; // null for institutions in every province
+  qualification: string;
+  programmeId: string | null;
+  description: string;
+  website: string;
+}
+
+// One subject mark to reach, e.g. "Improve Mathematics from 55% to at least 60%"
+export interface SubjectRewriteStep {
+  subject: string;
+  action: 'rewrite' | 'replace' | 'add';
+  from: number | null; // null for a subject not yet taken
+  to: number;
+  replaces?: string; // the subject it takes the place of, e.g. Mathematical Literacy
+  message: string;
+}
+
+export interface UpgradeOption {
+  id: string;
+  type: string;
+  name: string;
+  provider: string;
+  description: string;
+  website: string;
+}
+
+// Alternatives for a programme the student does not yet qualify for
+export interface Pathways {
+  programmeId: string;
+  extendedProgrammes: ExtendedProgrammePathway[];
+  relatedProgrammes: RelatedProgrammePathway[];
+  higherCertificates: HigherCertificatePathway[];
+  subjectRewrites: {
+    steps: SubjectRewriteStep[];
+    closesGap: boolean; // false when even these marks leave the student short
+  };
+  upgradeOptions: UpgradeOption[];
+}
+
+export type ScoreFactor = 'academic' | 'programme' | 'cost' | 'distance' | 'nsfas' | 'language';
+
+// How much each factor counts towards the match score, 0-10
+export type ScoreWeights = Record<ScoreFactor, number>;
+
+// unknown: the prospectus does not state what the factor needs; not_applicable: the profile leaves it out
+export type ScoreStatus = 'scored' | 'unknown' | 'not_applicable';
+
+// One factor's part in a match score
+export interface ScoreComponent {
+  factor: ScoreFactor;
+  label: string;
+  score: number | null; // 0-100, null unless scored
+  weight: number; // percentage of the match score this factor makes up
+  contribution: number; // points it adds to the match score: score x weight
+  status: ScoreStatus;
+  detail: string; // e.g. "APS 32 against 30 needed for Bachelor of Commerce"
+}
+
+// Whether the student's household meets the NSFAS financial criteria
+export interface NSFASEstimate {
+  status: 'likely' | 'possible' | 'unlikely' | 'unknown'; // possible: the income band straddles the limit
+  reason: string;
+  version: string | null; // the NSFAS rules version, e.g. "2024"
+  incomeThreshold: number | null;
+}
+
+export interface FundingCost {
+  amount: number | null; // null when not published
+  estimated: boolean;
+  detail: string;
+}
+
+// A year at a university, less the funding the student can expect
+export interface FundingEstimate {
+  costs: {
+    tuition: FundingCost;
+    residence: FundingCost;
+    living: FundingCost;
+    total: number;
+  };
+  expectedFunding: {
+    source: 'NSFAS';
+    version: string;
+    tuition: number | null; // null: covered in full, though the prospectus does not publish it
+    accommodation: number;
+    livingAllowance: number;
+    learningMaterials: number;
+    total: number;
+  } | null;
+  netCost: number;
+  complete: boolean; // false when the net cost leaves out unpublished tuition
+}
+
 export interface Recommendation {
   university: University;
+  programme?: Programme | null; // the intended programme's requirements, when the prospectus lists them
+  eligibility?: EligibilityResult | null; // checked against the intended programme when the profile has marks
+  pathways?: Pathways | null; // when the intended programme's requirements are not met
+  funding: FundingEstimate;
   matchScore: number;
-  category: 'Safety' | 'Target' | 'Reach';
+  scoreBreakdown: ScoreComponent[]; // contributions add up to the match score
+  category: 'Safety' | 'Target' | 'Reach' | 'Unknown'; // Unknown: no published minimum APS to compare with
   reasoning: string;
   // Additional recommendation data
   financialFit?: 'Good' | 'Moderate' | 'Stretch';
-  academicFit?: 'Excellent' | 'Good' | 'Competitive';
+  academicFit?: 'Excellent' | 'Good' | 'Competitive' | 'Unknown';
+}
+
+export interface ProfileAnalysis {
+  strengths: string[];
+  areasForImprovement: string[];
+  suggestions: string[];
+}
+
+export interface RecommendationResult {
+  recommendations: Recommendation[];
+  weights: ScoreWeights; // the weights the match scores were built with
+  nsfas: NSFASEstimate;
+  summary: string;
+  profileAnalysis: ProfileAnalysis;
+}
+
+// A programme whose eligibility changes under projected marks
+export interface SimulatedProgramme {
+  programmeId: string;
+  qualification: string;
+  universityId: string;
+  universityName: string;
+}
+
+// Recommendations for projected marks, compared with the current ones
+export interface SimulationResult extends RecommendationResult {
+  apsScore: {
+    current: number | null;
+    projected: number | null;
+  };
+  // Programmes matching the intended programme the marks qualify for
+  eligibleCount: {
+    current: number;
+    projected: number;
+  };
+  changes: {
+    categories: {
+      universityId: string;
+      universityName: string;
+      from: Recommendation['category'];
+      to: Recommendation['category'];
+    }[];
+    nowEligible: SimulatedProgramme[];
+    noLongerEligible: SimulatedProgramme[];
+  };
 }
 
 export interface ApiResponse<T = any> {
@@ -0,0 +1,50 @@
+import { calculateAPS, getAchievementLevel, validateMatricSubjects } from './aps';
+import { MatricSubject } from '../types';
+
+const subjects: MatricSubject[] = [
+  { name: 'English Home Language', percentage: 78 },
+  { name: 'Afrikaans First Additional Language', percentage: 65 },
+  { name: 'Mathematics', percentage: 82 },
+  { name: 'Physical Sciences', percentage: 74 },
+  { name: 'Life Sciences', percentage: 69 },
+  { name: 'Geography', percentage: 91 },
+  { name: 'Life Orientation', percentage: 85 }
+];
+
+test('maps percentages onto the NSC achievement scale', () => {
+  expect(getAchievementLevel(80)).toBe(7);
+  expect(getAchievementLevel(79)).toBe(6);
+  expect(getAchievementLevel(30)).toBe(2);
+  expect(getAchievementLevel(29)).toBe(1);
+});
+
+test('standard APS excludes Life Orientation', () => {
+  const result = calculateAPS(subjects);
+  expect(result.score).toBe(36);
+  expect(result.maxScore).toBe(42);
+  expect(result.breakdown?.find(s => s.name === 'Life Orientation')?.counted).toBe(false);
+});
+
+test('only the best six subjects are counted', () => {
+  const result = calculateAPS([...subjects, { name: 'History', percentage: 35 }]);
+  expect(result.score).toBe(36);
+  expect(result.breakdown?.find(s => s.name === 'History')?.counted).toBe(false);
+});
+
+test('Wits APS uses the 8-point scale plus Life Orientation', () => {
+  const result = calculateAPS(subjects, 'wits');
+  expect(result.score).toBe(40);
+  expect(result.maxScore).toBe(52);
+});
+
+test('UCT FPS sums the best six percentages', () => {
+  expect(calculateAPS(subjects, 'uct_fps').score).toBe(459);
+});
+
+test('validation requires six subjects besides LO and one maths subject', () => {
+  expect(validateMatricSubjects(subjects, 'NSC')).toEqual([]);
+  expect(validateMatricSubjects(subjects.slice(3), 'IEB')).toEqual([
+    'At least 6 subjects besides Life Orientation are needed to calculate an APS',
+    'Mathematics, Mathematical Literacy or Technical Mathematics is required'
+  ]);
+});
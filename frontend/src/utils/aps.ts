@@ -0,0 +1,148 @@
+// frontend/src/utils/aps.ts
+// Mirrors backend/services/apsCalculator.js so the profile form can show the APS as marks are typed
+import { APSResult, APSScheme, ExamBoard, MatricSubject } from '../types';
+import { EXAM_BOARDS } from '../constants';
+
+const SUBJECTS_COUNTED = 6;
+const LIFE_ORIENTATION = 'life orientation';
+const MATHEMATICS_SUBJECTS = ['Mathematics', 'Mathematical Literacy', 'Technical Mathematics'];
+
+const ACHIEVEMENT_LEVELS = [
+  { min: 80, level: 7 },
+  { min: 70, level: 6 },
+  { min: 60, level: 5 },
+  { min: 50, level: 4 },
+  { min: 40, level: 3 },
+  { min: 30, level: 2 },
+  { min: 0, level: 1 }
+];
+
+const WITS_POINTS = [
+  { min: 90, points: 8 },
+  { min: 80, points: 7 },
+  { min: 70, points: 6 },
+  { min: 60, points: 5 },
+  { min: 50, points: 4 },
+  { min: 40, points: 3 },
+  { min: 0, points: 0 }
+];
+
+const WITS_LO_POINTS = [
+  { min: 90, points: 4 },
+  { min: 80, points: 3 },
+  { min: 70, points: 2 },
+  { min: 60, points: 1 },
+  { min: 0, points: 0 }
+];
+
+export const APS_SCHEME_LABELS: Record<APSScheme, string> = {
+  standard: 'Standard APS',
+  wits: 'Wits APS',
+  uct_fps: 'UCT Faculty Points Score'
+};
+
+export const isLifeOrientation = (name: string): boolean => {
+  return name.trim().toLowerCase() === LIFE_ORIENTATION;
+};
+
+export const getAchievementLevel = (percentage: number): number => {
+  return ACHIEVEMENT_LEVELS.find(band => percentage >= band.min)!.level;
+};
+
+const getPoints = (subject: MatricSubject, scheme: APSScheme): number => {
+  const isLO = isLifeOrientation(subject.name);
+
+  if (scheme === 'uct_fps') {
+    return isLO ? 0 : Math.round(subject.percentage);
+  }
+  if (scheme === 'wits') {
+    const scale = isLO ? WITS_LO_POINTS : WITS_POINTS;
+    return scale.find(band => subject.percentage >= band.min)!.points;
+  }
+  return isLO ? 0 : getAchievementLevel(subject.percentage);
+};
+
+const getMaxScore = (scheme: APSScheme): number => {
+  if (scheme === 'uct_fps') return SUBJECTS_COUNTED * 100;
+  if (scheme === 'wits') return SUBJECTS_COUNTED * WITS_POINTS[0].points + WITS_LO_POINTS[0].points;
+  return SUBJECTS_COUNTED * ACHIEVEMENT_LEVELS[0].level;
+};
+
+export const calculateAPS = (subjects: MatricSubject[], scheme: APSScheme = 'standard'): APSResult => {
+  const rated = subjects
+    .filter(subject => subject.name.trim())
+    .map(subject => {
+      const percentage = Math.max(0, Math.min(100, Number(subject.percentage) || 0));
+      const normalized = { name: subject.name.trim(), percentage, level: getAchievementLevel(percentage) };
+      return { ...normalized, points: getPoints(normalized, scheme) };
+    });
+
+  const counted = new Set(
+    rated
+      .filter(subject => !isLifeOrientation(subject.name))
+      .sort((a, b) => b.points - a.points)
+      .slice(0, SUBJECTS_COUNTED)
+  );
+
+  // Wits adds Life Orientation on top of the best six
+  if (scheme === 'wits') {
+    rated.filter(subject => isLifeOrientation(subject.name)).forEach(subject => counted.add(subject));
+  }
+
+  return {
+    scheme,
+    label: APS_SCHEME_LABELS[scheme],
+    score: Array.from(counted).reduce((sum, subject) => sum + subject.points, 0),
+    maxScore: getMaxScore(scheme),
+    breakdown: rated.map(subject => ({ ...subject, counted: counted.has(subject) }))
+  };
+};
+
+export const calculateAllAPS = (subjects: MatricSubject[]): APSResult[] => {
+  return (Object.keys(APS_SCHEME_LABELS) as APSScheme[]).map(scheme => calculateAPS(subjects, scheme));
+};
+
+// Returns one message per problem, empty when the results can be saved
+export const validateMatricSubjects = (subjects: MatricSubject[], examBoard: ExamBoard): string[] => {
+  const errors: string[] = [];
+
+  if (!EXAM_BOARDS.includes(examBoard)) {
+    errors.push(`Exam board must be one of ${EXAM_BOARDS.join(', ')}`);
+  }
+
+  if (subjects.length === 0) {
+    errors.push('Matric subject marks are required');
+    return errors;
+  }
+
+  const names = new Set<string>();
+  subjects.forEach((subject, index) => {
+    const name = subject.name.trim();
+    if (!name) {
+      errors.push(`Subject ${index + 1} needs a name`);
+      return;
+    }
+
+    if (names.has(name.toLowerCase())) {
+      errors.push(`${name} is listed more than once`);
+    }
+    names.add(name.toLowerCase());
+
+    if (isNaN(subject.percentage) || subject.percentage < 0 || subject.percentage > 100) {
+      errors.push(`${name} must have a mark between 0 and 100%`);
+    }
+  });
+
+  if (subjects.filter(subject => subject.name.trim() && !isLifeOrientation(subject.name)).length < SUBJECTS_COUNTED) {
+    errors.push(`At least ${SUBJECTS_COUNTED} subjects besides Life Orientation are needed to calculate an APS`);
+  }
+
+  const mathsSubjects = subjects.filter(subject => MATHEMATICS_SUBJECTS.includes(subject.name.trim()));
+  if (mathsSubjects.length === 0) {
+    errors.push('Mathematics, Mathematical Literacy or Technical Mathematics is required');
+  } else if (mathsSubjects.length > 1) {
+    errors.push('Only one of Mathematics, Mathematical Literacy or Technical Mathematics can be taken');
+  }
+
+  return errors;
+};
@@ -63,16 +63,13 @@ export const validateEmail = (email: string): boolean => {
   return emailRegex.test(email);
 };
 
-export const validateGPA = (gpa: number): boolean => {
-  return gpa >= 0 && gpa <= 4.0;
+export const validatePercentage = (percentage: number): boolean => {
+  return percentage >= 0 && percentage <= 100;
 };
 
-export const validateSAT = (sat: number): boolean => {
-  return sat >= 400 && sat <= 1600;
-};
-
-export const validateACT = (act: number): boolean => {
-  return act >= 1 && act <= 36;
+// Standard APS: best six subjects at up to 7 points each
+export const validateAPS = (aps: number): boolean => {
+  return aps >= 0 && aps <= 42;
 };
 
 export const validateRequired = (value: any): boolean => {